@@ -4,6 +4,8 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeNotifications } from "@/hooks/useRealtimeNotifications";
+import { useRealtimeMessages } from "@/hooks/useRealtimeMessages";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
@@ -13,8 +15,11 @@ import SeriesPage from "./pages/series";
 import StoryPage from "./pages/story";
 import SeriesEditPage from "./pages/series-edit";
 import Notifications from "./pages/notifications";
+import MessagesPage from "./pages/messages";
 import Bookmarks from "./pages/bookmarks";
+import Drafts from "./pages/drafts";
 import SearchPage from "./pages/search";
+import HashtagPage from "./pages/hashtag";
 import SettingsPage from "./pages/settings";
 import ChapterPage from "@/pages/chapter";
 import ChapterEditor from "@/pages/chapter-editor";
@@ -23,6 +28,8 @@ import Guidelines from "@/pages/guidelines";
 import HelpPage from "@/pages/help";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminTest from "@/pages/admin-test";
+import VerifyEmailPage from "@/pages/verify-email";
+import ResetPasswordPage from "@/pages/reset-password";
 import { lazy, Suspense, Component } from "react";
 
 // Simple Error Boundary component since react-error-boundary might not be installed
@@ -89,6 +96,8 @@ const ErrorFallback = ({ error, resetErrorBoundary }: any) => (
 function AppRouter() {
   const { isAuthenticated, isLoading } = useAuth();
   const [location] = useLocation();
+  useRealtimeNotifications();
+  useRealtimeMessages();
 
   if (isLoading) {
     return (
@@ -139,13 +148,20 @@ function AppRouter() {
 
       {/* Protected routes with proper fallbacks */}
       <Route path="/search" component={isAuthenticated ? SearchPage : Explore} />
+      <Route path="/hashtag/:tag" component={HashtagPage} />
       <Route path="/notifications" component={isAuthenticated ? Notifications : Explore} />
+      <Route path="/messages" component={isAuthenticated ? MessagesPage : Explore} />
+      <Route path="/messages/:id" component={isAuthenticated ? MessagesPage : Explore} />
       <Route path="/bookmarks" component={isAuthenticated ? Bookmarks : Explore} />
+      <Route path="/drafts" component={isAuthenticated ? Drafts : Explore} />
       <Route path="/profile/:username" component={Profile} />
       <Route path="/settings" component={isAuthenticated ? SettingsPage : Landing} />
       <Route path="/guidelines" component={Guidelines} />
       <Route path="/rules" component={Guidelines} />
       <Route path="/help" component={HelpPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
+      <Route path="/forgot-password" component={ResetPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       <Route path="/admin" component={isAuthenticated ? AdminDashboard : Landing} />
       <Route path="/admin-test" component={AdminTest} />
       <Route component={NotFound} />
@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+const isMobile = (device: string) => /iOS|Android/.test(device);
+
+// Everywhere the account is signed in, with a way to sign out other devices
+export default function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked", description: "That device has been signed out." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke session.", variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/auth/sessions"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out everywhere else", description: "All other sessions have been revoked." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke sessions.", variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-medium">Active Sessions</h3>
+          <p className="text-sm text-muted-foreground">Devices currently signed in to your account</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}
+          data-testid="button-revoke-other-sessions"
+        >
+          Sign out all other sessions
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : (
+        <div className="divide-y rounded-md border">
+          {sessions.map((session) => {
+            const Icon = isMobile(session.device) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center gap-3 p-3" data-testid={`session-${session.id}`}>
+                <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {session.device}
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {session.ip ?? "Unknown IP"}
+                    {session.lastSeenAt &&
+                      ` · ${session.current ? "Active now" : `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}`}
+                    {session.createdAt &&
+                      ` · Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                    aria-label={`Sign out ${session.device}`}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
@@ -41,6 +42,8 @@ export default function AuthDialog({
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [step, setStep] = useState(1); // 1: basic info, 2: role selection, 3: preferences
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   // Form states
   const [loginForm, setLoginForm] = useState({
@@ -83,13 +86,13 @@ export default function AuthDialog({
       });
 
       if (response.ok) {
-        toast({
-          title: "Welcome back!",
-          description: "You have been successfully logged in."
-        });
-        onOpenChange(false);
-        onSuccess?.();
-        window.location.href = '/homefeed';
+        const data = await response.json();
+        if (data.twoFactorRequired) {
+          // Password accepted; the account also needs a code from its authenticator app
+          setTwoFactorStep(true);
+          return;
+        }
+        completeLogin();
       } else {
         const errorData = await response.json();
         toast({
@@ -109,6 +112,55 @@ export default function AuthDialog({
     }
   };
 
+  const completeLogin = (recoveryCodesRemaining?: number) => {
+    toast({
+      title: "Welcome back!",
+      description: recoveryCodesRemaining === undefined
+        ? "You have been successfully logged in."
+        : `You signed in with a recovery code. ${recoveryCodesRemaining} left; you can make new ones in Settings.`
+    });
+    onOpenChange(false);
+    onSuccess?.();
+    window.location.href = '/homefeed';
+  };
+
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/login/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ code: twoFactorCode })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        completeLogin(data.recoveryCodesRemaining);
+      } else {
+        setTwoFactorCode("");
+        // The server drops the sign-in after an expiry or too many wrong codes
+        if (data.code === "TWO_FACTOR_EXPIRED") {
+          setTwoFactorStep(false);
+        }
+        toast({
+          title: "Login failed",
+          description: data.message || "Invalid code",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRegisterStep1 = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -219,6 +271,8 @@ export default function AuthDialog({
       if (!open) {
         resetForm();
         setActiveTab("login");
+        setTwoFactorStep(false);
+        setTwoFactorCode("");
       }
     }}>
       <DialogContent className="sm:max-w-[500px]">
@@ -237,7 +291,47 @@ export default function AuthDialog({
           </DialogDescription>
         </DialogHeader>
 
-        {activeTab === "login" ? (
+        {activeTab === "login" && twoFactorStep ? (
+          <form onSubmit={handleTwoFactor} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-two-factor">Authentication code</Label>
+              <Input
+                id="login-two-factor"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                placeholder="123456"
+                maxLength={20}
+                required
+                data-testid="input-two-factor-code"
+              />
+              <p className="text-xs text-muted-foreground">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading || twoFactorCode.trim().length < 6}>
+              {isLoading ? "Verifying..." : "Verify"}
+            </Button>
+
+            <div className="text-center">
+              <Button
+                type="button"
+                variant="link"
+                onClick={() => {
+                  setTwoFactorStep(false);
+                  setTwoFactorCode("");
+                }}
+                className="text-sm"
+              >
+                Back to sign in
+              </Button>
+            </div>
+          </form>
+        ) : activeTab === "login" ? (
           <form onSubmit={handleLogin} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="login-email">Email or Username</Label>
@@ -252,7 +346,17 @@ export default function AuthDialog({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="login-password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="login-password">Password</Label>
+                <Link
+                  href="/forgot-password"
+                  onClick={() => onOpenChange(false)}
+                  className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                  data-testid="link-forgot-password"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <Input
                   id="login-password"
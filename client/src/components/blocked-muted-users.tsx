@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getProfileImageUrl } from "@/lib/defaultImages";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { RestrictedUser } from "@shared/schema";
+
+type ListKind = "block" | "mute";
+
+const LISTS = {
+  block: {
+    queryKey: "/api/user/blocks",
+    title: "Blocked Accounts",
+    description: "They can't follow or message you, comment on your work, mention you or invite you to collaborate, and you won't see each other's posts",
+    empty: "You haven't blocked anyone",
+    action: "Unblock",
+    done: "Unblocked",
+  },
+  mute: {
+    queryKey: "/api/user/mutes",
+    title: "Muted Accounts",
+    description: "Their posts and reposts are hidden from your feeds, search and suggestions. They aren't told.",
+    empty: "You haven't muted anyone",
+    action: "Unmute",
+    done: "Unmuted",
+  },
+} as const;
+
+function RestrictedUserList({ kind }: { kind: ListKind }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const list = LISTS[kind];
+
+  const { data: restrictedUsers = [], isLoading } = useQuery<RestrictedUser[]>({
+    queryKey: [list.queryKey],
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (user: RestrictedUser) => apiRequest("DELETE", `/api/users/${user.id}/${kind}`),
+    onSuccess: (_data, user) => {
+      queryClient.invalidateQueries({ queryKey: [list.queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user.id, "follow-status"] });
+      toast({ title: `${list.done} @${user.username}` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: `Failed to ${list.action.toLowerCase()} user.`, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium">{list.title}</h3>
+        <p className="text-sm text-muted-foreground">{list.description}</p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : restrictedUsers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{list.empty}</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {restrictedUsers.map((user) => (
+            <div key={user.id} className="flex items-center gap-3 p-3" data-testid={`${kind}-list-user-${user.id}`}>
+              <Avatar className="w-9 h-9">
+                <AvatarImage src={getProfileImageUrl(user.profileImageUrl)} />
+                <AvatarFallback>{user.displayName?.[0]}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <Link href={`/profile/${user.username}`} className="text-sm font-medium hover:underline truncate block">
+                  {user.displayName}
+                </Link>
+                <p className="text-xs text-muted-foreground truncate">
+                  @{user.username}
+                  {user.since && ` · ${formatDistanceToNow(new Date(user.since), { addSuffix: true })}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeMutation.mutate(user)}
+                disabled={removeMutation.isPending}
+                data-testid={`button-un${kind}-${user.id}`}
+              >
+                {list.action}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The accounts the user has blocked or muted, with a way to undo each
+export default function BlockedMutedUsers() {
+  return (
+    <div className="space-y-6">
+      <RestrictedUserList kind="block" />
+      <RestrictedUserList kind="mute" />
+    </div>
+  );
+}
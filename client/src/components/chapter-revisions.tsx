@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { toPlainText } from "@/lib/word-diff";
+import RevisionDiff from "@/components/revision-diff";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bookmark, Clock, History, RotateCcw, Save } from "lucide-react";
+import type { ChapterRevision, ChapterRevisionKind, ChapterRevisionSummary } from "@shared/schema";
+
+interface ChapterRevisionsProps {
+  chapterId: string;
+  current: { title: string; content: string };
+  onRestore: (revision: ChapterRevision) => void;
+}
+
+const sections: { kind: ChapterRevisionKind; label: string; icon: typeof Bookmark }[] = [
+  { kind: "snapshot", label: "Snapshots", icon: Bookmark },
+  { kind: "autosave", label: "Autosaves", icon: Clock },
+  { kind: "save", label: "Saved versions", icon: Save },
+];
+
+const revisionLabel = (revision: ChapterRevisionSummary) => {
+  const time = format(new Date(revision.createdAt!), "PPp");
+  switch (revision.kind) {
+    case "snapshot":
+      return `"${revision.name}" (${time})`;
+    case "autosave":
+      return `Autosave from ${time}`;
+    default:
+      return `Saved version replaced ${time}`;
+  }
+};
+
+const versionText = (title: string, content: string) =>
+  [title, toPlainText(content)].filter(Boolean).join("\n\n");
+
+// Restore panel of the chapter editor: named snapshots, autosaves and saved
+// versions, each diffed against the text currently in the editor
+export default function ChapterRevisions({ chapterId, current, onRestore }: ChapterRevisionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapshotName, setSnapshotName] = useState("");
+
+  const { data: revisions = [], isLoading } = useQuery<ChapterRevisionSummary[]>({
+    queryKey: ["/api/chapters", chapterId, "revisions"],
+  });
+
+  const { data: selected } = useQuery<ChapterRevision>({
+    queryKey: ["/api/chapters", chapterId, "revisions", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const snapshotMutation = useMutation({
+    mutationFn: (name: string) => apiRequest("POST", `/api/chapters/${chapterId}/revisions`, {
+      kind: "snapshot",
+      name,
+      title: current.title,
+      content: current.content,
+    }),
+    onSuccess: () => {
+      setSnapshotName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/chapters", chapterId, "revisions"] });
+      toast({ title: "Snapshot saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save snapshot", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (snapshotName.trim()) snapshotMutation.mutate(snapshotName.trim());
+        }}
+      >
+        <Input
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          placeholder="Name a snapshot of the current text, e.g. Before rewrite"
+          maxLength={100}
+          data-testid="input-snapshot-name"
+        />
+        <Button type="submit" variant="outline" disabled={!snapshotName.trim() || snapshotMutation.isPending}>
+          <Bookmark className="w-4 h-4 mr-2" />
+          Save snapshot
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : revisions.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No earlier versions yet. The editor autosaves while you write.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          {sections.map(({ kind, label, icon: Icon }) => {
+            const items = revisions.filter((revision) => revision.kind === kind);
+            return (
+              <div key={kind} className="space-y-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </h4>
+                {items.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">None yet</p>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {items.map((revision) => (
+                      <button
+                        key={revision.id}
+                        type="button"
+                        onClick={() => setSelectedId(revision.id)}
+                        className={`w-full text-left rounded-md px-2 py-1.5 text-xs hover:bg-muted ${
+                          revision.id === selectedId ? "bg-muted font-medium" : ""
+                        }`}
+                        data-testid={`revision-${revision.id}`}
+                      >
+                        <span className="block truncate">
+                          {revision.kind === "snapshot" ? revision.name : format(new Date(revision.createdAt!), "PPp")}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {formatDistanceToNow(new Date(revision.createdAt!), { addSuffix: true })} · {revision.wordCount ?? 0} words
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && selected.id === selectedId && (
+        <div className="space-y-3">
+          <RevisionDiff
+            before={{ label: revisionLabel(selected), text: versionText(selected.title, selected.content) }}
+            after={{ label: "Current text", text: versionText(current.title, current.content) }}
+          />
+          <Button variant="outline" onClick={() => onRestore(selected)} data-testid="button-restore-chapter-revision">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restore into editor
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,12 +11,13 @@ import {
   MoreHorizontal
 } from "lucide-react";
 import { getProfileImageUrl } from "@/lib/defaultImages";
-import type { Comment, User } from "@shared/schema";
+import type { AnyComment } from "@/lib/comments";
+import type { User } from "@shared/schema";
 
 interface CommentCardProps {
-  comment: Comment & {
+  comment: AnyComment & {
     author?: User;
-    replies?: Comment[];
+    replies?: AnyComment[];
     isLiked?: boolean;
   };
   level?: number;
@@ -35,6 +36,7 @@ export default function CommentCard({
     id: comment.userId,
     email: null,
     password: null,
+    emailVerifiedAt: null,
     displayName: `User ${comment.userId.slice(-4)}`,
     username: `user${comment.userId.slice(-4)}`,
     bio: null,
@@ -45,10 +47,13 @@ export default function CommentCard({
     isVerified: false,
     isAdmin: false,
     isSuperAdmin: false,
+    twoFactorRequired: false,
     writingStreak: 0,
     wordCountGoal: 500,
     weeklyPostsGoal: 5,
     genres: [],
+    userRole: "reader",
+    preferredGenres: [],
     postsCount: 0,
     followersCount: 0,
     followingCount: 0,
@@ -125,6 +130,13 @@ export default function CommentCard({
             </span>
           </div>
 
+          {/* Highlighted passage for inline chapter annotations */}
+          {"anchorText" in comment && comment.anchorText && level === 0 && (
+            <blockquote className="border-l-2 border-primary/50 pl-3 mb-2 text-xs italic text-muted-foreground line-clamp-3">
+              {comment.anchorText}
+            </blockquote>
+          )}
+
           {/* Comment Content */}
           <div className="mb-2">
             <p className="text-sm leading-relaxed whitespace-pre-wrap">
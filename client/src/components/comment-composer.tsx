@@ -4,13 +4,14 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { getCommentsQueryKey, getCreateCommentRequest, type CommentTarget } from "@/lib/comments";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, MessageCircle, X } from "lucide-react";
 
 interface CommentComposerProps {
-  postId: string;
+  target: CommentTarget;
   parentId?: string;
   replyingTo?: string;
   onCancel?: () => void;
@@ -20,7 +21,7 @@ interface CommentComposerProps {
 }
 
 export default function CommentComposer({ 
-  postId, 
+  target, 
   parentId, 
   replyingTo,
   onCancel, 
@@ -36,22 +37,14 @@ export default function CommentComposer({
 
   const createCommentMutation = useMutation({
     mutationFn: async () => {
-      if (parentId) {
-        // Creating a reply
-        return apiRequest("POST", `/api/comments/${parentId}/reply`, {
-          content: content.trim(),
-          postId
-        });
-      } else {
-        // Creating a top-level comment
-        return apiRequest("POST", `/api/posts/${postId}/comments`, {
-          content: content.trim()
-        });
-      }
+      const { url, body } = getCreateCommentRequest(target, content.trim(), parentId);
+      return apiRequest("POST", url, body);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/posts", postId, "comments"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: getCommentsQueryKey(target) });
+      if (target.type === "post") {
+        queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      }
       toast({
         title: "Comment posted!",
         description: parentId ? "Your reply has been added." : "Your comment has been posted.",
@@ -64,7 +57,7 @@ export default function CommentComposer({
       if (isUnauthorizedError(error)) {
         toast({
           title: "Sign in required",
-          description: "Please sign in to comment on posts.",
+          description: "Please sign in to comment.",
           variant: "destructive",
         });
         return;
@@ -3,31 +3,35 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { getCommentsQueryKey, getCommentsUrl, getLikeCommentUrl, getTargetLabel, type AnyComment, type CommentTarget } from "@/lib/comments";
 import CommentComposer from "@/components/comment-composer";
 import CommentTreeNode from "@/components/comment-tree-node";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MessageCircle, TrendingUp, Clock, Heart } from "lucide-react";
-import type { Comment, User } from "@shared/schema";
+import type { User } from "@shared/schema";
 
 interface CommentThreadProps {
-  postId: string;
+  target: CommentTarget;
   initialCount?: number;
 }
 
-export default function CommentThread({ postId, initialCount = 0 }: CommentThreadProps) {
+export default function CommentThread({ target, initialCount = 0 }: CommentThreadProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<"newest" | "oldest" | "popular">("newest");
 
-  // Fetch comments for the post
+  const commentsQueryKey = getCommentsQueryKey(target);
+  const targetLabel = getTargetLabel(target);
+
+  // Fetch comments for the post or story
   const { data: comments = [], isLoading, error } = useQuery({
-    queryKey: ["/api/posts", postId, "comments"],
+    queryKey: commentsQueryKey,
     queryFn: async () => {
-      const response = await fetch(`/api/posts/${postId}/comments`);
+      const response = await fetch(getCommentsUrl(target));
       if (!response.ok) {
         throw new Error('Failed to fetch comments');
       }
@@ -39,10 +43,10 @@ export default function CommentThread({ postId, initialCount = 0 }: CommentThrea
   // Like comment mutation
   const likeCommentMutation = useMutation({
     mutationFn: async (commentId: string) => {
-      return apiRequest("POST", `/api/comments/${commentId}/like`);
+      return apiRequest("POST", getLikeCommentUrl(target, commentId));
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/posts", postId, "comments"] });
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
     },
     onError: () => {
       toast({
@@ -54,14 +58,14 @@ export default function CommentThread({ postId, initialCount = 0 }: CommentThrea
   });
 
   // Define tree comment type for better type safety
-  type TreeComment = Comment & { 
+  type TreeComment = AnyComment & { 
     replies: TreeComment[];
     author?: User;
     isLiked?: boolean;
   };
 
   // Build comment tree
-  const buildCommentTree = (comments2: Comment[]): TreeComment[] => {
+  const buildCommentTree = (comments2: AnyComment[]): TreeComment[] => {
     if (!Array.isArray(comments2)) return [];
 
     const commentMap = new Map<string, TreeComment>();
@@ -185,8 +189,8 @@ export default function CommentThread({ postId, initialCount = 0 }: CommentThrea
 
       {/* Comment Composer */}
       <CommentComposer 
-        postId={postId} 
-        placeholder="Share your thoughts on this post..."
+        target={target} 
+        placeholder={`Share your thoughts on this ${targetLabel}...`}
         compact={false}
       />
 
@@ -206,7 +210,7 @@ export default function CommentThread({ postId, initialCount = 0 }: CommentThrea
             <MessageCircle className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <h4 className="font-medium mb-2">No comments yet</h4>
             <p className="text-sm text-muted-foreground mb-4">
-              Be the first to share your thoughts on this post!
+              Be the first to share your thoughts on this {targetLabel}!
             </p>
           </CardContent>
         </Card>
@@ -221,7 +225,7 @@ export default function CommentThread({ postId, initialCount = 0 }: CommentThrea
                   onReply={handleReply}
                   onLike={handleLike}
                   replyingTo={replyingTo}
-                  postId={postId}
+                  target={target}
                   onReplySuccess={handleReplySuccess}
                   onReplyCancel={handleReplyCancel}
                 />
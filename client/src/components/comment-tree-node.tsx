@@ -1,8 +1,9 @@
 import CommentCard from "@/components/comment-card";
 import CommentComposer from "@/components/comment-composer";
-import type { Comment, User } from "@shared/schema";
+import type { AnyComment, CommentTarget } from "@/lib/comments";
+import type { User } from "@shared/schema";
 
-type TreeComment = Comment & { 
+type TreeComment = AnyComment & { 
   replies: TreeComment[];
   author?: User;
   isLiked?: boolean;
@@ -14,7 +15,7 @@ interface CommentTreeNodeProps {
   onReply: (commentId: string) => void;
   onLike: (commentId: string) => void;
   replyingTo: string | null;
-  postId: string;
+  target: CommentTarget;
   onReplySuccess: () => void;
   onReplyCancel: () => void;
 }
@@ -25,7 +26,7 @@ export default function CommentTreeNode({
   onReply,
   onLike,
   replyingTo,
-  postId,
+  target,
   onReplySuccess,
   onReplyCancel,
 }: CommentTreeNodeProps) {
@@ -42,7 +43,7 @@ export default function CommentTreeNode({
       {replyingTo === comment.id && (
         <div className="mt-4" style={{ marginLeft: `${Math.min(level + 1, 6) * 2.75}rem` }}>
           <CommentComposer
-            postId={postId}
+            target={target}
             parentId={comment.id}
             replyingTo={comment.author?.displayName || `@${comment.author?.username}`}
             onSuccess={onReplySuccess}
@@ -64,7 +65,7 @@ export default function CommentTreeNode({
                 onReply={onReply}
                 onLike={onLike}
                 replyingTo={replyingTo}
-                postId={postId}
+                target={target}
                 onReplySuccess={onReplySuccess}
                 onReplyCancel={onReplyCancel}
               />
@@ -8,6 +8,7 @@ import RichTextEditor from "@/components/rich-text-editor";
 import { SpotifyTrackDisplay } from "@/components/spotify-track-display";
 import { SpotifySearch } from "@/components/spotify-search";
 import ImageGallery from "@/components/image-gallery";
+import PostRevisions from "@/components/post-revisions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -31,6 +32,8 @@ import {
   X,
   UserPlus,
   Search,
+  History,
+  Pencil,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -79,6 +82,7 @@ export default function EditPostModal({ post, isOpen, onClose }: EditPostModalPr
   const [mentionCursorPos, setMentionCursorPos] = useState(0);
   const [spotifyTrack, setSpotifyTrack] = useState<any>(null);
   const [showSpotifySearch, setShowSpotifySearch] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
     if (post) {
@@ -95,6 +99,7 @@ export default function EditPostModal({ post, isOpen, onClose }: EditPostModalPr
       setCollaboratorSearchQuery("");
       setMentions(new Set());
       setHashtags(new Set());
+      setShowHistory(false);
     }
   }, [post, isOpen]);
 
@@ -415,11 +420,31 @@ export default function EditPostModal({ post, isOpen, onClose }: EditPostModalPr
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
         <DialogHeader>
-          <DialogTitle>Edit Article</DialogTitle>
-          <DialogDescription>Modify your article content, settings, and attachments</DialogDescription>
+          <div className="flex items-start justify-between gap-4 pr-6">
+            <div className="space-y-1.5">
+              <DialogTitle>{showHistory ? "Revision History" : "Edit Article"}</DialogTitle>
+              <DialogDescription>
+                {showHistory
+                  ? "Compare earlier versions of your article word by word, or restore one"
+                  : "Modify your article content, settings, and attachments"}
+              </DialogDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              data-testid="button-toggle-history"
+            >
+              {showHistory ? <Pencil className="w-4 h-4 mr-2" /> : <History className="w-4 h-4 mr-2" />}
+              {showHistory ? "Back to editing" : "History"}
+            </Button>
+          </div>
         </DialogHeader>
 
-        <div className="space-y-6" onClick={(e) => e.stopPropagation()}>
+        {showHistory && <PostRevisions post={post} onRestored={onClose} />}
+
+        {/* Hidden rather than unmounted, so unsaved edits survive a look at the history */}
+        <div className={showHistory ? "hidden" : "space-y-6"} onClick={(e) => e.stopPropagation()}>
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <img
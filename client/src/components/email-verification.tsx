@@ -0,0 +1,60 @@
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { MailCheck } from "lucide-react";
+
+// Account email and whether it has been confirmed, with a way to resend the
+// confirmation link. A confirmed email is needed for password resets and
+// before admins can grant the verified badge.
+export default function EmailVerification() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/verify-email/send"),
+    onSuccess: () => {
+      toast({ title: "Verification email sent", description: `Check ${user?.email} for a link to confirm it.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to send verification email.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label>Email</Label>
+      {user?.email ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm">{user.email}</span>
+          {user.emailVerifiedAt ? (
+            <Badge className="flex items-center gap-1">
+              <MailCheck className="w-3 h-3" />
+              Confirmed
+            </Badge>
+          ) : (
+            <>
+              <Badge variant="secondary">Not confirmed</Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resendMutation.mutate()}
+                disabled={resendMutation.isPending}
+                data-testid="button-resend-verification"
+              >
+                {resendMutation.isPending ? "Sending..." : "Send confirmation link"}
+              </Button>
+            </>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Your account has no email, so a forgotten password can't be reset.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Link } from "wouter";
+import { Repeat2, Users } from "lucide-react";
+import PostCard from "@/components/post-card";
+import type { FeedItem as FeedItemData, Post } from "@shared/schema";
+
+// A post in a feed, with a line above it when it's there because someone the
+// viewer follows reposted or co-wrote it
+export default function FeedItem({ item }: { item: FeedItemData }) {
+  const { post, actor } = item;
+
+  return (
+    <div data-testid={`feed-item-${item.id}`}>
+      {actor && item.reason !== "post" && (
+        <div className="px-6 pt-3 text-sm text-muted-foreground">
+          <div className="flex items-center gap-2">
+            {item.reason === "repost" ? <Repeat2 className="w-4 h-4" /> : <Users className="w-4 h-4" />}
+            <Link href={`/profile/${actor.username}`} className="font-medium hover:underline">
+              {actor.displayName}
+            </Link>
+            <span>{item.reason === "repost" ? "reposted" : "collaborated on this"}</span>
+          </div>
+          {item.comment && (
+            <p className="mt-1 ml-6 text-foreground whitespace-pre-wrap break-words">{item.comment}</p>
+          )}
+        </div>
+      )}
+      <PostCard
+        post={post as unknown as Post}
+        isLiked={post.isLiked}
+        isBookmarked={post.isBookmarked}
+        isReposted={post.isReposted}
+      />
+    </div>
+  );
+}
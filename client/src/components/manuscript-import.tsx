@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, ChevronDown, FileUp, X } from "lucide-react";
+import type { ImportedChapter, ImportSplitMode, ManuscriptPreview } from "@shared/schema";
+
+interface ManuscriptImportProps {
+  seriesId: string;
+}
+
+// Upload a .docx, Markdown or text manuscript, check how it was split into
+// chapters, then add them after the story's existing chapters
+export default function ManuscriptImport({ seriesId }: ManuscriptImportProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [splitBy, setSplitBy] = useState<ImportSplitMode>("headings");
+  const [separator, setSeparator] = useState("***");
+  const [chapters, setChapters] = useState<ImportedChapter[] | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [publish, setPublish] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setChapters(null);
+    setWarnings([]);
+    setPublish(false);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<ManuscriptPreview> => {
+      const formData = new FormData();
+      formData.append("manuscript", file!);
+      formData.append("splitBy", splitBy);
+      formData.append("separator", separator);
+
+      // Use fetch directly for FormData uploads
+      const response = await fetch(`/api/series/${seriesId}/import/preview`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(message);
+      }
+      return response.json();
+    },
+    onSuccess: (preview) => {
+      setChapters(preview.chapters);
+      setWarnings(preview.warnings);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't read manuscript", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/series/${seriesId}/import`, {
+      chapters: chapters!.map(({ title, content }) => ({ title, content })),
+      publish,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/series", seriesId] });
+      toast({
+        title: "Chapters imported",
+        description: `${chapters!.length} chapter${chapters!.length === 1 ? "" : "s"} ${publish ? "published" : "saved as drafts"}.`,
+      });
+      setOpen(false);
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTitle = (index: number, title: string) => {
+    setChapters((current) => current!.map((chapter, i) => i === index ? { ...chapter, title } : chapter));
+  };
+
+  const removeChapter = (index: number) => {
+    setChapters((current) => current!.filter((_, i) => i !== index));
+  };
+
+  const canImport = !!chapters && chapters.length > 0 && chapters.every((chapter) => chapter.title.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" data-testid="button-import-manuscript">
+          <FileUp className="w-4 h-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import manuscript</DialogTitle>
+          <DialogDescription>
+            {chapters
+              ? "Check the chapters found in your file. Rename or remove any before importing."
+              : "Upload a Word document (.docx), Markdown (.md) or plain text (.txt) file to split into chapters."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!chapters ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="manuscript-file">Manuscript</Label>
+              <Input
+                id="manuscript-file"
+                type="file"
+                accept=".docx,.md,.markdown,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                data-testid="input-manuscript-file"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Start a new chapter at</Label>
+              <Select value={splitBy} onValueChange={(value) => setSplitBy(value as ImportSplitMode)}>
+                <SelectTrigger data-testid="select-split-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="headings">Each heading (e.g. "Chapter 1")</SelectItem>
+                  <SelectItem value="separator">A separator line</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {splitBy === "separator" && (
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-separator">Separator</Label>
+                <Input
+                  id="manuscript-separator"
+                  value={separator}
+                  onChange={(e) => setSeparator(e.target.value)}
+                  maxLength={50}
+                  placeholder="***"
+                  data-testid="input-manuscript-separator"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A line containing only this text ends one chapter and starts the next.
+                </p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={!file || (splitBy === "separator" && !separator.trim()) || previewMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                {previewMutation.isPending ? "Reading..." : "Preview chapters"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {warnings.length > 0 && (
+              <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+                <p className="font-medium flex items-center gap-2 mb-1">
+                  <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                  Some formatting couldn't be converted
+                </p>
+                <ul className="list-disc pl-5 text-xs text-muted-foreground space-y-0.5">
+                  {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {chapters.map((chapter, index) => (
+                <Collapsible key={index} className="rounded-md border">
+                  <div className="flex items-center gap-2 p-2">
+                    <span className="text-sm text-muted-foreground w-8 text-right shrink-0">{index + 1}.</span>
+                    <Input
+                      value={chapter.title}
+                      onChange={(e) => updateTitle(index, e.target.value)}
+                      maxLength={255}
+                      className="h-8"
+                      data-testid={`input-imported-title-${index}`}
+                    />
+                    <Badge variant="secondary" className="shrink-0">{chapter.wordCount} words</Badge>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="ghost" size="sm" aria-label="Show chapter text">
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                    </CollapsibleTrigger>
+                    <Button variant="ghost" size="sm" onClick={() => removeChapter(index)} aria-label="Leave out this chapter">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <CollapsibleContent>
+                    <div
+                      className="prose prose-sm dark:prose-invert max-w-none max-h-64 overflow-y-auto border-t p-3"
+                      dangerouslySetInnerHTML={{ __html: chapter.content }}
+                    />
+                  </CollapsibleContent>
+                </Collapsible>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="publish-imported" checked={publish} onCheckedChange={setPublish} />
+              <Label htmlFor="publish-imported">Publish now (otherwise the chapters are saved as drafts)</Label>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setChapters(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!canImport || importMutation.isPending}
+                data-testid="button-confirm-import"
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${chapters.length} chapter${chapters.length === 1 ? "" : "s"}`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import {
   Home,
   Compass,
   Bell,
+  MessageSquare,
   User,
   Feather,
   BookOpen,
@@ -39,6 +40,7 @@ export default function MobileNav() {
     
     // Next 5
     { icon: Bell, label: "Alerts", path: "/notifications", testid: "button-nav-alerts" },
+    { icon: MessageSquare, label: "Messages", path: "/messages", testid: "button-nav-messages" },
     { icon: User, label: "Profile", path: `/profile/${user?.username || user?.id}`, testid: "button-nav-profile" },
     { icon: TrendingUp, label: "Trending", path: "/trending", testid: "button-nav-trending" },
   ];
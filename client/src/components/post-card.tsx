@@ -5,7 +5,8 @@ import { CheckCircle, Clock, MoreVertical, Edit, Trash2, Eye, UserPlus, MoreHori
 import { useLocation } from "wouter";
 import { getProfileImageUrl } from "@/lib/defaultImages";
 import type { Post, User } from "@shared/schema";
-import { useState } from "react";
+import { extractHashtags, splitHashtags } from "@shared/hashtags";
+import { Fragment, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
@@ -50,6 +51,7 @@ function PostCard({ post, isLiked, likesCount, isBookmarked, isReposted, reposts
     id: authorId,
     email: null,
     password: null,
+    emailVerifiedAt: null,
     displayName: `User ${authorId.slice(-4)}`,
     username: `user${authorId.slice(-4)}`,
     bio: null,
@@ -60,6 +62,7 @@ function PostCard({ post, isLiked, likesCount, isBookmarked, isReposted, reposts
     isVerified: false,
     isAdmin: false,
     isSuperAdmin: false,
+    twoFactorRequired: false,
     userRole: 'reader',
     writingStreak: 0,
     wordCountGoal: 500,
@@ -91,6 +94,16 @@ function PostCard({ post, isLiked, likesCount, isBookmarked, isReposted, reposts
 
   const readTime = calculateReadTime(post.content);
 
+  // Hashtags in the excerpt are linked inline; any others get a tag row
+  const excerptSegments = post.excerpt ? splitHashtags(post.excerpt) : [];
+  const excerptTags = new Set(excerptSegments.flatMap((segment) => segment.type === "hashtag" ? [segment.tag] : []));
+  const extraTags = extractHashtags(post.content || "").filter((tag) => !excerptTags.has(tag)).slice(0, 5);
+
+  const openHashtag = (e: React.MouseEvent, tag: string) => {
+    e.stopPropagation();
+    navigate(`/hashtag/${encodeURIComponent(tag)}`);
+  };
+
   // Get cover image
   const coverImage = post.coverImageUrl || (post.imageUrls && post.imageUrls.length > 0 ? post.imageUrls[0] : null);
 
@@ -233,10 +246,40 @@ function PostCard({ post, isLiked, likesCount, isBookmarked, isReposted, reposts
         {/* Excerpt */}
         {post.excerpt && (
           <p className="text-sm text-muted-foreground line-clamp-2" data-testid={`text-excerpt-${post.id}`}>
-            {post.excerpt}
+            {excerptSegments.map((segment, index) =>
+              segment.type === "hashtag" ? (
+                <a
+                  key={index}
+                  href={`/hashtag/${encodeURIComponent(segment.tag)}`}
+                  className="text-primary hover:underline font-medium"
+                  onClick={(e) => { e.preventDefault(); openHashtag(e, segment.tag); }}
+                  data-testid={`link-hashtag-${segment.tag}`}
+                >
+                  {segment.text}
+                </a>
+              ) : (
+                <Fragment key={index}>{segment.text}</Fragment>
+              )
+            )}
           </p>
         )}
 
+        {extraTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {extraTags.map((tag) => (
+              <a
+                key={tag}
+                href={`/hashtag/${encodeURIComponent(tag)}`}
+                className="text-xs text-primary hover:underline font-medium"
+                onClick={(e) => { e.preventDefault(); openHashtag(e, tag); }}
+                data-testid={`link-hashtag-${tag}`}
+              >
+                #{tag}
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Author Info & Metadata - Frontman style */}
         <div className="flex items-center justify-between gap-3 pt-2">
           <div className="flex items-center gap-2 min-w-0 flex-1">
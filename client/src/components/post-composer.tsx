@@ -4,6 +4,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import PublishOptions, { getPublishedToast } from "@/components/publish-options";
+import type { PostStatus } from "@shared/schema";
 import RichTextEditor from "@/components/rich-text-editor";
 import { SpotifyTrackDisplay } from "@/components/spotify-track-display";
 import { SpotifySearch } from "@/components/spotify-search";
@@ -197,7 +199,7 @@ export default function PostComposer() {
     mutationFn: async (postData: any) => {
       return apiRequest("POST", "/api/posts", postData);
     },
-    onSuccess: () => {
+    onSuccess: (_response, postData) => {
       // Clear form
       setContent("");
       setTitle("");
@@ -219,10 +221,7 @@ export default function PostComposer() {
         queryKey: ["/api/posts"]
       });
 
-      toast({
-        title: "Article published!",
-        description: "Your article has been shared with the community.",
-      });
+      toast(getPublishedToast(postData.status, postData.scheduledFor));
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -398,7 +397,7 @@ export default function PostComposer() {
     setSelectedCollaborators(selectedCollaborators.filter(c => c.id !== userId));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = (options: { status?: PostStatus; scheduledFor?: Date } = {}) => {
     // Validate title (required for articles)
     if (!title.trim()) {
       toast({
@@ -459,7 +458,7 @@ export default function PostComposer() {
       imageUrls: selectedImages,
       mentions: Array.from(mentions),
       hashtags: Array.from(hashtags),
-      collaboratorIds: selectedCollaborators.map(c => c.id),
+      collaborators: selectedCollaborators.map(c => c.id),
       spotifyTrackData: spotifyTrack ? {
         id: spotifyTrack.id,
         name: spotifyTrack.name,
@@ -469,6 +468,8 @@ export default function PostComposer() {
         preview_url: spotifyTrack.preview_url,
         external_urls: spotifyTrack.external_urls
       } : undefined,
+      status: options.status,
+      scheduledFor: options.scheduledFor?.toISOString(),
     };
 
     createPostMutation.mutate(postData);
@@ -1069,8 +1070,14 @@ export default function PostComposer() {
               </span>
             )}
 
+            <PublishOptions
+              disabled={createPostMutation.isPending || !title.trim() || !content.trim() || isUploadingImages || isUploadingCover}
+              onSaveDraft={() => handleSubmit({ status: "draft" })}
+              onSchedule={(scheduledFor) => handleSubmit({ status: "scheduled", scheduledFor })}
+            />
+
             <Button
-              onClick={handleSubmit}
+              onClick={() => handleSubmit()}
               disabled={createPostMutation.isPending || !title.trim() || !content.trim() || isUploadingImages || isUploadingCover}
               className="px-6 font-medium"
               data-testid="button-publish"
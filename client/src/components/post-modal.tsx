@@ -4,6 +4,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import PublishOptions, { getPublishedToast } from "@/components/publish-options";
+import type { PostStatus } from "@shared/schema";
 import RichTextEditor from "@/components/rich-text-editor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -80,7 +82,7 @@ export default function PostModal({ trigger, isOpen, onClose }: PostModalProps)
     mutationFn: async (postData: any) => {
       return apiRequest("POST", "/api/posts", postData);
     },
-    onSuccess: () => {
+    onSuccess: (_response, postData) => {
       // Clear form
       setTitle("");
       setContent("");
@@ -96,10 +98,7 @@ export default function PostModal({ trigger, isOpen, onClose }: PostModalProps)
       // Invalidate queries to refresh feed
       queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
 
-      toast({
-        title: "Article published!",
-        description: "Your article has been shared with the community.",
-      });
+      toast(getPublishedToast(postData.status, postData.scheduledFor));
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -241,7 +240,7 @@ export default function PostModal({ trigger, isOpen, onClose }: PostModalProps)
   };
 
 
-  const handleSubmit = () => {
+  const handleSubmit = (options: { status?: PostStatus; scheduledFor?: Date } = {}) => {
     if (!title.trim()) {
       toast({
         title: "Title required",
@@ -290,6 +289,8 @@ export default function PostModal({ trigger, isOpen, onClose }: PostModalProps)
         preview_url: spotifyTrack.preview_url,
         external_urls: spotifyTrack.external_urls
       } : undefined,
+      status: options.status,
+      scheduledFor: options.scheduledFor?.toISOString(),
     };
 
     createPostMutation.mutate(postData);
@@ -685,8 +686,13 @@ export default function PostModal({ trigger, isOpen, onClose }: PostModalProps)
             >
               Cancel
             </Button>
+            <PublishOptions
+              disabled={createPostMutation.isPending || isUploadingCover || isUploadingImages}
+              onSaveDraft={() => handleSubmit({ status: "draft" })}
+              onSchedule={(scheduledFor) => handleSubmit({ status: "scheduled", scheduledFor })}
+            />
             <Button
-              onClick={handleSubmit}
+              onClick={() => handleSubmit()}
               disabled={createPostMutation.isPending || isUploadingCover || isUploadingImages}
               data-testid="button-publish"
             >
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { toPlainText } from "@/lib/word-diff";
+import RevisionDiff from "@/components/revision-diff";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, RotateCcw } from "lucide-react";
+import type { PostRevisionWithEditor } from "@shared/schema";
+
+const CURRENT = "current";
+
+interface PostRevisionsProps {
+  post: any;
+  onRestored: () => void;
+}
+
+interface Version {
+  id: string;
+  label: string;
+  text: string;
+}
+
+const versionText = (title: string | null, content: string) =>
+  [title, toPlainText(content)].filter(Boolean).join("\n\n");
+
+// Revision history of a post: a side-by-side word diff between any two
+// versions, and a way back to any earlier one
+export default function PostRevisions({ post, onRestored }: PostRevisionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Under /api/posts so edits and restores refresh it
+  const { data: revisions = [], isLoading } = useQuery<PostRevisionWithEditor[]>({
+    queryKey: ["/api/posts", post.id, "revisions"],
+  });
+
+  const versions = useMemo<Version[]>(() => [
+    { id: CURRENT, label: "Current version", text: versionText(post.title, post.content) },
+    ...revisions.map((revision) => ({
+      id: revision.id,
+      label: `Before edit on ${format(new Date(revision.createdAt!), "PPp")}${revision.editor ? ` by @${revision.editor.username}` : ""}`,
+      text: versionText(revision.title, revision.content),
+    })),
+  ], [post.title, post.content, revisions]);
+
+  const [fromId, setFromId] = useState<string>();
+  const [toId, setToId] = useState(CURRENT);
+
+  // Start by comparing the latest edit
+  useEffect(() => {
+    if (!fromId && revisions.length > 0) setFromId(revisions[0].id);
+  }, [fromId, revisions]);
+
+  const from = versions.find((version) => version.id === fromId);
+  const to = versions.find((version) => version.id === toId);
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: string) => apiRequest("POST", `/api/posts/${post.id}/revisions/${revisionId}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      toast({ title: "Revision restored", description: "The version you replaced was saved to the history." });
+      onRestored();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restore", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">No edits yet. Earlier versions appear here after you save changes.</p>
+      </div>
+    );
+  }
+
+  const versionSelect = (value: string | undefined, onChange: (id: string) => void, testId: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Pick a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>{version.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {versionSelect(fromId, setFromId, "select-revision-from")}
+        {versionSelect(toId, setToId, "select-revision-to")}
+      </div>
+
+      {from && to && (
+        <RevisionDiff before={from} after={to} />
+      )}
+
+      {from && from.id !== CURRENT && (
+        <div>
+          <Button
+            variant="outline"
+            onClick={() => restoreMutation.mutate(from.id)}
+            disabled={restoreMutation.isPending}
+            data-testid="button-restore-revision"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
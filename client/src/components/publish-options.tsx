@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { addHours, format } from "date-fns";
+import { CalendarClock, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { PostStatus } from "@shared/schema";
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+interface PublishOptionsProps {
+  disabled?: boolean;
+  onSaveDraft?: () => void; // the draft button is hidden without it
+  onSchedule: (scheduledFor: Date) => void;
+  scheduleLabel?: string;
+  confirmLabel?: string;
+  size?: "sm" | "default";
+}
+
+// "Save draft" and "Schedule" actions shown next to a composer's publish button
+export default function PublishOptions({ disabled, onSaveDraft, onSchedule, scheduleLabel = "Schedule", confirmLabel = "Schedule post", size = "default" }: PublishOptionsProps) {
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState(() => toLocalInput(addHours(new Date(), 1)));
+
+  const scheduledDate = new Date(scheduledFor);
+  const isValidTime = !isNaN(scheduledDate.getTime()) && scheduledDate > new Date();
+
+  return (
+    <>
+      {onSaveDraft && (
+        <Button variant="outline" size={size} onClick={onSaveDraft} disabled={disabled} data-testid="button-save-draft">
+          <Save className="w-4 h-4 mr-2" />
+          Save draft
+        </Button>
+      )}
+
+      <Popover open={scheduleOpen} onOpenChange={setScheduleOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size={size} disabled={disabled} data-testid="button-schedule">
+            <CalendarClock className="w-4 h-4 mr-2" />
+            {scheduleLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3" align="end">
+          <div className="space-y-2">
+            <Label htmlFor="scheduled-for">Publish on</Label>
+            <Input
+              id="scheduled-for"
+              type="datetime-local"
+              value={scheduledFor}
+              min={toLocalInput(new Date())}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              data-testid="input-scheduled-for"
+            />
+            {!isValidTime && (
+              <p className="text-xs text-destructive">Pick a time in the future.</p>
+            )}
+          </div>
+          <Button
+            className="w-full"
+            disabled={!isValidTime}
+            onClick={() => {
+              setScheduleOpen(false);
+              onSchedule(scheduledDate);
+            }}
+            data-testid="button-confirm-schedule"
+          >
+            {confirmLabel}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
+
+// Success toast for a composer, depending on how the post was submitted
+export function getPublishedToast(status?: PostStatus, scheduledFor?: string) {
+  switch (status) {
+    case "draft":
+      return { title: "Draft saved", description: "Find it any time under Drafts." };
+    case "scheduled":
+      return {
+        title: "Post scheduled",
+        description: `It will be published ${scheduledFor ? format(new Date(scheduledFor), "PPp") : "later"}.`,
+      };
+    default:
+      return { title: "Article published!", description: "Your article has been shared with the community." };
+  }
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BookOpen, BookMarked, CheckCircle2, Search } from "lucide-react";
+import type { LibraryEntry, ReadingShelf } from "@shared/schema";
+
+type LibrarySort = "recent" | "title" | "progress";
+
+const SHELVES: { value: ReadingShelf; label: string; icon: typeof BookOpen; empty: string }[] = [
+  { value: "reading", label: "Currently reading", icon: BookOpen, empty: "Stories you start reading will show up here." },
+  { value: "want_to_read", label: "Want to read", icon: BookMarked, empty: "Bookmark a story to save it for later." },
+  { value: "finished", label: "Finished", icon: CheckCircle2, empty: "Completed stories you've read to the end." },
+];
+
+// Most recent activity on an entry: last read, or when it was bookmarked
+const lastActivity = (entry: LibraryEntry) =>
+  new Date(entry.lastReadAt || entry.bookmarkedAt || entry.series.createdAt || 0).getTime();
+
+export default function ReadingLibrary() {
+  const [, setLocation] = useLocation();
+  const [shelf, setShelf] = useState<ReadingShelf>("reading");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [genre, setGenre] = useState("all");
+  const [sortBy, setSortBy] = useState<LibrarySort>("recent");
+
+  const { data: library = [], isLoading } = useQuery<LibraryEntry[]>({
+    queryKey: ["/api/library"],
+  });
+
+  const genres = Array.from(
+    new Set(library.map((entry) => entry.series.genre).filter((g): g is string => !!g))
+  ).sort();
+
+  const shelfEntries = (value: ReadingShelf) => library.filter((entry) => entry.shelf === value);
+
+  const visibleEntries = shelfEntries(shelf)
+    .filter((entry) => {
+      if (genre !== "all" && entry.series.genre !== genre) return false;
+      if (!searchQuery) return true;
+      const searchLower = searchQuery.toLowerCase();
+      return (
+        entry.series.title.toLowerCase().includes(searchLower) ||
+        entry.series.author?.displayName?.toLowerCase().includes(searchLower) ||
+        entry.series.author?.username?.toLowerCase().includes(searchLower)
+      );
+    })
+    .sort((a, b) => {
+      switch (sortBy) {
+        case "title":
+          return a.series.title.localeCompare(b.series.title);
+        case "progress":
+          return b.progressPercentage - a.progressPercentage;
+        case "recent":
+        default:
+          return lastActivity(b) - lastActivity(a);
+      }
+    });
+
+  const openEntry = (entry: LibraryEntry) => {
+    if (entry.shelf === "reading" && entry.lastChapterId) {
+      setLocation(`/chapter/${entry.lastChapterId}`);
+    } else {
+      setLocation(`/story/${entry.series.id}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filter and Sort Controls */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by title or author..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={genre} onValueChange={setGenre}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue placeholder="Genre" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All genres</SelectItem>
+            {genres.map((g) => (
+              <SelectItem key={g} value={g}>{g}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as LibrarySort)}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="recent">Recent activity</SelectItem>
+            <SelectItem value="title">Title</SelectItem>
+            <SelectItem value="progress">Progress</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Shelves */}
+      <Tabs value={shelf} onValueChange={(value) => setShelf(value as ReadingShelf)}>
+        <TabsList className="grid w-full grid-cols-3">
+          {SHELVES.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>
+              {label}
+              <Badge variant="secondary" className="ml-1 h-5 text-xs">
+                {shelfEntries(value).length}
+              </Badge>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {SHELVES.map(({ value, label, icon: Icon, empty }) => (
+          <TabsContent key={value} value={value} className="mt-6">
+            {isLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <div key={i} className="bg-card rounded-lg p-4 animate-pulse flex gap-4">
+                    <div className="w-16 h-24 bg-muted rounded" />
+                    <div className="flex-1 space-y-3">
+                      <div className="h-4 bg-muted rounded w-1/3" />
+                      <div className="h-4 bg-muted rounded w-1/4" />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : visibleEntries.length === 0 ? (
+              <div className="text-center py-12">
+                <Icon className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+                <h3 className="text-lg font-medium mb-2">
+                  {searchQuery || genre !== "all" ? "No matching stories" : `Nothing in "${label}" yet`}
+                </h3>
+                <p className="text-muted-foreground">
+                  {searchQuery || genre !== "all" ? "Try a different search or genre." : empty}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {visibleEntries.map((entry) => (
+                  <Card
+                    key={entry.series.id}
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => openEntry(entry)}
+                  >
+                    <CardContent className="p-4 flex gap-4">
+                      {entry.series.coverImageUrl ? (
+                        <img
+                          src={entry.series.coverImageUrl}
+                          alt={entry.series.title}
+                          className="w-16 h-24 object-cover rounded flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-16 h-24 bg-muted rounded flex items-center justify-center flex-shrink-0">
+                          <BookOpen className="w-6 h-6 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold truncate">{entry.series.title}</h3>
+                        <p className="text-sm text-muted-foreground truncate">
+                          by {entry.series.author?.displayName || "Unknown author"}
+                        </p>
+                        <div className="flex items-center gap-2 mt-2 flex-wrap">
+                          {entry.series.genre && (
+                            <Badge variant="outline" className="text-xs">{entry.series.genre}</Badge>
+                          )}
+                          <Badge variant="secondary" className="text-xs">
+                            {entry.series.chaptersCount || 0} chapters
+                          </Badge>
+                          {entry.series.isCompleted && (
+                            <Badge variant="secondary" className="text-xs">Completed</Badge>
+                          )}
+                        </div>
+                        {entry.shelf !== "want_to_read" && (
+                          <div className="mt-3">
+                            <Progress value={entry.progressPercentage} className="h-1.5" />
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {entry.progressPercentage}% read
+                              {entry.lastReadAt && ` • ${formatDistanceToNow(new Date(entry.lastReadAt), { addSuffix: true })}`}
+                            </p>
+                          </div>
+                        )}
+                        {entry.shelf === "want_to_read" && entry.bookmarkedAt && (
+                          <p className="text-xs text-muted-foreground mt-3">
+                            Saved {formatDistanceToNow(new Date(entry.bookmarkedAt), { addSuffix: true })}
+                          </p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
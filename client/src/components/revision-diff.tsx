@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { diffWords, type DiffPart } from "@/lib/word-diff";
+
+export interface DiffSide {
+  label: string;
+  text: string;
+}
+
+interface RevisionDiffProps {
+  before: DiffSide;
+  after: DiffSide;
+}
+
+// One side of the diff: the older side shows what was removed, the newer
+// side what was added
+function DiffColumn({ label, parts, side }: { label: string; parts: DiffPart[]; side: "removed" | "added" }) {
+  return (
+    <div className="min-w-0 rounded-md border">
+      <div className="border-b bg-muted px-3 py-2 text-xs font-medium text-muted-foreground truncate">{label}</div>
+      <div className="max-h-80 overflow-y-auto whitespace-pre-wrap break-words p-3 text-sm leading-relaxed">
+        {parts.map((part, i) => {
+          if (part.type === "equal") return <span key={i}>{part.text}</span>;
+          if (part.type !== side) return null;
+          return (
+            <span
+              key={i}
+              className={side === "removed"
+                ? "bg-red-100 text-red-800 line-through dark:bg-red-950 dark:text-red-300"
+                : "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300"}
+            >
+              {part.text}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Side-by-side word-level diff of two versions of a text
+export default function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const parts = useMemo(() => diffWords(before.text, after.text), [before.text, after.text]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <DiffColumn label={before.label} parts={parts} side="removed" />
+      <DiffColumn label={after.label} parts={parts} side="added" />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Fragment } from "react";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { BookOpen, FileText, Library, User as UserIcon } from "lucide-react";
+import { getProfileImageUrl } from "@/lib/defaultImages";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+
+const TYPE_META: Record<SearchResultType, { label: string; icon: typeof BookOpen }> = {
+  posts: { label: "Post", icon: FileText },
+  series: { label: "Story", icon: Library },
+  chapters: { label: "Chapter", icon: BookOpen },
+  users: { label: "Writer", icon: UserIcon },
+};
+
+export function getSearchResultUrl(result: SearchResult) {
+  switch (result.type) {
+    case "posts":
+      return `/post/${result.id}`;
+    case "series":
+      return `/story/${result.id}`;
+    case "chapters":
+      return `/chapter/${result.id}`;
+    case "users":
+      return `/profile/${result.author?.username}`;
+  }
+}
+
+// The server wraps matches in <mark> tags around otherwise raw user text, so
+// split on the tags and let React escape the rest instead of injecting HTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">{part}</mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchResultCard({ result }: { result: SearchResult }) {
+  const [, setLocation] = useLocation();
+  const { label, icon: Icon } = TYPE_META[result.type];
+
+  return (
+    <Card
+      className="cursor-pointer hover:shadow-md transition-shadow"
+      onClick={() => setLocation(getSearchResultUrl(result))}
+      data-testid={`search-result-${result.type}-${result.id}`}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          {result.type === "users" ? (
+            <Avatar>
+              <AvatarImage src={getProfileImageUrl(result.author?.profileImageUrl)} />
+              <AvatarFallback>{result.author?.displayName?.[0]}</AvatarFallback>
+            </Avatar>
+          ) : (
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+              <Icon className="w-5 h-5 text-primary" />
+            </div>
+          )}
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h3 className="font-semibold truncate">{result.title}</h3>
+              <Badge variant="outline" className="text-xs">{label}</Badge>
+              {result.category && <Badge variant="secondary" className="text-xs">{result.category}</Badge>}
+              {result.genre && <Badge variant="secondary" className="text-xs">{result.genre}</Badge>}
+            </div>
+
+            <p className="text-sm text-muted-foreground truncate">
+              {result.type === "users" ? (
+                `@${result.author?.username}`
+              ) : (
+                <>
+                  {result.series && `in ${result.series.title} • `}
+                  by {result.author?.displayName}
+                  {result.createdAt && ` • ${formatDistanceToNow(new Date(result.createdAt), { addSuffix: true })}`}
+                </>
+              )}
+            </p>
+
+            {result.snippet && (
+              <p className="text-sm mt-2 line-clamp-3">
+                <HighlightedSnippet snippet={result.snippet} />
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import type { ReactionCounts, SeriesReactionType } from "@shared/schema";
+
+// Keyed by the server's SERIES_REACTIONS vocabulary, so the type keeps them in sync
+const REACTION_EMOJI: Record<SeriesReactionType, { emoji: string; label: string }> = {
+  love: { emoji: "❤️", label: "Love" },
+  laugh: { emoji: "😂", label: "Laugh" },
+  cry: { emoji: "😢", label: "Cry" },
+  shock: { emoji: "😮", label: "Shock" },
+  angry: { emoji: "😡", label: "Angry" },
+};
+
+const REACTIONS = Object.keys(REACTION_EMOJI) as SeriesReactionType[];
+
+interface SeriesReactionsProps {
+  seriesId: string;
+  chapterId?: string;
+  reactions?: Partial<ReactionCounts>;
+  userReaction?: string | null;
+}
+
+// Reaction bar for a story, or for a single chapter when chapterId is set.
+// The counts come from the parent's query and are updated in its cache.
+export default function SeriesReactions({ seriesId, chapterId, reactions = {}, userReaction }: SeriesReactionsProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reactMutation = useMutation({
+    mutationFn: async (reaction: SeriesReactionType) => {
+      const response = await apiRequest("POST", `/api/series/${seriesId}/react`, { reaction, chapterId });
+      return response.json() as Promise<{ reactions: ReactionCounts; userReaction: string | null }>;
+    },
+    onSuccess: (data) => {
+      if (chapterId) {
+        queryClient.setQueryData(["/api/series", seriesId, "reactions", chapterId], data);
+      } else {
+        queryClient.setQueryData(["/api/series", seriesId], (old: any) => old && { ...old, ...data });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {REACTIONS.map((reaction) => {
+        const { emoji, label } = REACTION_EMOJI[reaction];
+        const isSelected = userReaction === reaction;
+        return (
+          <Button
+            key={reaction}
+            variant={isSelected ? "secondary" : "outline"}
+            size="sm"
+            className={`h-8 px-3 ${isSelected ? "ring-1 ring-primary" : ""}`}
+            disabled={!isAuthenticated || reactMutation.isPending}
+            onClick={() => reactMutation.mutate(reaction)}
+            title={label}
+            aria-pressed={isSelected}
+          >
+            <span className="mr-1">{emoji}</span>
+            <span className="text-xs">{reactions[reaction] || 0}</span>
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
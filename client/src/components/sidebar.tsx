@@ -8,6 +8,7 @@ import {
   Compass,
   Search,
   Bell,
+  MessageSquare,
   Bookmark,
   BarChart3,
   User,
@@ -21,7 +22,8 @@ import {
   ExternalLink, // Added ExternalLink icon for external links
   Trophy, // Added Trophy icon for leaderboard
   TestTube, // Added TestTube icon for admin test
-  Lock // Added Lock icon for restricted nav items
+  Lock, // Added Lock icon for restricted nav items
+  FileText
 } from "lucide-react";
 import { getProfileImageUrl } from "@/lib/defaultImages";
 import { Link, useLocation } from "wouter";
@@ -54,6 +56,12 @@ export default function Sidebar() {
 
   const unreadCount = notifications?.filter((n: any) => !n.isRead).length || 0;
 
+  const { data: unreadMessages } = useQuery<{ count: number }>({
+    queryKey: ["/api/messages/unread-count"],
+    enabled: isAuthenticated,
+  });
+  const unreadMessageCount = unreadMessages?.count ?? 0;
+
   const publicItems = [
     { icon: Home, label: "Home", path: "/homefeed", active: location === "/homefeed" },
     { icon: Search, label: "Search", path: "/search", active: location === "/search" },
@@ -64,7 +72,9 @@ export default function Sidebar() {
 
   const restrictedItems = [
     { icon: Bell, label: "Notifications", path: "/notifications", active: location === "/notifications", badge: unreadCount > 0 ? unreadCount : undefined },
+    { icon: MessageSquare, label: "Messages", path: "/messages", active: location.startsWith("/messages"), badge: unreadMessageCount > 0 ? unreadMessageCount : undefined },
     { icon: Bookmark, label: "Bookmarks", path: "/bookmarks", active: location === "/bookmarks" },
+    { icon: FileText, label: "Drafts", path: "/drafts", active: location === "/drafts" },
     { icon: User, label: "Profile", path: `/profile/${user?.username || user?.id}`, active: location.startsWith("/profile") },
     { icon: Cog, label: "Settings", path: "/settings", active: location === "/settings" },
   ];
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Copy, Download, ShieldCheck } from "lucide-react";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+type DialogMode = "setup" | "recovery-codes" | "disable" | null;
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`Writers Guild recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "writers-guild-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these somewhere safe. Each code signs you in once if you lose your authenticator app, and
+        they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-3 font-mono text-sm" data-testid="recovery-codes">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => navigator.clipboard.writeText(text).then(() => toast({ title: "Recovery codes copied" }))}
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Turning TOTP two-factor authentication on and off, and managing recovery codes
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<DialogMode>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+  };
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetup> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setDialog("setup");
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to start two-factor setup.", variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+      toast({ title: "Two-factor authentication is on", description: "Other devices have been signed out." });
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't turn on two-factor",
+        description: "That code didn't match. Check the time on your device and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      onChanged();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "That code isn't valid.", variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      closeDialog();
+      onChanged();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Check your password and code, then try again.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="123456"
+        maxLength={20}
+        data-testid="input-settings-two-factor-code"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            Two-Factor Authentication
+            {status.enabled ? <Badge>On</Badge> : <Badge variant="secondary">Off</Badge>}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {status.enabled
+              ? `Turned on ${status.enabledAt ? format(new Date(status.enabledAt), "PP") : ""}. ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? "" : "s"} left.`
+              : "Ask for a code from an authenticator app as well as your password when you sign in"}
+          </p>
+        </div>
+        {!status.enabled && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+            Set up
+          </Button>
+        )}
+      </div>
+
+      {status.required && !status.enabled && (
+        <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 shrink-0" />
+          An admin requires two-factor authentication for your account. Admin tools stay locked until you turn it on.
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDialog("recovery-codes")} data-testid="button-regenerate-recovery-codes">
+            New recovery codes
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDialog("disable")}
+            disabled={status.required}
+            title={status.required ? "Required for your account by an admin" : undefined}
+            data-testid="button-disable-two-factor"
+          >
+            Turn off
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(isOpen) => { if (!isOpen) closeDialog(); }}>
+        <DialogContent className="max-w-md">
+          {recoveryCodes ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5 text-primary" />
+                  Your recovery codes
+                </DialogTitle>
+              </DialogHeader>
+              <RecoveryCodes codes={recoveryCodes} />
+              <DialogFooter>
+                <Button onClick={closeDialog}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : dialog === "setup" && setup ? (
+            <form onSubmit={(e) => { e.preventDefault(); enableMutation.mutate(); }} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Set up two-factor authentication</DialogTitle>
+                <DialogDescription>
+                  Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+                  then enter the 6-digit code it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <img src={setup.qrCodeDataUrl} alt="QR code for your authenticator app" className="mx-auto rounded-md bg-white p-2" />
+              <p className="text-xs text-muted-foreground text-center">
+                Can't scan it? Enter this key instead:
+                <span className="block font-mono text-sm text-foreground break-all mt-1">{setup.secret}</span>
+              </p>
+              {codeInput}
+              <DialogFooter>
+                <Button type="submit" disabled={code.trim().length < 6 || enableMutation.isPending} data-testid="button-enable-two-factor">
+                  {enableMutation.isPending ? "Checking..." : "Turn on"}
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : dialog === "recovery-codes" ? (
+            <form onSubmit={(e) => { e.preventDefault(); regenerateMutation.mutate(); }} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>New recovery codes</DialogTitle>
+                <DialogDescription>
+                  Your current recovery codes will stop working. Enter a code from your authenticator app to continue.
+                </DialogDescription>
+              </DialogHeader>
+              {codeInput}
+              <DialogFooter>
+                <Button type="submit" disabled={code.trim().length < 6 || regenerateMutation.isPending}>
+                  Make new codes
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : dialog === "disable" ? (
+            <form onSubmit={(e) => { e.preventDefault(); disableMutation.mutate(); }} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Turn off two-factor authentication</DialogTitle>
+                <DialogDescription>
+                  Signing in will only need your password again. Confirm with your password and a code.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              {codeInput}
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={!password || code.trim().length < 6 || disableMutation.isPending}
+                >
+                  Turn off
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
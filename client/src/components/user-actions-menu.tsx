@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Ban, MessageSquare, MoreHorizontal, Volume2, VolumeX } from "lucide-react";
+import type { ConversationSummary } from "@shared/schema";
+
+interface UserActionsMenuProps {
+  userId: string;
+  username: string;
+}
+
+type FollowStatus = { isFollowing: boolean; isBlocked: boolean; isMuted: boolean };
+
+// Message, mute and block actions for someone else's profile
+export default function UserActionsMenu({ userId, username }: UserActionsMenuProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmBlock, setConfirmBlock] = useState(false);
+  const [, setLocation] = useLocation();
+
+  const { data: status } = useQuery<FollowStatus>({
+    queryKey: ["/api/users", userId, "follow-status"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "follow-status"] });
+    queryClient.invalidateQueries({ queryKey: ["follow-status", userId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/blocks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/mutes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+  };
+
+  // Opens the existing conversation with them, or starts one
+  const messageMutation = useMutation({
+    mutationFn: async (): Promise<ConversationSummary> => {
+      const response = await apiRequest("POST", "/api/conversations", { participantIds: [userId] });
+      return response.json();
+    },
+    onSuccess: (conversation) => setLocation(`/messages/${conversation.id}`),
+    onError: (error: Error) => {
+      toast({
+        title: `Can't message @${username}`,
+        description: error.message.startsWith("403") ? "They don't accept messages from you." : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: (mute: boolean) => apiRequest(mute ? "POST" : "DELETE", `/api/users/${userId}/mute`),
+    onSuccess: (_data, mute) => {
+      onChanged();
+      toast({
+        title: mute ? `Muted @${username}` : `Unmuted @${username}`,
+        description: mute ? "Their posts and reposts won't show up in your feeds." : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update mute.", variant: "destructive" });
+    },
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: (block: boolean) => apiRequest(block ? "POST" : "DELETE", `/api/users/${userId}/block`),
+    onSuccess: (_data, block) => {
+      setConfirmBlock(false);
+      onChanged();
+      toast({ title: block ? `Blocked @${username}` : `Unblocked @${username}` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update block.", variant: "destructive" });
+    },
+  });
+
+  if (!status) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" aria-label="More actions" data-testid="button-user-actions">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {!status.isBlocked && (
+            <>
+              <DropdownMenuItem onClick={() => messageMutation.mutate()} data-testid="menu-message-user">
+                <MessageSquare className="w-4 h-4 mr-2" />
+                Send message
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => muteMutation.mutate(!status.isMuted)} data-testid="menu-mute-user">
+            {status.isMuted ? <Volume2 className="w-4 h-4 mr-2" /> : <VolumeX className="w-4 h-4 mr-2" />}
+            {status.isMuted ? "Unmute" : "Mute"} @{username}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => (status.isBlocked ? blockMutation.mutate(false) : setConfirmBlock(true))}
+            className="text-destructive"
+            data-testid="menu-block-user"
+          >
+            <Ban className="w-4 h-4 mr-2" />
+            {status.isBlocked ? "Unblock" : "Block"} @{username}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmBlock} onOpenChange={setConfirmBlock}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block @{username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll unfollow each other, and neither of you will be able to follow, message, comment on, mention or invite
+              the other to collaborate. Their posts will be hidden from your feeds and search.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => blockMutation.mutate(true)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { useAuth } from "./useAuth";
+import { realtimeClient } from "@/lib/realtime";
+import type { Message, MessagePage } from "@shared/schema";
+
+// Keeps open threads, the conversation list and the sidebar's unread count
+// in sync with messages and read receipts pushed over the WebSocket. The
+// connection itself is opened by useRealtimeNotifications.
+export function useRealtimeMessages() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const refreshInbox = (conversationId: string) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
+    };
+
+    const unsubscribeMessages = realtimeClient.subscribe("message", (message: Message) => {
+      queryClient.setQueryData<InfiniteData<MessagePage>>(
+        ["/api/conversations", message.conversationId, "messages"],
+        (old) => {
+          if (!old || old.pages.some((page) => page.messages.some((m) => m.id === message.id))) return old;
+          const [first, ...rest] = old.pages;
+          return { ...old, pages: [{ ...first, messages: [message, ...first.messages] }, ...rest] };
+        },
+      );
+      refreshInbox(message.conversationId);
+    });
+
+    const unsubscribeReads = realtimeClient.subscribe("conversation_read", ({ conversationId }) => {
+      refreshInbox(conversationId);
+    });
+
+    return () => {
+      unsubscribeMessages();
+      unsubscribeReads();
+    };
+  }, [isAuthenticated, queryClient]);
+}
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./useAuth";
+import { realtimeClient } from "@/lib/realtime";
+
+// Keeps the ["/api/notifications"] cache (and with it the sidebar unread
+// badge) in sync with notifications pushed over the WebSocket.
+export function useRealtimeNotifications() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      realtimeClient.disconnect();
+      return;
+    }
+
+    realtimeClient.connect();
+
+    const unsubscribe = realtimeClient.subscribe("notification", (notification) => {
+      queryClient.setQueryData<any[]>(["/api/notifications"], (old) => {
+        if (!old) return [notification];
+        if (old.some((n) => n.id === notification.id)) return old;
+        return [notification, ...old];
+      });
+    });
+
+    return unsubscribe;
+  }, [isAuthenticated, queryClient]);
+}
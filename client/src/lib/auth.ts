@@ -1,6 +1,7 @@
 export interface User {
   id: string;
   email?: string;
+  emailVerifiedAt?: string | null;
   displayName: string;
   profileImageUrl?: string;
   username: string;
@@ -0,0 +1,87 @@
+import type { ChapterComment, Comment, SeriesComment } from "@shared/schema";
+
+export type AnyComment = Comment | SeriesComment | ChapterComment;
+
+// A highlighted range inside a chapter paragraph (character offsets)
+export interface TextAnchor {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// What a comment thread is attached to. Post comments use the original
+// /api/posts and /api/comments endpoints; series and chapter comments live
+// under their story or chapter. A chapter target with a paragraphIndex is the
+// annotation thread for that paragraph.
+export type CommentTarget =
+  | { type: "post"; id: string }
+  | { type: "series"; id: string }
+  | { type: "chapter"; id: string; paragraphIndex?: number; anchor?: TextAnchor };
+
+const collectionPaths = {
+  post: "/api/posts",
+  series: "/api/series",
+  chapter: "/api/chapters",
+} as const;
+
+const basePath = (target: CommentTarget) => `${collectionPaths[target.type]}/${target.id}`;
+
+export function getTargetLabel(target: CommentTarget) {
+  switch (target.type) {
+    case "series":
+      return "story";
+    case "chapter":
+      return target.paragraphIndex !== undefined ? "passage" : "chapter";
+    default:
+      return "post";
+  }
+}
+
+// Chapter paragraph threads share the chapter's key prefix, so invalidating
+// the chapter's comments also refreshes every paragraph and the margin counts.
+export function getCommentsQueryKey(target: CommentTarget): unknown[] {
+  const key: unknown[] = [collectionPaths[target.type], target.id, "comments"];
+  if (target.type === "chapter" && target.paragraphIndex !== undefined) {
+    key.push({ paragraph: target.paragraphIndex });
+  }
+  return key;
+}
+
+export function getCommentsUrl(target: CommentTarget) {
+  const url = `${basePath(target)}/comments`;
+  if (target.type === "chapter" && target.paragraphIndex !== undefined) {
+    return `${url}?paragraph=${target.paragraphIndex}`;
+  }
+  return url;
+}
+
+export function getCreateCommentRequest(target: CommentTarget, content: string, parentId?: string) {
+  const url = `${basePath(target)}/comments`;
+  switch (target.type) {
+    case "post":
+      if (parentId) {
+        return { url: `/api/comments/${parentId}/reply`, body: { content, postId: target.id } };
+      }
+      return { url, body: { content } };
+    case "chapter":
+      return {
+        url,
+        body: {
+          content,
+          parentId,
+          paragraphIndex: target.paragraphIndex,
+          anchorStart: target.anchor?.start,
+          anchorEnd: target.anchor?.end,
+          anchorText: target.anchor?.text,
+        },
+      };
+    default:
+      return { url, body: parentId ? { content, parentId } : { content } };
+  }
+}
+
+export function getLikeCommentUrl(target: CommentTarget, commentId: string) {
+  return target.type === "post"
+    ? `/api/comments/${commentId}/like`
+    : `${basePath(target)}/comments/${commentId}/like`;
+}
@@ -0,0 +1,99 @@
+export interface RealtimeEvent<T = any> {
+  type: string;
+  payload: T;
+}
+
+type RealtimeHandler = (payload: any) => void;
+
+const MAX_RECONNECT_DELAY = 30 * 1000;
+// Sent by the server when the session was logged out or revoked elsewhere
+const SESSION_ENDED_CLOSE_CODE = 4001;
+
+// Single shared WebSocket connection to /ws. Components subscribe to event
+// types instead of opening their own sockets.
+export class RealtimeClient {
+  private static instance: RealtimeClient;
+  private socket: WebSocket | null = null;
+  private handlers = new Map<string, Set<RealtimeHandler>>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+
+  public static getInstance(): RealtimeClient {
+    if (!RealtimeClient.instance) {
+      RealtimeClient.instance = new RealtimeClient();
+    }
+    return RealtimeClient.instance;
+  }
+
+  connect(): void {
+    this.shouldReconnect = true;
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) {
+      return;
+    }
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message: RealtimeEvent = JSON.parse(event.data);
+        this.handlers.get(message.type)?.forEach((handler) => handler(message.payload));
+      } catch (error) {
+        console.error("Invalid realtime message:", error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      this.socket = null;
+      if (this.shouldReconnect && event.code !== SESSION_ENDED_CLOSE_CODE) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  send(event: RealtimeEvent): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(event));
+    return true;
+  }
+
+  subscribe(type: string, handler: RealtimeHandler): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+
+  private scheduleReconnect(): void {
+    // Exponential backoff: 1s, 2s, 4s ... capped at 30s
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
+
+export const realtimeClient = RealtimeClient.getInstance();
@@ -0,0 +1,93 @@
+export type DiffPartType = "equal" | "added" | "removed";
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+// Posts written in the rich editor are HTML; compare what a reader sees
+export function toPlainText(content: string): string {
+  const html = content.replace(/<\/(p|div|li|h[1-6]|blockquote)>|<br\s*\/?>/gi, "\n");
+  const text = new DOMParser().parseFromString(html, "text/html").body.textContent || "";
+  return text.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Each word keeps the whitespace after it, so the parts join back into the
+// original text. Words compare without that whitespace.
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) || [];
+}
+
+const sameWord = (a: string, b: string) => a.trim() === b.trim();
+
+// Past this many table cells (about 16 MB) the changed middle of the texts
+// is shown as replaced outright instead of diffed word by word
+const MAX_TABLE_CELLS = 4_000_000;
+
+function pushPart(parts: DiffPart[], type: DiffPartType, text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+// Word-level diff from a longest common subsequence of the two texts' words
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits usually touch a small part of a post, so the unchanged start and
+  // end are matched directly and kept out of the table
+  let start = 0;
+  while (start < a.length && start < b.length && sameWord(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && sameWord(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if ((n + 1) * (m + 1) > MAX_TABLE_CELLS) {
+    return [
+      { type: "equal" as const, text: b.slice(0, start).join("") },
+      { type: "removed" as const, text: a.slice(start, endA).join("") },
+      { type: "added" as const, text: b.slice(start, endB).join("") },
+      { type: "equal" as const, text: b.slice(endB).join("") },
+    ].filter(part => part.text.length > 0);
+  }
+
+  // lengths[i * (m + 1) + j] is the LCS length of a[start + i..] and b[start + j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = sameWord(a[start + i], b[start + j])
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, "equal", b.slice(0, start).join(""));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && sameWord(a[start + i], b[start + j])) {
+      pushPart(parts, "equal", b[start + j]);
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+      pushPart(parts, "removed", a[start + i]);
+      i++;
+    } else {
+      pushPart(parts, "added", b[start + j]);
+      j++;
+    }
+  }
+  pushPart(parts, "equal", b.slice(endB).join(""));
+
+  return parts.filter(part => part.text.length > 0);
+}
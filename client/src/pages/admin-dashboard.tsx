@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
@@ -26,7 +27,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Shield, Users, BookOpen, Heart, BarChart3, CheckCircle, Lock } from "lucide-react";
+import { Shield, Users, BookOpen, Heart, BarChart3, CheckCircle, Lock, AlertTriangle } from "lucide-react";
+import type { TwoFactorStatus } from "@shared/schema";
 
 interface AdminStats {
   totalUsers: number;
@@ -45,9 +47,11 @@ interface AdminUser {
   username: string;
   displayName: string;
   email?: string;
+  emailVerifiedAt?: string | null;
   isAdmin: boolean;
   isSuperAdmin: boolean;
   isVerified: boolean;
+  twoFactorRequired?: boolean;
   userRole: string;
   createdAt: string;
 }
@@ -79,6 +83,12 @@ export default function AdminDashboard() {
     );
   }
 
+  // Admin routes reject admins who were required to use 2FA but haven't turned it on
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+  const twoFactorBlocked = !!twoFactor?.required && !twoFactor.enabled;
+
   // Fetch admin stats
   const { data: stats } = useQuery({
     queryKey: ["/api/admin/stats"],
@@ -139,6 +149,20 @@ export default function AdminDashboard() {
     },
   });
 
+  // Require two-factor mutation
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: async ({ userId, twoFactorRequired }: { userId: string; twoFactorRequired: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/users/${userId}`, { twoFactorRequired });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor requirement updated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    },
+  });
+
   // Deactivate user mutation
   const deactivateUserMutation = useMutation({
     mutationFn: async (userId: string) => {
@@ -187,6 +211,16 @@ export default function AdminDashboard() {
             )}
           </div>
 
+          {twoFactorBlocked && (
+            <div className="mb-8 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-4 flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-500 shrink-0" />
+              <p className="text-sm">
+                Your account is required to use two-factor authentication. Admin tools stay locked until you{" "}
+                <Link href="/settings" className="underline font-medium">turn it on in Settings</Link>.
+              </p>
+            </div>
+          )}
+
           {/* Statistics Grid */}
           <div className="grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-3 mb-8">
             <StatCard icon={Users} label="Total Users" value={stats?.totalUsers} />
@@ -242,7 +276,12 @@ export default function AdminDashboard() {
                         allUsers.map((user: AdminUser) => (
                           <TableRow key={user.id}>
                             <TableCell className="font-medium">{user.username}</TableCell>
-                            <TableCell className="text-sm">{user.email || "-"}</TableCell>
+                            <TableCell className="text-sm">
+                              {user.email || "-"}
+                              {user.email && !user.emailVerifiedAt && (
+                                <span className="ml-1 text-xs text-muted-foreground">(unconfirmed)</span>
+                              )}
+                            </TableCell>
                             <TableCell>
                               <Badge variant="outline">{user.userRole || "reader"}</Badge>
                             </TableCell>
@@ -322,12 +361,44 @@ export default function AdminDashboard() {
                                             isVerified: !selectedUser.isVerified,
                                           })
                                         }
+                                        disabled={!selectedUser?.isVerified && !selectedUser?.emailVerifiedAt}
                                         data-testid={`button-toggle-verify-${selectedUser?.id}`}
                                       >
                                         {selectedUser?.isVerified ? "Unverify" : "Verify"}
                                       </Button>
+                                      {!selectedUser?.isVerified && !selectedUser?.emailVerifiedAt && (
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                          Users must confirm their email before they can be verified
+                                        </p>
+                                      )}
                                     </div>
 
+                                    {(selectedUser?.isAdmin || selectedUser?.isSuperAdmin) && (
+                                      <div>
+                                        <label className="text-sm font-medium mb-2 block">
+                                          Two-Factor Authentication
+                                        </label>
+                                        <Button
+                                          variant={selectedUser?.twoFactorRequired ? "default" : "outline"}
+                                          className="w-full"
+                                          onClick={() =>
+                                            selectedUser &&
+                                            requireTwoFactorMutation.mutate({
+                                              userId: selectedUser.id,
+                                              twoFactorRequired: !selectedUser.twoFactorRequired,
+                                            })
+                                          }
+                                          disabled={!isSuperAdmin}
+                                          data-testid={`button-toggle-two-factor-${selectedUser?.id}`}
+                                        >
+                                          {selectedUser?.twoFactorRequired ? "Stop requiring 2FA" : "Require 2FA"}
+                                        </Button>
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                          Admins who are required to use two-factor authentication can't use admin tools until they turn it on
+                                        </p>
+                                      </div>
+                                    )}
+
                                     {selectedUser?.isAdmin && !selectedUser?.isSuperAdmin && (
                                       <div className="pt-4 border-t space-y-2">
                                         <label className="text-sm font-medium">
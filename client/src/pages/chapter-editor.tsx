@@ -1,12 +1,15 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRoute } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
+import PublishOptions from "@/components/publish-options";
+import ChapterRevisions from "@/components/chapter-revisions";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -20,8 +23,37 @@ import {
   ArrowLeft,
   FileText,
   Eye,
-  Edit3
+  Edit3,
+  Send,
+  CalendarClock,
+  History,
+  RotateCcw
 } from "lucide-react";
+import type { Chapter, ChapterRevision, ChapterRevisionSummary, PostStatus } from "@shared/schema";
+
+const AUTOSAVE_INTERVAL_MS = 30 * 1000;
+
+interface ReleaseOptions {
+  status?: PostStatus;
+  scheduledFor?: Date;
+}
+
+// Success toast for a save, depending on how the chapter was released
+function getChapterToast(isEditing: boolean, { status, scheduledFor }: ReleaseOptions) {
+  switch (status) {
+    case "draft":
+      return { title: "Draft saved", description: "Only you can see this chapter until it's published." };
+    case "scheduled":
+      return {
+        title: "Chapter scheduled",
+        description: `It will be released ${scheduledFor ? format(scheduledFor, "PPp") : "later"} and followers will be notified.`,
+      };
+    case "published":
+      return { title: "Chapter published!", description: "Followers of this story have been notified." };
+    default:
+      return { title: "Success", description: isEditing ? "Chapter updated!" : "Chapter created!" };
+  }
+}
 
 export default function ChapterEditorPage() {
   const [match, params] = useRoute("/story/:id/edit");
@@ -41,41 +73,78 @@ export default function ChapterEditorPage() {
   });
 
   // Fetch story details
-  const { data: story, isLoading: storyLoading } = useQuery({
+  const { data: story, isLoading: storyLoading } = useQuery<any>({
     queryKey: ["/api/series", storyId],
-    queryFn: () => apiRequest("GET", `/api/series/${storyId}`),
     enabled: !!storyId,
   });
 
-  // Fetch existing chapters
-  const { data: chapters = [], isLoading: chaptersLoading } = useQuery({
+  // Fetch existing chapters, drafts included for the author
+  const { data: chapters = [], isLoading: chaptersLoading } = useQuery<Chapter[]>({
     queryKey: ["/api/series", storyId, "chapters"],
-    queryFn: () => apiRequest("GET", `/api/series/${storyId}/chapters`),
     enabled: !!storyId,
   });
 
   // Fetch chapter for editing
-  const { data: existingChapter } = useQuery({
+  const { data: existingChapter } = useQuery<Chapter>({
     queryKey: ["/api/chapters", chapterId],
-    queryFn: () => apiRequest("GET", `/api/chapters/${chapterId}`),
     enabled: !!chapterId,
   });
+  const isReleased = !!existingChapter?.isPublished;
+
+  const { data: revisions = [] } = useQuery<ChapterRevisionSummary[]>({
+    queryKey: ["/api/chapters", chapterId, "revisions"],
+    enabled: !!chapterId,
+  });
+
+  const [showHistory, setShowHistory] = useState(false);
+  const [autosavedAt, setAutosavedAt] = useState<Date | null>(null);
+  const [recoveryDismissed, setRecoveryDismissed] = useState(false);
+  const openedAt = useRef(new Date());
+  // Text as of the last load or autosave, so unchanged text isn't autosaved
+  const lastSavedRef = useRef<{ title: string; content: string } | null>(null);
+  const chapterDataRef = useRef(chapterData);
+  chapterDataRef.current = chapterData;
+
+  // An autosave newer than the last save, from before this page was opened,
+  // is text a closed or crashed tab never saved
+  const unsavedAutosave = !recoveryDismissed && existingChapter?.updatedAt
+    ? revisions.find((revision) =>
+        revision.kind === "autosave" &&
+        new Date(revision.createdAt!) > new Date(existingChapter.updatedAt!) &&
+        new Date(revision.createdAt!) < openedAt.current)
+    : undefined;
 
-  // Create/update chapter mutation
+  // Create/update chapter mutation. Without a status, an edit keeps the
+  // chapter's release state; a new chapter is published right away.
   const saveChapterMutation = useMutation({
-    mutationFn: async (data: any) => {
-      if (isEditingChapter) {
-        return apiRequest("PUT", `/api/chapters/${chapterId}`, data);
-      } else {
-        return apiRequest("POST", `/api/series/${storyId}/chapters`, data);
+    mutationFn: async ({ status, scheduledFor }: ReleaseOptions) => {
+      const data = {
+        ...chapterData,
+        wordCount: chapterData.content.split(/\s+/).length
+      };
+
+      if (!isEditingChapter) {
+        return apiRequest("POST", `/api/series/${storyId}/chapters`, {
+          ...data,
+          status: status ?? "published",
+          scheduledFor: scheduledFor?.toISOString(),
+        });
+      }
+
+      await apiRequest("PUT", `/api/chapters/${chapterId}`, data);
+      if (isReleased) return;
+      if (status === "published") {
+        await apiRequest("POST", `/api/chapters/${chapterId}/publish`);
+      } else if (status === "scheduled" || (status === "draft" && existingChapter?.scheduledFor)) {
+        await apiRequest("PUT", `/api/chapters/${chapterId}/schedule`, {
+          scheduledFor: scheduledFor?.toISOString() ?? null,
+        });
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/series", storyId, "chapters"] });
-      toast({ 
-        title: "Success", 
-        description: isEditingChapter ? "Chapter updated!" : "Chapter created!" 
-      });
+    onSuccess: (_result, options) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/series", storyId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chapters", chapterId] });
+      toast(getChapterToast(isEditingChapter, options));
       window.history.back();
     },
     onError: () => {
@@ -95,6 +164,7 @@ export default function ChapterEditorPage() {
         content: existingChapter.content,
         chapterNumber: existingChapter.chapterNumber
       });
+      lastSavedRef.current = { title: existingChapter.title, content: existingChapter.content };
     } else if (!isEditingChapter) {
       setChapterData(prev => ({
         ...prev,
@@ -103,7 +173,45 @@ export default function ChapterEditorPage() {
     }
   }, [existingChapter, chapters.length, isEditingChapter]);
 
-  const handleSave = () => {
+  // Periodically keep unsaved text as an autosave revision. New chapters
+  // start autosaving once they've been saved.
+  useEffect(() => {
+    if (!chapterId || !existingChapter) return;
+
+    const timer = setInterval(async () => {
+      const { title, content } = chapterDataRef.current;
+      const last = lastSavedRef.current;
+      if (!content.trim() || (last?.title === title && last?.content === content)) return;
+
+      try {
+        await apiRequest("POST", `/api/chapters/${chapterId}/revisions`, { kind: "autosave", title, content });
+        lastSavedRef.current = { title, content };
+        setAutosavedAt(new Date());
+        queryClient.invalidateQueries({ queryKey: ["/api/chapters", chapterId, "revisions"] });
+      } catch (error) {
+        console.error("Autosave failed:", error);
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [chapterId, existingChapter, queryClient]);
+
+  const restoreRevision = (revision: ChapterRevision) => {
+    setChapterData(prev => ({ ...prev, title: revision.title, content: revision.content }));
+    setRecoveryDismissed(true);
+    setShowHistory(false);
+    toast({ title: "Version restored", description: "Save the chapter to keep it." });
+  };
+
+  const recoverAutosave = async (revisionId: string) => {
+    try {
+      const response = await apiRequest("GET", `/api/chapters/${chapterId}/revisions/${revisionId}`);
+      restoreRevision(await response.json());
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to load the autosave", variant: "destructive" });
+    }
+  };
+
+  const handleSave = (options: ReleaseOptions = {}) => {
     if (!chapterData.title.trim() || !chapterData.content.trim()) {
       toast({ 
         title: "Error", 
@@ -113,10 +221,7 @@ export default function ChapterEditorPage() {
       return;
     }
 
-    saveChapterMutation.mutate({
-      ...chapterData,
-      wordCount: chapterData.content.split(/\s+/).length
-    });
+    saveChapterMutation.mutate(options);
   };
 
   if (!isAuthenticated) {
@@ -174,13 +279,52 @@ export default function ChapterEditorPage() {
             </div>
           </div>
 
+          {unsavedAutosave && (
+            <Card className="mb-6 border-primary">
+              <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm">
+                  This chapter has unsaved changes autosaved {format(new Date(unsavedAutosave.createdAt!), "PPp")}.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => recoverAutosave(unsavedAutosave.id)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRecoveryDismissed(true)}>
+                    Dismiss
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Editor */}
           <Card className="mb-6">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="w-5 h-5" />
-                Chapter Details
-              </CardTitle>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  Chapter Details
+                </CardTitle>
+                {isEditingChapter && (
+                  <div className="flex items-center gap-3">
+                    {autosavedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Autosaved at {format(autosavedAt, "p")}
+                      </span>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowHistory(!showHistory)}
+                      data-testid="button-toggle-chapter-history"
+                    >
+                      <History className="w-4 h-4 mr-2" />
+                      {showHistory ? "Hide history" : "History"}
+                    </Button>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
@@ -189,11 +333,8 @@ export default function ChapterEditorPage() {
                   <Input
                     type="number"
                     value={chapterData.chapterNumber}
-                    onChange={(e) => setChapterData(prev => ({ 
-                      ...prev, 
-                      chapterNumber: parseInt(e.target.value) || 1 
-                    }))}
-                    min="1"
+                    disabled
+                    className="bg-muted"
                   />
                 </div>
                 <div>
@@ -239,27 +380,71 @@ export default function ChapterEditorPage() {
                   <Badge variant="secondary">
                     {chapterData.content.split(/\s+/).length} words
                   </Badge>
+                  {existingChapter && !isReleased && (
+                    existingChapter.scheduledFor ? (
+                      <Badge>
+                        <CalendarClock className="w-3 h-3 mr-1" />
+                        {format(new Date(existingChapter.scheduledFor), "PPp")}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">Draft</Badge>
+                    )
+                  )}
                 </div>
 
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   <Button 
                     variant="outline"
                     onClick={() => window.history.back()}
                   >
                     Cancel
                   </Button>
-                  <Button 
-                    onClick={handleSave}
-                    disabled={saveChapterMutation.isPending}
-                  >
-                    <Save className="w-4 h-4 mr-2" />
-                    {saveChapterMutation.isPending ? "Saving..." : "Save Chapter"}
-                  </Button>
+                  {isReleased ? (
+                    <Button 
+                      onClick={() => handleSave()}
+                      disabled={saveChapterMutation.isPending}
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      {saveChapterMutation.isPending ? "Saving..." : "Save Chapter"}
+                    </Button>
+                  ) : (
+                    <>
+                      <PublishOptions
+                        disabled={saveChapterMutation.isPending}
+                        onSaveDraft={() => handleSave({ status: "draft" })}
+                        onSchedule={(scheduledFor) => handleSave({ status: "scheduled", scheduledFor })}
+                        scheduleLabel={existingChapter?.scheduledFor ? "Reschedule" : "Schedule"}
+                        confirmLabel="Schedule release"
+                      />
+                      <Button 
+                        onClick={() => handleSave({ status: "published" })}
+                        disabled={saveChapterMutation.isPending}
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        {saveChapterMutation.isPending ? "Saving..." : "Publish Chapter"}
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Version history */}
+          {isEditingChapter && chapterId && showHistory && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Version History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChapterRevisions chapterId={chapterId} current={chapterData} onRestore={restoreRevision} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Chapter List */}
           {!isEditingChapter && chapters.length > 0 && (
             <Card>
@@ -268,7 +453,7 @@ export default function ChapterEditorPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {chapters.map((chapter: any, index: number) => (
+                  {chapters.map((chapter) => (
                     <div 
                       key={chapter.id} 
                       className="flex items-center justify-between p-3 border rounded-lg"
@@ -279,6 +464,9 @@ export default function ChapterEditorPage() {
                         </h4>
                         <p className="text-sm text-muted-foreground">
                           {chapter.wordCount} words
+                          {!chapter.isPublished && (chapter.scheduledFor
+                            ? ` • Scheduled for ${format(new Date(chapter.scheduledFor), "PPp")}`
+                            : " • Draft")}
                         </p>
                       </div>
                       <Button 
@@ -1,17 +1,22 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRoute, useLocation } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
 import LoadingScreen from "@/components/loading-screen";
+import CommentThread from "@/components/comment-thread";
+import SeriesReactions from "@/components/series-reactions";
+import type { TextAnchor } from "@/lib/comments";
+import type { ReadingProgress } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { 
   ArrowLeft, 
   ArrowRight,
@@ -23,10 +28,33 @@ import {
   Clock,
   User,
   Eye,
-  Settings
+  Settings,
+  MessageSquare
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
+// Paragraphs for inline annotations are the non-blank lines of the chapter;
+// comment anchors store an index into this list.
+const splitParagraphs = (content: string) =>
+  content.split(/\n+/).filter((paragraph) => paragraph.trim() !== "");
+
+// Character range of the reader's current selection, if it lies inside `element`
+const getSelectionAnchor = (element: Element | null): TextAnchor | undefined => {
+  const selection = window.getSelection();
+  if (!element || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+  const range = selection.getRangeAt(0);
+  if (!element.contains(range.startContainer) || !element.contains(range.endContainer)) return;
+
+  const prefix = document.createRange();
+  prefix.selectNodeContents(element);
+  prefix.setEnd(range.startContainer, range.startOffset);
+
+  const start = prefix.toString().length;
+  const text = range.toString();
+  return { start, end: start + text.length, text: text.slice(0, 500) };
+};
+
 export default function ChapterPage() {
   const [match, params] = useRoute("/chapter/:id");
   const id = params?.id;
@@ -95,22 +123,111 @@ export default function ChapterPage() {
     enabled: !!chapter?.seriesId,
   });
 
-  // Update reading progress
-  const updateProgressMutation = useMutation({
-    mutationFn: async (chapterIndex: number) => {
-      return apiRequest("PUT", `/api/series/${chapter.seriesId}/progress`, { chapterIndex });
+  // Annotation counts per paragraph for the margin markers
+  const { data: paragraphCommentCounts = {} } = useQuery<Record<number, number>>({
+    queryKey: ["/api/chapters", id, "comments", "counts"],
+    queryFn: async () => {
+      const response = await fetch(`/api/chapters/${id}/comments/counts`);
+      if (!response.ok) throw new Error('Failed to fetch comment counts');
+      return response.json();
+    },
+    enabled: !!id,
+  });
+
+  // Reactions to this chapter
+  const { data: chapterReactions } = useQuery<{ reactions: Record<string, number>; userReaction: string | null }>({
+    queryKey: ["/api/series", chapter?.seriesId, "reactions", id],
+    queryFn: async () => {
+      const response = await fetch(`/api/series/${chapter.seriesId}/reactions?chapterId=${id}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch reactions');
+      return response.json();
     },
+    enabled: !!chapter?.seriesId && !!id,
   });
 
-  // Update progress when chapter loads
+  const [activeParagraph, setActiveParagraph] = useState<{ index: number; anchor?: TextAnchor } | null>(null);
+
+  const openParagraphComments = (index: number, paragraphElement: Element | null) => {
+    setActiveParagraph({ index, anchor: getSelectionAnchor(paragraphElement) });
+  };
+
+  // Saved reading position for this story, shared across the reader's devices
+  const {
+    data: savedProgress,
+    isFetched: savedProgressFetched,
+  } = useQuery<ReadingProgress | null>({
+    queryKey: ["/api/series", chapter?.seriesId, "progress"],
+    enabled: !!chapter?.seriesId && isAuthenticated,
+  });
+
+  const contentRef = useRef<HTMLDivElement>(null);
+  const resumedChapterRef = useRef<string | null>(null);
+  // Tracking starts once we know whether to resume, so the initial scroll
+  // position can't overwrite the saved one. The content only renders once the
+  // series has loaded too.
+  const progressReady = isAuthenticated && !!chapter?.id && !seriesLoading && savedProgressFetched;
+
+  // Resume at the saved paragraph when reopening the chapter we left off in
   useEffect(() => {
-    if (chapter && series && isAuthenticated && allChapters.length > 0) {
-      const chapterIndex = allChapters.findIndex((ch: any) => ch.id === chapter.id);
-      if (chapterIndex >= 0) {
-        updateProgressMutation.mutate(chapterIndex);
+    if (!progressReady || resumedChapterRef.current === chapter.id) return;
+    resumedChapterRef.current = chapter.id;
+
+    if (!savedProgress || savedProgress.lastChapterId !== chapter.id || !savedProgress.paragraphIndex) return;
+    const paragraph = contentRef.current?.querySelector(
+      `[data-paragraph-index="${savedProgress.paragraphIndex}"]`
+    );
+    paragraph?.scrollIntoView({ block: "start" });
+  }, [progressReady, chapter?.id]);
+
+  // Save the reader's position (first visible paragraph and how far through the
+  // chapter they are) a moment after they stop scrolling, and when they leave
+  useEffect(() => {
+    if (!progressReady) return;
+
+    const seriesId = chapter.seriesId;
+    const chapterId = chapter.id;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+      timer = undefined;
+      const container = contentRef.current;
+      if (!container) return;
+
+      const rect = container.getBoundingClientRect();
+      const read = rect.height > 0 ? (window.innerHeight - rect.top) / rect.height : 1;
+      const scrollPercentage = Math.round(Math.min(Math.max(read, 0), 1) * 100);
+
+      const paragraphs = Array.from(container.querySelectorAll<HTMLElement>("[data-paragraph-index]"));
+      const firstVisible = paragraphs.find((element) => element.getBoundingClientRect().bottom > 0);
+      const paragraphIndex = firstVisible ? Number(firstVisible.dataset.paragraphIndex) : 0;
+
+      apiRequest("PUT", `/api/series/${seriesId}/progress`, { chapterId, scrollPercentage, paragraphIndex })
+        .then((response) => response.json())
+        .then((progress: ReadingProgress) => {
+          queryClient.setQueryData(["/api/series", seriesId, "progress"], progress);
+          queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+        })
+        .catch((error) => console.error("Failed to save reading progress:", error));
+    };
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(save, 1500);
+    };
+
+    // Record the visit even if the reader never scrolls
+    schedule();
+    window.addEventListener("scroll", schedule, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", schedule);
+      if (timer) {
+        clearTimeout(timer);
+        save();
       }
-    }
-  }, [chapter?.id, isAuthenticated, allChapters]);
+    };
+  }, [progressReady, chapter?.id]);
 
   // Calculate navigation
   const currentChapterIndex = allChapters.findIndex((ch: any) => ch.id === chapter?.id);
@@ -252,13 +369,34 @@ export default function ChapterPage() {
               <div className="prose prose-lg max-w-none dark:prose-invert">
                 {chapter.content && chapter.content.trim() ? (
                   <div 
+                    ref={contentRef}
                     className="leading-relaxed text-base md:text-lg whitespace-pre-wrap text-foreground"
                     style={{ 
                       lineHeight: '1.8',
                       fontFamily: 'system-ui, -apple-system, sans-serif'
                     }}
                   >
-                    {chapter.content}
+                    {splitParagraphs(chapter.content).map((paragraph, index) => {
+                      const commentCount = paragraphCommentCounts[index] || 0;
+                      return (
+                        <div key={index} data-paragraph-index={index} className="group relative pr-10 mb-4">
+                          <p className="m-0">{paragraph}</p>
+                          <button
+                            type="button"
+                            // Keep the reader's text selection so it can become the anchor
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={(e) => openParagraphComments(index, e.currentTarget.previousElementSibling)}
+                            className={`absolute right-0 top-1 flex items-center gap-1 text-xs text-muted-foreground hover:text-primary transition-opacity ${
+                              commentCount > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+                            }`}
+                            aria-label={`Comments on paragraph ${index + 1}`}
+                          >
+                            <MessageSquare className="w-4 h-4" />
+                            {commentCount > 0 && <span>{commentCount}</span>}
+                          </button>
+                        </div>
+                      );
+                    })}
                   </div>
                 ) : (
                   <div className="text-center py-12">
@@ -284,6 +422,17 @@ export default function ChapterPage() {
             </CardContent>
           </Card>
 
+          {/* Chapter Reactions */}
+          <div className="flex flex-col items-center gap-3 mb-8">
+            <p className="text-sm text-muted-foreground">How did this chapter make you feel?</p>
+            <SeriesReactions
+              seriesId={chapter.seriesId}
+              chapterId={chapter.id}
+              reactions={chapterReactions?.reactions}
+              userReaction={chapterReactions?.userReaction}
+            />
+          </div>
+
           {/* Chapter Navigation */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
             {/* Previous Chapter */}
@@ -364,6 +513,11 @@ export default function ChapterPage() {
             </div>
           </div>
 
+          {/* Chapter Discussion */}
+          <div className="mb-8">
+            <CommentThread target={{ type: "chapter", id: chapter.id }} />
+          </div>
+
           {/* Quick Actions */}
           <Card>
             <CardContent className="p-4">
@@ -393,6 +547,30 @@ export default function ChapterPage() {
         </div>
       </div>
 
+      {/* Paragraph annotations */}
+      <Sheet open={!!activeParagraph} onOpenChange={(open) => !open && setActiveParagraph(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Paragraph {activeParagraph ? activeParagraph.index + 1 : ''}</SheetTitle>
+          </SheetHeader>
+          {activeParagraph && (
+            <div className="mt-4 space-y-4">
+              <blockquote className="border-l-2 border-primary/50 pl-3 text-sm italic text-muted-foreground line-clamp-4">
+                {activeParagraph.anchor?.text || splitParagraphs(chapter.content || '')[activeParagraph.index]}
+              </blockquote>
+              <CommentThread
+                target={{
+                  type: "chapter",
+                  id: chapter.id,
+                  paragraphIndex: activeParagraph.index,
+                  anchor: activeParagraph.anchor,
+                }}
+              />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
       <MobileNav />
     </div>
   );
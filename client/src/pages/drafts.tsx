@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import MobileNav from "@/components/mobile-nav";
+import EditPostModal from "@/components/edit-post-modal";
+import PublishOptions from "@/components/publish-options";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, FileText, Pencil, Send, Trash2, Undo2 } from "lucide-react";
+import type { Post } from "@shared/schema";
+
+export default function Drafts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
+  const [deletingPost, setDeletingPost] = useState<Post | null>(null);
+
+  // Under /api/posts so the composers' invalidations refresh it
+  const { data: drafts = [], isLoading } = useQuery<Post[]>({
+    queryKey: ["/api/posts", "drafts"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: (postId: string) => apiRequest("POST", `/api/posts/${postId}/publish`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      toast({ title: "Published!", description: "Your post has been shared with the community." });
+    },
+    onError: onError("Failed to publish"),
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: ({ postId, scheduledFor }: { postId: string; scheduledFor: Date | null }) =>
+      apiRequest("PUT", `/api/posts/${postId}/schedule`, { scheduledFor: scheduledFor?.toISOString() ?? null }),
+    onSuccess: (_response, { scheduledFor }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/posts", "drafts"] });
+      toast(scheduledFor
+        ? { title: "Post scheduled", description: `It will be published ${format(scheduledFor, "PPp")}.` }
+        : { title: "Moved to drafts" });
+    },
+    onError: onError("Failed to update schedule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (postId: string) => apiRequest("DELETE", `/api/posts/${postId}`),
+    onSuccess: () => {
+      setDeletingPost(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/posts", "drafts"] });
+      toast({ title: "Draft deleted" });
+    },
+    onError: onError("Failed to delete draft"),
+  });
+
+  const isBusy = publishMutation.isPending || scheduleMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:ml-64 min-h-screen">
+        <div className="max-w-3xl mx-auto px-4 py-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold">Drafts</h1>
+            <p className="text-muted-foreground text-sm">Unfinished and scheduled posts. Only you can see them.</p>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Card key={i}>
+                  <CardContent className="p-6">
+                    <Skeleton className="h-20 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : drafts.length > 0 ? (
+            <div className="space-y-4">
+              {drafts.map((draft) => (
+                <Card key={draft.id} data-testid={`draft-${draft.id}`}>
+                  <CardContent className="p-6 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{draft.title || "Untitled Post"}</h3>
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {draft.excerpt || draft.content.replace(/<[^>]*>/g, "")}
+                        </p>
+                      </div>
+                      {draft.status === "scheduled" && draft.scheduledFor ? (
+                        <Badge className="shrink-0">
+                          <CalendarClock className="w-3 h-3 mr-1" />
+                          {format(new Date(draft.scheduledFor), "PPp")}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="shrink-0">Draft</Badge>
+                      )}
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      Last edited {formatDistanceToNow(new Date(draft.updatedAt || draft.createdAt || Date.now()), { addSuffix: true })}
+                    </p>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" onClick={() => publishMutation.mutate(draft.id)} disabled={isBusy}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Publish now
+                      </Button>
+                      <PublishOptions
+                        size="sm"
+                        disabled={isBusy}
+                        scheduleLabel={draft.status === "scheduled" ? "Reschedule" : "Schedule"}
+                        onSchedule={(scheduledFor) => scheduleMutation.mutate({ postId: draft.id, scheduledFor })}
+                      />
+                      {draft.status === "scheduled" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => scheduleMutation.mutate({ postId: draft.id, scheduledFor: null })}
+                          disabled={isBusy}
+                        >
+                          <Undo2 className="w-4 h-4 mr-2" />
+                          Unschedule
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => setEditingPost(draft)} disabled={isBusy}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive"
+                        onClick={() => setDeletingPost(draft)}
+                        disabled={isBusy}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <FileText className="w-16 h-16 text-muted-foreground mx-auto mb-4 opacity-50" />
+              <h3 className="text-lg font-semibold mb-2">No drafts</h3>
+              <p className="text-muted-foreground">Use "Save draft" or "Schedule" when writing a post to keep it here.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editingPost && (
+        <EditPostModal post={editingPost} isOpen={!!editingPost} onClose={() => setEditingPost(null)} />
+      )}
+
+      <AlertDialog open={!!deletingPost} onOpenChange={(open) => !open && setDeletingPost(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete "{deletingPost?.title || "Untitled Post"}". This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (deletingPost) deleteMutation.mutate(deletingPost.id);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Draft"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import PostCard from "@/components/post-card";
+import SearchResultCard from "@/components/search-result-card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import FollowButton from "@/components/follow-button";
 import { Search, TrendingUp, Users, BookOpen, Hash, Clock } from "lucide-react";
@@ -15,7 +16,7 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
 import AuthDialog from "@/components/auth-dialog";
-import type { Post } from "@shared/schema";
+import type { Post, SearchPage, SearchResult } from "@shared/schema";
 
 // Define interfaces for data types
 interface TrendingTopic {
@@ -49,8 +50,8 @@ export default function Explore() {
   const [trendingTopics, setTrendingTopics] = useState<TrendingTopic[]>([]);
   const [trendingUsers, setTrendingUsers] = useState<TrendingUser[]>([]);
   const [searchResults, setSearchResults] = useState<{
-    posts: Post[];
-    users: TrendingUser[];
+    posts: SearchResult[];
+    users: SearchResult[];
   }>({ posts: [], users: [] });
 
 
@@ -106,22 +107,25 @@ export default function Explore() {
     }
   };
 
-  // Search functionality
+  // Search functionality, through the same endpoint as the search page
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
 
+    const searchUrl = (type: "posts" | "users") =>
+      `/api/search?q=${encodeURIComponent(searchQuery.trim())}&type=${type}&limit=20`;
+
     try {
       const [postsRes, usersRes] = await Promise.allSettled([
-        fetch(`/api/search/posts?q=${encodeURIComponent(searchQuery)}&limit=20`, { credentials: 'include' }),
-        fetch(`/api/search/users?q=${encodeURIComponent(searchQuery)}&limit=20`, { credentials: 'include' })
+        fetch(searchUrl("posts"), { credentials: 'include' }),
+        fetch(searchUrl("users"), { credentials: 'include' })
       ]);
 
-      const posts = postsRes.status === 'fulfilled' && postsRes.value.ok
-        ? await postsRes.value.json()
+      const posts: SearchResult[] = postsRes.status === 'fulfilled' && postsRes.value.ok
+        ? ((await postsRes.value.json()) as SearchPage).results
         : [];
 
-      const users = usersRes.status === 'fulfilled' && usersRes.value.ok
-        ? await usersRes.value.json()
+      const users: SearchResult[] = usersRes.status === 'fulfilled' && usersRes.value.ok
+        ? ((await usersRes.value.json()) as SearchPage).results
         : [];
 
       setSearchResults({ posts, users });
@@ -314,8 +318,8 @@ export default function Explore() {
                       <div>
                         <h3 className="text-lg font-semibold mb-3">Writers</h3>
                         <div className="grid gap-3">
-                          {searchResults.users.map((user) => (
-                            <UserSearchResult key={user.id} user={user} />
+                          {searchResults.users.map((result) => (
+                            <SearchResultCard key={result.id} result={result} />
                           ))}
                         </div>
                       </div>
@@ -325,8 +329,8 @@ export default function Explore() {
                       <div>
                         <h3 className="text-lg font-semibold mb-3">Posts</h3>
                         <div className="space-y-4">
-                          {searchResults.posts.map((post: Post) => (
-                            <PostCard key={post.id} post={post} />
+                          {searchResults.posts.map((result) => (
+                            <SearchResultCard key={result.id} result={result} />
                           ))}
                         </div>
                       </div>
@@ -494,53 +498,9 @@ function RecentPosts() {
   );
 }
 
-// Component for displaying user search results
-function UserSearchResult({ user }: { user: TrendingUser }) {
-  const { user: currentUser, isAuthenticated } = useAuth();
-
-  return (
-    <Card>
-      <CardContent className="p-4">
-        <div className="flex items-center gap-3">
-          <Avatar className="h-12 w-12">
-            <AvatarImage src={user.profileImageUrl} />
-            <AvatarFallback>
-              {user.displayName.slice(0, 2).toUpperCase()}
-            </AvatarFallback>
-          </Avatar>
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-1">
-              <span className="font-medium truncate">{user.displayName}</span>
-              {user.isVerified && (
-                <Badge variant="secondary" className="h-4 w-4 p-0">✓</Badge>
-              )}
-            </div>
-            <p className="text-sm text-muted-foreground">@{user.username}</p>
-            {user.bio && (
-              <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{user.bio}</p>
-            )}
-          </div>
-          {isAuthenticated && user.id !== currentUser?.id && (
-            <FollowButton userId={user.id} />
-          )}
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
-
 // Component for displaying explore content for guests
 function ExploreContentGuest({ trendingTopics, trendingUsers, isLoading }: { trendingTopics: TrendingTopic[], trendingUsers: TrendingUser[], isLoading: boolean }) {
 
-  const mockPopularPosts: Post[] = [
-    {
-      id: "guest-post-1", content: "Welcome to Writers Guild! Discover your next favorite read.", authorId: "guest-author-1", author: { id: "guest-author-1", username: "guild_admin", displayName: "Writers Guild Admin", profileImageUrl: "/path/to/admin_avatar.png", isVerified: true }, createdAt: new Date().toISOString(), likeCount: 100, commentCount: 10, repostCount: 5, genre: "Announcement"
-    },
-    {
-      id: "guest-post-2", content: "Share your writing journey with us. #writingcommunity", authorId: "guest-author-2", author: { id: "guest-author-2", username: "writer_x", displayName: "Writer X", isVerified: false }, createdAt: new Date(Date.now() - 86400000).toISOString(), likeCount: 50, commentCount: 5, repostCount: 2, genre: "Tips"
-    }
-  ];
-
   return (
     <Tabs defaultValue="trending" className="mb-8">
       <TabsList className="grid w-full grid-cols-3">
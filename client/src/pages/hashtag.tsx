@@ -0,0 +1,114 @@
+import { useRoute } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/sidebar";
+import MobileNav from "@/components/mobile-nav";
+import PostCard from "@/components/post-card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Hash, TrendingUp } from "lucide-react";
+import type { Post, TrendingHashtag } from "@shared/schema";
+
+interface HashtagFeedPage {
+  hashtag: string;
+  postsCount: number;
+  posts: Post[];
+  nextOffset: number | null;
+}
+
+export default function HashtagPage() {
+  const [, params] = useRoute("/hashtag/:tag");
+  const tag = decodeURIComponent(params?.tag || "").toLowerCase();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/hashtags", tag],
+    queryFn: async ({ pageParam }) => {
+      const response = await fetch(`/api/hashtags/${encodeURIComponent(tag)}?limit=20&offset=${pageParam}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to load hashtag");
+      return response.json() as Promise<HashtagFeedPage>;
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: !!tag,
+  });
+
+  const { data: trendingTopics = [] } = useQuery<TrendingHashtag[]>({
+    queryKey: ["/api/trending/topics"],
+  });
+  const trending = trendingTopics.find((topic) => topic.topic === tag);
+
+  const posts = data?.pages.flatMap((page) => page.posts) ?? [];
+  const postsCount = data?.pages[0]?.postsCount ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:ml-64 min-h-screen">
+        <div className="max-w-3xl mx-auto px-4 py-6">
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-14 h-14 bg-primary/10 rounded-full flex items-center justify-center">
+              <Hash className="w-7 h-7 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">#{tag}</h1>
+              <p className="text-muted-foreground text-sm flex items-center gap-2">
+                {postsCount.toLocaleString()} {postsCount === 1 ? "post" : "posts"}
+                {trending && (
+                  <span className="flex items-center gap-1 text-primary">
+                    <TrendingUp className="w-4 h-4" />
+                    #{trending.rank} trending
+                  </span>
+                )}
+              </p>
+            </div>
+          </div>
+
+          {/* Feed */}
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Card key={i}>
+                  <CardContent className="p-6">
+                    <Skeleton className="h-32 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : posts.length > 0 ? (
+            <div className="space-y-4">
+              {posts.map((post) => (
+                <PostCard key={post.id} post={post} />
+              ))}
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Hash className="w-16 h-16 text-muted-foreground mx-auto mb-4 opacity-50" />
+              <h3 className="text-lg font-semibold mb-2">No posts with #{tag} yet</h3>
+              <p className="text-muted-foreground">Use this hashtag in a post to start the conversation.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/sidebar";
 import PostModal from "@/components/post-modal";
-import PostCard from "@/components/post-card";
+import FeedItem from "@/components/feed-item";
 import MobileNav from "@/components/mobile-nav";
 import LoadingScreen from "@/components/loading-screen";
 import { Card, CardContent } from "@/components/ui/card";
@@ -13,14 +14,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search, TrendingUp, Flame, Music, ExternalLink, Users } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Search, TrendingUp, Flame, Music, ExternalLink, Users, BookOpen } from "lucide-react";
 import AuthDialog from "@/components/auth-dialog";
 import { getProfileImageUrl } from "@/lib/defaultImages";
-import type { Post, User } from "@shared/schema";
+import type { FeedPage, LibraryEntry, User } from "@shared/schema";
 
 export default function Home() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState("for-you");
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const [showPostModal, setShowPostModal] = useState(false);
@@ -36,7 +39,8 @@ export default function Home() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  // Fetch posts with infinite scroll
+  // Both feeds page with the cursor the server returns alongside each page
+  const feedUrl = activeTab === "following" ? "/api/feed/following" : "/api/feed/for-you";
   const {
     data: postsData,
     fetchNextPage,
@@ -45,14 +49,18 @@ export default function Home() {
     isLoading: postsLoading,
     error: postsError,
   } = useInfiniteQuery({
-    queryKey: ["/api/posts", activeTab, activeTab === "following" ? user?.id : undefined],
-    queryFn: ({ pageParam = 0 }) =>
-      fetch(`/api/posts?limit=20&offset=${pageParam}&userId=${activeTab === "following" ? user?.id || "" : ""}`).then(res => res.json()),
-    initialPageParam: 0,
-    getNextPageParam: (lastPage: any, pages) => {
-      return lastPage.length === 20 ? pages.length * 20 : undefined;
+    // Under /api/posts so the invalidations after posting or liking refresh it
+    queryKey: ["/api/posts", "feed", activeTab],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: "20" });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await fetch(`${feedUrl}?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json() as Promise<FeedPage>;
     },
-    enabled: !!user || !isAuthenticated,
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: activeTab === "following" ? isAuthenticated : !isLoading,
   });
 
   // Fetch trending posts
@@ -85,6 +93,16 @@ export default function Home() {
     enabled: !!user,
   });
 
+  // Stories the user is partway through, most recently read first
+  const { data: library = [] } = useQuery<LibraryEntry[]>({
+    queryKey: ["/api/library"],
+    enabled: !!isAuthenticated,
+  });
+  const continueReading = library
+    .filter((entry) => entry.shelf === "reading" && entry.lastChapterId)
+    .sort((a, b) => new Date(b.lastReadAt || 0).getTime() - new Date(a.lastReadAt || 0).getTime())
+    .slice(0, 3);
+
   // Fetch popular Spotify tracks from posts
   const { data: popularTracks } = useQuery({
     queryKey: ["/api/posts/popular-music"],
@@ -123,7 +141,7 @@ export default function Home() {
     return () => window.removeEventListener("scroll", handleScroll);
   }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const allPosts = postsData?.pages.flat() || [];
+  const feedItems = postsData?.pages.flatMap((page) => page.items) ?? [];
 
   if (isLoading) {
     return <LoadingScreen title="Loading Writers Guild..." subtitle="Preparing your creative space" />;
@@ -217,7 +235,7 @@ export default function Home() {
                       </div>
                     </div>
                   ))
-                ) : allPosts.length === 0 ? (
+                ) : feedItems.length === 0 ? (
                   <div className="p-12 text-center" data-testid="empty-feed">
                     <div className="w-16 h-16 bg-muted rounded-xl flex items-center justify-center mb-4 mx-auto">
                       <Search className="w-8 h-8 text-muted-foreground" />
@@ -225,7 +243,9 @@ export default function Home() {
                     <h3 className="text-lg font-semibold mb-2">No posts yet</h3>
                     <p className="text-muted-foreground mb-4">
                       {activeTab === "following"
-                        ? "Follow some writers to see their posts here"
+                        ? isAuthenticated
+                          ? "Follow some writers to see their posts here"
+                          : "Sign in to see posts from writers you follow"
                         : "Be the first to share something with the community"
                       }
                     </p>
@@ -237,9 +257,7 @@ export default function Home() {
                     </Button>
                   </div>
                 ) : (
-                  allPosts.map((post: any) => (
-                    <PostCard key={post.id} post={post as Post} />
-                  ))
+                  feedItems.map((item) => <FeedItem key={item.id} item={item} />)
                 )}
 
                 {/* Loading more indicator */}
@@ -270,6 +288,35 @@ export default function Home() {
                 </Card>
               </div>
 
+              {/* Continue Reading */}
+              {continueReading.length > 0 && (
+                <Card className="bg-card border-border">
+                  <CardContent className="p-4">
+                    <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
+                      <BookOpen className="w-5 h-5 text-primary" />
+                      Continue Reading
+                    </h3>
+                    <div className="space-y-3">
+                      {continueReading.map((entry) => (
+                        <div
+                          key={entry.series.id}
+                          className="hover:bg-secondary/50 p-2 rounded-lg cursor-pointer transition-colors"
+                          data-testid={`continue-reading-${entry.series.id}`}
+                          onClick={() => setLocation(`/chapter/${entry.lastChapterId}`)}
+                        >
+                          <p className="font-semibold truncate">{entry.series.title}</p>
+                          <p className="text-xs text-muted-foreground truncate mb-2">
+                            by {entry.series.author?.displayName || "Unknown author"}
+                          </p>
+                          <Progress value={entry.progressPercentage} className="h-1.5" />
+                          <p className="text-xs text-muted-foreground mt-1">{entry.progressPercentage}% read</p>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Trending Topics */}
               <Card className="bg-card border-border">
                 <CardContent className="p-4">
@@ -288,7 +335,7 @@ export default function Home() {
                         key={trend.rank}
                         className="hover:bg-secondary/50 p-2 rounded-lg cursor-pointer transition-colors"
                         data-testid={`trend-${trend.rank}`}
-                        onClick={() => window.location.href = `/search?q=${encodeURIComponent(trend.hashtag || trend.topic)}`}
+                        onClick={() => setLocation(`/hashtag/${encodeURIComponent(trend.topic.toLowerCase())}`)}
                       >
                         <p className="text-sm text-muted-foreground">#{trend.rank} • Trending in {trend.category}</p>
                         <p className="font-semibold">{trend.hashtag || `#${trend.topic}`}</p>
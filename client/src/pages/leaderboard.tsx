@@ -11,6 +11,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   Trophy, 
   Medal, 
@@ -20,14 +28,76 @@ import {
   Users, 
   Eye, 
   Crown,
-  TrendingUp
+  TrendingUp,
+  ArrowUp,
+  ArrowDown,
+  Minus,
+  BarChart3
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { getProfileImageUrl } from "@/lib/defaultImages";
+import type { LeaderboardCategory, LeaderboardEntry, LeaderboardPeriod, LeaderboardSnapshot } from "@shared/schema";
+
+const RANKING_CATEGORIES: Record<LeaderboardCategory, { label: string; unit: string }> = {
+  words_written: { label: "Words written", unit: "words" },
+  likes_received: { label: "Likes received", unit: "likes" },
+  series_followers: { label: "New story followers", unit: "followers" },
+  writing_streak: { label: "Writing streak", unit: "days" },
+};
+
+const RANKING_PERIODS: { value: LeaderboardPeriod; label: string; previous: string }[] = [
+  { value: "daily", label: "Today", previous: "yesterday" },
+  { value: "weekly", label: "This week", previous: "last week" },
+  { value: "monthly", label: "This month", previous: "last month" },
+  { value: "all_time", label: "All time", previous: "yesterday" },
+];
+
+// Movement since the previous period's snapshot
+function RankChange({ entry, previousLabel }: { entry: LeaderboardEntry; previousLabel: string }) {
+  if (entry.previousRank === null) {
+    return <Badge variant="outline" className="text-xs">New</Badge>;
+  }
+
+  const change = entry.previousRank - entry.rank;
+  if (change > 0) {
+    return (
+      <span className="flex items-center text-xs text-green-600" title={`Up ${change} since ${previousLabel}`}>
+        <ArrowUp className="w-4 h-4" />
+        {change}
+      </span>
+    );
+  }
+  if (change < 0) {
+    return (
+      <span className="flex items-center text-xs text-red-500" title={`Down ${-change} since ${previousLabel}`}>
+        <ArrowDown className="w-4 h-4" />
+        {-change}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center text-xs text-muted-foreground" title={`Same as ${previousLabel}`}>
+      <Minus className="w-4 h-4" />
+    </span>
+  );
+}
 
 export default function LeaderboardPage() {
   const { user, isAuthenticated } = useAuth();
-  const [activeTab, setActiveTab] = useState("posts");
+  const [activeTab, setActiveTab] = useState("rankings");
+  const [category, setCategory] = useState<LeaderboardCategory>("likes_received");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("weekly");
+
+  // Period rankings from the snapshot job
+  const { data: rankings, isLoading: rankingsLoading } = useQuery<LeaderboardSnapshot>({
+    queryKey: ["/api/leaderboard", category, period],
+    queryFn: async () => {
+      const response = await fetch(`/api/leaderboard?category=${category}&period=${period}&limit=50`);
+      if (!response.ok) throw new Error("Failed to fetch leaderboard");
+      return response.json();
+    },
+  });
+  const previousLabel = RANKING_PERIODS.find((p) => p.value === period)?.previous || "last period";
 
   // Fetch most liked posts
   const { data: topPosts = [], isLoading: postsLoading } = useQuery({
@@ -105,7 +175,11 @@ export default function LeaderboardPage() {
 
           {/* Tabs */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3 mb-8">
+            <TabsList className="grid w-full grid-cols-4 mb-8">
+              <TabsTrigger value="rankings" className="flex items-center gap-2">
+                <BarChart3 className="w-4 h-4" />
+                Rankings
+              </TabsTrigger>
               <TabsTrigger value="posts" className="flex items-center gap-2">
                 <Heart className="w-4 h-4" />
                 Top Posts
@@ -120,6 +194,85 @@ export default function LeaderboardPage() {
               </TabsTrigger>
             </TabsList>
 
+            <TabsContent value="rankings" className="space-y-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <ToggleGroup
+                  type="single"
+                  value={period}
+                  onValueChange={(value) => value && setPeriod(value as LeaderboardPeriod)}
+                  className="justify-start"
+                >
+                  {RANKING_PERIODS.map(({ value, label }) => (
+                    <ToggleGroupItem key={value} value={value} size="sm">
+                      {label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <Select value={category} onValueChange={(value) => setCategory(value as LeaderboardCategory)}>
+                  <SelectTrigger className="sm:w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RANKING_CATEGORIES).map(([value, { label }]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {rankings?.periodEnd && (
+                <p className="text-xs text-muted-foreground">
+                  Updated hourly • compared with {previousLabel}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {rankingsLoading ? (
+                  Array.from({ length: 10 }).map((_, i) => (
+                    <Card key={i} className="animate-pulse">
+                      <CardContent className="p-4">
+                        <Skeleton className="h-10 w-full" />
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : rankings && rankings.entries.length > 0 ? (
+                  rankings.entries.map((entry) => (
+                    <Card
+                      key={entry.user.id}
+                      className={`cursor-pointer hover:shadow-md transition-shadow ${
+                        entry.user.id === user?.id ? "ring-1 ring-primary" : ""
+                      }`}
+                      onClick={() => window.location.href = `/profile/${entry.user.username}`}
+                    >
+                      <CardContent className="p-4 flex items-center gap-4">
+                        <div className="w-8 flex justify-center">{getRankIcon(entry.rank - 1)}</div>
+                        <div className="w-10 flex justify-center">
+                          <RankChange entry={entry} previousLabel={previousLabel} />
+                        </div>
+                        <Avatar className="w-10 h-10">
+                          <AvatarImage src={getProfileImageUrl(entry.user.profileImageUrl)} />
+                          <AvatarFallback>{entry.user.displayName?.[0]}</AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold truncate">{entry.user.displayName}</p>
+                          <p className="text-sm text-muted-foreground truncate">@{entry.user.username}</p>
+                        </div>
+                        <Badge variant="secondary">
+                          {entry.score.toLocaleString()} {RANKING_CATEGORIES[category].unit}
+                        </Badge>
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : (
+                  <div className="text-center py-12">
+                    <BarChart3 className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No rankings yet</h3>
+                    <p className="text-muted-foreground">Rankings for this period will appear once there's activity.</p>
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+
             <TabsContent value="posts" className="space-y-6">
               <div className="space-y-4">
                 {postsLoading ? (
@@ -0,0 +1,469 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow, isToday } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getProfileImageUrl } from "@/lib/defaultImages";
+import { cn } from "@/lib/utils";
+import Sidebar from "@/components/sidebar";
+import MobileNav from "@/components/mobile-nav";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, MessageSquare, PenSquare, Send, X } from "lucide-react";
+import type { ConversationSummary, Message, MessagePage } from "@shared/schema";
+
+const MAX_CONVERSATION_PARTICIPANTS = 8;
+const MAX_MESSAGE_LENGTH = 2000;
+
+type Participant = ConversationSummary["participants"][number];
+type UserSearchResult = { id: string; username: string; displayName: string; profileImageUrl: string | null };
+
+const otherParticipants = (conversation: ConversationSummary, viewerId?: string) =>
+  conversation.participants.filter((participant) => participant.id !== viewerId);
+
+const conversationName = (conversation: ConversationSummary, viewerId?: string) =>
+  conversation.title || otherParticipants(conversation, viewerId).map((participant) => participant.displayName).join(", ") || "Just you";
+
+function ParticipantAvatar({ participant, className }: { participant?: Pick<Participant, "displayName" | "profileImageUrl">; className?: string }) {
+  return (
+    <Avatar className={cn("w-10 h-10", className)}>
+      <AvatarImage src={getProfileImageUrl(participant?.profileImageUrl)} />
+      <AvatarFallback>{participant?.displayName?.[0]}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+function ConversationList({ activeId, onNew }: { activeId?: string; onNew: () => void }) {
+  const { user } = useAuth();
+  const { data: conversations = [], isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h1 className="text-xl font-bold">Messages</h1>
+        <Button size="sm" variant="ghost" onClick={onNew} aria-label="New message" data-testid="button-new-conversation">
+          <PenSquare className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="p-4 space-y-3">
+          {[0, 1, 2].map((i) => <Skeleton key={i} className="h-14 w-full" />)}
+        </div>
+      ) : conversations.length === 0 ? (
+        <div className="p-8 text-center text-sm text-muted-foreground">
+          <MessageSquare className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          No conversations yet.
+          <Button variant="link" onClick={onNew}>Start one</Button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto divide-y">
+          {conversations.map((conversation) => {
+            const others = otherParticipants(conversation, user?.id);
+            const preview = conversation.lastMessage
+              ? `${conversation.lastMessage.senderId === user?.id ? "You: " : ""}${conversation.lastMessage.content}`
+              : "No messages yet";
+            return (
+              <Link key={conversation.id} href={`/messages/${conversation.id}`}>
+                <div
+                  className={cn(
+                    "flex items-center gap-3 p-4 cursor-pointer hover:bg-secondary transition-colors",
+                    conversation.id === activeId && "bg-secondary",
+                  )}
+                  data-testid={`conversation-${conversation.id}`}
+                >
+                  <ParticipantAvatar participant={others[0]} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={cn("truncate", conversation.unreadCount > 0 ? "font-semibold" : "font-medium")}>
+                        {conversationName(conversation, user?.id)}
+                      </p>
+                      {conversation.lastMessage && (
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {formatDistanceToNow(new Date(conversation.lastMessage.createdAt!), { addSuffix: false })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground truncate">{preview}</p>
+                      {conversation.unreadCount > 0 && <Badge className="shrink-0">{conversation.unreadCount}</Badge>}
+                    </div>
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Who has read a message: everyone else whose read receipt has reached it
+function readBy(message: Message, conversation: ConversationSummary) {
+  const sentAt = new Date(message.createdAt!).getTime();
+  return conversation.participants.filter(
+    (participant) =>
+      participant.id !== message.senderId &&
+      participant.lastReadAt !== null &&
+      new Date(participant.lastReadAt).getTime() >= sentAt,
+  );
+}
+
+function ConversationThread({ conversationId }: { conversationId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: conversation, isError } = useQuery<ConversationSummary>({
+    queryKey: ["/api/conversations", conversationId],
+  });
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteQuery({
+    queryKey: ["/api/conversations", conversationId, "messages"],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: "30" });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/conversations/${conversationId}/messages?${params}`);
+      return res.json() as Promise<MessagePage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // Pages come newest first; the thread reads oldest to newest
+  const threadMessages = (data?.pages.flatMap((page) => page.messages) ?? []).slice().reverse();
+  const newestId = threadMessages[threadMessages.length - 1]?.id;
+
+  const markRead = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/conversations/${conversationId}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count"] });
+    },
+  });
+
+  // Mark the thread read whenever someone else's message arrives while it's open
+  useEffect(() => {
+    if (conversation && conversation.unreadCount > 0 && !markRead.isPending) {
+      markRead.mutate();
+    }
+  }, [conversation?.unreadCount, newestId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [newestId]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string): Promise<Message> => {
+      const res = await apiRequest("POST", `/api/conversations/${conversationId}/messages`, { content });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Message not sent",
+        description: error.message.startsWith("403")
+          ? "You can't message this conversation right now."
+          : "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const send = () => {
+    const content = draft.trim();
+    if (content && !sendMutation.isPending) sendMutation.mutate(content);
+  };
+
+  if (isError) {
+    return <div className="p-8 text-center text-muted-foreground">This conversation doesn't exist or you're not part of it.</div>;
+  }
+
+  // Receipts only go under the viewer's newest message
+  const lastOwn = [...threadMessages].reverse().find((message) => message.senderId === user?.id);
+  const seenBy = lastOwn && conversation ? readBy(lastOwn, conversation) : [];
+  const senders = new Map(conversation?.participants.map((participant) => [participant.id, participant]));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Link href="/messages" className="md:hidden" aria-label="Back to conversations">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        {conversation ? (
+          <>
+            <ParticipantAvatar participant={otherParticipants(conversation, user?.id)[0]} className="w-8 h-8" />
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{conversationName(conversation, user?.id)}</p>
+              {conversation.isGroup && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {conversation.participants.map((participant) => `@${participant.username}`).join(", ")}
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <Skeleton className="h-8 w-40" />
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2" data-testid="message-thread">
+        {hasNextPage && (
+          <div className="text-center">
+            <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Load older messages"}
+            </Button>
+          </div>
+        )}
+        {isLoading && <Skeleton className="h-24 w-full" />}
+        {threadMessages.map((message) => {
+          const own = message.senderId === user?.id;
+          const sentAt = new Date(message.createdAt!);
+          return (
+            <div key={message.id} className={cn("flex flex-col", own ? "items-end" : "items-start")}>
+              {!own && conversation?.isGroup && (
+                <span className="text-xs text-muted-foreground mb-0.5">{senders.get(message.senderId)?.displayName}</span>
+              )}
+              <div
+                className={cn(
+                  "max-w-[75%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap break-words",
+                  own ? "bg-primary text-primary-foreground" : "bg-secondary",
+                )}
+                title={format(sentAt, "PPpp")}
+              >
+                {message.content}
+              </div>
+              <span className="text-[11px] text-muted-foreground mt-0.5">
+                {isToday(sentAt) ? format(sentAt, "p") : format(sentAt, "PP p")}
+                {message.id === lastOwn?.id && seenBy.length > 0 &&
+                  ` · Seen${conversation?.isGroup ? ` by ${seenBy.map((participant) => participant.displayName).join(", ")}` : ""}`}
+              </span>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        className="flex items-end gap-2 p-4 border-t"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder="Write a message"
+          rows={1}
+          maxLength={MAX_MESSAGE_LENGTH}
+          className="min-h-[40px] max-h-40 resize-none"
+          data-testid="input-message"
+        />
+        <Button type="submit" size="icon" disabled={!draft.trim() || sendMutation.isPending} aria-label="Send" data-testid="button-send-message">
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+function NewConversationDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+  const [title, setTitle] = useState("");
+  const [selected, setSelected] = useState<UserSearchResult[]>([]);
+
+  const { data: results = [] } = useQuery<UserSearchResult[]>({
+    queryKey: ["/api/users/search", query],
+    queryFn: async () => (await apiRequest("GET", `/api/users/search?q=${encodeURIComponent(query.trim())}`)).json(),
+    enabled: open && query.trim().length > 0,
+  });
+
+  const close = () => {
+    setQuery("");
+    setTitle("");
+    setSelected([]);
+    onOpenChange(false);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<ConversationSummary> => {
+      const res = await apiRequest("POST", "/api/conversations", {
+        participantIds: selected.map((participant) => participant.id),
+        title: selected.length > 1 && title.trim() ? title.trim() : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (conversation) => {
+      close();
+      setLocation(`/messages/${conversation.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't start conversation",
+        description: error.message.startsWith("403")
+          ? "Someone you picked doesn't accept messages from you."
+          : "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const full = selected.length >= MAX_CONVERSATION_PARTICIPANTS - 1;
+  const candidates = results.filter(
+    (result) => result.id !== user?.id && !selected.some((participant) => participant.id === result.id),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) close(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New message</DialogTitle>
+          <DialogDescription>
+            Pick one writer, or up to {MAX_CONVERSATION_PARTICIPANTS - 1} for a group conversation.
+          </DialogDescription>
+        </DialogHeader>
+
+        {selected.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {selected.map((participant) => (
+              <Badge key={participant.id} variant="secondary" className="gap-1">
+                {participant.displayName}
+                <button
+                  type="button"
+                  onClick={() => setSelected(selected.filter((s) => s.id !== participant.id))}
+                  aria-label={`Remove ${participant.displayName}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={full ? "This conversation is full" : "Search by name or username"}
+          disabled={full}
+          data-testid="input-conversation-search"
+        />
+
+        {query.trim() && !full && (
+          <div className="max-h-56 overflow-y-auto divide-y rounded-md border">
+            {candidates.length === 0 ? (
+              <p className="p-3 text-sm text-muted-foreground">No writers found</p>
+            ) : (
+              candidates.map((result) => (
+                <button
+                  key={result.id}
+                  type="button"
+                  className="flex w-full items-center gap-3 p-3 text-left hover:bg-secondary"
+                  onClick={() => {
+                    setSelected([...selected, result]);
+                    setQuery("");
+                  }}
+                >
+                  <ParticipantAvatar participant={result} className="w-8 h-8" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{result.displayName}</p>
+                    <p className="text-xs text-muted-foreground truncate">@{result.username}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+
+        {selected.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="conversation-title">Group name (optional)</Label>
+            <Input id="conversation-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={100} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={selected.length === 0 || createMutation.isPending}
+            data-testid="button-start-conversation"
+          >
+            {createMutation.isPending ? "Starting..." : "Start conversation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The inbox beside the open conversation; on small screens only one of them
+// shows at a time
+export default function MessagesPage() {
+  const { id } = useParams<{ id?: string }>();
+  const [showNew, setShowNew] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:ml-64 h-screen pb-16 lg:pb-0">
+        <div className="flex h-full max-w-5xl mx-auto border-x">
+          <div className={cn("w-full md:w-80 md:border-r shrink-0", id && "hidden md:block")}>
+            <ConversationList activeId={id} onNew={() => setShowNew(true)} />
+          </div>
+          <div className={cn("flex-1 min-w-0", !id && "hidden md:block")}>
+            {id ? (
+              <ConversationThread key={id} conversationId={id} />
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center text-center text-muted-foreground p-8">
+                <MessageSquare className="w-12 h-12 mb-3 opacity-50" />
+                <p>Choose a conversation or start a new one</p>
+                <Button className="mt-4" onClick={() => setShowNew(true)}>New message</Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <NewConversationDialog open={showNew} onOpenChange={setShowNew} />
+      <MobileNav />
+    </div>
+  );
+}
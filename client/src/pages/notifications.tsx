@@ -1,6 +1,7 @@
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,13 +9,13 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
-import { Bell, Heart, MessageCircle, Repeat, UserPlus, Check, ArrowLeft, X, HelpCircle } from "lucide-react";
+import { Bell, Heart, MessageCircle, Repeat, UserPlus, Check, ArrowLeft, X, HelpCircle, BookOpen } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 
 interface Notification {
   id: string;
-  type: 'like' | 'comment' | 'follow' | 'repost' | 'collaboration_invite' | 'feedback';
+  type: 'like' | 'comment' | 'comment_reply' | 'series_comment' | 'chapter_comment' | 'follow' | 'repost' | 'collaboration_invite' | 'new_chapter' | 'feedback';
   isRead: boolean;
   createdAt: string;
   actor?: {
@@ -33,6 +34,11 @@ interface Notification {
     subject?: string;
     message?: string;
     contactEmail?: string;
+    seriesId?: string;
+    seriesTitle?: string;
+    chapterId?: string;
+    chapterTitle?: string;
+    chapterNumber?: number;
     collaborationId?: string;
   };
 }
@@ -41,37 +47,22 @@ export default function NotificationsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
 
-  useEffect(() => {
-    if (user) {
-      fetchNotifications();
-    }
-  }, [user]);
+  // Shares the sidebar's cache, which the realtime hook keeps up to date
+  const { data: notifications = [], isLoading } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    queryFn: () => fetch("/api/notifications", { credentials: "include" }).then(res => res.json()),
+    enabled: !!user,
+  });
 
-  const fetchNotifications = async () => {
-    try {
-      setIsLoading(true);
-      const response = await fetch('/api/notifications', {
-        credentials: 'include'
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        setNotifications(data);
-      }
-    } catch (error) {
-      console.error('Error fetching notifications:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load notifications",
-        variant: "destructive"
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const setNotifications = (update: (prev: Notification[]) => Notification[]) => {
+    queryClient.setQueryData<Notification[]>(["/api/notifications"], (prev) => update(prev || []));
+  };
+
+  const fetchNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
   };
 
   const markAsRead = async (notificationId: string) => {
@@ -124,6 +115,9 @@ export default function NotificationsPage() {
       case 'like':
         return <Heart className="h-4 w-4 text-red-500" />;
       case 'comment':
+      case 'comment_reply':
+      case 'series_comment':
+      case 'chapter_comment':
         return <MessageCircle className="h-4 w-4 text-blue-500" />;
       case 'follow':
         return <UserPlus className="h-4 w-4 text-green-500" />;
@@ -131,6 +125,8 @@ export default function NotificationsPage() {
         return <Repeat className="h-4 w-4 text-purple-500" />;
       case 'collaboration_invite':
         return <UserPlus className="h-4 w-4 text-blue-500" />;
+      case 'new_chapter':
+        return <BookOpen className="h-4 w-4 text-primary" />;
       case 'feedback':
         return <HelpCircle className="h-4 w-4 text-orange-500" />;
       default:
@@ -144,12 +140,22 @@ export default function NotificationsPage() {
         return 'liked your post';
       case 'comment':
         return 'commented on your post';
+      case 'comment_reply':
+        return 'replied to your comment';
+      case 'series_comment':
+        return `commented on your story${notification.data?.seriesTitle ? ` "${notification.data.seriesTitle}"` : ''}`;
+      case 'chapter_comment':
+        return `commented on your chapter${notification.data?.chapterTitle ? ` "${notification.data.chapterTitle}"` : ''}`;
       case 'follow':
         return 'started following you';
       case 'repost':
         return 'reposted your post';
       case 'collaboration_invite':
         return 'invited you to collaborate on a post';
+      case 'new_chapter': {
+        const chapter = notification.data?.chapterNumber ? `Chapter ${notification.data.chapterNumber}` : 'a new chapter';
+        return `published ${chapter}${notification.data?.chapterTitle ? `: "${notification.data.chapterTitle}"` : ''}${notification.data?.seriesTitle ? ` of "${notification.data.seriesTitle}"` : ''}`;
+      }
       case 'feedback':
         return 'sent feedback';
       default:
@@ -363,7 +369,12 @@ export default function NotificationsPage() {
                     className={`cursor-pointer transition-colors hover:bg-muted/50 ${
                       !notification.isRead ? 'border-2 border-primary shadow-lg shadow-primary/20' : 'border'
                     }`}
-                    onClick={() => !notification.isRead && markAsRead(notification.id)}
+                    onClick={() => {
+                      if (!notification.isRead) markAsRead(notification.id);
+                      if (notification.type === 'new_chapter' && notification.data?.chapterId) {
+                        setLocation(`/chapter/${notification.data.chapterId}`);
+                      }
+                    }}
                   >
                     <CardContent className="p-4">
                       <div className="flex items-start gap-3">
@@ -535,7 +535,7 @@ export default function PostPage() {
           {/* Comments Section */}
           <div id="comments-section">
             <h2 className="text-2xl font-bold mb-6">Comments</h2>
-            <CommentThread postId={postId!} />
+            <CommentThread target={{ type: "post", id: postId! }} />
           </div>
         </div>
       </div>
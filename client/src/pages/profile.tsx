@@ -25,13 +25,15 @@ import {
   Camera,
   BookOpen,
   BarChart3,
-  Eye
+  Eye,
+  Lock
 } from "lucide-react";
 import { getProfileImageUrl, getCoverImageUrl } from "@/lib/defaultImages";
 import { formatDistanceToNow } from "date-fns";
 import type { Post, User } from "@shared/schema";
 import LoadingScreen from "@/components/loading-screen";
 import FollowButton from "@/components/follow-button";
+import UserActionsMenu from "@/components/user-actions-menu";
 
 // User Stories Section Component
 function UserStoriesSection({ userId, isOwnProfile }: { userId: string; isOwnProfile: boolean }) {
@@ -347,6 +349,33 @@ export default function Profile() {
     );
   }
 
+  if (profileUser.isRestricted) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Sidebar />
+        <div className="lg:ml-64 min-h-screen flex items-center justify-center">
+          <div className="text-center">
+            <img
+              src={getProfileImageUrl(profileUser.profileImageUrl)}
+              alt={profileUser.displayName}
+              className="w-24 h-24 rounded-full object-cover mx-auto mb-4"
+            />
+            <h2 className="text-2xl font-bold">{profileUser.displayName}</h2>
+            <p className="text-muted-foreground mb-4">@{profileUser.username}</p>
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Lock className="w-4 h-4" />
+              <span>
+                {profileUser.profileVisibility === 'followers'
+                  ? "Only followers can view this profile."
+                  : "This profile is private."}
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <Sidebar />
@@ -494,6 +523,9 @@ export default function Profile() {
                       variant="default"
                       size="sm"
                     />
+                    {currentUser && (
+                      <UserActionsMenu userId={profileUser.id} username={profileUser.username} />
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, MailCheck } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Without a token this asks for the account's email and sends a reset link;
+// the link in that email comes back here with the token to set a new password
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
+      <div className="max-w-md w-full mx-auto px-4">
+        {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+      </div>
+    </div>
+  );
+}
+
+function RequestResetForm() {
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/password-reset/request", { email: email.trim() }),
+  });
+
+  if (requestMutation.isSuccess) {
+    return (
+      <Card>
+        <CardContent className="pt-8 pb-8 text-center">
+          <MailCheck className="w-10 h-10 text-primary mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Check your email</h1>
+          <p className="text-muted-foreground text-sm mb-6">
+            If an account uses {email.trim()}, we've sent it a link to reset the password. The link expires in an hour.
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/">Back to Writers Guild</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          Forgot your password?
+        </CardTitle>
+        <CardDescription>
+          Enter the email on your account and we'll send you a link to choose a new password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            requestMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="reset-email">Email</Label>
+            <Input
+              id="reset-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              data-testid="input-reset-email"
+            />
+          </div>
+          {requestMutation.isError && (
+            <p className="text-sm text-destructive">Something went wrong. Please try again in a few minutes.</p>
+          )}
+          <Button type="submit" className="w-full" disabled={!email.trim() || requestMutation.isPending} data-testid="button-send-reset-link">
+            {requestMutation.isPending ? "Sending..." : "Send reset link"}
+          </Button>
+          <p className="text-center text-xs text-muted-foreground">
+            Accounts without an email can't be recovered this way.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NewPasswordForm({ token }: { token: string }) {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/password-reset", { token, password }),
+  });
+
+  if (resetMutation.isSuccess) {
+    return (
+      <Card>
+        <CardContent className="pt-8 pb-8 text-center">
+          <KeyRound className="w-10 h-10 text-primary mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Password updated</h1>
+          <p className="text-muted-foreground text-sm mb-6">You can now sign in with your new password.</p>
+          <Button asChild>
+            <Link href="/">Sign in</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const tooShort = password.length > 0 && password.length < MIN_PASSWORD_LENGTH;
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          Choose a new password
+        </CardTitle>
+        <CardDescription>Use at least {MIN_PASSWORD_LENGTH} characters.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            resetMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              data-testid="input-new-password"
+            />
+            {tooShort && (
+              <p className="text-xs text-destructive">Password must be at least {MIN_PASSWORD_LENGTH} characters</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-new-password">Confirm new password</Label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              data-testid="input-confirm-new-password"
+            />
+            {mismatch && <p className="text-xs text-destructive">Passwords don't match</p>}
+          </div>
+          {resetMutation.isError && (
+            <p className="text-sm text-destructive">
+              This reset link is invalid or has expired.{" "}
+              <Link href="/forgot-password" className="underline">Request a new one</Link>
+            </p>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={password.length < MIN_PASSWORD_LENGTH || password !== confirmPassword || resetMutation.isPending}
+            data-testid="button-reset-password"
+          >
+            {resetMutation.isPending ? "Saving..." : "Set new password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,110 +1,109 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/useAuth";
-import { useToast } from "@/hooks/use-toast";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
-import PostCard from "@/components/post-card";
-import FollowButton from "@/components/follow-button";
+import SearchResultCard from "@/components/search-result-card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
-import { Separator } from "@/components/ui/separator";
 import { 
   Search, 
   Filter, 
-  TrendingUp, 
-  Calendar,
-  MapPin,
-  User as UserIcon,
   BookOpen,
-  Music,
-  Image as ImageIcon,
-  Heart,
-  MessageCircle,
-  Repeat2,
   ChevronDown,
   X
 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import type { SearchPage, SearchResultType } from "@shared/schema";
 
 interface SearchFilters {
-  type: 'all' | 'posts' | 'users' | 'topics';
+  type: 'all' | SearchResultType;
   timeRange: 'all' | 'today' | 'week' | 'month' | 'year';
-  sortBy: 'relevance' | 'recent' | 'popular' | 'engagement';
-  postType: 'all' | 'text' | 'poetry' | 'story' | 'challenge';
-  hasImages: boolean;
-  hasMusic: boolean;
-  verified: boolean;
-  minEngagement: number;
+  sortBy: 'relevance' | 'recent';
+  category: string;
+  genre: string;
+  author: string;
 }
 
+const DEFAULT_FILTERS: SearchFilters = {
+  type: 'all',
+  timeRange: 'all',
+  sortBy: 'relevance',
+  category: 'all',
+  genre: 'all',
+  author: '',
+};
+
+const POST_CATEGORIES = ["general", "literary", "news", "opinion", "technology", "culture", "personal"];
+const STORY_GENRES = ["Romance", "Fantasy", "Mystery", "Sci-Fi", "Drama", "Comedy", "Horror", "Adventure"];
+const PAGE_SIZE = 20;
+
+// Start of the selected time range, or undefined for all time
+const getRangeStart = (timeRange: SearchFilters['timeRange']) => {
+  const days = { today: 1, week: 7, month: 30, year: 365 }[timeRange as Exclude<typeof timeRange, 'all'>];
+  return days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+};
+
 export default function SearchPage() {
-  const { user: currentUser, isAuthenticated } = useAuth();
-  const { toast } = useToast();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [searchQuery, setSearchQuery] = useState(
+    () => new URLSearchParams(window.location.search).get("q") || ""
+  );
+  const [debouncedQuery, setDebouncedQuery] = useState(searchQuery);
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<SearchFilters>({
-    type: 'all',
-    timeRange: 'all',
-    sortBy: 'relevance',
-    postType: 'all',
-    hasImages: false,
-    hasMusic: false,
-    verified: false,
-    minEngagement: 0
-  });
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
+  const [debouncedAuthor, setDebouncedAuthor] = useState("");
 
   // Debounce search query
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedQuery(searchQuery);
+      setDebouncedAuthor(filters.author);
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, filters.author]);
 
-  // Search results
-  const { data: searchResults, isLoading, error } = useQuery({
-    queryKey: ["/api/search", debouncedQuery, filters],
-    queryFn: async () => {
-      if (!debouncedQuery.trim()) return { posts: [], users: [], topics: [] };
+  const requestFilters = { ...filters, author: debouncedAuthor };
 
+  // Ranked, paginated results across posts, stories, chapters and writers
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/search", debouncedQuery, requestFilters],
+    queryFn: async ({ pageParam }) => {
       const params = new URLSearchParams({
         q: debouncedQuery,
-        type: filters.type,
-        timeRange: filters.timeRange,
-        sortBy: filters.sortBy,
-        postType: filters.postType,
-        hasImages: filters.hasImages.toString(),
-        hasMusic: filters.hasMusic.toString(),
-        verified: filters.verified.toString(),
-        minEngagement: filters.minEngagement.toString()
+        type: requestFilters.type,
+        sort: requestFilters.sortBy,
+        limit: String(PAGE_SIZE),
+        offset: String(pageParam),
       });
+      if (requestFilters.category !== 'all') params.set('category', requestFilters.category);
+      if (requestFilters.genre !== 'all') params.set('genre', requestFilters.genre);
+      if (requestFilters.author.trim()) params.set('author', requestFilters.author.trim());
+      const from = getRangeStart(requestFilters.timeRange);
+      if (from) params.set('from', from.toISOString());
 
       const response = await fetch(`/api/search?${params}`, { credentials: 'include' });
       if (!response.ok) throw new Error('Search failed');
-      return response.json();
+      return response.json() as Promise<SearchPage>;
     },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
     enabled: debouncedQuery.trim().length > 0,
   });
 
+  const results = data?.pages.flatMap((page) => page.results) ?? [];
+  const hasActiveFilters = (Object.keys(DEFAULT_FILTERS) as (keyof SearchFilters)[])
+    .some((key) => filters[key] !== DEFAULT_FILTERS[key]);
+
   const resetFilters = () => {
-    setFilters({
-      type: 'all',
-      timeRange: 'all',
-      sortBy: 'relevance',
-      postType: 'all',
-      hasImages: false,
-      hasMusic: false,
-      verified: false,
-      minEngagement: 0
-    });
+    setFilters(DEFAULT_FILTERS);
   };
 
   return (
@@ -122,7 +121,7 @@ export default function SearchPage() {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                 <Input
                   type="text"
-                  placeholder="Search for posts, users, or topics..."
+                  placeholder="Search posts, stories, chapters and writers..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10 pr-4 py-3 text-lg"
@@ -142,7 +141,7 @@ export default function SearchPage() {
                   {showFilters && <ChevronDown className="w-4 h-4" />}
                 </Button>
 
-                {Object.values(filters).some(v => v !== 'all' && v !== false && v !== 0) && (
+                {hasActiveFilters && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -159,7 +158,7 @@ export default function SearchPage() {
               {showFilters && (
                 <Card className="mb-6">
                   <CardContent className="p-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       {/* Type Filter */}
                       <div>
                         <label className="block text-sm font-medium mb-2">Type</label>
@@ -175,8 +174,9 @@ export default function SearchPage() {
                           <SelectContent>
                             <SelectItem value="all">All</SelectItem>
                             <SelectItem value="posts">Posts</SelectItem>
-                            <SelectItem value="users">Users</SelectItem>
-                            <SelectItem value="topics">Topics</SelectItem>
+                            <SelectItem value="series">Stories</SelectItem>
+                            <SelectItem value="chapters">Chapters</SelectItem>
+                            <SelectItem value="users">Writers</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -218,69 +218,62 @@ export default function SearchPage() {
                           <SelectContent>
                             <SelectItem value="relevance">Relevance</SelectItem>
                             <SelectItem value="recent">Most Recent</SelectItem>
-                            <SelectItem value="popular">Most Popular</SelectItem>
-                            <SelectItem value="engagement">Most Engagement</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
-                      {/* Post Type */}
+                      {/* Post Category */}
                       <div>
-                        <label className="block text-sm font-medium mb-2">Post Type</label>
+                        <label className="block text-sm font-medium mb-2">Post Category</label>
                         <Select 
-                          value={filters.postType} 
-                          onValueChange={(value: typeof filters.postType) => 
-                            setFilters(prev => ({ ...prev, postType: value }))
+                          value={filters.category} 
+                          onValueChange={(value) => 
+                            setFilters(prev => ({ ...prev, category: value }))
                           }
                         >
                           <SelectTrigger>
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="all">All Types</SelectItem>
-                            <SelectItem value="text">Text</SelectItem>
-                            <SelectItem value="poetry">Poetry</SelectItem>
-                            <SelectItem value="story">Story</SelectItem>
-                            <SelectItem value="challenge">Challenge</SelectItem>
+                            <SelectItem value="all">All Categories</SelectItem>
+                            {POST_CATEGORIES.map((category) => (
+                              <SelectItem key={category} value={category} className="capitalize">
+                                {category}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
-                    </div>
 
-                    <Separator className="my-4" />
-
-                    <div className="flex flex-wrap gap-4">
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="has-images"
-                          checked={filters.hasImages}
-                          onCheckedChange={(checked) => 
-                            setFilters(prev => ({ ...prev, hasImages: checked as boolean }))
-                          }
-                        />
-                        <label htmlFor="has-images" className="text-sm">Has Images</label>
-                      </div>
-
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="has-music"
-                          checked={filters.hasMusic}
-                          onCheckedChange={(checked) => 
-                            setFilters(prev => ({ ...prev, hasMusic: checked as boolean }))
+                      {/* Story Genre */}
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Story Genre</label>
+                        <Select 
+                          value={filters.genre} 
+                          onValueChange={(value) => 
+                            setFilters(prev => ({ ...prev, genre: value }))
                           }
-                        />
-                        <label htmlFor="has-music" className="text-sm">Has Music</label>
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Genres</SelectItem>
+                            {STORY_GENRES.map((genre) => (
+                              <SelectItem key={genre} value={genre}>{genre}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
 
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="verified"
-                          checked={filters.verified}
-                          onCheckedChange={(checked) => 
-                            setFilters(prev => ({ ...prev, verified: checked as boolean }))
-                          }
+                      {/* Author */}
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Author</label>
+                        <Input
+                          placeholder="@username"
+                          value={filters.author}
+                          onChange={(e) => setFilters(prev => ({ ...prev, author: e.target.value }))}
                         />
-                        <label htmlFor="verified" className="text-sm">Verified Users Only</label>
                       </div>
                     </div>
                   </CardContent>
@@ -302,137 +295,32 @@ export default function SearchPage() {
                       <p className="text-destructive">Search failed. Please try again.</p>
                     </CardContent>
                   </Card>
-                ) : searchResults ? (
-                  <div>
-                    <Tabs defaultValue="posts" className="w-full">
-                      <TabsList className="grid grid-cols-3 w-full max-w-md">
-                        <TabsTrigger value="posts">Posts ({searchResults.posts?.length || 0})</TabsTrigger>
-                        <TabsTrigger value="users">Users ({searchResults.users?.length || 0})</TabsTrigger>
-                        <TabsTrigger value="topics">Topics ({searchResults.topics?.length || 0})</TabsTrigger>
-                      </TabsList>
-
-                      <TabsContent value="posts" className="mt-4">
-                        {searchResults.posts?.length > 0 ? (
-                          <div className="space-y-4">
-                            {searchResults.posts.map((post: any) => (
-                              <PostCard key={post.id} post={post} />
-                            ))}
-                          </div>
-                        ) : (
-                          <Card>
-                            <CardContent className="p-8 text-center text-muted-foreground">
-                              <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                              <p>No posts found for "{searchQuery}"</p>
-                              <p className="text-sm">Try different keywords or adjust your filters</p>
-                            </CardContent>
-                          </Card>
-                        )}
-                      </TabsContent>
+                ) : results.length > 0 ? (
+                  <div className="space-y-4">
+                    {results.map((result) => (
+                      <SearchResultCard key={`${result.type}-${result.id}`} result={result} />
+                    ))}
 
-                      <TabsContent value="users" className="mt-4">
-                        {searchResults.users?.length > 0 ? (
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {searchResults.users.map((user: any) => (
-                              <Card 
-                                key={user.id} 
-                                className="cursor-pointer hover:shadow-md transition-shadow"
-                                onClick={() => window.location.href = `/profile/${user.username}`}
-                              >
-                                <CardContent className="p-4">
-                                  <div className="flex items-start gap-3">
-                                    <Avatar>
-                                      <AvatarImage src={user.profileImageUrl} />
-                                      <AvatarFallback>
-                                        {user.firstName?.[0]}{user.lastName?.[0]}
-                                      </AvatarFallback>
-                                    </Avatar>
-                                    <div className="flex-1 min-w-0">
-                                      <div className="flex items-center gap-2">
-                                        <h3 className="font-semibold truncate">
-                                          {user.firstName} {user.lastName}
-                                        </h3>
-                                        {user.verified && (
-                                          <Badge variant="secondary" className="text-xs">
-                                            Verified
-                                          </Badge>
-                                        )}
-                                      </div>
-                                      <p className="text-sm text-muted-foreground truncate">
-                                        @{user.username}
-                                      </p>
-                                      {user.bio && (
-                                        <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
-                                          {user.bio}
-                                        </p>
-                                      )}
-                                      <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
-                                        <span>{user.postsCount || 0} posts</span>
-                                        <span>{user.followersCount || 0} followers</span>
-                                      </div>
-                                    </div>
-
-                                    {currentUser && user.id !== currentUser.id && (
-                                      <div className="flex flex-col gap-2">
-                                        <FollowButton userId={user.id} variant="outline" size="sm" />
-                                        <Button
-                                          variant="outline"
-                                          size="sm"
-                                          onClick={() => window.location.href = `/messages?user=${user.id}`}
-                                          className="text-xs"
-                                        >
-                                          Message
-                                        </Button>
-                                      </div>
-                                    )}
-                                  </div>
-                                </CardContent>
-                              </Card>
-                            ))}
-                          </div>
-                        ) : (
-                          <Card>
-                            <CardContent className="p-8 text-center text-muted-foreground">
-                              <UserIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                              <p>No users found for "{searchQuery}"</p>
-                              <p className="text-sm">Try different keywords or adjust your filters</p>
-                            </CardContent>
-                          </Card>
-                        )}
-                      </TabsContent>
-
-                      <TabsContent value="topics" className="mt-4">
-                        {searchResults.topics?.length > 0 ? (
-                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                            {searchResults.topics.map((topic: any, index: number) => (
-                              <Card key={index}>
-                                <CardContent className="p-4">
-                                  <div className="flex items-center gap-2">
-                                    <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
-                                      <span className="text-primary font-semibold">#</span>
-                                    </div>
-                                    <div>
-                                      <h3 className="font-semibold">{topic.name}</h3>
-                                      <p className="text-sm text-muted-foreground">
-                                        {topic.postCount} posts
-                                      </p>
-                                    </div>
-                                  </div>
-                                </CardContent>
-                              </Card>
-                            ))}
-                          </div>
-                        ) : (
-                          <Card>
-                            <CardContent className="p-8 text-center text-muted-foreground">
-                              <TrendingUp className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                              <p>No topics found for "{searchQuery}"</p>
-                              <p className="text-sm">Try different keywords or adjust your filters</p>
-                            </CardContent>
-                          </Card>
-                        )}
-                      </TabsContent>
-                    </Tabs>
+                    {hasNextPage && (
+                      <div className="flex justify-center">
+                        <Button
+                          variant="outline"
+                          onClick={() => fetchNextPage()}
+                          disabled={isFetchingNextPage}
+                        >
+                          {isFetchingNextPage ? "Loading..." : "Load more"}
+                        </Button>
+                      </div>
+                    )}
                   </div>
+                ) : data ? (
+                  <Card>
+                    <CardContent className="p-8 text-center text-muted-foreground">
+                      <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                      <p>No results found for "{searchQuery}"</p>
+                      <p className="text-sm">Try different keywords or adjust your filters</p>
+                    </CardContent>
+                  </Card>
                 ) : null}
               </div>
             ) : (
@@ -440,7 +328,7 @@ export default function SearchPage() {
                 <Search className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
                 <h2 className="text-xl font-semibold mb-2">Search Writers Guild</h2>
                 <p className="text-muted-foreground mb-6">
-                  Find posts, users, and topics that interest you
+                  Find posts, stories, chapters and writers that interest you
                 </p>
                 <div className="flex flex-wrap justify-center gap-2">
                   <Badge variant="outline" className="cursor-pointer" onClick={() => setSearchQuery("poetry")}>
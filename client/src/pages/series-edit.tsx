@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, type ReactNode } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Reorder, useDragControls } from "framer-motion";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -8,6 +10,7 @@ import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
 import LoadingScreen from "@/components/loading-screen";
 import RichTextEditor from "@/components/rich-text-editor";
+import ManuscriptImport from "@/components/manuscript-import";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -44,9 +47,36 @@ import {
   Upload,
   Settings,
   FileText,
+  GripVertical,
   Image as ImageIcon
 } from "lucide-react";
 
+// A chapter row that's dragged by its grip only, so its buttons and text stay
+// usable and touch scrolling still works
+function DraggableChapter({ chapter, onDrop, children }: {
+  chapter: any;
+  onDrop: () => void;
+  children: (handle: ReactNode) => ReactNode;
+}) {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item as="div" value={chapter} dragListener={false} dragControls={dragControls} onDragEnd={onDrop}>
+      {children(
+        <button
+          type="button"
+          className="cursor-grab touch-none text-muted-foreground hover:text-foreground active:cursor-grabbing"
+          onPointerDown={(e) => dragControls.start(e)}
+          aria-label={`Drag to reorder "${chapter.title}"`}
+          data-testid={`handle-reorder-chapter-${chapter.id}`}
+        >
+          <GripVertical className="w-5 h-5" />
+        </button>
+      )}
+    </Reorder.Item>
+  );
+}
+
 export default function SeriesEditPage() {
   const { id: seriesId } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
@@ -101,6 +131,15 @@ export default function SeriesEditPage() {
     enabled: !!seriesId,
   });
 
+  // Chapters in their on-screen order, which changes while dragging
+  const [orderedChapters, setOrderedChapters] = useState<any[]>([]);
+  const orderedChaptersRef = useRef(orderedChapters);
+  orderedChaptersRef.current = orderedChapters;
+
+  useEffect(() => {
+    setOrderedChapters([...chapters].sort((a: any, b: any) => a.chapterNumber - b.chapterNumber));
+  }, [chapters]);
+
   // Initialize form with series data
   useEffect(() => {
     if (series) {
@@ -212,6 +251,36 @@ export default function SeriesEditPage() {
     },
   });
 
+  // Reorder chapters mutation
+  const reorderChaptersMutation = useMutation({
+    mutationFn: async (chapterIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/series/${seriesId}/chapters/order`, { chapterIds });
+      return response.json();
+    },
+    onSuccess: (reordered) => {
+      queryClient.setQueryData(["/api/series", seriesId, "chapters"], reordered);
+      queryClient.invalidateQueries({ queryKey: ["/api/series", seriesId] });
+    },
+    onError: () => {
+      setOrderedChapters([...chapters].sort((a: any, b: any) => a.chapterNumber - b.chapterNumber));
+      toast({
+        title: "Error",
+        description: "Failed to reorder chapters",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveChapterOrder = () => {
+    const ids = orderedChaptersRef.current.map((chapter: any) => chapter.id);
+    const savedIds = [...chapters]
+      .sort((a: any, b: any) => a.chapterNumber - b.chapterNumber)
+      .map((chapter: any) => chapter.id);
+    if (ids.some((id: string, index: number) => id !== savedIds[index])) {
+      reorderChaptersMutation.mutate(ids);
+    }
+  };
+
   // Delete series mutation
   const deleteSeriesMutation = useMutation({
     mutationFn: async () => {
@@ -582,10 +651,13 @@ export default function SeriesEditPage() {
             <TabsContent value="chapters" className="space-y-6">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">Chapters ({chapters.length})</h3>
-                <Button onClick={startNewChapter} className="flex items-center gap-2">
-                  <Plus className="w-4 h-4" />
-                  Add Chapter
-                </Button>
+                <div className="flex items-center gap-2">
+                  <ManuscriptImport seriesId={seriesId} />
+                  <Button onClick={startNewChapter} className="flex items-center gap-2">
+                    <Plus className="w-4 h-4" />
+                    Add Chapter
+                  </Button>
+                </div>
               </div>
 
               {/* New/Edit Chapter Form */}
@@ -644,61 +716,70 @@ export default function SeriesEditPage() {
 
               {/* Chapters List */}
               <div className="space-y-4">
-                {chapters.map((chapter: any, index: number) => (
-                  <Card key={chapter.id}>
-                    <CardContent className="p-4">
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <h4 className="font-semibold">
-                            Chapter {index + 1}: {chapter.title}
-                          </h4>
-                          <p className="text-sm text-muted-foreground mt-1">
-                            {chapter.wordCount || 0} words • 
-                            {chapter.isPublished ? " Published" : " Draft"}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => startEditChapter(chapter)}
-                            data-testid={`button-edit-chapter-${chapter.id}`}
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Chapter</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete "{chapter.title}"? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => deleteChapterMutation.mutate(chapter.id)}
-                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                <Reorder.Group as="div" axis="y" values={orderedChapters} onReorder={setOrderedChapters} className="space-y-4">
+                  {orderedChapters.map((chapter: any, index: number) => (
+                    <DraggableChapter key={chapter.id} chapter={chapter} onDrop={saveChapterOrder}>
+                      {(handle) => (
+                        <Card>
+                          <CardContent className="p-4">
+                            <div className="flex items-center justify-between gap-3">
+                              {handle}
+                              <div className="flex-1">
+                                <h4 className="font-semibold">
+                                  Chapter {index + 1}: {chapter.title}
+                                </h4>
+                                <p className="text-sm text-muted-foreground mt-1">
+                                  {chapter.wordCount || 0} words • 
+                                  {chapter.isPublished
+                                    ? " Published"
+                                    : chapter.scheduledFor ? ` Scheduled for ${format(new Date(chapter.scheduledFor), "PPp")}` : " Draft"}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => startEditChapter(chapter)}
+                                  data-testid={`button-edit-chapter-${chapter.id}`}
                                 >
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Chapter</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete "{chapter.title}"? This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => deleteChapterMutation.mutate(chapter.id)}
+                                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      >
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+                    </DraggableChapter>
+                  ))}
+                </Reorder.Group>
 
                 {chapters.length === 0 && !showNewChapter && (
                   <Card>
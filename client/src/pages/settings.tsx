@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -35,6 +36,10 @@ import {
 } from "lucide-react";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
+import EmailVerification from "@/components/email-verification";
+import ActiveSessions from "@/components/active-sessions";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import BlockedMutedUsers from "@/components/blocked-muted-users";
 
 export default function Settings() {
   const { user } = useAuth();
@@ -57,12 +62,10 @@ export default function Settings() {
   });
 
   const [notifications, setNotifications] = useState({
-    emailNotifications: true,
     pushNotifications: true,
     commentNotifications: true,
     followNotifications: true,
     collaborationNotifications: true,
-    weeklyDigest: true,
   });
 
   const [theme, setTheme] = useState({
@@ -73,6 +76,25 @@ export default function Settings() {
 
   const [userRole, setUserRole] = useState(user?.userRole || 'reader');
 
+  const queryClient = useQueryClient();
+  const { data: savedSettings } = useQuery<{
+    privacy: typeof privacy;
+    notifications: typeof notifications;
+    theme: typeof theme;
+  }>({
+    queryKey: ["/api/user/settings"],
+    enabled: !!user,
+  });
+
+  // Replace the defaults with what's stored once settings load
+  useEffect(() => {
+    if (savedSettings) {
+      setPrivacy(savedSettings.privacy);
+      setNotifications(savedSettings.notifications);
+      setTheme(savedSettings.theme);
+    }
+  }, [savedSettings]);
+
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const [isUploadingCover, setIsUploadingCover] = useState(false);
 
@@ -218,10 +240,13 @@ export default function Settings() {
       });
 
       if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/settings"] });
         toast({
           title: "Privacy settings updated",
           description: "Your privacy preferences have been saved.",
         });
+      } else {
+        throw new Error('Update failed');
       }
     } catch (error) {
       toast({
@@ -232,6 +257,60 @@ export default function Settings() {
     }
   };
 
+  const handleNotificationsUpdate = async () => {
+    try {
+      const response = await fetch('/api/user/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(notifications),
+      });
+
+      if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/settings"] });
+        toast({
+          title: "Notification settings updated",
+          description: "Your notification preferences have been saved.",
+        });
+      } else {
+        throw new Error('Update failed');
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleThemeUpdate = async () => {
+    try {
+      const response = await fetch('/api/user/theme', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(theme),
+      });
+
+      if (response.ok) {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/settings"] });
+        toast({
+          title: "Appearance settings updated",
+          description: "Your appearance preferences have been saved.",
+        });
+      } else {
+        throw new Error('Update failed');
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update appearance settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!user) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -489,6 +568,22 @@ export default function Settings() {
                   <CardTitle>Privacy & Security</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  <EmailVerification />
+
+                  <Separator />
+
+                  <TwoFactorSettings />
+
+                  <Separator />
+
+                  <ActiveSessions />
+
+                  <Separator />
+
+                  <BlockedMutedUsers />
+
+                  <Separator />
+
                   <div>
                     <Label>Profile Visibility</Label>
                     <Select value={privacy.profileVisibility} onValueChange={(value) => setPrivacy({ ...privacy, profileVisibility: value })}>
@@ -602,17 +697,6 @@ export default function Settings() {
                   <div className="space-y-4">
                     <h3 className="font-medium">General Notifications</h3>
 
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label>Email Notifications</Label>
-                        <p className="text-sm text-muted-foreground">Receive notifications via email</p>
-                      </div>
-                      <Switch
-                        checked={notifications.emailNotifications}
-                        onCheckedChange={(checked) => setNotifications({ ...notifications, emailNotifications: checked })}
-                      />
-                    </div>
-
                     <div className="flex items-center justify-between">
                       <div>
                         <Label>Push Notifications</Label>
@@ -662,20 +746,9 @@ export default function Settings() {
                         onCheckedChange={(checked) => setNotifications({ ...notifications, collaborationNotifications: checked })}
                       />
                     </div>
-
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label>Weekly Digest</Label>
-                        <p className="text-sm text-muted-foreground">Weekly summary of platform activity</p>
-                      </div>
-                      <Switch
-                        checked={notifications.weeklyDigest}
-                        onCheckedChange={(checked) => setNotifications({ ...notifications, weeklyDigest: checked })}
-                      />
-                    </div>
                   </div>
 
-                  <Button>
+                  <Button onClick={handleNotificationsUpdate}>
                     Save Notification Settings
                   </Button>
                 </CardContent>
@@ -728,7 +801,7 @@ export default function Settings() {
                     />
                   </div>
 
-                  <Button>
+                  <Button onClick={handleThemeUpdate}>
                     Save Appearance Settings
                   </Button>
                 </CardContent>
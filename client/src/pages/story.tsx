@@ -6,13 +6,20 @@ import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
 import LoadingScreen from "@/components/loading-screen";
+import CommentThread from "@/components/comment-thread";
+import SeriesReactions from "@/components/series-reactions";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { 
   BookOpen, 
   Users, 
@@ -26,7 +33,8 @@ import {
   ArrowLeft,
   ArrowRight,
   Crown,
-  MoreHorizontal
+  MoreHorizontal,
+  Download
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { getProfileImageUrl } from "@/lib/defaultImages";
@@ -75,8 +83,6 @@ export default function StoryPage() {
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [newComment, setNewComment] = useState("");
-  const [isSubmittingComment, setIsSubmittingComment] = useState(false);
 
   // Determine if we're viewing a specific chapter
   const isChapterView = !!chapterId;
@@ -121,11 +127,8 @@ export default function StoryPage() {
     enabled: !!id,
   });
 
-  // Fetch comments
-  const { 
-    data: comments = [], 
-    isLoading: commentsLoading 
-  } = useQuery({
+  // Fetch comments (shares its cache with the CommentThread in the comments tab)
+  const { data: comments = [] } = useQuery({
     queryKey: ["/api/series", id, "comments"],
     queryFn: () => fetch(`/api/series/${id}/comments`).then(res => res.json()),
     enabled: !!id,
@@ -188,40 +191,31 @@ export default function StoryPage() {
     },
   });
 
-  // Comment submission
-  const handleCommentSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim() || !isAuthenticated) return;
-
-    setIsSubmittingComment(true);
-    try {
-      const response = await fetch(`/api/series/${id}/comments`, {
+  // Bookmark mutation (adds the story to the "Want to read" shelf)
+  const bookmarkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/series/${id}/bookmark`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ content: newComment.trim() }),
       });
-
-      if (response.ok) {
-        setNewComment("");
-        queryClient.invalidateQueries({ queryKey: ["/api/series", id, "comments"] });
-        toast({
-          title: "Comment posted",
-          description: "Your comment has been added to the story.",
-        });
-      } else {
-        throw new Error('Failed to post comment');
-      }
-    } catch (error) {
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/series", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+      toast({
+        title: "Success",
+        description: story?.isBookmarked ? "Removed from your library" : "Added to your library",
+      });
+    },
+    onError: () => {
       toast({
         title: "Error",
-        description: "Failed to post comment. Please try again.",
+        description: "Failed to update bookmark",
         variant: "destructive",
       });
-    } finally {
-      setIsSubmittingComment(false);
-    }
-  };
+    },
+  });
 
   if (storyLoading || chaptersLoading) {
     return <LoadingScreen title="Loading Story..." subtitle="Fetching story details and chapters" />;
@@ -249,7 +243,7 @@ export default function StoryPage() {
 
   const isOwner = isAuthenticated && story.author?.id === user?.id;
   const readingProgressPercentage = progress?.progressPercentage || 0;
-  const lastChapterRead = progress?.lastChapterIndex || 0;
+  const lastChapterRead = chapters.findIndex((chapter: any) => chapter.id === progress?.lastChapterId);
 
   // If we're viewing a specific chapter, show chapter reader
   if (isChapterView) {
@@ -490,13 +484,15 @@ export default function StoryPage() {
                             size="lg" 
                             className="flex-1"
                             onClick={() => {
-                              const targetChapter = chapters[lastChapterRead] || chapters[0];
-                              if (targetChapter?.id) {
-                                setLocation(`/story/${id}/chapter/${targetChapter.id}`);
+                              // The chapter reader scrolls back to the saved paragraph
+                              if (lastChapterRead >= 0) {
+                                setLocation(`/chapter/${chapters[lastChapterRead].id}`);
+                              } else if (chapters[0]?.id) {
+                                setLocation(`/story/${id}/chapter/${chapters[0].id}`);
                               }
                             }}
                           >
-                            {readingProgressPercentage > 0 ? "Continue Reading" : "Start Reading"}
+                            {lastChapterRead >= 0 ? "Continue Reading" : "Start Reading"}
                           </Button>
                         ) : (
                           <Button size="lg" className="flex-1" disabled>
@@ -522,12 +518,43 @@ export default function StoryPage() {
                               <Heart className={`w-4 h-4 mr-2 ${story.isLiked ? "fill-current text-red-500" : ""}`} />
                               {story.isLiked ? "Liked" : "Like"}
                             </Button>
+                            <Button 
+                              variant="outline"
+                              onClick={() => bookmarkMutation.mutate()}
+                              disabled={bookmarkMutation.isPending}
+                            >
+                              <Bookmark className={`w-4 h-4 mr-2 ${story.isBookmarked ? "fill-current" : ""}`} />
+                              {story.isBookmarked ? "In Library" : "Want to Read"}
+                            </Button>
                           </>
                         )}
+
+                        {chapters.length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" data-testid="button-download-story">
+                                <Download className="w-4 h-4 mr-2" />
+                                Download
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem asChild>
+                                <a href={`/api/series/${id}/export?format=epub`} download data-testid="link-download-epub">
+                                  EPUB (e-readers)
+                                </a>
+                              </DropdownMenuItem>
+                              <DropdownMenuItem asChild>
+                                <a href={`/api/series/${id}/export?format=pdf`} download data-testid="link-download-pdf">
+                                  PDF
+                                </a>
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </div>
 
                       {/* Reading progress */}
-                      {isAuthenticated && readingProgressPercentage > 0 && (
+                      {isAuthenticated && lastChapterRead >= 0 && (
                         <div className="mt-4 p-3 bg-secondary/50 rounded-lg">
                           <div className="flex items-center justify-between text-sm mb-2">
                             <span>Reading Progress</span>
@@ -540,13 +567,23 @@ export default function StoryPage() {
                             />
                           </div>
                           <p className="text-xs text-muted-foreground mt-1">
-                            Last read: Chapter {lastChapterRead + 1}
+                            Last read: Chapter {chapters[lastChapterRead].chapterNumber}
+                            {progress?.scrollPercentage > 0 && ` (${progress.scrollPercentage}% through)`}
                           </p>
                         </div>
                       )}
                     </div>
                   </div>
 
+                  {/* Reactions */}
+                  <div className="mt-6">
+                    <SeriesReactions
+                      seriesId={story.id}
+                      reactions={story.reactions}
+                      userReaction={story.userReaction}
+                    />
+                  </div>
+
                   {/* Description */}
                   {story.description && (
                     <div className="mt-6">
@@ -592,7 +629,7 @@ export default function StoryPage() {
                                   {chapter.wordCount} words • {formatDistanceToNow(new Date(chapter.createdAt), { addSuffix: true })}
                                 </p>
                               </div>
-                              {index === lastChapterRead && readingProgressPercentage > 0 && (
+                              {index === lastChapterRead && (
                                 <Badge variant="secondary">Currently Reading</Badge>
                               )}
                             </div>
@@ -642,64 +679,7 @@ export default function StoryPage() {
                 </TabsContent>
 
                 <TabsContent value="comments" className="space-y-4">
-                  {/* Comment form */}
-                  {isAuthenticated && (
-                    <Card>
-                      <CardContent className="p-4">
-                        <form onSubmit={handleCommentSubmit} className="space-y-3">
-                          <Textarea
-                            value={newComment}
-                            onChange={(e) => setNewComment(e.target.value)}
-                            placeholder="Share your thoughts about this story..."
-                            rows={3}
-                          />
-                          <div className="flex justify-end">
-                            <Button 
-                              type="submit" 
-                              disabled={!newComment.trim() || isSubmittingComment}
-                            >
-                              {isSubmittingComment ? "Posting..." : "Post Comment"}
-                            </Button>
-                          </div>
-                        </form>
-                      </CardContent>
-                    </Card>
-                  )}
-
-                  {/* Comments list */}
-                  {Array.isArray(comments) && comments.length > 0 ? (
-                    <div className="space-y-4">
-                      {comments.map((comment: any) => (
-                        <Card key={comment.id}>
-                          <CardContent className="p-4">
-                            <div className="flex items-start gap-3">
-                              <Avatar className="w-8 h-8">
-                                <AvatarImage src={getProfileImageUrl(comment.author?.profileImageUrl)} />
-                                <AvatarFallback>{comment.author?.displayName?.[0]}</AvatarFallback>
-                              </Avatar>
-                              <div className="flex-1">
-                                <div className="flex items-center gap-2 mb-1">
-                                  <span className="font-medium">{comment.author?.displayName}</span>
-                                  <span className="text-xs text-muted-foreground">
-                                    {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                                  </span>
-                                </div>
-                                <p className="text-sm">{comment.content}</p>
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center py-12">
-                      <MessageSquare className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-                      <h3 className="text-lg font-semibold mb-2">No comments yet</h3>
-                      <p className="text-muted-foreground">
-                        {isAuthenticated ? "Be the first to comment on this story!" : "Sign in to leave a comment."}
-                      </p>
-                    </div>
-                  )}
+                  <CommentThread target={{ type: "series", id: id! }} />
                 </TabsContent>
               </Tabs>
             </div>
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle, Loader2, MailWarning } from "lucide-react";
+
+// Landing page for the link in the verification email
+export default function VerifyEmailPage() {
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const started = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/verify-email", { token }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  useEffect(() => {
+    // Only submit the token once, even when effects run twice in development
+    if (token && !started.current) {
+      started.current = true;
+      verifyMutation.mutate();
+    }
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
+      <div className="max-w-md w-full mx-auto px-4">
+        <Card className="bg-card border-border">
+          <CardContent className="pt-8 pb-8 text-center">
+            <div className="flex justify-center mb-6">
+              <div className="w-20 h-20 bg-primary/20 rounded-full flex items-center justify-center">
+                {verifyMutation.isSuccess ? (
+                  <CheckCircle className="w-10 h-10 text-primary" />
+                ) : failed ? (
+                  <MailWarning className="w-10 h-10 text-primary" />
+                ) : (
+                  <Loader2 className="w-10 h-10 text-primary animate-spin" />
+                )}
+              </div>
+            </div>
+
+            <h1 className="text-xl font-semibold mb-2">
+              {verifyMutation.isSuccess ? "Email confirmed" : failed ? "Couldn't confirm your email" : "Confirming your email..."}
+            </h1>
+            <p className="text-muted-foreground mb-8 text-sm">
+              {verifyMutation.isSuccess
+                ? "Thanks! You can now use this address to recover your account."
+                : failed
+                  ? "This link is invalid or has expired. You can send yourself a new one from Settings."
+                  : "This only takes a moment."}
+            </p>
+
+            {(verifyMutation.isSuccess || failed) && (
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                {failed && (
+                  <Button variant="outline" asChild>
+                    <Link href="/settings">Go to Settings</Link>
+                  </Button>
+                )}
+                <Button asChild>
+                  <Link href="/homefeed">Continue to Writers Guild</Link>
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
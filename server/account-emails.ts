@@ -0,0 +1,54 @@
+import type { Request } from "express";
+import type { User } from "@shared/schema";
+import { createAuthToken, AUTH_TOKEN_TTL_MS } from "./auth-tokens";
+import { mailer } from "./mailer";
+import { appUrl, escapeHtml } from "./html";
+
+function actionEmail(greeting: string, intro: string, action: string, link: string, outro: string) {
+  return {
+    text: `${greeting}\n\n${intro}\n\n${action}: ${link}\n\n${outro}\n\n— Writers Guild`,
+    html: `<div style="font-family: sans-serif; max-width: 480px; line-height: 1.5; color: #1f2937;">
+  <p>${escapeHtml(greeting)}</p>
+  <p>${escapeHtml(intro)}</p>
+  <p><a href="${escapeHtml(link)}" style="display: inline-block; padding: 10px 20px; background: #8b5cf6; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(action)}</a></p>
+  <p style="font-size: 13px; color: #6b7280;">${escapeHtml(outro)}</p>
+  <p style="font-size: 13px; color: #6b7280;">— Writers Guild</p>
+</div>`,
+  };
+}
+
+export async function sendVerificationEmail(req: Request, user: User): Promise<void> {
+  if (!user.email) return;
+
+  const link = `${appUrl(req)}/verify-email?token=${createAuthToken("verify-email", user)}`;
+  const hours = AUTH_TOKEN_TTL_MS["verify-email"] / (60 * 60 * 1000);
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your email for Writers Guild",
+    ...actionEmail(
+      `Hi ${user.displayName},`,
+      "Please confirm that this is your email address so we can use it to help you recover your account.",
+      "Confirm email",
+      link,
+      `This link expires in ${hours} hours. If you didn't create a Writers Guild account, you can ignore this email.`,
+    ),
+  });
+}
+
+export async function sendPasswordResetEmail(req: Request, user: User): Promise<void> {
+  if (!user.email) return;
+
+  const link = `${appUrl(req)}/reset-password?token=${createAuthToken("reset-password", user)}`;
+  const minutes = AUTH_TOKEN_TTL_MS["reset-password"] / (60 * 1000);
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your Writers Guild password",
+    ...actionEmail(
+      `Hi ${user.displayName},`,
+      `Someone asked to reset the password for @${user.username}. Choose a new password with the link below.`,
+      "Reset password",
+      link,
+      `This link expires in ${minutes} minutes and can only be used once. If you didn't ask for this, you can ignore this email.`,
+    ),
+  });
+}
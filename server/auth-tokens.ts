@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import type { User } from "@shared/schema";
+
+// Signed, expiring tokens for the links sent by email. They are stateless: the
+// signature also covers the account data the token acts on (the email being
+// verified, or the current password hash), so a reset link stops working as
+// soon as the password changes and a verification link only ever verifies
+// the address it was sent to.
+export const AUTH_TOKEN_PURPOSES = ["verify-email", "reset-password"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  "verify-email": 48 * 60 * 60 * 1000, // 2 days
+  "reset-password": 60 * 60 * 1000, // 1 hour
+};
+
+type TokenUser = Pick<User, "id" | "email" | "password">;
+
+function signingKey(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required for security');
+  }
+  // Derive a separate key so these signatures can't be confused with session cookies
+  return crypto.createHmac("sha256", secret).update("writers-guild:auth-tokens").digest("hex");
+}
+
+function sign(purpose: AuthTokenPurpose, user: TokenUser, expiresAt: number): string {
+  const boundTo = purpose === "verify-email" ? user.email ?? "" : user.password ?? "";
+  return crypto
+    .createHmac("sha256", signingKey())
+    .update([purpose, user.id, expiresAt, boundTo].join("\n"))
+    .digest("base64url");
+}
+
+export function createAuthToken(purpose: AuthTokenPurpose, user: TokenUser, now = Date.now()): string {
+  const expiresAt = now + AUTH_TOKEN_TTL_MS[purpose];
+  const payload = Buffer.from(`${user.id}.${expiresAt}`).toString("base64url");
+  return `${payload}.${sign(purpose, user, expiresAt)}`;
+}
+
+// Read the user id out of a token without trusting it, so the caller can load
+// the account and pass it to verifyAuthToken
+export function readAuthTokenUserId(token: string): string | null {
+  const [payload] = token.split(".");
+  if (!payload) return null;
+  const [userId] = Buffer.from(payload, "base64url").toString().split(".");
+  return userId || null;
+}
+
+export function verifyAuthToken(purpose: AuthTokenPurpose, token: string, user: TokenUser, now = Date.now()): boolean {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return false;
+
+  const [userId, expires] = Buffer.from(payload, "base64url").toString().split(".");
+  const expiresAt = Number(expires);
+  if (userId !== user.id || !Number.isSafeInteger(expiresAt) || expiresAt < now) return false;
+
+  const expected = Buffer.from(sign(purpose, user, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -26,6 +26,9 @@ if (!connectionString) {
 // SSL configuration for Supabase
 const sslConfig = { rejectUnauthorized: false };
 
+// The same settings for node-postgres, which the session store uses
+export const pgConnectionConfig = { connectionString, ssl: sslConfig };
+
 // Create postgres client with Supabase-compatible configuration
 const client = postgres(connectionString, {
   ssl: sslConfig,
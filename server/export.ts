@@ -0,0 +1,689 @@
+import path from "path";
+import fs from "fs/promises";
+import sharp from "sharp";
+import JSZip from "jszip";
+import PDFDocument from "pdfkit";
+import { DomUtils, parseDOM } from "htmlparser2";
+import type { Chapter, Series } from "@shared/schema";
+import { escapeHtml } from "./html";
+
+// Builds downloadable EPUB 3 and PDF editions of a series from its metadata,
+// cover and published chapters. Chapters are stored as editor HTML (or plain
+// text from older editors); both formats are rendered from the same parse.
+
+export const EXPORT_FORMATS = ["epub", "pdf"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportSeries = Pick<Series, "id" | "title" | "description" | "coverImageUrl" | "genre" | "tags"> & {
+  author: { username: string; displayName: string | null };
+};
+export type ExportChapter = Pick<Chapter, "id" | "title" | "chapterNumber" | "content" | "formattedContent">;
+
+export interface ExportFile {
+  data: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+type DomNode = ReturnType<typeof parseDOM>[number];
+
+interface ParsedChapter {
+  number: number;
+  title: string;
+  nodes: DomNode[];
+}
+
+interface ExportImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  name: string;
+}
+
+const DROPPED_TAGS = new Set(["script", "style", "iframe", "object", "embed", "noscript", "template", "head", "title"]);
+const ALIGNMENTS = new Set(["left", "center", "right", "justify"]);
+
+// Only images we host are embedded. Fetching arbitrary URLs from the server
+// would let a chapter make it request internal addresses.
+const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+const UPLOADS_PREFIX = "/uploads/";
+const MAX_IMAGE_SIZE = 1600;
+
+// Chapters saved from the plain text editor have no markup; blank lines
+// separate paragraphs and single newlines are line breaks
+function chapterHtml(chapter: ExportChapter): string {
+  const source = typeof chapter.formattedContent === "string" && chapter.formattedContent.trim()
+    ? chapter.formattedContent
+    : chapter.content;
+  if (/<[a-z][^>]*>/i.test(source)) return source;
+  return source
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function parseChapters(chapters: ExportChapter[]): ParsedChapter[] {
+  return chapters.map(chapter => ({
+    number: chapter.chapterNumber,
+    title: chapter.title,
+    nodes: parseDOM(chapterHtml(chapter)),
+  }));
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 80) || "series";
+}
+
+function authorName(series: ExportSeries): string {
+  return series.author.displayName || series.author.username;
+}
+
+async function loadImage(src: string, name: string): Promise<ExportImage | null> {
+  if (!src.startsWith(UPLOADS_PREFIX)) return null;
+  const filename = path.basename(src.slice(UPLOADS_PREFIX.length).split(/[?#]/)[0]);
+  try {
+    const { data, info } = await sharp(await fs.readFile(path.join(UPLOADS_DIR, filename)))
+      .flatten({ background: "#ffffff" })
+      .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, name };
+  } catch (error) {
+    console.error(`Failed to load export image ${src}:`, error);
+    return null;
+  }
+}
+
+// Converts every image the chapters use once, keyed by its src
+async function loadChapterImages(chapters: ParsedChapter[]): Promise<Map<string, ExportImage>> {
+  const sources = new Set<string>();
+  for (const chapter of chapters) {
+    for (const img of DomUtils.getElementsByTagName("img", chapter.nodes)) {
+      if (img.attribs.src) sources.add(img.attribs.src);
+    }
+  }
+
+  const images = new Map<string, ExportImage>();
+  for (const src of Array.from(sources)) {
+    const image = await loadImage(src, `image-${images.size + 1}.jpg`);
+    if (image) images.set(src, image);
+  }
+  return images;
+}
+
+// --- EPUB ---
+
+const INLINE_XHTML_TAGS: Record<string, string> = {
+  strong: "strong", b: "strong", em: "em", i: "em", u: "u", s: "s", del: "s", strike: "s",
+  code: "code", mark: "mark", sub: "sub", sup: "sup", span: "span",
+};
+const BLOCK_XHTML_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6", "blockquote", "ul", "ol", "li", "pre", "div"]);
+const CSS_COLOR = /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|[a-z]+)$/i;
+
+function styleDeclarations(style: string | undefined): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const declaration of (style || "").split(";")) {
+    const [property, ...value] = declaration.split(":");
+    if (property && value.length > 0) declarations.set(property.trim().toLowerCase(), value.join(":").trim());
+  }
+  return declarations;
+}
+
+// Keeps the editor's alignment on blocks and colours on inline text; every
+// other style is dropped
+function sanitizeStyle(tag: string, style: string | undefined): string {
+  const declarations = styleDeclarations(style);
+  const kept: string[] = [];
+  const align = declarations.get("text-align");
+  if (BLOCK_XHTML_TAGS.has(tag) && align && ALIGNMENTS.has(align)) kept.push(`text-align: ${align}`);
+  if (tag === "span" || tag === "mark") {
+    for (const property of ["color", "background-color"]) {
+      const value = declarations.get(property);
+      if (value && CSS_COLOR.test(value)) kept.push(`${property}: ${value}`);
+    }
+  }
+  return kept.length > 0 ? ` style="${escapeHtml(kept.join("; "))}"` : "";
+}
+
+// Re-serializes editor HTML as XHTML from an allowlist of elements, so the
+// result is well-formed for EPUB readers whatever the stored markup was
+function toXhtml(nodes: DomNode[], images: Map<string, ExportImage>): string {
+  return nodes.map(node => {
+    if (DomUtils.isText(node)) return escapeHtml(node.data);
+    if (!DomUtils.isTag(node)) return "";
+
+    const tag = node.name.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return "";
+    if (tag === "br") return "<br/>";
+    if (tag === "hr") return "<hr/>";
+    if (tag === "img") {
+      const image = images.get(node.attribs.src);
+      return image
+        ? `<img src="images/${image.name}" alt="${escapeHtml(node.attribs.alt || "")}"/>`
+        : "";
+    }
+
+    const children = toXhtml(node.children, images);
+    if (tag === "a") {
+      const href = node.attribs.href || "";
+      return /^(https?:|mailto:)/i.test(href) ? `<a href="${escapeHtml(href)}">${children}</a>` : children;
+    }
+    if (tag === "ol" && /^\d+$/.test(node.attribs.start || "")) {
+      return `<ol start="${node.attribs.start}">${children}</ol>`;
+    }
+    const name = BLOCK_XHTML_TAGS.has(tag) ? tag : INLINE_XHTML_TAGS[tag];
+    if (!name) return children;
+    return `<${name}${sanitizeStyle(name, node.attribs.style)}>${children}</${name}>`;
+  }).join("");
+}
+
+function xhtmlDocument(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const EPUB_STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; }
+h1.chapter-title { margin: 2em 0 1em; text-align: center; }
+p { margin: 0 0 0.8em; }
+blockquote { margin: 1em 1.5em; font-style: italic; }
+pre { white-space: pre-wrap; font-family: monospace; font-size: 0.9em; }
+img { max-width: 100%; height: auto; display: block; margin: 1em auto; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-height: 100vh; margin: 0 auto; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page .author { font-size: 1.2em; margin-top: 1em; }
+.title-page .description { margin-top: 2em; font-style: italic; }
+nav ol { list-style: none; padding-left: 0; }
+nav li { margin: 0.4em 0; }
+`;
+
+const chapterFile = (chapter: ParsedChapter) => `chapter-${chapter.number}.xhtml`;
+const chapterHeading = (chapter: ParsedChapter) => `Chapter ${chapter.number}: ${chapter.title}`;
+
+export async function buildSeriesEpub(series: ExportSeries, chapters: ExportChapter[]): Promise<ExportFile> {
+  const parsed = parseChapters(chapters);
+  const images = await loadChapterImages(parsed);
+  const cover = series.coverImageUrl ? await loadImage(series.coverImageUrl, "cover.jpg") : null;
+  const author = authorName(series);
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file("META-INF/container.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  const oebps = zip.folder("OEBPS")!;
+  oebps.file("style.css", EPUB_STYLESHEET);
+
+  if (cover) {
+    oebps.file(`images/${cover.name}`, cover.data);
+    oebps.file("cover.xhtml", xhtmlDocument("Cover",
+      `<section class="cover" epub:type="cover"><img src="images/${cover.name}" alt="${escapeHtml(series.title)}"/></section>`));
+  }
+  for (const image of Array.from(images.values())) {
+    oebps.file(`images/${image.name}`, image.data);
+  }
+
+  oebps.file("title.xhtml", xhtmlDocument(series.title, `<section class="title-page" epub:type="titlepage">
+  <h1>${escapeHtml(series.title)}</h1>
+  <p class="author">${escapeHtml(author)}</p>
+  ${series.description ? `<p class="description">${escapeHtml(series.description)}</p>` : ""}
+</section>`));
+
+  const tocItems = parsed
+    .map(chapter => `      <li><a href="${chapterFile(chapter)}">${escapeHtml(chapterHeading(chapter))}</a></li>`)
+    .join("\n");
+  oebps.file("nav.xhtml", xhtmlDocument("Contents", `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${tocItems}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+    ${parsed.length > 0 ? `<li><a epub:type="bodymatter" href="${chapterFile(parsed[0])}">Start reading</a></li>` : ""}
+  </ol>
+</nav>`));
+
+  for (const chapter of parsed) {
+    oebps.file(chapterFile(chapter), xhtmlDocument(chapterHeading(chapter),
+      `<section epub:type="chapter">
+<h1 class="chapter-title">${escapeHtml(chapterHeading(chapter))}</h1>
+${toXhtml(chapter.nodes, images)}
+</section>`));
+  }
+
+  // EPUB 2 table of contents, still used by some older readers
+  const navPoints = parsed.map((chapter, i) => `    <navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+      <navLabel><text>${escapeHtml(chapterHeading(chapter))}</text></navLabel>
+      <content src="${chapterFile(chapter)}"/>
+    </navPoint>`).join("\n");
+  oebps.file("toc.ncx", `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="urn:uuid:${series.id}"/>
+  </head>
+  <docTitle><text>${escapeHtml(series.title)}</text></docTitle>
+  <navMap>
+${navPoints}
+  </navMap>
+</ncx>
+`);
+
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+    `<item id="style" href="style.css" media-type="text/css"/>`,
+    `<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>`,
+    ...(cover ? [
+      `<item id="cover-image" href="images/${cover.name}" media-type="image/jpeg" properties="cover-image"/>`,
+      `<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`,
+    ] : []),
+    ...Array.from(images.values()).map((image, i) =>
+      `<item id="image-${i + 1}" href="images/${image.name}" media-type="image/jpeg"/>`),
+    ...parsed.map(chapter =>
+      `<item id="chapter-${chapter.number}" href="${chapterFile(chapter)}" media-type="application/xhtml+xml"/>`),
+  ];
+  const spine = [
+    ...(cover ? [`<itemref idref="cover" linear="no"/>`] : []),
+    `<itemref idref="title-page"/>`,
+    `<itemref idref="nav"/>`,
+    ...parsed.map(chapter => `<itemref idref="chapter-${chapter.number}"/>`),
+  ];
+  const subjects = [series.genre, ...(series.tags || [])].filter(Boolean) as string[];
+
+  oebps.file("content.opf", `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${series.id}</dc:identifier>
+    <dc:title>${escapeHtml(series.title)}</dc:title>
+    <dc:creator>${escapeHtml(author)}</dc:creator>
+    <dc:language>en</dc:language>
+    ${series.description ? `<dc:description>${escapeHtml(series.description)}</dc:description>` : ""}
+    ${subjects.map(subject => `<dc:subject>${escapeHtml(subject)}</dc:subject>`).join("\n    ")}
+    <meta property="dcterms:modified">${modified}</meta>
+    ${cover ? `<meta name="cover" content="cover-image"/>` : ""}
+  </metadata>
+  <manifest>
+    ${manifest.join("\n    ")}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join("\n    ")}
+  </spine>
+</package>
+`);
+
+  const data = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    mimeType: "application/epub+zip",
+  });
+  return { data, contentType: "application/epub+zip", filename: `${slugify(series.title)}.epub` };
+}
+
+// --- PDF ---
+
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+type TextAlign = "left" | "center" | "right" | "justify";
+
+// The PDF is laid out from a flat list of blocks; nesting in lists and
+// quotes becomes indentation
+type PdfBlock =
+  | { type: "text"; role: "paragraph" | "heading" | "code" | "quote"; level: number; runs: TextRun[]; indent: number; align?: TextAlign; marker?: string }
+  | { type: "image"; image: ExportImage; indent: number }
+  | { type: "rule" };
+
+type RunStyle = Omit<TextRun, "text">;
+
+function collectRuns(nodes: DomNode[], style: RunStyle, runs: TextRun[]): TextRun[] {
+  for (const node of nodes) {
+    if (DomUtils.isText(node)) {
+      runs.push({ ...style, text: node.data.replace(/\s+/g, " ") });
+      continue;
+    }
+    if (!DomUtils.isTag(node) || DROPPED_TAGS.has(node.name)) continue;
+    switch (node.name) {
+      case "br":
+        runs.push({ ...style, text: "\n" });
+        break;
+      case "strong":
+      case "b":
+        collectRuns(node.children, { ...style, bold: true }, runs);
+        break;
+      case "em":
+      case "i":
+        collectRuns(node.children, { ...style, italic: true }, runs);
+        break;
+      case "u":
+        collectRuns(node.children, { ...style, underline: true }, runs);
+        break;
+      case "s":
+      case "del":
+      case "strike":
+        collectRuns(node.children, { ...style, strike: true }, runs);
+        break;
+      case "code":
+        collectRuns(node.children, { ...style, code: true }, runs);
+        break;
+      case "a": {
+        const href = node.attribs.href || "";
+        collectRuns(node.children, /^(https?:|mailto:)/i.test(href) ? { ...style, link: href } : style, runs);
+        break;
+      }
+      default:
+        collectRuns(node.children, style, runs);
+    }
+  }
+  return runs;
+}
+
+// Collapses whitespace the way a browser would at the start and end of
+// each line of a block
+function trimRuns(runs: TextRun[]): TextRun[] {
+  const trimmed = runs.map(run => ({ ...run }));
+  let lineStart = true;
+  for (const run of trimmed) {
+    if (lineStart) run.text = run.text.replace(/^ +/, "");
+    if (run.text) lineStart = /[ \n]$/.test(run.text);
+  }
+  let lineEnd = true;
+  for (const run of trimmed.slice().reverse()) {
+    if (lineEnd) run.text = run.text.replace(/ +$/, "");
+    if (run.text) lineEnd = run.text.startsWith("\n");
+  }
+  return trimmed.filter(run => run.text.length > 0);
+}
+
+function blockAlign(style: string | undefined): TextAlign | undefined {
+  const align = styleDeclarations(style).get("text-align");
+  return align && ALIGNMENTS.has(align) ? align as TextAlign : undefined;
+}
+
+function collectBlocks(nodes: DomNode[], indent: number, quote: boolean, images: Map<string, ExportImage>, blocks: PdfBlock[]): PdfBlock[] {
+  let loose: DomNode[] = [];
+  const textBlock = (runs: TextRun[], role: "paragraph" | "heading" | "code", level = 0, align?: TextAlign) => {
+    blocks.push({ type: "text", role: quote && role === "paragraph" ? "quote" : role, level, runs, indent, align });
+  };
+  // Inline content outside any block element, e.g. text directly in a list item
+  const flushLoose = () => {
+    const runs = trimRuns(collectRuns(loose, {}, []));
+    if (runs.length > 0) textBlock(runs, "paragraph");
+    loose = [];
+  };
+
+  for (const node of nodes) {
+    if (!DomUtils.isTag(node)) {
+      loose.push(node);
+      continue;
+    }
+    const tag = node.name.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) continue;
+
+    if (tag === "p" || tag === "div" || /^h[1-6]$/.test(tag)) {
+      flushLoose();
+      if (tag === "div" && node.children.some(child => DomUtils.isTag(child) && /^(p|div|h[1-6]|ul|ol|blockquote|pre)$/.test(child.name))) {
+        collectBlocks(node.children, indent, quote, images, blocks);
+        continue;
+      }
+      const heading = tag.startsWith("h");
+      textBlock(trimRuns(collectRuns(node.children, {}, [])), heading ? "heading" : "paragraph",
+        heading ? Number(tag[1]) : 0, blockAlign(node.attribs.style));
+    } else if (tag === "blockquote") {
+      flushLoose();
+      collectBlocks(node.children, indent + 1, true, images, blocks);
+    } else if (tag === "ul" || tag === "ol") {
+      flushLoose();
+      let number = tag === "ol" ? Number(node.attribs.start) || 1 : 0;
+      for (const item of node.children) {
+        if (!DomUtils.isTag(item) || item.name !== "li") continue;
+        const first = blocks.length;
+        collectBlocks(item.children, indent + 1, quote, images, blocks);
+        const marker = tag === "ol" ? `${number++}.` : "•";
+        const firstText = blocks.slice(first).find(block => block.type === "text");
+        if (firstText?.type === "text") firstText.marker = marker;
+      }
+    } else if (tag === "pre") {
+      flushLoose();
+      textBlock([{ text: DomUtils.textContent(node).replace(/\n$/, ""), code: true }], "code");
+    } else if (tag === "hr") {
+      flushLoose();
+      blocks.push({ type: "rule" });
+    } else if (tag === "img") {
+      flushLoose();
+      const image = images.get(node.attribs.src);
+      if (image) blocks.push({ type: "image", image, indent });
+    } else {
+      loose.push(node);
+    }
+  }
+  flushLoose();
+  return blocks;
+}
+
+const PAGE_MARGINS = { top: 60, bottom: 60, left: 54, right: 54 };
+const BODY_SIZE = 11;
+const HEADING_SIZES = [0, 18, 16, 14, 13, 12, 11];
+const INDENT_WIDTH = 18;
+const TOC_LINE_HEIGHT = 20;
+const TOC_TOP = PAGE_MARGINS.top + 48;
+
+// pdfkit only reuses an embedded image when it gets the same string source
+// again, so images go in as data URIs rather than buffers
+const pdfImageSources = new WeakMap<ExportImage, string>();
+
+function pdfImageSource(image: ExportImage): string {
+  let source = pdfImageSources.get(image);
+  if (!source) {
+    source = `data:image/jpeg;base64,${image.data.toString("base64")}`;
+    pdfImageSources.set(image, source);
+  }
+  return source;
+}
+
+function runFont(run: TextRun, role: string): string {
+  if (run.code || role === "code") return "Courier";
+  const family = role === "heading" ? "Helvetica" : "Times";
+  const bold = run.bold || role === "heading";
+  const italic = run.italic || role === "quote";
+  if (family === "Helvetica") {
+    return bold && italic ? "Helvetica-BoldOblique" : bold ? "Helvetica-Bold" : italic ? "Helvetica-Oblique" : "Helvetica";
+  }
+  return bold && italic ? "Times-BoldItalic" : bold ? "Times-Bold" : italic ? "Times-Italic" : "Times-Roman";
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function pageBottom(doc: PDFKit.PDFDocument): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function renderBlock(doc: PDFKit.PDFDocument, block: PdfBlock) {
+  if (block.type === "rule") {
+    const y = doc.y + 6;
+    doc.moveTo(doc.page.margins.left + contentWidth(doc) / 4, y)
+      .lineTo(doc.page.margins.left + contentWidth(doc) * 3 / 4, y)
+      .lineWidth(0.5)
+      .strokeColor("#999999")
+      .stroke();
+    doc.y = y + 14;
+    return;
+  }
+
+  const x = doc.page.margins.left + block.indent * INDENT_WIDTH;
+  const width = contentWidth(doc) - block.indent * INDENT_WIDTH;
+
+  if (block.type === "image") {
+    const scale = Math.min(1, width / block.image.width, (pageBottom(doc) - doc.page.margins.top) / block.image.height);
+    const imageWidth = block.image.width * scale;
+    const imageHeight = block.image.height * scale;
+    if (doc.y + imageHeight > pageBottom(doc)) doc.addPage();
+    doc.image(pdfImageSource(block.image), x + (width - imageWidth) / 2, doc.y, { width: imageWidth, height: imageHeight });
+    doc.y += imageHeight + 10;
+    return;
+  }
+
+  const size = block.role === "heading" ? HEADING_SIZES[block.level] : block.role === "code" ? BODY_SIZE - 2 : BODY_SIZE;
+  if (block.runs.length === 0) {
+    doc.font("Times-Roman").fontSize(size).moveDown(0.6);
+    return;
+  }
+
+  // A heading at the bottom of a page moves to the next one with its text
+  if (block.role === "heading" && doc.y + size * 4 > pageBottom(doc)) doc.addPage();
+  if (block.role === "heading") doc.moveDown(0.4);
+
+  const runs = block.marker
+    ? [{ text: `${block.marker} ` }, ...block.runs]
+    : block.runs;
+  runs.forEach((run, i) => {
+    doc.font(runFont(run, block.role)).fontSize(size).fillColor(run.link ? "#1d4ed8" : "#000000");
+    // Continued text inherits options, so every style is set on every run
+    const options: PDFKit.Mixins.TextOptions = {
+      continued: i < runs.length - 1,
+      underline: !!run.underline || !!run.link,
+      strike: !!run.strike,
+      link: run.link ?? null,
+      align: block.align ?? "left",
+      lineGap: block.role === "code" ? 1 : 3,
+    };
+    if (i === 0) {
+      doc.text(run.text, x, doc.y, { ...options, width });
+    } else {
+      doc.text(run.text, options);
+    }
+  });
+  doc.fillColor("#000000").moveDown(block.role === "heading" ? 0.4 : 0.6);
+}
+
+function fitText(doc: PDFKit.PDFDocument, text: string, width: number): string {
+  if (doc.widthOfString(text) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && doc.widthOfString(`${fitted}...`) > width) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+}
+
+// The standard PDF fonts only cover Latin text (Windows-1252), which is all
+// pdfkit can render without embedding a font file
+export async function buildSeriesPdf(series: ExportSeries, chapters: ExportChapter[]): Promise<ExportFile> {
+  const parsed = parseChapters(chapters);
+  const images = await loadChapterImages(parsed);
+  const cover = series.coverImageUrl ? await loadImage(series.coverImageUrl, "cover.jpg") : null;
+  const author = authorName(series);
+
+  const doc = new PDFDocument({
+    size: "A5",
+    margins: PAGE_MARGINS,
+    bufferPages: true,
+    autoFirstPage: false,
+    info: { Title: series.title, Author: author, Subject: series.description || undefined },
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  if (cover) {
+    doc.addPage({ size: "A5", margin: 0 });
+    doc.image(cover.data, 0, 0, { fit: [doc.page.width, doc.page.height], align: "center", valign: "center" });
+  }
+
+  doc.addPage();
+  const frontMatterPages = doc.bufferedPageRange().count;
+  doc.y = doc.page.height / 3;
+  doc.font("Helvetica-Bold").fontSize(24).text(series.title, { align: "center" });
+  doc.moveDown();
+  doc.font("Times-Roman").fontSize(14).text(author, { align: "center" });
+  if (series.description) {
+    doc.moveDown(2);
+    doc.font("Times-Italic").fontSize(BODY_SIZE).text(series.description, { align: "center" });
+  }
+
+  // The contents pages are reserved now and filled in once the chapters'
+  // page numbers are known
+  const tocPerPage = Math.floor((doc.page.height - TOC_TOP - PAGE_MARGINS.bottom) / TOC_LINE_HEIGHT);
+  const tocPageCount = Math.max(1, Math.ceil(parsed.length / tocPerPage));
+  const tocStart = doc.bufferedPageRange().count;
+  for (let i = 0; i < tocPageCount; i++) doc.addPage();
+
+  const chapterPages: number[] = [];
+  for (const chapter of parsed) {
+    doc.addPage();
+    chapterPages.push(doc.bufferedPageRange().count - 1);
+    doc.outline.addItem(chapterHeading(chapter));
+    doc.font("Helvetica-Bold").fontSize(HEADING_SIZES[1] + 2)
+      .text(chapterHeading(chapter), { align: "center", destination: `chapter-${chapter.number}` });
+    doc.moveDown(1.5);
+    for (const block of collectBlocks(chapter.nodes, 0, false, images, [])) {
+      renderBlock(doc, block);
+    }
+  }
+
+  for (let page = 0; page < tocPageCount; page++) {
+    doc.switchToPage(tocStart + page);
+    if (page === 0) {
+      doc.font("Helvetica-Bold").fontSize(HEADING_SIZES[1]).text("Contents", PAGE_MARGINS.left, PAGE_MARGINS.top);
+    }
+    parsed.slice(page * tocPerPage, (page + 1) * tocPerPage).forEach((chapter, i) => {
+      const y = TOC_TOP + i * TOC_LINE_HEIGHT;
+      const pageNumber = String(chapterPages[page * tocPerPage + i] + 1);
+      doc.font("Times-Roman").fontSize(BODY_SIZE);
+      const numberWidth = doc.widthOfString(pageNumber);
+      const titleWidth = contentWidth(doc) - numberWidth - 16;
+      const destination = `chapter-${chapter.number}`;
+      doc.text(fitText(doc, chapterHeading(chapter), titleWidth), PAGE_MARGINS.left, y, { width: titleWidth, lineBreak: false, goTo: destination });
+      doc.text(pageNumber, doc.page.width - PAGE_MARGINS.right - numberWidth, y, { width: numberWidth, lineBreak: false, goTo: destination });
+    });
+  }
+
+  // Page numbers on everything after the title page. The bottom margin is
+  // lifted while drawing so the footer doesn't spill onto a new page.
+  const { count } = doc.bufferedPageRange();
+  for (let page = frontMatterPages; page < count; page++) {
+    doc.switchToPage(page);
+    doc.page.margins.bottom = 0;
+    doc.font("Times-Roman").fontSize(9).fillColor("#666666")
+      .text(String(page + 1), 0, doc.page.height - PAGE_MARGINS.bottom / 2, { width: doc.page.width, align: "center", lineBreak: false });
+    doc.page.margins.bottom = PAGE_MARGINS.bottom;
+  }
+
+  doc.end();
+  const data = await finished;
+  return { data, contentType: "application/pdf", filename: `${slugify(series.title)}.pdf` };
+}
+
+export function buildSeriesExport(format: ExportFormat, series: ExportSeries, chapters: ExportChapter[]): Promise<ExportFile> {
+  return format === "epub" ? buildSeriesEpub(series, chapters) : buildSeriesPdf(series, chapters);
+}
@@ -0,0 +1,39 @@
+// Feeds page on a (createdAt, id) cursor rather than an offset, so posts
+// arriving while someone scrolls don't shift the next page and repeat items.
+// Timestamps are compared at millisecond precision, which is all a JS Date
+// can carry through the cursor.
+
+export interface FeedCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(`${cursor.createdAt.toISOString()}|${cursor.id}`).toString("base64url");
+}
+
+// Returns null for anything that isn't a cursor we issued
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  const [createdAt, id, ...rest] = Buffer.from(value, "base64url").toString("utf8").split("|");
+  const date = new Date(createdAt);
+  if (!id || rest.length > 0 || isNaN(date.getTime())) return null;
+  return { createdAt: date, id };
+}
+
+// The ranked "For you" feed isn't chronological, so it pages by position in
+// a ranking frozen at the time of the first page
+export interface RankedFeedCursor {
+  rankedAt: Date;
+  offset: number;
+}
+
+export function encodeRankedFeedCursor(cursor: RankedFeedCursor): string {
+  return Buffer.from(`${cursor.rankedAt.toISOString()}|${cursor.offset}`).toString("base64url");
+}
+
+export function decodeRankedFeedCursor(value: string): RankedFeedCursor | null {
+  const [rankedAt, offset, ...rest] = Buffer.from(value, "base64url").toString("utf8").split("|");
+  const date = new Date(rankedAt);
+  if (!/^\d+$/.test(offset ?? "") || rest.length > 0 || isNaN(date.getTime())) return null;
+  return { rankedAt: date, offset: parseInt(offset) };
+}
@@ -0,0 +1,17 @@
+import type { Request } from "express";
+
+// Escapes text for HTML and XML bodies and double-quoted attribute values
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Absolute links we hand out (emails, share previews) must point at our own
+// site. Set APP_URL in production so they don't depend on the Host header of
+// whoever made the request.
+export function appUrl(req: Request): string {
+  return (process.env.APP_URL || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+}
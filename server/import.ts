@@ -0,0 +1,316 @@
+import path from "path";
+import sharp from "sharp";
+import mammoth from "mammoth";
+import { marked } from "marked";
+import { DomUtils, parseDOM } from "htmlparser2";
+import type { ImportedChapter, ImportSplitMode, ManuscriptPreview } from "@shared/schema";
+import { escapeHtml } from "./html";
+
+// Turns an uploaded manuscript into chapters for the author to confirm.
+// Word documents and Markdown are converted to HTML first, then everything
+// is rewritten into the subset of HTML the rich text editor produces, so
+// imported chapters edit like ones written here.
+
+export const MANUSCRIPT_EXTENSIONS = [".docx", ".md", ".markdown", ".txt"];
+
+export interface ManuscriptFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface ManuscriptOptions {
+  splitBy: ImportSplitMode;
+  separator: string;
+}
+
+type DomNode = ReturnType<typeof parseDOM>[number];
+
+interface ImportBlock {
+  html: string;
+  text: string;
+  headingLevel?: number;
+  rule?: boolean;
+}
+
+const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+const UNTITLED_CHAPTER = "Untitled chapter";
+const MAX_WARNINGS = 10;
+
+const DROPPED_TAGS = new Set(["script", "style", "iframe", "object", "embed", "noscript", "template", "head", "title", "svg"]);
+// Layout wrappers whose content is kept as ordinary blocks
+const CONTAINER_TAGS = new Set([
+  "html", "body", "div", "section", "article", "main", "header", "footer", "aside", "center", "figure", "figcaption",
+  "table", "thead", "tbody", "tfoot", "tr", "td", "th", "dl", "dt", "dd", "li",
+]);
+const INLINE_TAGS: Record<string, string> = {
+  strong: "strong", b: "strong", em: "em", i: "em", u: "u", ins: "u",
+  s: "s", del: "s", strike: "s", code: "code", mark: "mark",
+};
+const ALIGNMENTS = new Set(["left", "center", "right", "justify"]);
+
+// Plain text lines that read as chapter headings
+const CHAPTER_LINE = /^(chapter|part|book|prologue|epilogue|interlude)\b.{0,100}$/i;
+// "Chapter 3: The Crossing" becomes "The Crossing"; the chapter number is
+// shown alongside the title anyway
+const CHAPTER_PREFIX = /^chapter\s+[\w-]+\s*[:.\-–—]\s+/i;
+
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+const isSafeImageSrc = (src: string) => /^https?:\/\//i.test(src) || src.startsWith("/uploads/");
+
+// Same attributes the editor's image extension renders
+function imageHtml(src: string | undefined, alt: string | undefined): string | null {
+  if (!src || !isSafeImageSrc(src)) return null;
+  return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt || "")}" class="max-w-full h-auto rounded-lg">`;
+}
+
+function alignStyle(style: string | undefined): string {
+  const match = /text-align\s*:\s*(\w+)/i.exec(style || "");
+  const align = match?.[1].toLowerCase();
+  return align && align !== "left" && ALIGNMENTS.has(align) ? ` style="text-align: ${align}"` : "";
+}
+
+// Images can't sit inside a paragraph in the editor, so any found in inline
+// content are collected and placed after it
+function inlineHtml(nodes: DomNode[], images: string[]): string {
+  return nodes.map(node => {
+    if (DomUtils.isText(node)) return escapeHtml(node.data.replace(/\s+/g, " "));
+    if (!DomUtils.isTag(node)) return "";
+
+    const tag = node.name.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return "";
+    if (tag === "br") return "<br>";
+    if (tag === "img") {
+      const image = imageHtml(node.attribs.src, node.attribs.alt);
+      if (image) images.push(image);
+      return "";
+    }
+
+    const children = inlineHtml(node.children, images);
+    if (tag === "a") {
+      const href = node.attribs.href || "";
+      return isSafeHref(href) && children
+        ? `<a target="_blank" rel="noopener noreferrer nofollow" href="${escapeHtml(href)}">${children}</a>`
+        : children;
+    }
+    const name = INLINE_TAGS[tag];
+    return name && children.trim() ? `<${name}>${children}</${name}>` : children;
+  }).join("");
+}
+
+const blockText = (nodes: DomNode[]) => DomUtils.textContent(nodes).replace(/\s+/g, " ").trim();
+
+function pushTextBlock(out: ImportBlock[], tag: string, nodes: DomNode[], style: string) {
+  const images: string[] = [];
+  const html = inlineHtml(nodes, images).trim().replace(/^(<br>\s*)+|(\s*<br>)+$/g, "");
+  const text = blockText(nodes);
+  if (text) {
+    const headingLevel = /^h[1-6]$/.test(tag) ? Number(tag[1]) : undefined;
+    out.push({ html: `<${tag}${style}>${html}</${tag}>`, text, headingLevel });
+  }
+  for (const image of images) out.push({ html: image, text: "" });
+}
+
+function collectBlocks(nodes: DomNode[], out: ImportBlock[]): ImportBlock[] {
+  let loose: DomNode[] = [];
+  // Inline content outside any paragraph, e.g. text directly in a list item
+  const flushLoose = () => {
+    if (loose.length > 0) pushTextBlock(out, "p", loose, "");
+    loose = [];
+  };
+
+  for (const node of nodes) {
+    if (!DomUtils.isTag(node)) {
+      loose.push(node);
+      continue;
+    }
+    const tag = node.name.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) continue;
+
+    if (tag === "p" || /^h[1-6]$/.test(tag)) {
+      flushLoose();
+      pushTextBlock(out, tag, node.children, alignStyle(node.attribs.style));
+    } else if (tag === "blockquote") {
+      flushLoose();
+      const inner = collectBlocks(node.children, []);
+      if (inner.length > 0) {
+        out.push({
+          html: `<blockquote>${inner.map(block => block.html).join("")}</blockquote>`,
+          text: inner.map(block => block.text).join(" "),
+        });
+      }
+    } else if (tag === "ul" || tag === "ol") {
+      flushLoose();
+      const items = node.children
+        .flatMap(item => DomUtils.isTag(item) && item.name === "li" ? [collectBlocks(item.children, [])] : [])
+        .filter(inner => inner.length > 0);
+      if (items.length > 0) {
+        const start = Number(node.attribs.start);
+        const open = tag === "ol" && Number.isInteger(start) && start > 1 ? `<ol start="${start}">` : `<${tag}>`;
+        out.push({
+          html: `${open}${items.map(inner => `<li>${inner.map(block => block.html).join("")}</li>`).join("")}</${tag}>`,
+          text: items.map(inner => inner.map(block => block.text).join(" ")).join(" "),
+        });
+      }
+    } else if (tag === "pre") {
+      flushLoose();
+      const code = DomUtils.textContent(node).replace(/\n$/, "");
+      if (code.trim()) out.push({ html: `<pre><code>${escapeHtml(code)}</code></pre>`, text: code });
+    } else if (tag === "hr") {
+      flushLoose();
+      out.push({ html: "<hr>", text: "", rule: true });
+    } else if (tag === "img") {
+      flushLoose();
+      const image = imageHtml(node.attribs.src, node.attribs.alt);
+      if (image) out.push({ html: image, text: "" });
+    } else if (CONTAINER_TAGS.has(tag)) {
+      flushLoose();
+      collectBlocks(node.children, out);
+    } else {
+      loose.push(node);
+    }
+  }
+  flushLoose();
+  return out;
+}
+
+// Rewrites any HTML into the editor's format. Also used on chapters sent
+// back from the preview, which the author's browser could have changed.
+export function normalizeChapterHtml(html: string): string {
+  return collectBlocks(parseDOM(html), []).map(block => block.html).join("");
+}
+
+const wordCount = (blocks: ImportBlock[]) =>
+  blocks.reduce((total, block) => total + block.text.split(/\s+/).filter(Boolean).length, 0);
+
+export function countWords(html: string): number {
+  return wordCount(collectBlocks(parseDOM(html), []));
+}
+
+async function saveImportedImage(data: Buffer): Promise<string> {
+  const filename = `${Date.now()}-${Math.random().toString(36).substring(7)}.webp`;
+  await sharp(data)
+    .resize(1200, 1200, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 85 })
+    .toFile(path.join(UPLOADS_DIR, filename));
+  return `/uploads/${filename}`;
+}
+
+// Blank lines separate paragraphs; a short paragraph such as "Chapter 4" or
+// "Prologue" on its own is a heading
+function textToHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => !paragraph.includes("\n") && CHAPTER_LINE.test(paragraph)
+      ? `<h1>${escapeHtml(paragraph)}</h1>`
+      : `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+async function manuscriptHtml(file: ManuscriptFile, warnings: string[]): Promise<string> {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (extension === ".docx") {
+    const result = await mammoth.convertToHtml({ buffer: file.buffer }, {
+      // A book title above the chapter headings stays out of the chapters
+      styleMap: ["p[style-name='Title'] => h1:fresh", "p[style-name='Subtitle'] => h2:fresh"],
+      // Embedded pictures are saved like editor uploads instead of inlined
+      convertImage: mammoth.images.imgElement(async image => {
+        try {
+          return { src: await saveImportedImage(await image.readAsBuffer()) };
+        } catch (error) {
+          warnings.push(`An image (${image.contentType}) could not be converted and was left out`);
+          return { src: "" };
+        }
+      }),
+    });
+    warnings.push(...result.messages.map(message => message.message));
+    return result.value;
+  }
+
+  const text = file.buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  if (extension === ".md" || extension === ".markdown") {
+    return await marked.parse(text, { gfm: true });
+  }
+  return textToHtml(text);
+}
+
+interface Section {
+  title: string | null;
+  blocks: ImportBlock[];
+}
+
+// Chapters start at headings of one level: the highest level used more than
+// once, so a single title heading above "Chapter" headings doesn't swallow
+// the whole book
+function splitOnHeadings(blocks: ImportBlock[]): Section[] {
+  const counts = new Map<number, number>();
+  for (const block of blocks) {
+    if (block.headingLevel) counts.set(block.headingLevel, (counts.get(block.headingLevel) || 0) + 1);
+  }
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  const level = levels.find(candidate => counts.get(candidate)! > 1) ?? levels[0];
+  if (level === undefined) return [{ title: null, blocks }];
+
+  const sections: Section[] = [{ title: null, blocks: [] }];
+  for (const block of blocks) {
+    if (block.headingLevel !== undefined && block.headingLevel <= level) {
+      sections.push({ title: block.text, blocks: [] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+  return sections;
+}
+
+// Markdown turns separators like *** into horizontal rules, which count as
+// the separator when it is made of rule characters
+function splitOnSeparator(blocks: ImportBlock[], separator: string): Section[] {
+  const ruleSeparator = /^[\s*_-]+$/.test(separator);
+  const sections: Section[] = [{ title: null, blocks: [] }];
+  for (const block of blocks) {
+    const isSeparator = block.rule ? ruleSeparator : !block.headingLevel && block.text === separator;
+    if (isSeparator) {
+      sections.push({ title: null, blocks: [] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+
+  // A heading opening a section names the chapter
+  for (const section of sections) {
+    if (section.blocks[0]?.headingLevel) section.title = section.blocks.shift()!.text;
+  }
+  return sections;
+}
+
+function chapterTitle(heading: string | null): string {
+  if (!heading) return UNTITLED_CHAPTER;
+  return (heading.replace(CHAPTER_PREFIX, "").trim() || heading).slice(0, 255);
+}
+
+export async function parseManuscript(file: ManuscriptFile, options: ManuscriptOptions): Promise<ManuscriptPreview> {
+  const warnings: string[] = [];
+  let html: string;
+  try {
+    html = await manuscriptHtml(file, warnings);
+  } catch (error) {
+    console.error("Error converting manuscript:", error);
+    return { chapters: [], warnings: ["The file could not be read. Check that it is a valid .docx, Markdown or text file."] };
+  }
+
+  const blocks = collectBlocks(parseDOM(html), []);
+  const sections = options.splitBy === "separator"
+    ? splitOnSeparator(blocks, options.separator)
+    : splitOnHeadings(blocks);
+
+  const chapters: ImportedChapter[] = sections
+    .filter(section => section.blocks.some(block => block.text || block.html.startsWith("<img")))
+    .map(section => ({
+      title: chapterTitle(section.title),
+      content: section.blocks.map(block => block.html).join(""),
+      wordCount: wordCount(section.blocks),
+    }));
+
+  return { chapters, warnings: Array.from(new Set(warnings)).slice(0, MAX_WARNINGS) };
+}
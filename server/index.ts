@@ -1,7 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { createServer } from 'http';
+import { storage } from "./storage";
+import { withShareMetadata } from "./share-cards";
 import session from 'express-session';
 import fs from 'fs';
 import path from 'path';
@@ -57,8 +58,10 @@ app.use((req, res, next) => {
   // Serve static files in production
   if (app.get("env") === "production") {
     app.use(express.static(path.join(process.cwd(), 'dist', 'public')));
-    app.get('*', (req, res) => {
-      res.sendFile(path.join(process.cwd(), 'dist', 'public', 'index.html'));
+    const indexHtml = fs.readFileSync(path.join(process.cwd(), 'dist', 'public', 'index.html'), 'utf-8');
+    app.get('*', async (req, res) => {
+      // Shared links get link preview tags for the page's content
+      res.set({ "Content-Type": "text/html" }).send(await withShareMetadata(storage, req, indexHtml));
     });
   }
 
@@ -77,9 +80,10 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   const port = parseInt(process.env.PORT || '5000', 10);
-  const httpServer = createServer(app);
 
-  httpServer.listen({
+  // Listen on the server returned by registerRoutes so the WebSocket
+  // server attached to it receives upgrade requests
+  server.listen({
     port,
     host: "0.0.0.0",
     reusePort: true,
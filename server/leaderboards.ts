@@ -0,0 +1,86 @@
+import type { DatabaseStorage } from "./storage";
+import {
+  LEADERBOARD_CATEGORIES,
+  LEADERBOARD_PERIODS,
+  type LeaderboardPeriod,
+} from "@shared/schema";
+
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Writing streaks aren't windowed, so a closed period can't be recomputed
+const POINT_IN_TIME_CATEGORIES = new Set(["writing_streak"]);
+
+export interface PeriodWindow {
+  start: Date;
+  end: Date;
+}
+
+// The UTC calendar window containing `date`. Weeks start on Monday. All-time
+// rankings are snapshotted once per day, so their window ends at the next
+// midnight like the daily one.
+export function getPeriodWindow(period: LeaderboardPeriod, date: Date = new Date()): PeriodWindow {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+  switch (period) {
+    case "daily":
+      return { start: new Date(midnight), end: new Date(midnight + DAY_MS) };
+    case "weekly": {
+      const daysSinceMonday = (new Date(midnight).getUTCDay() + 6) % 7;
+      const start = midnight - daysSinceMonday * DAY_MS;
+      return { start: new Date(start), end: new Date(start + 7 * DAY_MS) };
+    }
+    case "monthly":
+      return {
+        start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+        end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+      };
+    case "all_time":
+      return { start: new Date(0), end: new Date(midnight + DAY_MS) };
+  }
+}
+
+let lastRunAt: Date | undefined;
+
+// Snapshots every category for the current window of every period. When a
+// period has closed since the last run, its final standings are recomputed
+// first so activity from the last hour of the period isn't lost.
+export async function snapshotLeaderboards(storage: DatabaseStorage, now: Date = new Date()): Promise<void> {
+  for (const period of LEADERBOARD_PERIODS) {
+    const current = getPeriodWindow(period, now);
+    const previous = getPeriodWindow(period, new Date(current.start.getTime() - 1));
+    const previousJustClosed = !lastRunAt || previous.end > lastRunAt;
+
+    for (const category of LEADERBOARD_CATEGORIES) {
+      if (previousJustClosed && !POINT_IN_TIME_CATEGORIES.has(category)) {
+        await storage.snapshotLeaderboard(category, period, previous.start, previous.end);
+      }
+      await storage.snapshotLeaderboard(category, period, current.start, current.end);
+    }
+  }
+
+  lastRunAt = now;
+}
+
+// Runs the snapshot shortly after startup and then hourly, skipping a tick if
+// the previous run is still going
+export function startLeaderboardJob(storage: DatabaseStorage): NodeJS.Timeout {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await snapshotLeaderboards(storage);
+    } catch (error) {
+      console.error("Error snapshotting leaderboards:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(run, 10000);
+  const timer = setInterval(run, SNAPSHOT_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,29 @@
+-- Safe migration script for chapter drafts and scheduled releases
+-- Run this before `db:push`. Chapters were never marked published before
+-- scheduling existed, but readers saw all of them, so every existing chapter
+-- is published when the scheduled_for column is first added.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chapters' AND column_name = 'scheduled_for'
+  ) THEN
+    ALTER TABLE chapters ADD COLUMN scheduled_for TIMESTAMP;
+
+    UPDATE chapters
+    SET is_published = true,
+        published_at = COALESCE(published_at, created_at)
+    WHERE is_published IS NOT TRUE;
+    RAISE NOTICE 'Published existing chapters';
+
+    -- series.chapters_count now only counts published chapters
+    UPDATE series
+    SET chapters_count = (
+      SELECT COUNT(*) FROM chapters WHERE chapters.series_id = series.id
+    );
+  END IF;
+END $$;
+
+-- Migration complete
+SELECT 'Migration completed successfully! All data preserved.' AS status;
@@ -0,0 +1,9 @@
+-- Safe migration script for email verification
+-- Run this before `db:push`. Existing accounts start with an unverified email;
+-- verified badges already granted by admins are left as they are, but new
+-- badges can only be granted to accounts that have confirmed their email.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+
+-- Migration complete
+SELECT 'Migration completed successfully! All data preserved.' AS status;
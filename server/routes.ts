@@ -7,15 +7,28 @@ import path from "path";
 import fs from "fs";
 import bcrypt from "bcrypt";
 import session from "express-session";
-import MemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import rateLimit from "express-rate-limit";
 import { eq, desc, asc, like, ilike, and, or, isNull, sql, gt, lt, gte, lte, ne, count, inArray } from "drizzle-orm";
-import { db } from "./db"; // Assuming db is your Drizzle client instance
-import { users as usersTable, posts, comments, notifications, series, chapters, bookmarks, likes, follows, reposts, postCollaborators, feedback, reports } from "../shared/schema"; // Import necessary tables and schema
-import { insertPostSchema, insertCommentSchema } from "@shared/schema";
+import { db, pgConnectionConfig } from "./db"; // Assuming db is your Drizzle client instance
+import { users as usersTable, posts, comments, series, chapters, bookmarks, likes, follows, reposts, postCollaborators, feedback, reports } from "../shared/schema"; // Import necessary tables and schema
+import { insertPostSchema, insertCommentSchema, POST_STATUSES, insertSeriesCommentSchema, insertChapterCommentSchema, updateUserSettingsSchema, importChaptersSchema, verifyEmailSchema, passwordResetRequestSchema, passwordResetSchema, twoFactorCodeSchema, disableTwoFactorSchema, createConversationSchema, sendMessageSchema, type UserTwoFactor, IMPORT_SPLIT_MODES, MAX_IMPORTED_CHAPTERS, SERIES_REACTIONS, LEADERBOARD_CATEGORIES, LEADERBOARD_PERIODS, SEARCH_TYPES, type UserSettings, type LeaderboardCategory, type LeaderboardPeriod, type SearchResultType } from "@shared/schema";
 import { DatabaseStorage } from "./storage";
 import { getSpotifyClient } from "./spotifyClient";
 import spotifyRoutes from "./spotifyRoutes";
+import { setupWebSocket, type RealtimeEvent } from "./websocket";
+import { startLeaderboardJob } from "./leaderboards";
+import { announceChapter, announcePost, startPublishingJob } from "./publishing";
+import { buildSeriesExport, EXPORT_FORMATS } from "./export";
+import { countWords, MANUSCRIPT_EXTENSIONS, normalizeChapterHtml, parseManuscript } from "./import";
+import { getShareCard, renderShareImage, SHARE_CARD_KINDS } from "./share-cards";
+import { readAuthTokenUserId, verifyAuthToken } from "./auth-tokens";
+import { sendPasswordResetEmail, sendVerificationEmail } from "./account-emails";
+import { publicSessionId, startUserSession, toActiveSession, trackSessionActivity } from "./sessions";
+import { checkTotpCode, checkTwoFactorCode, createRecoveryCodes, createTwoFactorSetup } from "./two-factor";
+import { decodeFeedCursor, decodeRankedFeedCursor } from "./feed";
+import { getForYouFeed, getSuggestedUsers } from "./recommendations";
+import { normalizeHashtag } from "@shared/hashtags";
 import crypto from 'crypto';
 
 // Configure multer for image uploads
@@ -34,6 +47,25 @@ const upload = multer({
   },
 });
 
+// Manuscripts uploaded for import into a story's chapters
+const manuscriptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (MANUSCRIPT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(Object.assign(new Error('Manuscripts must be .docx, .md or .txt files'), { status: 400 }));
+    }
+  },
+});
+
+// How long the second step of a two-factor sign-in stays open, and how many codes it may try
+const TWO_FACTOR_LOGIN_TTL = 10 * 60 * 1000; // 10 minutes
+const TWO_FACTOR_LOGIN_ATTEMPTS = 5;
+
 // Session middleware - single instance to reuse across HTTP and WebSocket
 const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
 
@@ -43,9 +75,14 @@ function createSessionMiddleware() {
     throw new Error('SESSION_SECRET environment variable is required for security');
   }
 
-  const memoryStore = MemoryStore(session);
-  const sessionStore = new memoryStore({
-    checkPeriod: sessionTtl, // prune expired entries every 24h
+  // Sessions live in the `sessions` table so they survive restarts and are
+  // shared between instances; expired rows are pruned every 15 minutes
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conObject: pgConnectionConfig,
+    tableName: "sessions",
+    createTableIfMissing: false,
+    ttl: sessionTtl / 1000,
   });
 
   return session({
@@ -70,6 +107,10 @@ declare module 'express-session' {
   interface SessionData {
     userId: string;
     user: any;
+    // Password checked, waiting for the two-factor code
+    pendingTwoFactor: { userId: string; expiresAt: number; attempts: number };
+    // Secret shown during 2FA enrollment, saved once a code from it is confirmed
+    twoFactorSetupSecret: string;
   }
 }
 
@@ -85,6 +126,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create storage instance
   const storage = new DatabaseStorage();
 
+  // Create HTTP server
+  const httpServer = createServer(app);
+
+  // Real-time delivery over WebSockets, authenticated with the shared session
+  const realtime = setupWebSocket(httpServer, sessionMiddleware, storage);
+  (app as any).broadcastNotification = realtime.broadcastNotification;
+
   // Require admin middleware (moved inside registerRoutes to access storage)
   const requireAdmin = async (req: any, res: any, next: any) => {
     if (!req.session?.userId) {
@@ -119,6 +167,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // Whether userId has blocked, or been blocked by, any of the other users.
+  // Blocked users can't follow, comment on or reply to each other.
+  const BLOCKED_MESSAGE = "You can't interact with this user";
+  const isBlockedFrom = async (userId: string, otherUserIds: (string | null | undefined)[]) => {
+    const ids = otherUserIds.filter((id): id is string => !!id && id !== userId);
+    return (await storage.getBlockedEitherWayIds(userId, ids)).size > 0;
+  };
+
   // Initialize admin account
   await storage.initializeAdminAccount();
 
@@ -131,6 +187,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 5000);
 
+  // Keep the leaderboards table's period snapshots up to date
+  startLeaderboardJob(storage);
+
   // Rate limiting
   const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -156,9 +215,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     legacyHeaders: false,
   });
 
+  const exportLimiter = rateLimit({
+    windowMs: 1 * 60 * 1000, // 1 minute
+    max: 5, // Building an EPUB or PDF of a whole series is expensive
+    message: { message: "Too many exports, please try again in a minute" },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
   // Session middleware
   app.set("trust proxy", 1);
   app.use(sessionMiddleware);
+  app.use(trackSessionActivity);
+
+  // Admins who were required to use two-factor authentication can't use the
+  // admin API until they've turned it on
+  app.use('/api/admin', async (req: any, res, next) => {
+    if (!req.session?.userId) {
+      return next();
+    }
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user?.twoFactorRequired && (user.isAdmin || user.isSuperAdmin) && !(await storage.getUserTwoFactor(user.id))) {
+        return res.status(403).json({
+          message: "Turn on two-factor authentication in Settings to use admin tools",
+          code: "TWO_FACTOR_REQUIRED",
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Two-factor requirement check error:", error);
+      res.status(500).json({ message: "Internal server error during admin check" });
+    }
+  });
 
   // Apply general rate limiting to all routes
   app.use('/api', generalLimiter);
@@ -224,7 +313,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Set session
-      (req.session as any).userId = user.id;
+      startUserSession(req, user.id);
+
+      // A failed email shouldn't fail the sign-up; the user can resend it from settings
+      sendVerificationEmail(req, user).catch((error) => {
+        console.error("Error sending verification email:", error);
+      });
 
       console.log(`✅ User registered successfully: ${user.username} (${user.id})`);
       res.json({ user: { ...user, password: undefined } });
@@ -275,8 +369,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Invalid username/email or password" });
       }
 
+      // With two-factor authentication on, the session only remembers who is
+      // signing in until the code arrives at /api/auth/login/two-factor
+      if (await storage.getUserTwoFactor(user.id)) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL, attempts: 0 };
+        return res.json({ twoFactorRequired: true });
+      }
+
       // Set session
-      (req.session as any).userId = user.id;
+      startUserSession(req, user.id);
 
       // Save session explicitly
       await new Promise<void>((resolve, reject) => {
@@ -298,16 +399,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/auth/login/two-factor', authLimiter, async (req: any, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+      }
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in expired. Please enter your password again.", code: "TWO_FACTOR_EXPIRED" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      const twoFactor = await storage.getUserTwoFactor(pending.userId);
+      const check = user && twoFactor ? checkTwoFactorCode(twoFactor, parsed.data.code) : null;
+      // Authenticator codes are single use; recovery codes are crossed off
+      const claimed = check ? await storage.useTwoFactorCode(pending.userId, check) : undefined;
+      if (!user || !check || !claimed) {
+        pending.attempts += 1;
+        if (pending.attempts >= TWO_FACTOR_LOGIN_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Please enter your password again.", code: "TWO_FACTOR_EXPIRED" });
+        }
+        return res.status(401).json({ message: "That code isn't valid" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      startUserSession(req, user.id);
+
+      console.log(`✅ User logged in successfully with two-factor: ${user.username} (${user.id})`);
+      res.json({
+        user: { ...user, password: undefined },
+        recoveryCodesRemaining: check.method === "recovery" ? claimed.recoveryCodes.length : undefined,
+      });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Failed to login. Please try again." });
+    }
+  });
+
   app.post('/api/auth/logout', (req, res) => {
+    const sessionId = req.sessionID;
     req.session.destroy((err) => {
       if (err) {
         console.error("Logout error:", err);
         return res.status(500).json({ message: "Failed to logout" });
       }
+      realtime.disconnectSessions([sessionId]);
       res.json({ message: "Logged out successfully" });
     });
   });
 
+  app.post('/api/auth/verify-email/send', requireAuth, authLimiter, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Add an email address to your account first" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email is already confirmed" });
+      }
+
+      await sendVerificationEmail(req, user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  app.post('/api/auth/verify-email', authLimiter, async (req: any, res) => {
+    try {
+      const parsed = verifyEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid verification link", errors: parsed.error.errors });
+      }
+
+      const { token } = parsed.data;
+      const userId = readAuthTokenUserId(token);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !verifyAuthToken("verify-email", token, user)) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      const verified = user.emailVerifiedAt ? user : await storage.markEmailVerified(user.id);
+      res.json({ user: { ...verified, password: undefined } });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // Always answers the same way so it can't be used to find out which emails have accounts
+  app.post('/api/auth/password-reset/request', authLimiter, async (req: any, res) => {
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid email", errors: parsed.error.errors });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      if (user?.password) {
+        // Not awaited, so the response time doesn't give away whether the account exists
+        sendPasswordResetEmail(req, user).catch((error) => {
+          console.error("Error sending password reset email:", error);
+        });
+      }
+
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post('/api/auth/password-reset', authLimiter, async (req: any, res) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid password reset", errors: parsed.error.errors });
+      }
+
+      const { token, password } = parsed.data;
+      const userId = readAuthTokenUserId(token);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !verifyAuthToken("reset-password", token, user)) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      await storage.updateUserPassword(user.id, hashedPassword);
+      // The link arrived by email, which also proves the address belongs to them
+      if (!user.emailVerifiedAt) {
+        await storage.markEmailVerified(user.id);
+      }
+
+      // Whoever knew the old password may still be signed in somewhere
+      realtime.disconnectSessions(await storage.deleteUserSessions(user.id));
+
+      console.log(`✅ Password reset for user: ${user.username} (${user.id})`);
+      res.json({ message: "Password updated. You can now log in with your new password." });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
   app.get('/api/auth/user', async (req: any, res) => {
     try {
       console.log('GET /api/auth/user - Session ID:', req.session?.userId);
@@ -334,6 +573,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Two-factor authentication settings
+  const twoFactorStatus = (user: { twoFactorRequired: boolean | null }, twoFactor?: UserTwoFactor) => ({
+    enabled: !!twoFactor,
+    enabledAt: twoFactor?.enabledAt?.toISOString() ?? null,
+    required: !!user.twoFactorRequired,
+    recoveryCodesRemaining: twoFactor?.recoveryCodes.length ?? 0,
+  });
+
+  app.get('/api/auth/2fa', requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(twoFactorStatus(user, await storage.getUserTwoFactor(user.id)));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrollment: the secret stays in the session until a code from it is confirmed
+  app.post('/api/auth/2fa/setup', requireAuth, authLimiter, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (await storage.getUserTwoFactor(user.id)) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const setup = await createTwoFactorSetup(user.email || user.username);
+      req.session.twoFactorSetupSecret = setup.secret;
+      res.json(setup);
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post('/api/auth/2fa/enable', requireAuth, authLimiter, async (req: any, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+      }
+
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      const step = checkTotpCode(secret, parsed.data.code);
+      if (step === null) {
+        return res.status(400).json({ message: "That code didn't match. Check the time on your device and try again." });
+      }
+
+      const userId = req.session.userId;
+      const { codes, hashes } = createRecoveryCodes();
+      await storage.enableTwoFactor(userId, secret, hashes, step);
+      delete req.session.twoFactorSetupSecret;
+
+      // Other devices signed in with just the password
+      const sessionRows = await storage.getUserSessions(userId);
+      realtime.disconnectSessions(
+        await storage.deleteUserSessions(userId, sessionRows.map((row) => row.sid).filter((sid) => sid !== req.sessionID))
+      );
+
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', requireAuth, authLimiter, async (req: any, res) => {
+    try {
+      const parsed = disableTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid request", errors: parsed.error.errors });
+      }
+
+      const user = await storage.getUser(req.session.userId);
+      const twoFactor = user ? await storage.getUserTwoFactor(user.id) : undefined;
+      if (!user || !twoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is already off" });
+      }
+      if (user.twoFactorRequired) {
+        return res.status(403).json({ message: "An admin requires two-factor authentication for your account" });
+      }
+      if (!user.password || !(await bcrypt.compare(parsed.data.password, user.password))) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      const check = checkTwoFactorCode(twoFactor, parsed.data.code);
+      if (!check || !(await storage.useTwoFactorCode(user.id, check))) {
+        return res.status(400).json({ message: "That code isn't valid" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replaces every recovery code, e.g. after running low
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, authLimiter, async (req: any, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid code", errors: parsed.error.errors });
+      }
+
+      const userId = req.session.userId;
+      const twoFactor = await storage.getUserTwoFactor(userId);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      const check = checkTwoFactorCode(twoFactor, parsed.data.code);
+      if (!check || !(await storage.useTwoFactorCode(userId, check))) {
+        return res.status(400).json({ message: "That code isn't valid" });
+      }
+
+      const { codes, hashes } = createRecoveryCodes();
+      await storage.updateUserTwoFactor(userId, { recoveryCodes: hashes });
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Active sessions of the signed-in user, newest activity first
+  app.get('/api/auth/sessions', requireAuth, async (req: any, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId);
+      const activeSessions = rows
+        .map((row) => toActiveSession(row.sid, row.sess as any, req.sessionID))
+        .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+      res.json(activeSessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req: any, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId);
+      const target = rows.find((row) => publicSessionId(row.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Log out to end the session you're using" });
+      }
+
+      realtime.disconnectSessions(await storage.deleteUserSessions(req.session.userId, [target.sid]));
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Signs out everywhere except the session making the request
+  app.delete('/api/auth/sessions', requireAuth, async (req: any, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId);
+      const others = rows.map((row) => row.sid).filter((sid) => sid !== req.sessionID);
+      const revoked = await storage.deleteUserSessions(req.session.userId, others);
+      realtime.disconnectSessions(revoked);
+      res.json({ message: "Other sessions revoked", revoked: revoked.length });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
   // User profile routes
   app.patch('/api/users/profile', requireAuth, async (req: any, res) => {
     try {
@@ -397,7 +816,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      res.json({ ...user, password: undefined });
+      const viewerId = req.session?.userId;
+      const isOwner = viewerId === user.id;
+      const settings = await storage.getUserSettings(user.id);
+
+      if (!(await storage.canViewProfile(user.id, viewerId))) {
+        // Enough to render a header and a "this profile is private" notice
+        return res.json({
+          id: user.id,
+          username: user.username,
+          displayName: user.displayName,
+          profileImageUrl: user.profileImageUrl,
+          isVerified: user.isVerified,
+          profileVisibility: settings.profileVisibility,
+          isRestricted: true,
+        });
+      }
+
+      res.json({
+        ...user,
+        password: undefined,
+        email: isOwner || settings.showEmail ? user.email : undefined,
+        showFollowers: settings.showFollowers,
+        showFollowing: settings.showFollowing,
+        allowMessages: settings.allowMessages,
+        allowCollaborations: settings.allowCollaborations,
+      });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -408,13 +852,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/posts', requireAuth, writeLimiter, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const { title, content, category, excerpt, coverImageUrl, privacy, imageUrls, spotifyTrackData, collaborators: collaboratorIds, mentions, hashtags } = req.body;
+      const { title, content, category, excerpt, coverImageUrl, privacy, imageUrls, spotifyTrackData, collaborators: collaboratorIds, status = "published", scheduledFor } = req.body;
 
       // Validate content presence
       if (!content || !content.trim()) {
         return res.status(400).json({ message: "Content is required" });
       }
 
+      if (!POST_STATUSES.includes(status)) {
+        return res.status(400).json({ message: "Invalid post status" });
+      }
+      const scheduledDate = status === "scheduled" ? new Date(scheduledFor) : null;
+      if (scheduledDate && (isNaN(scheduledDate.getTime()) || scheduledDate <= new Date())) {
+        return res.status(400).json({ message: "Scheduled time must be in the future" });
+      }
+
       // Placeholder for content processing (e.g., markdown to HTML)
       const processedContent = content; // Replace with actual processing if needed
 
@@ -437,7 +889,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         category: category || 'general',
         coverImageUrl: coverImageUrl || null,
         readTimeMinutes,
-        publishedAt: new Date(),
+        status,
+        scheduledFor: scheduledDate,
+        publishedAt: status === "published" ? new Date() : null,
         spotifyTrackId: spotifyTrackData?.id || null,
         spotifyTrackData: spotifyTrackData || null,
         imageUrls: imageUrls || [],
@@ -452,59 +906,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const newPost = await storage.createPost(postData);
 
-      // Send collaboration invitations
+      // Save collaboration invitations; they're sent when the post goes live
       if (collaboratorIds && collaboratorIds.length > 0) {
+        const blockedIds = await storage.getBlockedEitherWayIds(userId, collaboratorIds);
         for (const collaboratorId of collaboratorIds) {
-          // Create collaborator invitation
-          const [collaboration] = await db.insert(postCollaborators).values({
+          // Skip users who don't accept collaboration invites, or who are
+          // blocked either way
+          if (blockedIds.has(collaboratorId)) continue;
+          const collaboratorSettings = await storage.getUserSettings(collaboratorId);
+          if (!collaboratorSettings.allowCollaborations) continue;
+
+          await db.insert(postCollaborators).values({
             postId: newPost.id,
             collaboratorId,
             invitedById: userId,
             status: 'pending'
-          }).returning();
-
-          // Send notification to collaborator with collaboration ID
-          const notification = await storage.createNotification({
-            userId: collaboratorId,
-            type: 'collaboration_invite',
-            actorId: userId,
-            postId: newPost.id,
-            isRead: false,
-            data: { postTitle: title || 'Untitled Post', collaborationId: collaboration.id }
           });
-
-          // Broadcast real-time notification
-          if ((app as any).broadcastNotification) {
-            (app as any).broadcastNotification(collaboratorId, notification);
-          }
         }
       }
 
-      // Send notifications to mentioned users
-      if (mentions && Array.isArray(mentions) && mentions.length > 0) {
-        for (const username of mentions) {
-          try {
-            const mentionedUser = await storage.getUserByUsername(username);
-            if (mentionedUser && mentionedUser.id !== userId) {
-              // Create and broadcast notification
-              const notification = await storage.createNotification({
-                userId: mentionedUser.id,
-                type: 'mention',
-                actorId: userId,
-                postId: newPost.id,
-                isRead: false,
-                data: { postTitle: title || 'Untitled Post' }
-              });
-
-              // Broadcast real-time notification
-              if ((app as any).broadcastNotification) {
-                (app as any).broadcastNotification(mentionedUser.id, notification);
-              }
-            }
-          } catch (error) {
-            console.error(`Failed to notify mentioned user @${username}:`, error);
-          }
-        }
+      // Invite collaborators and notify mentioned users
+      if (newPost.status === "published") {
+        await announcePost(storage, newPost, (app as any).broadcastNotification);
       }
 
       // Update word count for today
@@ -519,6 +942,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The current user's drafts and scheduled posts (MUST BE BEFORE :id route)
+  app.get("/api/posts/drafts", requireAuth, async (req: any, res) => {
+    try {
+      const drafts = await storage.getUserDrafts(req.session.userId);
+      res.json(drafts);
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      res.status(500).json({ message: "Failed to fetch drafts" });
+    }
+  });
+
+  // Publish a draft or scheduled post right away
+  app.post("/api/posts/:id/publish", requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.authorId !== req.session.userId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.status === "published") {
+        return res.status(400).json({ message: "Post is already published" });
+      }
+
+      const published = await storage.publishPost(post.id);
+      if (published) {
+        await announcePost(storage, published, (app as any).broadcastNotification);
+      }
+      res.json(published ?? await storage.getPost(post.id));
+    } catch (error) {
+      console.error("Error publishing post:", error);
+      res.status(500).json({ message: "Failed to publish post" });
+    }
+  });
+
+  // Schedule a draft, move a scheduled post, or unschedule it with scheduledFor: null
+  app.put("/api/posts/:id/schedule", requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.authorId !== req.session.userId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.status === "published") {
+        return res.status(400).json({ message: "Published posts can't be scheduled" });
+      }
+
+      const { scheduledFor } = req.body;
+      if (scheduledFor === null) {
+        return res.json(await storage.updatePost(post.id, { status: "draft", scheduledFor: null }));
+      }
+
+      const scheduledDate = new Date(scheduledFor);
+      if (isNaN(scheduledDate.getTime()) || scheduledDate <= new Date()) {
+        return res.status(400).json({ message: "Scheduled time must be in the future" });
+      }
+      res.json(await storage.updatePost(post.id, { status: "scheduled", scheduledFor: scheduledDate }));
+    } catch (error) {
+      console.error("Error scheduling post:", error);
+      res.status(500).json({ message: "Failed to schedule post" });
+    }
+  });
+
   // Get popular music from posts - specific route for home page (MUST BE BEFORE :id route)
   app.get("/api/posts/popular-music", async (req, res) => {
     try {
@@ -571,7 +1054,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = (req as any).session?.userId;
 
       const post = await storage.getPost(postId);
-      if (!post) {
+      // Drafts and scheduled posts are only visible to their author
+      if (!post || (post.status !== "published" && post.authorId !== userId)) {
         return res.status(404).json({ message: "Post not found" });
       }
 
@@ -612,149 +1096,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get posts with engagement data
+  // Feeds page with an opaque (createdAt, id) cursor from the previous page's nextCursor
+  const parseFeedQuery = <T>(query: any, decode: (value: string) => T | null) => {
+    const limit = Math.min(Math.max(parseInt(query.limit as string) || 20, 1), 50);
+    if (!query.cursor) return { limit, cursor: undefined };
+    const cursor = decode(String(query.cursor));
+    return cursor ? { limit, cursor } : null;
+  };
+
   app.get("/api/posts", async (req, res) => {
     try {
-      const userId = req.session?.userId;
+      const feedQuery = parseFeedQuery(req.query, decodeFeedCursor);
+      if (!feedQuery) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
 
-      const postsQuery = db
-        .select({
-          id: posts.id,
-          authorId: posts.authorId,
-          title: posts.title,
-          content: posts.content,
-          excerpt: posts.excerpt,
-          category: posts.category,
-          coverImageUrl: posts.coverImageUrl,
-          readTimeMinutes: posts.readTimeMinutes,
-          publishedAt: posts.publishedAt,
-          spotifyTrackData: posts.spotifyTrackData,
-          imageUrls: posts.imageUrls,
-          isPrivate: posts.isPrivate,
-          likesCount: posts.likesCount,
-          commentsCount: posts.commentsCount,
-          repostsCount: posts.repostsCount,
-          viewsCount: posts.viewsCount,
-          createdAt: posts.createdAt,
-          updatedAt: posts.updatedAt,
-          // Include author data directly in the query
-          authorDisplayName: usersTable.displayName,
-          authorUsername: usersTable.username,
-          authorProfileImageUrl: usersTable.profileImageUrl,
-          authorIsVerified: usersTable.isVerified,
-          authorIsAdmin: usersTable.isAdmin,
-          authorIsSuperAdmin: usersTable.isSuperAdmin,
-          authorUserRole: usersTable.userRole,
-        })
-        .from(posts)
-        .leftJoin(usersTable, eq(posts.authorId, usersTable.id))
-        .where(eq(posts.isPrivate, false))
-        .orderBy(desc(posts.createdAt))
-        .limit(50);
+      const page = await storage.getPublicFeed(feedQuery.limit, feedQuery.cursor, req.session?.userId);
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching posts:", error);
+      res.status(500).json({ error: "Failed to fetch posts" });
+    }
+  });
 
-      const postsData = await postsQuery;
+  // Personalized ranking; guests get it by engagement and recency alone
+  app.get("/api/feed/for-you", async (req, res) => {
+    try {
+      const feedQuery = parseFeedQuery(req.query, decodeRankedFeedCursor);
+      if (!feedQuery) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
 
-      // Get engagement data for current user if logged in
-      let userLikes: any[] = [];
-      let userBookmarks: any[] = [];
-      let userReposts: any[] = [];
+      const page = await getForYouFeed(storage, req.session?.userId, feedQuery.limit, feedQuery.cursor);
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching for you feed:", error);
+      res.status(500).json({ message: "Failed to fetch feed" });
+    }
+  });
 
-      if (userId) {
-        const postIds = postsData.map(post => post.id);
-
-        [userLikes, userBookmarks, userReposts] = await Promise.all([
-          db.select({ postId: likes.postId }).from(likes)
-            .where(and(eq(likes.userId, userId), inArray(likes.postId, postIds))),
-          db.select({ postId: bookmarks.postId }).from(bookmarks)
-            .where(and(eq(bookmarks.userId, userId), inArray(bookmarks.postId, postIds))),
-          db.select({ postId: reposts.postId }).from(reposts)
-            .where(and(eq(reposts.userId, userId), inArray(reposts.postId, postIds)))
-        ]);
+  app.get("/api/feed/following", requireAuth, async (req: any, res) => {
+    try {
+      const feedQuery = parseFeedQuery(req.query, decodeFeedCursor);
+      if (!feedQuery) {
+        return res.status(400).json({ message: "Invalid cursor" });
       }
 
-      const likedPostIds = new Set(userLikes.map(like => like.postId));
-      const bookmarkedPostIds = new Set(userBookmarks.map(bookmark => bookmark.postId));
-      const repostedPostIds = new Set(userReposts.map(repost => repost.postId));
-
-      // Get collaborators for all posts
-      const postIds = postsData.map(post => post.id);
-      const collaboratorsData = await db
-        .select({
-          postId: postCollaborators.postId,
-          collaboratorId: postCollaborators.collaboratorId,
-          collaboratorUsername: usersTable.username,
-          collaboratorDisplayName: usersTable.displayName,
-          collaboratorProfileImageUrl: usersTable.profileImageUrl,
-          status: postCollaborators.status
-        })
-        .from(postCollaborators)
-        .leftJoin(usersTable, eq(postCollaborators.collaboratorId, usersTable.id))
-        .where(and(
-          inArray(postCollaborators.postId, postIds),
-          eq(postCollaborators.status, 'accepted')
-        ));
-
-      // Group collaborators by post ID
-      const collaboratorsByPost = collaboratorsData.reduce((acc, collab) => {
-        if (!acc[collab.postId]) {
-          acc[collab.postId] = [];
-        }
-        acc[collab.postId].push({
-          id: collab.collaboratorId,
-          username: collab.collaboratorUsername,
-          displayName: collab.collaboratorDisplayName,
-          profileImageUrl: collab.collaboratorProfileImageUrl
-        });
-        return acc;
-      }, {} as Record<string, any[]>);
-
-      const postsWithEngagement = postsData.map(post => ({
-        id: post.id,
-        authorId: post.authorId,
-        title: post.title,
-        content: post.content,
-        excerpt: post.excerpt,
-        category: post.category,
-        coverImageUrl: post.coverImageUrl,
-        readTimeMinutes: post.readTimeMinutes,
-        publishedAt: post.publishedAt,
-        spotifyTrackData: post.spotifyTrackData,
-        imageUrls: post.imageUrls,
-        isPrivate: post.isPrivate,
-        likesCount: post.likesCount,
-        commentsCount: post.commentsCount,
-        repostsCount: post.repostsCount,
-        viewsCount: post.viewsCount,
-        createdAt: post.createdAt,
-        updatedAt: post.updatedAt,
-        author: {
-          id: post.authorId,
-          displayName: post.authorDisplayName,
-          username: post.authorUsername,
-          profileImageUrl: post.authorProfileImageUrl,
-          isVerified: post.authorIsVerified,
-          isAdmin: post.authorIsAdmin,
-          isSuperAdmin: post.authorIsSuperAdmin,
-          userRole: post.authorUserRole,
-        },
-        collaborators: collaboratorsByPost[post.id] || [],
-        isLiked: likedPostIds.has(post.id),
-        isBookmarked: bookmarkedPostIds.has(post.id),
-        isReposted: repostedPostIds.has(post.id),
-      }));
-
-      res.json(postsWithEngagement);
-    } catch (error) {
-      console.error("Error fetching posts:", error);
-      res.status(500).json({ error: "Failed to fetch posts" });
-    }
-  });
-
+      const page = await storage.getFollowingFeed(req.session.userId, feedQuery.limit, feedQuery.cursor);
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching following feed:", error);
+      res.status(500).json({ message: "Failed to fetch following feed" });
+    }
+  });
 
   app.get('/api/users/:userId/posts', async (req, res) => {
     try {
       const { userId } = req.params;
       const { limit = 20, offset = 0 } = req.query;
 
+      if (!(await storage.canViewProfile(userId, req.session?.userId))) {
+        return res.json([]);
+      }
+
       const posts = await storage.getPostsByUser(
         userId,
         parseInt(limit as string),
@@ -767,12 +1171,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Follower lists respect the owner's showFollowers/showFollowing settings
+  app.get('/api/users/:userId/followers', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const viewerId = req.session?.userId;
+
+      if (!(await storage.canViewProfile(userId, viewerId))) {
+        return res.json([]);
+      }
+
+      const followers = await storage.getFollowers(userId, viewerId);
+      res.json(followers);
+    } catch (error) {
+      console.error("Error fetching followers:", error);
+      res.status(500).json({ message: "Failed to fetch followers" });
+    }
+  });
+
+  app.get('/api/users/:userId/following', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const viewerId = req.session?.userId;
+
+      if (!(await storage.canViewProfile(userId, viewerId))) {
+        return res.json([]);
+      }
+
+      const following = await storage.getFollowing(userId, viewerId);
+      res.json(following);
+    } catch (error) {
+      console.error("Error fetching following:", error);
+      res.status(500).json({ message: "Failed to fetch following" });
+    }
+  });
+
   // Get user's reposts
   app.get('/api/users/:userId/reposts', async (req, res) => {
     try {
       const { userId } = req.params;
       const currentUserId = req.session?.userId;
 
+      if (!(await storage.canViewProfile(userId, currentUserId))) {
+        return res.json([]);
+      }
+
       const repostedPosts = await storage.getUserReposts(userId);
 
       // Fetch author data and collaborators for each post
@@ -926,10 +1369,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         postId,
       });
 
-      const comment = await storage.createComment(commentData);
-
       // Get post to find the author for notification
       const post = await storage.getPost(postId);
+      if (post && await isBlockedFrom(userId, [post.authorId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
+      const comment = await storage.createComment(commentData);
+
       if (post && post.authorId !== userId) {
         // Create and broadcast notification
         const notification = await storage.createNotification({
@@ -972,6 +1419,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id: parentId } = req.params;
       const { content, postId } = req.body;
 
+      const [post, parent] = await Promise.all([storage.getPost(postId), storage.getComment(parentId)]);
+      if (await isBlockedFrom(userId, [post?.authorId, parent?.userId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
       const reply = await storage.createReply({
         userId,
         postId,
@@ -1031,6 +1483,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Cannot follow yourself" });
       }
 
+      if (await isBlockedFrom(followerId, [followingId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
       const isAlreadyFollowing = await storage.isFollowing(followerId, followingId);
 
       if (isAlreadyFollowing) {
@@ -1090,6 +1546,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Unfollow if already following
         await storage.unfollowUser(followerId, followingId);
         res.json({ following: false, message: "Unfollowed user" });
+      } else if (await isBlockedFrom(followerId, [followingId])) {
+        res.status(403).json({ message: BLOCKED_MESSAGE });
       } else {
         // Follow if not following
         const follow = await storage.followUser(followerId, followingId);
@@ -1136,14 +1594,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const followerId = req.session.userId;
       const { id: followingId } = req.params;
 
-      const isFollowing = await storage.isFollowing(followerId, followingId);
-      res.json({ isFollowing });
+      const [isFollowing, isBlocked, isMuted] = await Promise.all([
+        storage.isFollowing(followerId, followingId),
+        isBlockedFrom(followerId, [followingId]),
+        storage.isMuted(followerId, followingId),
+      ]);
+      res.json({ isFollowing, isBlocked, isMuted });
     } catch (error) {
       console.error("Error checking follow status:", error);
       res.status(500).json({ message: "Failed to check follow status" });
     }
   });
 
+  // Block and mute routes
+  app.post('/api/users/:id/block', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: blockedId } = req.params;
+
+      if (userId === blockedId) {
+        return res.status(400).json({ message: "Cannot block yourself" });
+      }
+      if (!(await storage.getUser(blockedId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.blockUser(userId, blockedId);
+      res.json({ blocked: true, message: "User blocked" });
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+
+  app.delete('/api/users/:id/block', requireAuth, async (req: any, res) => {
+    try {
+      await storage.unblockUser(req.session.userId, req.params.id);
+      res.json({ blocked: false, message: "User unblocked" });
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      res.status(500).json({ message: "Failed to unblock user" });
+    }
+  });
+
+  app.post('/api/users/:id/mute', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: mutedId } = req.params;
+
+      if (userId === mutedId) {
+        return res.status(400).json({ message: "Cannot mute yourself" });
+      }
+      if (!(await storage.getUser(mutedId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.muteUser(userId, mutedId);
+      res.json({ muted: true, message: "User muted" });
+    } catch (error) {
+      console.error("Error muting user:", error);
+      res.status(500).json({ message: "Failed to mute user" });
+    }
+  });
+
+  app.delete('/api/users/:id/mute', requireAuth, async (req: any, res) => {
+    try {
+      await storage.unmuteUser(req.session.userId, req.params.id);
+      res.json({ muted: false, message: "User unmuted" });
+    } catch (error) {
+      console.error("Error unmuting user:", error);
+      res.status(500).json({ message: "Failed to unmute user" });
+    }
+  });
+
   // Repost routes
   app.post('/api/posts/:id/repost', requireAuth, writeLimiter, async (req: any, res) => {
     try {
@@ -1304,36 +1827,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/search/users', async (req, res) => {
-    try {
-      const { q: query, limit = 10 } = req.query;
-      if (!query) {
-        return res.status(400).json({ message: "Query parameter required" });
-      }
-
-      const users = await storage.searchUsers(query as string, req.session?.userId, parseInt(limit as string));
-      res.json(users);
-    } catch (error) {
-      console.error("Error searching users:", error);
-      res.status(500).json({ message: "Failed to search users" });
-    }
-  });
-
-  app.get('/api/search/posts', async (req, res) => {
-    try {
-      const { q: query, limit = 20 } = req.query;
-      if (!query) {
-        return res.status(400).json({ message: "Query parameter required" });
-      }
-
-      const posts = await storage.searchPosts(query as string, parseInt(limit as string));
-      res.json(posts);
-    } catch (error) {
-      console.error("Error searching posts:", error);
-      res.status(500).json({ message: "Failed to search posts" });
-    }
-  });
-
   // Trending and discovery routes
   app.get('/api/trending/posts', async (req: any, res) => {
     try {
@@ -1349,7 +1842,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/trending/topics', async (req, res) => {
     try {
-      const topics = await storage.getTrendingTopics();
+      const { limit = 10 } = req.query;
+      const topics = await storage.getTrendingTopics(Math.min(parseInt(limit as string) || 10, 50));
       res.json(topics);
     } catch (error) {
       console.error("Error fetching trending topics:", error);
@@ -1357,6 +1851,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public posts tagged with a hashtag, newest first
+  app.get('/api/hashtags/:tag', async (req: any, res) => {
+    try {
+      const { tag } = req.params;
+      const { limit = 20, offset = 0 } = req.query;
+      const pageSize = Math.min(parseInt(limit as string) || 20, 50);
+      const pageOffset = Math.max(parseInt(offset as string) || 0, 0);
+
+      const [posts, postsCount] = await Promise.all([
+        storage.getPostsByHashtag(tag, pageSize, pageOffset, req.session?.userId),
+        storage.getHashtagUsageCount(tag),
+      ]);
+      res.json({
+        hashtag: `#${normalizeHashtag(tag)}`,
+        postsCount,
+        posts,
+        nextOffset: posts.length === pageSize ? pageOffset + pageSize : null,
+      });
+    } catch (error) {
+      console.error("Error fetching hashtag posts:", error);
+      res.status(500).json({ message: "Failed to fetch hashtag posts" });
+    }
+  });
+
   app.get("/api/users/:id/stats", async (req, res) => {
     try {
       const userId = req.params.id;
@@ -1496,7 +2014,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!series) {
         return res.status(404).json({ error: "Series not found" });
       }
-      res.json(series);
+
+      const [reactions, userReaction] = await Promise.all([
+        storage.getSeriesReactionCounts(id),
+        userId ? storage.getSeriesReaction(userId, id) : undefined,
+      ]);
+      res.json({ ...series, reactions, userReaction: userReaction?.reaction ?? null });
     } catch (error) {
       console.error("Error fetching series:", error);
       res.status(500).json({ error: "Failed to fetch series" });
@@ -1515,10 +2038,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/series/:id/chapters', async (req, res) => {
+  // Whether the user wrote the story, and so may see its unpublished chapters
+  const isSeriesAuthor = async (seriesId: string, userId?: string) => {
+    if (!userId) return false;
+    const story = await storage.getSeriesById(seriesId);
+    return story?.authorId === userId;
+  };
+
+  app.get('/api/series/:id/chapters', async (req: any, res) => {
     try {
       const { id } = req.params;
-      const chapters = await storage.getSeriesChapters(id);
+      const chapters = await storage.getSeriesChapters(id, await isSeriesAuthor(id, req.session?.userId));
       res.json(chapters);
     } catch (error) {
       console.error("Error fetching chapters:", error);
@@ -1526,6 +2056,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download a series as an EPUB or PDF book of its published chapters
+  app.get('/api/series/:id/export', exportLimiter, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const format = req.query.format;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+      }
+
+      const story = await storage.getSeriesById(id);
+      if (!story || (story.isPrivate && story.authorId !== req.session?.userId)) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      const chapters = await storage.getSeriesChapters(id);
+      const file = await buildSeriesExport(format, story, chapters);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.data);
+    } catch (error) {
+      console.error("Error exporting series:", error);
+      res.status(500).json({ error: "Failed to export series" });
+    }
+  });
+
+  // Link preview image for a post, story, chapter or profile
+  app.get('/api/share-image/:kind/:id.png', async (req: any, res) => {
+    try {
+      const { kind, id } = req.params;
+      if (!SHARE_CARD_KINDS.includes(kind)) {
+        return res.status(404).json({ message: "Share card not found" });
+      }
+
+      const card = await getShareCard(storage, kind, id);
+      if (!card) {
+        return res.status(404).json({ message: "Share card not found" });
+      }
+
+      const image = await renderShareImage(card);
+      res.set({ "Content-Type": "image/png", "Cache-Control": "public, max-age=3600" });
+      res.send(image);
+    } catch (error) {
+      console.error("Error rendering share image:", error);
+      res.status(500).json({ message: "Failed to render share image" });
+    }
+  });
+
   // Delete series
   app.delete("/api/series/:id", requireAuth, async (req: any, res) => {
     try {
@@ -1573,7 +2150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId;
       const { limit = 5 } = req.query;
 
-      const users = await storage.getSuggestedUsers(userId, parseInt(limit as string));
+      const users = await getSuggestedUsers(storage, userId, Math.min(parseInt(limit as string) || 5, 20));
       res.json(users);
     } catch (error) {
       console.error("Error fetching suggested users:", error);
@@ -1618,6 +2195,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Direct message routes
+  //
+  // Turning allowMessages off stops anyone starting a conversation with the
+  // user or messaging them one-to-one; groups they're already in carry on.
+  // A block stops messages both ways, in groups as well.
+  const messagingRestriction = async (senderId: string, recipientIds: string[], checkSettings: boolean) => {
+    if (await isBlockedFrom(senderId, recipientIds)) {
+      return BLOCKED_MESSAGE;
+    }
+    if (checkSettings) {
+      for (const recipientId of recipientIds) {
+        const settings = await storage.getUserSettings(recipientId);
+        if (!settings.allowMessages) {
+          return recipientIds.length > 1
+            ? "One or more users do not accept messages"
+            : "This user does not accept messages";
+        }
+      }
+    }
+    return null;
+  };
+
+  // Messages and read receipts reach every open tab of every participant
+  const sendToParticipants = (participantIds: string[], event: RealtimeEvent) => {
+    participantIds.forEach(participantId => realtime.sendToUser(participantId, event));
+  };
+
+  app.get('/api/conversations', requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getConversations(req.session.userId));
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Starting a one-to-one conversation that already exists returns that one
+  app.post('/api/conversations', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const parsed = createConversationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid conversation", errors: parsed.error.errors });
+      }
+
+      const participantIds = Array.from(new Set(parsed.data.participantIds)).filter(id => id !== userId);
+      if (participantIds.length === 0) {
+        return res.status(400).json({ message: "Cannot message yourself" });
+      }
+      const participants = await Promise.all(participantIds.map(id => storage.getUser(id)));
+      if (participants.some(participant => !participant)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const restriction = await messagingRestriction(userId, participantIds, true);
+      if (restriction) {
+        return res.status(403).json({ message: restriction });
+      }
+
+      let conversationId = participantIds.length === 1
+        ? await storage.findDirectConversation(userId, participantIds[0])
+        : undefined;
+      if (!conversationId) {
+        const conversation = await storage.createConversation(userId, participantIds, parsed.data.title);
+        conversationId = conversation.id;
+      }
+
+      res.json(await storage.getConversation(conversationId, userId));
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+
+  app.get('/api/conversations/:id', requireAuth, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id, req.session.userId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.get('/api/conversations/:id/messages', requireAuth, async (req: any, res) => {
+    try {
+      const { id: conversationId } = req.params;
+      const feedQuery = parseFeedQuery(req.query, decodeFeedCursor);
+      if (!feedQuery) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const participantIds = await storage.getConversationParticipantIds(conversationId);
+      if (!participantIds.includes(req.session.userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.json(await storage.getMessages(conversationId, feedQuery.limit, feedQuery.cursor));
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post('/api/conversations/:id/messages', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: conversationId } = req.params;
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid message", errors: parsed.error.errors });
+      }
+
+      const conversation = await storage.getConversation(conversationId, userId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const participantIds = conversation.participants.map(participant => participant.id);
+      const recipientIds = participantIds.filter(id => id !== userId);
+      const restriction = await messagingRestriction(userId, recipientIds, !conversation.isGroup);
+      if (restriction) {
+        return res.status(403).json({ message: restriction });
+      }
+
+      const message = await storage.createMessage(conversationId, userId, parsed.data.content);
+      sendToParticipants(participantIds, { type: "message", payload: message });
+      res.json(message);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.post('/api/conversations/:id/read', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: conversationId } = req.params;
+
+      const participantIds = await storage.getConversationParticipantIds(conversationId);
+      if (!participantIds.includes(userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const lastReadAt = await storage.markConversationRead(conversationId, userId);
+      if (lastReadAt) {
+        sendToParticipants(participantIds, {
+          type: "conversation_read",
+          payload: { conversationId, userId, lastReadAt },
+        });
+      }
+      res.json({ lastReadAt });
+    } catch (error) {
+      console.error("Error marking conversation as read:", error);
+      res.status(500).json({ message: "Failed to mark conversation as read" });
+    }
+  });
+
+  app.get('/api/messages/unread-count', requireAuth, async (req: any, res) => {
+    try {
+      res.json({ count: await storage.getUnreadMessageCount(req.session.userId) });
+    } catch (error) {
+      console.error("Error fetching unread message count:", error);
+      res.status(500).json({ message: "Failed to fetch unread message count" });
+    }
+  });
+
   // Collaboration routes
   app.post('/api/collaborations/:id/accept', requireAuth, writeLimiter, async (req: any, res) => {
     try {
@@ -1848,7 +2595,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Verify user owns the post
       const [post] = await db
-        .select({ authorId: posts.authorId })
+        .select({ authorId: posts.authorId, status: posts.status })
         .from(posts)
         .where(eq(posts.id, postId))
         .limit(1);
@@ -1857,6 +2604,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only add collaborators to your own posts" });
       }
 
+      if (await isBlockedFrom(userId, collaboratorIds)) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
+      for (const collaboratorId of collaboratorIds) {
+        const collaboratorSettings = await storage.getUserSettings(collaboratorId);
+        if (!collaboratorSettings.allowCollaborations) {
+          return res.status(403).json({ message: "One or more users do not accept collaboration invites" });
+        }
+      }
+
       // Remove existing pending collaborators
       await db.delete(postCollaborators).where(
         and(
@@ -1875,6 +2633,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             status: 'pending'
           });
 
+          // Drafts send their invitations when they're published
+          if (post.status !== "published") continue;
+
           // Send notification
           const notification = await storage.createNotification({
             userId: collaboratorId,
@@ -1891,7 +2652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      res.json({ message: "Collaboration invitations sent" });
+      res.json({ message: post.status === "published" ? "Collaboration invitations sent" : "Collaborators saved" });
     } catch (error) {
       console.error("Error updating collaborators:", error);
       res.status(500).json({ message: "Failed to update collaborators" });
@@ -2085,7 +2846,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ user: { ...user, password: undefined } });
     } catch (error) {
       console.error("Error setting verification status:", error);
-      res.status(403).json({ message: (error as Error).message || 'Error setting verification status' });
+      res.status((error as any).status || 403).json({ message: (error as Error).message || 'Error setting verification status' });
     }
   });
 
@@ -2149,17 +2910,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (imageUrls) updateData.imageUrls = imageUrls;
       if (spotifyTrackData) updateData.spotifyTrackData = spotifyTrackData;
 
-      const updatedPost = await storage.updatePost(postId, updateData);
+      const updatedPost = await storage.editPost(postId, userId, updateData);
 
       // Handle collaborators separately if provided
       if (collaborators !== undefined) {
         // Remove existing collaborators
         await db.delete(postCollaborators).where(eq(postCollaborators.postId, postId));
 
-        // Add new collaborators
-        if (collaborators && collaborators.length > 0) {
+        // Add new collaborators, leaving out anyone blocked either way
+        const blockedIds = await storage.getBlockedEitherWayIds(userId, collaborators ?? []);
+        const allowed = (collaborators ?? []).filter((collaboratorId: string) => !blockedIds.has(collaboratorId));
+        if (allowed.length > 0) {
           await db.insert(postCollaborators).values(
-            collaborators.map((collaboratorId: string) => ({
+            allowed.map((collaboratorId: string) => ({
               postId,
               collaboratorId,
               invitedById: userId,
@@ -2176,6 +2939,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Revision history of a post, for its author
+  app.get('/api/posts/:id/revisions', requireAuth, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.authorId !== req.session.userId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+
+      const revisions = await storage.getPostRevisions(post.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching post revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Roll a post back to an earlier revision. The version it replaces is
+  // saved as a revision too, so a restore can itself be undone.
+  app.post('/api/posts/:id/revisions/:revisionId/restore', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.authorId !== userId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+
+      const revision = await storage.getPostRevision(req.params.revisionId);
+      if (!revision || revision.postId !== post.id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const restoredPost = await storage.editPost(post.id, userId, {
+        title: revision.title,
+        content: revision.content,
+      });
+      res.json(restoredPost);
+    } catch (error) {
+      console.error("Error restoring post revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
   // Delete post route (for post owner)
   app.delete('/api/posts/:id', requireAuth, async (req: any, res) => {
     try {
@@ -2222,7 +3027,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create notification for admins
       const admins = await storage.getAdminUsers();
       for (const admin of admins) {
-        await storage.createNotification({
+        const notification = await storage.createNotification({
           userId: admin.id,
           type: 'report',
           actorId: userId,
@@ -2230,6 +3035,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isRead: false,
           data: { reason }
         });
+
+        if ((app as any).broadcastNotification) {
+          (app as any).broadcastNotification(admin.id, notification);
+        }
       }
 
       res.json({ message: "Post reported successfully" });
@@ -2271,7 +3080,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const series = await storage.getPublicSeries(
         parseInt(limit as string),
         parseInt(offset as string),
-        genre as string
+        genre as string,
+        req.session?.userId
       );
       res.json(series);
     } catch (error) {
@@ -2280,127 +3090,591 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/series/:id', async (req, res) => {
+  app.get('/api/series/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const series = await storage.getSeriesById(id);
+
+      if (!series) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({ message: "Failed to fetch series" });
+    }
+  });
+
+  app.post('/api/series/:id/chapters', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: seriesId } = req.params;
+      const { title, content, status = "published", scheduledFor } = req.body;
+
+      // Verify user owns the series
+      const series = await storage.getSeriesById(seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!POST_STATUSES.includes(status)) {
+        return res.status(400).json({ message: "Invalid chapter status" });
+      }
+      const scheduledDate = status === "scheduled" ? new Date(scheduledFor) : null;
+      if (scheduledDate && (isNaN(scheduledDate.getTime()) || scheduledDate <= new Date())) {
+        return res.status(400).json({ message: "Scheduled time must be in the future" });
+      }
+
+      const chapter = await storage.createChapter({
+        seriesId,
+        title,
+        content,
+        wordCount: content.split(/\s+/).length,
+        isPublished: status === "published",
+        publishedAt: status === "published" ? new Date() : null,
+        scheduledFor: scheduledDate,
+      });
+
+      if (chapter.isPublished) {
+        await announceChapter(storage, chapter, (app as any).broadcastNotification);
+      }
+
+      res.json(chapter);
+    } catch (error) {
+      console.error("Error creating chapter:", error);
+      res.status(500).json({ message: "Failed to create chapter" });
+    }
+  });
+
+  // Convert an uploaded manuscript into chapters for the author to review.
+  // Nothing is saved until the preview is confirmed.
+  app.post('/api/series/:id/import/preview', requireAuth, writeLimiter, manuscriptUpload.single('manuscript'), async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: seriesId } = req.params;
+      const { splitBy = "headings", separator = "***" } = req.body;
+
+      const series = await storage.getSeriesById(seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No manuscript uploaded" });
+      }
+      if (!IMPORT_SPLIT_MODES.includes(splitBy)) {
+        return res.status(400).json({ message: "Invalid split mode" });
+      }
+      if (splitBy === "separator" && (!separator.trim() || separator.length > 50)) {
+        return res.status(400).json({ message: "Separator must be between 1 and 50 characters" });
+      }
+
+      const preview = await parseManuscript(req.file, { splitBy, separator: separator.trim() });
+      if (preview.chapters.length === 0) {
+        return res.status(400).json({ message: preview.warnings[0] || "No text found in the manuscript" });
+      }
+      if (preview.chapters.length > MAX_IMPORTED_CHAPTERS) {
+        return res.status(400).json({ message: `Manuscripts can be split into at most ${MAX_IMPORTED_CHAPTERS} chapters` });
+      }
+
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing manuscript import:", error);
+      res.status(500).json({ message: "Failed to read manuscript" });
+    }
+  });
+
+  // Create the chapters confirmed from an import preview after the existing ones
+  app.post('/api/series/:id/import', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: seriesId } = req.params;
+
+      const series = await storage.getSeriesById(seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = importChaptersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid chapters", errors: parsed.error.errors });
+      }
+
+      const { chapters: imported, publish } = parsed.data;
+
+      const created = [];
+      for (const chapter of imported) {
+        const content = normalizeChapterHtml(chapter.content);
+        created.push(await storage.createChapter({
+          seriesId,
+          title: chapter.title,
+          content,
+          wordCount: countWords(content),
+          isPublished: publish,
+          publishedAt: publish ? new Date() : null,
+        }));
+      }
+
+      // Followers hear about the first new chapter, not every one imported
+      if (publish) {
+        await announceChapter(storage, created[0], (app as any).broadcastNotification);
+      }
+
+      res.json(created);
+    } catch (error) {
+      console.error("Error importing chapters:", error);
+      res.status(500).json({ message: "Failed to import chapters" });
+    }
+  });
+
+  // Reorder a story's chapters; chapterIds lists all of them in their new order
+  app.put('/api/series/:id/chapters/order', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: seriesId } = req.params;
+      const { chapterIds } = req.body;
+
+      const series = await storage.getSeriesById(seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!Array.isArray(chapterIds) || !chapterIds.every(id => typeof id === "string")) {
+        return res.status(400).json({ message: "chapterIds must be a list of chapter IDs" });
+      }
+
+      const chapters = await storage.reorderChapters(seriesId, chapterIds);
+      if (!chapters) {
+        return res.status(400).json({ message: "chapterIds must list every chapter of the story exactly once" });
+      }
+      res.json(chapters);
+    } catch (error) {
+      console.error("Error reordering chapters:", error);
+      res.status(500).json({ message: "Failed to reorder chapters" });
+    }
+  });
+
+  // Get chapter by ID
+  app.get('/api/chapters/:id', async (req: any, res) => {
+    try {
+      const { id: chapterId } = req.params;
+
+      // Basic UUID validation
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(chapterId)) {
+        return res.status(400).json({ message: "Invalid chapter ID format" });
+      }
+
+      const chapter = await storage.getChapterById(chapterId);
+
+      // Unreleased chapters don't exist for anyone but the author
+      if (!chapter || (!chapter.isPublished && !(await isSeriesAuthor(chapter.seriesId, req.session?.userId)))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      res.json(chapter);
+    } catch (error) {
+      console.error("Error fetching chapter:", error);
+      res.status(500).json({ message: "Failed to fetch chapter" });
+    }
+  });
+
+  // Update chapter
+  app.put('/api/chapters/:id', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: chapterId } = req.params;
+      // Chapters change places only through the reorder endpoint
+      const { title, content } = req.body;
+
+      // Get chapter and verify ownership through series
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      const series = await storage.getSeriesById(chapter.seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updatedChapter = await storage.editChapter(chapterId, userId, {
+        title,
+        content,
+        wordCount: content.split(/\s+/).length
+      });
+
+      res.json(updatedChapter);
+    } catch (error) {
+      console.error("Error updating chapter:", error);
+      res.status(500).json({ message: "Failed to update chapter" });
+    }
+  });
+
+  // Release a draft or scheduled chapter right away
+  app.post('/api/chapters/:id/publish', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const chapter = await storage.getChapterById(req.params.id);
+      if (!chapter || !(await isSeriesAuthor(chapter.seriesId, req.session.userId))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+      if (chapter.isPublished) {
+        return res.status(400).json({ message: "Chapter is already published" });
+      }
+
+      const published = await storage.publishChapter(chapter.id);
+      if (published) {
+        await announceChapter(storage, published, (app as any).broadcastNotification);
+      }
+      res.json(published ?? await storage.getChapterById(chapter.id));
+    } catch (error) {
+      console.error("Error publishing chapter:", error);
+      res.status(500).json({ message: "Failed to publish chapter" });
+    }
+  });
+
+  // Schedule a chapter's release, move it, or unschedule it with scheduledFor: null
+  app.put('/api/chapters/:id/schedule', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const chapter = await storage.getChapterById(req.params.id);
+      if (!chapter || !(await isSeriesAuthor(chapter.seriesId, req.session.userId))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+      if (chapter.isPublished) {
+        return res.status(400).json({ message: "Published chapters can't be scheduled" });
+      }
+
+      const { scheduledFor } = req.body;
+      if (scheduledFor === null) {
+        return res.json(await storage.updateChapter(chapter.id, { scheduledFor: null }));
+      }
+
+      const scheduledDate = new Date(scheduledFor);
+      if (isNaN(scheduledDate.getTime()) || scheduledDate <= new Date()) {
+        return res.status(400).json({ message: "Scheduled time must be in the future" });
+      }
+      res.json(await storage.updateChapter(chapter.id, { scheduledFor: scheduledDate }));
+    } catch (error) {
+      console.error("Error scheduling chapter:", error);
+      res.status(500).json({ message: "Failed to schedule chapter" });
+    }
+  });
+
+  // Version history of a chapter, for its author. Contents are left out of
+  // the list; fetch a revision to get its text.
+  app.get('/api/chapters/:id/revisions', requireAuth, async (req: any, res) => {
+    try {
+      const chapter = await storage.getChapterById(req.params.id);
+      if (!chapter || !(await isSeriesAuthor(chapter.seriesId, req.session.userId))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      const revisions = await storage.getChapterRevisions(chapter.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching chapter revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get('/api/chapters/:id/revisions/:revisionId', requireAuth, async (req: any, res) => {
+    try {
+      const chapter = await storage.getChapterById(req.params.id);
+      if (!chapter || !(await isSeriesAuthor(chapter.seriesId, req.session.userId))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      const revision = await storage.getChapterRevision(req.params.revisionId);
+      if (!revision || revision.chapterId !== chapter.id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching chapter revision:", error);
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Keep the editor's current text as an autosave or a named snapshot. The
+  // chapter itself is left alone until the author saves it.
+  app.post('/api/chapters/:id/revisions', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { kind, name, title, content } = req.body;
+
+      const chapter = await storage.getChapterById(req.params.id);
+      if (!chapter || !(await isSeriesAuthor(chapter.seriesId, userId))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      if (kind !== "autosave" && kind !== "snapshot") {
+        return res.status(400).json({ message: "Revision kind must be autosave or snapshot" });
+      }
+      if (typeof title !== "string" || typeof content !== "string") {
+        return res.status(400).json({ message: "Title and content are required" });
+      }
+      const snapshotName = typeof name === "string" ? name.trim() : "";
+      if (kind === "snapshot" && (!snapshotName || snapshotName.length > 100)) {
+        return res.status(400).json({ message: "Snapshots need a name of up to 100 characters" });
+      }
+
+      const revision = await storage.createChapterRevision({
+        chapterId: chapter.id,
+        editorId: userId,
+        kind,
+        name: kind === "snapshot" ? snapshotName : null,
+        title,
+        content,
+        wordCount: content.split(/\s+/).filter(word => word.length > 0).length,
+      });
+      // null when an autosave had nothing new to keep
+      res.json(revision ?? null);
+    } catch (error) {
+      console.error("Error saving chapter revision:", error);
+      res.status(500).json({ message: "Failed to save revision" });
+    }
+  });
+
+  // Delete chapter
+  app.delete('/api/chapters/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: chapterId } = req.params;
+
+      // Get chapter and verify ownership through series
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      const series = await storage.getSeriesById(chapter.seriesId);
+      if (!series || series.authorId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteChapter(chapterId);
+      res.json({ message: "Chapter deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting chapter:", error);
+      res.status(500).json({ message: "Failed to delete chapter" });
+    }
+  });
+
+  // Chapter comments. ?paragraph=N returns the annotations on paragraph N;
+  // without it, the chapter-level discussion.
+  app.get('/api/chapters/:id/comments', async (req: any, res) => {
+    try {
+      const { id: chapterId } = req.params;
+      const paragraph = req.query.paragraph !== undefined ? parseInt(req.query.paragraph as string) : undefined;
+
+      if (paragraph !== undefined && (isNaN(paragraph) || paragraph < 0)) {
+        return res.status(400).json({ message: "Invalid paragraph index" });
+      }
+
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter || (!chapter.isPublished && !(await isSeriesAuthor(chapter.seriesId, req.session?.userId)))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      const comments = await storage.getChapterComments(chapterId, req.session?.userId, paragraph);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching chapter comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.get('/api/chapters/:id/comments/counts', async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const series = await storage.getSeriesById(id);
-
-      if (!series) {
-        return res.status(404).json({ message: "Series not found" });
+      const { id: chapterId } = req.params;
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter || (!chapter.isPublished && !(await isSeriesAuthor(chapter.seriesId, req.session?.userId)))) {
+        return res.status(404).json({ message: "Chapter not found" });
       }
 
-      res.json(series);
+      const counts = await storage.getChapterParagraphCommentCounts(chapterId);
+      res.json(counts);
     } catch (error) {
-      console.error("Error fetching series:", error);
-      res.status(500).json({ message: "Failed to fetch series" });
+      console.error("Error fetching paragraph comment counts:", error);
+      res.status(500).json({ message: "Failed to fetch comment counts" });
     }
   });
 
-  app.post('/api/series/:id/chapters', requireAuth, writeLimiter, async (req: any, res) => {
+  app.post('/api/chapters/:id/comments', requireAuth, writeLimiter, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const { id: seriesId } = req.params;
-      const { title, content, chapterNumber } = req.body;
-
-      // Verify user owns the series
-      const series = await storage.getSeriesById(seriesId);
-      if (!series || series.authorId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const { id: chapterId } = req.params;
+      const { content, parentId, paragraphIndex, anchorStart, anchorEnd, anchorText } = req.body;
 
-      const chapter = await storage.createChapter({
-        seriesId,
-        title,
+      const parsed = insertChapterCommentSchema.safeParse({
+        userId,
+        chapterId,
         content,
-        chapterNumber,
-        wordCount: content.split(/\s+/).length
+        parentId,
+        paragraphIndex,
+        anchorStart,
+        anchorEnd,
+        anchorText,
       });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid comment", errors: parsed.error.errors });
+      }
 
-      res.json(chapter);
+      if (anchorStart != null && anchorEnd != null && anchorEnd < anchorStart) {
+        return res.status(400).json({ message: "Invalid text range" });
+      }
+
+      // Unreleased chapters are open to comments from their author only
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter || (!chapter.isPublished && !(await isSeriesAuthor(chapter.seriesId, userId)))) {
+        return res.status(404).json({ message: "Chapter not found" });
+      }
+
+      let parent;
+      if (parentId) {
+        parent = await storage.getChapterComment(parentId);
+        if (!parent || parent.chapterId !== chapterId) {
+          return res.status(400).json({ message: "Parent comment not found on this chapter" });
+        }
+      }
+
+      const story = await storage.getSeriesById(chapter.seriesId);
+      if (await isBlockedFrom(userId, [story?.authorId, parent?.userId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
+      const comment = await storage.createChapterComment(parsed.data);
+      const notificationData = {
+        seriesId: chapter.seriesId,
+        chapterId,
+        chapterTitle: chapter.title,
+        commentId: comment.id,
+      };
+
+      if (story && story.authorId !== userId) {
+        const notification = await storage.createNotification({
+          userId: story.authorId,
+          type: 'chapter_comment',
+          actorId: userId,
+          postId: null,
+          isRead: false,
+          data: notificationData
+        });
+
+        if ((app as any).broadcastNotification) {
+          (app as any).broadcastNotification(story.authorId, notification);
+        }
+      }
+
+      if (parent && parent.userId !== userId && parent.userId !== story?.authorId) {
+        const notification = await storage.createNotification({
+          userId: parent.userId,
+          type: 'comment_reply',
+          actorId: userId,
+          postId: null,
+          isRead: false,
+          data: notificationData
+        });
+
+        if ((app as any).broadcastNotification) {
+          (app as any).broadcastNotification(parent.userId, notification);
+        }
+      }
+
+      res.json(comment);
     } catch (error) {
-      console.error("Error creating chapter:", error);
-      res.status(500).json({ message: "Failed to create chapter" });
+      console.error("Error creating chapter comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
     }
   });
 
-  // Get chapter by ID
-  app.get('/api/chapters/:id', async (req, res) => {
+  app.put('/api/chapters/:id/comments/:commentId', requireAuth, writeLimiter, async (req: any, res) => {
     try {
-      const { id: chapterId } = req.params;
+      const userId = req.session.userId;
+      const { id: chapterId, commentId } = req.params;
+      const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
 
-      // Basic UUID validation
-      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-      if (!uuidRegex.test(chapterId)) {
-        return res.status(400).json({ message: "Invalid chapter ID format" });
+      if (!content || content.length > 1000) {
+        return res.status(400).json({ message: "Comment must be between 1 and 1000 characters" });
       }
 
-      const chapter = await storage.getChapterById(chapterId);
-
-      if (!chapter) {
-        return res.status(404).json({ message: "Chapter not found" });
+      const comment = await storage.getChapterComment(commentId);
+      if (!comment || comment.chapterId !== chapterId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== userId) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
       }
 
-      res.json(chapter);
+      const updated = await storage.updateChapterComment(commentId, content);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching chapter:", error);
-      res.status(500).json({ message: "Failed to fetch chapter" });
+      console.error("Error updating chapter comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
     }
   });
 
-  // Update chapter
-  app.put('/api/chapters/:id', requireAuth, writeLimiter, async (req: any, res) => {
+  app.delete('/api/chapters/:id/comments/:commentId', requireAuth, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const { id: chapterId } = req.params;
-      const { title, content, chapterNumber } = req.body;
+      const { id: chapterId, commentId } = req.params;
 
-      // Get chapter and verify ownership through series
-      const chapter = await storage.getChapterById(chapterId);
-      if (!chapter) {
-        return res.status(404).json({ message: "Chapter not found" });
+      const comment = await storage.getChapterComment(commentId);
+      if (!comment || comment.chapterId !== chapterId) {
+        return res.status(404).json({ message: "Comment not found" });
       }
 
-      const series = await storage.getSeriesById(chapter.seriesId);
-      if (!series || series.authorId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      // Comment authors, the story's author and admins can remove comments
+      if (comment.userId !== userId) {
+        const chapter = await storage.getChapterById(chapterId);
+        const story = chapter ? await storage.getSeriesById(chapter.seriesId) : null;
+        const user = await storage.getUser(userId);
+        if (story?.authorId !== userId && !user?.isAdmin && !user?.isSuperAdmin) {
+          return res.status(403).json({ message: "Access denied" });
+        }
       }
 
-      const updatedChapter = await storage.updateChapter(chapterId, {
-        title,
-        content,
-        chapterNumber,
-        wordCount: content.split(/\s+/).length
-      });
-
-      res.json(updatedChapter);
+      await storage.deleteChapterComment(commentId);
+      res.json({ message: "Comment deleted successfully" });
     } catch (error) {
-      console.error("Error updating chapter:", error);
-      res.status(500).json({ message: "Failed to update chapter" });
+      console.error("Error deleting chapter comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
     }
   });
 
-  // Delete chapter
-  app.delete('/api/chapters/:id', requireAuth, async (req: any, res) => {
+  app.post('/api/chapters/:id/comments/:commentId/like', requireAuth, writeLimiter, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const { id: chapterId } = req.params;
+      const { id: chapterId, commentId } = req.params;
+
+      const comment = await storage.getChapterComment(commentId);
+      if (!comment || comment.chapterId !== chapterId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
 
-      // Get chapter and verify ownership through series
       const chapter = await storage.getChapterById(chapterId);
-      if (!chapter) {
+      if (!chapter || (!chapter.isPublished && !(await isSeriesAuthor(chapter.seriesId, userId)))) {
         return res.status(404).json({ message: "Chapter not found" });
       }
 
-      const series = await storage.getSeriesById(chapter.seriesId);
-      if (!series || series.authorId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const story = await storage.getSeriesById(chapter.seriesId);
+      if (await isBlockedFrom(userId, [story?.authorId, comment.userId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
       }
 
-      await storage.deleteChapter(chapterId);
-      res.json({ message: "Chapter deleted successfully" });
+      const hasLiked = await storage.hasUserLikedChapterComment(userId, commentId);
+
+      if (hasLiked) {
+        await storage.unlikeChapterComment(userId, commentId);
+        res.json({ liked: false, message: "Comment unliked" });
+      } else {
+        await storage.likeChapterComment(userId, commentId);
+        res.json({ liked: true, message: "Comment liked" });
+      }
     } catch (error) {
-      console.error("Error deleting chapter:", error);
-      res.status(500).json({ message: "Failed to delete chapter" });
+      console.error("Error toggling comment like:", error);
+      res.status(500).json({ message: "Failed to toggle comment like" });
     }
   });
 
@@ -2425,10 +3699,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/series/:id/chapters', async (req, res) => {
+  app.get('/api/series/:id/chapters', async (req: any, res) => {
     try {
       const { id: seriesId } = req.params;
-      const chapters = await storage.getSeriesChapters(seriesId);
+      const chapters = await storage.getSeriesChapters(seriesId, await isSeriesAuthor(seriesId, req.session?.userId));
       res.json(chapters);
     } catch (error) {
       console.error("Error fetching chapters:", error);
@@ -2476,27 +3750,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reading library (bookmarked and started stories, grouped into shelves)
+  app.get('/api/library', requireAuth, async (req: any, res) => {
+    try {
+      const library = await storage.getReadingLibrary(req.session.userId);
+      res.json(library);
+    } catch (error) {
+      console.error("Error fetching reading library:", error);
+      res.status(500).json({ message: "Failed to fetch reading library" });
+    }
+  });
+
+  // Reactions: one per user per story, or per chapter when chapterId is given.
+  // Sending the user's current reaction again removes it.
   app.post('/api/series/:id/react', requireAuth, writeLimiter, async (req: any, res) => {
     try {
       const userId = req.session.userId;
       const { id: seriesId } = req.params;
-      const { reaction } = req.body;
+      const { reaction, chapterId } = req.body;
+
+      if (!SERIES_REACTIONS.includes(reaction)) {
+        return res.status(400).json({ message: `Reaction must be one of: ${SERIES_REACTIONS.join(', ')}` });
+      }
+
+      if (chapterId) {
+        const chapter = await storage.getChapterById(chapterId);
+        if (!chapter || chapter.seriesId !== seriesId) {
+          return res.status(400).json({ message: "Chapter does not belong to this story" });
+        }
+      }
+
+      const existing = await storage.getSeriesReaction(userId, seriesId, chapterId);
+      let current: string | null = reaction;
+      if (existing?.reaction === reaction) {
+        await storage.removeSeriesReaction(userId, seriesId, chapterId);
+        current = null;
+      } else {
+        await storage.reactToSeries(userId, seriesId, reaction, chapterId);
+      }
 
-      await storage.reactToSeries(userId, seriesId, reaction);
-      res.json({ message: "Reaction added" });
+      const reactions = await storage.getSeriesReactionCounts(seriesId, chapterId);
+      res.json({ userReaction: current, reactions });
     } catch (error) {
       console.error("Error adding reaction:", error);
       res.status(500).json({ message: "Failed to add reaction" });
     }
   });
 
+  app.get('/api/series/:id/reactions', async (req: any, res) => {
+    try {
+      const userId = req.session?.userId;
+      const { id: seriesId } = req.params;
+      const chapterId = req.query.chapterId as string | undefined;
+
+      const [reactions, userReaction] = await Promise.all([
+        storage.getSeriesReactionCounts(seriesId, chapterId),
+        userId ? storage.getSeriesReaction(userId, seriesId, chapterId) : undefined,
+      ]);
+      res.json({ reactions, userReaction: userReaction?.reaction ?? null });
+    } catch (error) {
+      console.error("Error fetching reactions:", error);
+      res.status(500).json({ message: "Failed to fetch reactions" });
+    }
+  });
+
+  // Series comments - threaded via parentId, same as post comments
   app.post('/api/series/:id/comments', requireAuth, writeLimiter, async (req: any, res) => {
     try {
       const userId = req.session.userId;
       const { id: seriesId } = req.params;
-      const { content } = req.body;
+      const { content, parentId } = req.body;
+
+      const parsed = insertSeriesCommentSchema.safeParse({ userId, seriesId, content, parentId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Comment must be between 1 and 1000 characters" });
+      }
+
+      const story = await storage.getSeriesById(seriesId);
+      if (!story) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      let parent;
+      if (parentId) {
+        parent = await storage.getSeriesComment(parentId);
+        if (!parent || parent.seriesId !== seriesId) {
+          return res.status(400).json({ message: "Parent comment not found on this story" });
+        }
+      }
+
+      if (await isBlockedFrom(userId, [story.authorId, parent?.userId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
+      const comment = await storage.createSeriesComment(parsed.data);
+      const notificationData = { seriesId, seriesTitle: story.title, commentId: comment.id };
+
+      if (story.authorId !== userId) {
+        const notification = await storage.createNotification({
+          userId: story.authorId,
+          type: 'series_comment',
+          actorId: userId,
+          postId: null,
+          isRead: false,
+          data: notificationData
+        });
+
+        if ((app as any).broadcastNotification) {
+          (app as any).broadcastNotification(story.authorId, notification);
+        }
+      }
+
+      // Let the parent comment's author know about the reply
+      if (parent && parent.userId !== userId && parent.userId !== story.authorId) {
+        const notification = await storage.createNotification({
+          userId: parent.userId,
+          type: 'comment_reply',
+          actorId: userId,
+          postId: null,
+          isRead: false,
+          data: notificationData
+        });
+
+        if ((app as any).broadcastNotification) {
+          (app as any).broadcastNotification(parent.userId, notification);
+        }
+      }
 
-      const comment = await storage.createSeriesComment(userId, seriesId, content);
       res.json(comment);
     } catch (error) {
       console.error("Error creating comment:", error);
@@ -2507,7 +3887,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/series/:id/comments', async (req, res) => {
     try {
       const { id: seriesId } = req.params;
-      const comments = await storage.getSeriesComments(seriesId);
+      const comments = await storage.getSeriesComments(seriesId, req.session?.userId);
       res.json(comments);
     } catch (error) {
       console.error("Error fetching comments:", error);
@@ -2515,13 +3895,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/series/:id/comments/:commentId/like', requireAuth, writeLimiter, async (req: any, res) => {
+    try {
+      const userId = req.session.userId;
+      const { id: seriesId, commentId } = req.params;
+
+      const comment = await storage.getSeriesComment(commentId);
+      if (!comment || comment.seriesId !== seriesId) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const story = await storage.getSeriesById(seriesId);
+      if (await isBlockedFrom(userId, [story?.authorId, comment.userId])) {
+        return res.status(403).json({ message: BLOCKED_MESSAGE });
+      }
+
+      const hasLiked = await storage.hasUserLikedSeriesComment(userId, commentId);
+
+      if (hasLiked) {
+        await storage.unlikeSeriesComment(userId, commentId);
+        res.json({ liked: false, message: "Comment unliked" });
+      } else {
+        await storage.likeSeriesComment(userId, commentId);
+        res.json({ liked: true, message: "Comment liked" });
+      }
+    } catch (error) {
+      console.error("Error toggling comment like:", error);
+      res.status(500).json({ message: "Failed to toggle comment like" });
+    }
+  });
+
   app.get('/api/series/:id/progress', requireAuth, async (req: any, res) => {
     try {
       const userId = req.session.userId;
       const { id: seriesId } = req.params;
 
       const progress = await storage.getReadingProgress(userId, seriesId);
-      res.json(progress);
+      res.json(progress ?? null);
     } catch (error) {
       console.error("Error fetching reading progress:", error);
       res.status(500).json({ message: "Failed to fetch reading progress" });
@@ -2532,10 +3942,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.session.userId;
       const { id: seriesId } = req.params;
-      const { chapterIndex } = req.body;
+      const { chapterId, scrollPercentage = 0, paragraphIndex = 0 } = req.body;
+
+      if (!chapterId || typeof scrollPercentage !== 'number' || typeof paragraphIndex !== 'number') {
+        return res.status(400).json({ message: "chapterId, scrollPercentage and paragraphIndex are required" });
+      }
+
+      const chapter = await storage.getChapterById(chapterId);
+      if (!chapter || chapter.seriesId !== seriesId) {
+        return res.status(400).json({ message: "Chapter does not belong to this story" });
+      }
 
-      await storage.updateReadingProgress(userId, seriesId, chapterIndex);
-      res.json({ message: "Progress updated" });
+      const progress = await storage.updateReadingProgress(userId, seriesId, {
+        chapterId,
+        scrollPercentage,
+        paragraphIndex,
+      });
+      res.json(progress);
     } catch (error) {
       console.error("Error updating reading progress:", error);
       res.status(500).json({ message: "Failed to update reading progress" });
@@ -2543,10 +3966,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Leaderboard routes (public access)
+  app.get('/api/leaderboard', async (req, res) => {
+    try {
+      const { category = "likes_received", period = "weekly", limit = 20 } = req.query;
+
+      if (!LEADERBOARD_CATEGORIES.includes(category as LeaderboardCategory)) {
+        return res.status(400).json({ message: "Invalid leaderboard category" });
+      }
+      if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+        return res.status(400).json({ message: "Invalid leaderboard period" });
+      }
+
+      const leaderboard = await storage.getLeaderboard(
+        category as LeaderboardCategory,
+        period as LeaderboardPeriod,
+        Math.min(parseInt(limit as string) || 20, 100)
+      );
+      res.json(leaderboard);
+    } catch (error: any) {
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch leaderboard" });
+    }
+  });
+
   app.get('/api/leaderboard/posts', async (req, res) => {
     try {
       const { limit = 20 } = req.query;
-      const topPosts = await storage.getTopPostsByLikes(parseInt(limit as string));
+      const topPosts = await storage.getTopPostsByLikes(parseInt(limit as string), req.session?.userId);
       res.json(topPosts);
     } catch (error: any) {
       console.error("Error fetching top posts:", error);
@@ -2557,7 +4003,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/leaderboard/stories', async (req, res) => {
     try {
       const { limit = 20 } = req.query;
-      const topStories = await storage.getTopStoriesByLikes(parseInt(limit as string));
+      const topStories = await storage.getTopStoriesByLikes(parseInt(limit as string), req.session?.userId);
       res.json(topStories);
     } catch (error: any) {
       console.error("Error fetching top stories:", error);
@@ -2613,7 +4059,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/explore/popular', async (req, res) => {
     try {
-      const popularPosts = await storage.getPopularPosts();
+      const popularPosts = await storage.getPopularPosts(req.session?.userId);
       res.json(popularPosts);
     } catch (error: any) {
       console.error("Error fetching popular posts:", error);
@@ -2654,7 +4100,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/posts/popular', requireAuth, async (req: any, res) => {
     try {
-      const popularPosts = await storage.getPopularPosts();
+      const popularPosts = await storage.getPopularPosts(req.session?.userId);
       res.json(popularPosts);
     } catch (error: any) {
       console.error("Error fetching popular posts:", error);
@@ -2665,15 +4111,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/search', requireAuth, async (req: any, res) => {
+  // Unified full-text search over posts, stories, published chapters and
+  // writers. Filters that only apply to some types drop the others: category
+  // keeps posts, genre keeps stories and chapters, author drops writers.
+  app.get('/api/search', async (req: any, res) => {
     try {
-      const { q: query } = req.query;
+      const { q: query, type = "all", category, genre, author, from, to, sort = "relevance", limit = 20, offset = 0 } = req.query;
 
-      if (!query || typeof query !== 'string') {
+      if (!query || typeof query !== 'string' || !query.trim()) {
         return res.status(400).json({ message: "Search query is required" });
       }
+      if (type !== "all" && !SEARCH_TYPES.includes(type as SearchResultType)) {
+        return res.status(400).json({ message: "Invalid search type" });
+      }
+      if (sort !== "relevance" && sort !== "recent") {
+        return res.status(400).json({ message: "Invalid sort order" });
+      }
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
 
-      const results = await storage.searchContent(query.trim());
+      const results = await storage.search(query.trim(), {
+        types: type === "all" ? [...SEARCH_TYPES] : [type as SearchResultType],
+        category: (category as string) || undefined,
+        genre: (genre as string) || undefined,
+        author: (author as string)?.replace(/^@/, '') || undefined,
+        from: fromDate,
+        to: toDate,
+        sort,
+        limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), 50),
+        offset: Math.max(parseInt(offset as string) || 0, 0),
+        viewerId: req.session?.userId,
+      });
       res.json(results);
     } catch (error: any) {
       console.error("Error performing search:", error);
@@ -2704,23 +4176,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Settings are stored in user_settings; a row with defaults is created on first read
+  const serializeSettings = (settings: UserSettings) => ({
+    privacy: {
+      profileVisibility: settings.profileVisibility,
+      showEmail: settings.showEmail,
+      showFollowers: settings.showFollowers,
+      showFollowing: settings.showFollowing,
+      allowMessages: settings.allowMessages,
+      allowCollaborations: settings.allowCollaborations,
+    },
+    notifications: {
+      pushNotifications: settings.pushNotifications,
+      commentNotifications: settings.commentNotifications,
+      followNotifications: settings.followNotifications,
+      collaborationNotifications: settings.collaborationNotifications,
+    },
+    theme: {
+      colorScheme: settings.colorScheme,
+      fontSize: settings.fontSize,
+      compactMode: settings.compactMode,
+    },
+  });
+
+  app.get('/api/user/settings', requireAuth, async (req: any, res) => {
+    try {
+      const settings = await storage.getUserSettings(req.session.userId);
+      res.json(serializeSettings(settings));
+    } catch (error: any) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  // Accounts the user has blocked or muted, newest first
+  app.get('/api/user/blocks', requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getBlockedUsers(req.session.userId));
+    } catch (error) {
+      console.error("Error fetching blocked users:", error);
+      res.status(500).json({ message: "Failed to fetch blocked users" });
+    }
+  });
+
+  app.get('/api/user/mutes', requireAuth, async (req: any, res) => {
+    try {
+      res.json(await storage.getMutedUsers(req.session.userId));
+    } catch (error) {
+      console.error("Error fetching muted users:", error);
+      res.status(500).json({ message: "Failed to fetch muted users" });
+    }
+  });
+
   app.put('/api/user/privacy', requireAuth, async (req: any, res) => {
     try {
       const userId = req.session.userId;
       const { profileVisibility, showEmail, showFollowers, showFollowing, allowMessages, allowCollaborations } = req.body;
 
-      // Store privacy settings in session for now (would be database in production)
-      if (!req.session) req.session = {};
-      req.session.privacySettings = {
+      const parsed = updateUserSettingsSchema.safeParse({
         profileVisibility,
         showEmail,
         showFollowers,
         showFollowing,
         allowMessages,
         allowCollaborations,
-      };
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid privacy settings", errors: parsed.error.errors });
+      }
 
-      res.json({ success: true, message: "Privacy settings updated" });
+      const settings = await storage.updateUserSettings(userId, parsed.data);
+      res.json({ success: true, message: "Privacy settings updated", settings: serializeSettings(settings) });
     } catch (error: any) {
       console.error("Error updating privacy settings:", error);
       res.status(500).json({ message: "Failed to update privacy settings" });
@@ -2730,20 +4256,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/user/notifications', requireAuth, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const { emailNotifications, pushNotifications, commentNotifications, followNotifications, collaborationNotifications, weeklyDigest } = req.body;
+      const { pushNotifications, commentNotifications, followNotifications, collaborationNotifications } = req.body;
 
-      // Store notification settings in session for now (would be database in production)
-      if (!req.session) req.session = {};
-      req.session.notificationSettings = {
-        emailNotifications,
+      const parsed = updateUserSettingsSchema.safeParse({
         pushNotifications,
         commentNotifications,
         followNotifications,
         collaborationNotifications,
-        weeklyDigest,
-      };
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid notification settings", errors: parsed.error.errors });
+      }
 
-      res.json({ success: true, message: "Notification settings updated" });
+      const settings = await storage.updateUserSettings(userId, parsed.data);
+      res.json({ success: true, message: "Notification settings updated", settings: serializeSettings(settings) });
     } catch (error: any) {
       console.error("Error updating notification settings:", error);
       res.status(500).json({ message: "Failed to update notification settings" });
@@ -2755,15 +4281,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId;
       const { colorScheme, fontSize, compactMode } = req.body;
 
-      // Store theme settings in session for now (would be database in production)
-      if (!req.session) req.session = {};
-      req.session.themeSettings = {
-        colorScheme,
-        fontSize,
-        compactMode,
-      };
+      const parsed = updateUserSettingsSchema.safeParse({ colorScheme, fontSize, compactMode });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid theme settings", errors: parsed.error.errors });
+      }
 
-      res.json({ success: true, message: "Theme settings updated" });
+      const settings = await storage.updateUserSettings(userId, parsed.data);
+      res.json({ success: true, message: "Theme settings updated", settings: serializeSettings(settings) });
     } catch (error: any) {
       console.error("Error updating theme settings:", error);
       res.status(500).json({ message: "Failed to update theme settings" });
@@ -2796,8 +4320,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const adminId = req.session.userId;
       const userId = req.params.id;
-      const { isAdmin, isVerified } = req.body;
+      const { isAdmin, isVerified, twoFactorRequired } = req.body;
 
+      if (typeof twoFactorRequired === 'boolean') {
+        const target = await storage.getUser(userId);
+        const willBeAdmin = typeof isAdmin === 'boolean' ? isAdmin : target?.isAdmin;
+        if (twoFactorRequired && !willBeAdmin && !target?.isSuperAdmin) {
+          return res.status(400).json({ message: "Two-factor authentication can only be required for admins" });
+        }
+        await storage.updateUserTwoFactorRequirement(userId, twoFactorRequired);
+      }
       if (typeof isAdmin === 'boolean') {
         await storage.updateUserAdminStatus(userId, isAdmin);
       }
@@ -2809,6 +4341,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedUser);
     } catch (error: any) {
       console.error("Error updating user:", error);
+      if (error.status === 400) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update user" });
     }
   });
@@ -2846,12 +4381,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const admins = await db.select().from(usersTable).where(or(eq(usersTable.isAdmin, true), eq(usersTable.isSuperAdmin, true)));
 
       for (const admin of admins) {
-        await db.insert(notifications).values({
+        const notification = await storage.createNotification({
           userId: admin.id,
           type: 'report',
           actorId: reportedById,
+          postId: null,
+          isRead: false,
           data: JSON.stringify({ targetType, targetId, reason }),
         });
+
+        if (notification && (app as any).broadcastNotification) {
+          (app as any).broadcastNotification(admin.id, notification);
+        }
       }
 
       res.status(201).json({ success: true, reportId: report[0]?.id });
@@ -2913,10 +4454,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
             if (admins && admins.length > 0) {
               for (const admin of admins) {
-                await db.insert(notifications).values({
+                const notification = await storage.createNotification({
                   userId: admin.id,
                   type: 'feedback',
                   actorId: userId,
+                  postId: null,
+                  isRead: false,
                   data: JSON.stringify({
                     category,
                     subject,
@@ -2924,6 +4467,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     contactEmail,
                   }),
                 });
+
+                if (notification && (app as any).broadcastNotification) {
+                  (app as any).broadcastNotification(admin.id, notification);
+                }
               }
             }
           } catch (notificationError) {
@@ -2946,8 +4493,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create HTTP server
-  const httpServer = createServer(app);
+  // Publish scheduled posts when they're due
+  startPublishingJob(storage, realtime.broadcastNotification);
 
   return httpServer;
 }
\ No newline at end of file
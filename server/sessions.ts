@@ -0,0 +1,91 @@
+import type { Request, RequestHandler } from "express";
+import crypto from "crypto";
+import type { ActiveSession } from "@shared/schema";
+
+// How often a session's last-seen time is written back. Touching it on every
+// request would mean a database write per request.
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Details kept in the session itself so the settings page can list where an
+// account is signed in
+export interface SessionActivity {
+  createdAt?: number;
+  lastSeenAt?: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+function recordActivity(req: Request, now: number) {
+  const session = req.session as typeof req.session & SessionActivity;
+  session.lastSeenAt = now;
+  session.ip = req.ip;
+  session.userAgent = req.get("user-agent") || "";
+}
+
+// Sign a user in on this request's session
+export function startUserSession(req: Request, userId: string) {
+  const now = Date.now();
+  const session = req.session as typeof req.session & SessionActivity;
+  session.userId = userId;
+  session.createdAt = now;
+  recordActivity(req, now);
+}
+
+export const trackSessionActivity: RequestHandler = (req, _res, next) => {
+  const session = req.session as (typeof req.session & SessionActivity) | undefined;
+  if (session?.userId) {
+    const now = Date.now();
+    if (
+      !session.lastSeenAt ||
+      now - session.lastSeenAt > LAST_SEEN_INTERVAL_MS ||
+      session.ip !== req.ip ||
+      session.userAgent !== (req.get("user-agent") || "")
+    ) {
+      session.createdAt ??= now;
+      recordActivity(req, now);
+    }
+  }
+  next();
+};
+
+export function publicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// A short, human readable name for the device behind a user agent string
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || "Unknown device";
+}
+
+export function toActiveSession(sid: string, sess: SessionActivity, currentSid: string): ActiveSession {
+  return {
+    id: publicSessionId(sid),
+    device: describeDevice(sess.userAgent),
+    ip: sess.ip ?? null,
+    createdAt: sess.createdAt ? new Date(sess.createdAt).toISOString() : null,
+    lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt).toISOString() : null,
+    current: sid === currentSid,
+  };
+}
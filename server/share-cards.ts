@@ -0,0 +1,317 @@
+import path from "path";
+import fs from "fs/promises";
+import sharp from "sharp";
+import type { Request } from "express";
+import { DomUtils, parseDOM } from "htmlparser2";
+import type { DatabaseStorage } from "./storage";
+import { appUrl, escapeHtml } from "./html";
+
+// Link previews for shared pages. Crawlers don't run the SPA, so the HTML
+// fallback gets Open Graph and Twitter card tags for the page's post, story,
+// chapter or profile, pointing at a card image rendered here with sharp.
+// Only content an anonymous visitor may see gets a card, so nothing by
+// authors whose profiles are private or followers-only.
+
+export const SHARE_CARD_KINDS = ["post", "series", "chapter", "profile"] as const;
+export type ShareCardKind = typeof SHARE_CARD_KINDS[number];
+
+export interface ShareCard {
+  kind: ShareCardKind;
+  id: string; // the username for profiles
+  path: string;
+  title: string;
+  label: string; // small heading above the title on the image
+  description: string;
+  author: { displayName: string; username: string } | null;
+  imageUrl: string | null; // cover or avatar drawn on the image
+  ogType: "article" | "book" | "profile";
+  updatedAt: Date | null;
+}
+
+const SITE_NAME = "Writers Guild";
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const DESCRIPTION_LENGTH = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+
+// SPA routes that get a card, and which content their first parameter names
+const SHARE_ROUTES: [RegExp, ShareCardKind][] = [
+  [/^\/post\/([^/]+)\/?$/, "post"],
+  [/^\/story\/[^/]+\/chapter\/([^/]+)\/?$/, "chapter"],
+  [/^\/story\/([^/]+)\/?$/, "series"],
+  [/^\/chapter\/([^/]+)\/?$/, "chapter"],
+  [/^\/profile\/([^/]+)\/?$/, "profile"],
+];
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+// Rich text content as a one-paragraph excerpt
+function excerptOf(html: string | null | undefined): string {
+  const text = DomUtils.textContent(parseDOM(html || "")).replace(/\s+/g, " ").trim();
+  return truncate(text, DESCRIPTION_LENGTH);
+}
+
+export async function getShareCard(storage: DatabaseStorage, kind: ShareCardKind, id: string): Promise<ShareCard | null> {
+  if (kind !== "profile" && !UUID_PATTERN.test(id)) return null;
+
+  switch (kind) {
+    case "post": {
+      const post = await storage.getPost(id);
+      if (!post || post.status !== "published" || post.isPrivate) return null;
+      if (!(await storage.canViewProfile(post.authorId))) return null;
+      const author = await storage.getUser(post.authorId);
+      return {
+        kind,
+        id,
+        path: `/post/${id}`,
+        title: post.title || (author ? `A post by ${author.displayName}` : "A post"),
+        label: (post.category || "Post").toUpperCase(),
+        description: post.excerpt ? truncate(post.excerpt, DESCRIPTION_LENGTH) : excerptOf(post.content),
+        author: author ? { displayName: author.displayName, username: author.username } : null,
+        imageUrl: post.coverImageUrl || post.imageUrls?.[0] || null,
+        ogType: "article",
+        updatedAt: post.updatedAt,
+      };
+    }
+    case "series": {
+      const story = await storage.getSeriesById(id);
+      if (!story || story.isPrivate || !(await storage.canViewProfile(story.authorId))) return null;
+      return {
+        kind,
+        id,
+        path: `/story/${id}`,
+        title: story.title,
+        label: [story.genre || "Story", `${story.chaptersCount || 0} chapters`].join(" · ").toUpperCase(),
+        description: truncate(story.description || "", DESCRIPTION_LENGTH),
+        author: story.author,
+        imageUrl: story.coverImageUrl,
+        ogType: "book",
+        updatedAt: story.updatedAt,
+      };
+    }
+    case "chapter": {
+      const chapter = await storage.getChapterById(id);
+      if (!chapter || !chapter.isPublished) return null;
+      const story = await storage.getSeriesById(chapter.seriesId);
+      if (!story || story.isPrivate || !(await storage.canViewProfile(story.authorId))) return null;
+      return {
+        kind,
+        id,
+        path: `/chapter/${id}`,
+        title: chapter.title,
+        label: truncate(`Chapter ${chapter.chapterNumber} · ${story.title}`, 60).toUpperCase(),
+        description: excerptOf(chapter.content),
+        author: story.author,
+        imageUrl: story.coverImageUrl,
+        ogType: "article",
+        updatedAt: chapter.updatedAt,
+      };
+    }
+    case "profile": {
+      const user = await storage.getUserByUsername(id);
+      if (!user || !(await storage.canViewProfile(user.id))) return null;
+      return {
+        kind,
+        id: user.username,
+        path: `/profile/${user.username}`,
+        title: user.displayName,
+        label: "WRITER",
+        description: truncate(user.bio || `Read ${user.displayName}'s writing on ${SITE_NAME}.`, DESCRIPTION_LENGTH),
+        author: { displayName: user.displayName, username: user.username },
+        imageUrl: user.profileImageUrl,
+        ogType: "profile",
+        updatedAt: user.updatedAt,
+      };
+    }
+  }
+}
+
+function shareMetaTags(card: ShareCard, origin: string): string {
+  const url = `${origin}${card.path}`;
+  const image = `${origin}/api/share-image/${card.kind}/${encodeURIComponent(card.id)}.png`;
+  const title = card.kind === "profile" ? `${card.title} (@${card.id})` : card.title;
+  const tags: [string, string, string][] = [
+    ["name", "description", card.description],
+    ["property", "og:site_name", SITE_NAME],
+    ["property", "og:type", card.ogType],
+    ["property", "og:title", title],
+    ["property", "og:description", card.description],
+    ["property", "og:url", url],
+    ["property", "og:image", image],
+    ["property", "og:image:width", String(CARD_WIDTH)],
+    ["property", "og:image:height", String(CARD_HEIGHT)],
+    ["property", "og:image:alt", title],
+    ["name", "twitter:card", "summary_large_image"],
+    ["name", "twitter:title", title],
+    ["name", "twitter:description", card.description],
+    ["name", "twitter:image", image],
+  ];
+  if (card.ogType === "profile") tags.push(["property", "profile:username", card.id]);
+  return [
+    `<title>${escapeHtml(`${title} | ${SITE_NAME}`)}</title>`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    ...tags.map(([attribute, name, content]) => `<meta ${attribute}="${name}" content="${escapeHtml(content)}" />`),
+  ].map(tag => `    ${tag}`).join("\n");
+}
+
+// Adds the share tags for the requested page to the SPA's index.html. Pages
+// without a card, and any lookup failure, get the HTML unchanged.
+export async function withShareMetadata(storage: DatabaseStorage, req: Request, html: string): Promise<string> {
+  // The fallbacks are mounted with app.use, which strips the path
+  const pathname = req.originalUrl.split("?")[0];
+  for (const [pattern, kind] of SHARE_ROUTES) {
+    const match = pattern.exec(pathname);
+    if (!match) continue;
+    try {
+      const card = await getShareCard(storage, kind, decodeURIComponent(match[1]));
+      if (!card) return html;
+      // A replacer function, so "$&" or "$'" in a title is inserted as typed
+      const tags = shareMetaTags(card, appUrl(req));
+      return html.replace("</head>", () => `${tags}\n  </head>`);
+    } catch (error) {
+      console.error("Error building share metadata:", error);
+      return html;
+    }
+  }
+  return html;
+}
+
+// --- Card image ---
+
+const FONT_FAMILY = "DejaVu Sans, Liberation Sans, Arial, sans-serif";
+const ACCENT = "#8b5cf6";
+const PADDING = 64;
+const PICTURE_WIDTH = 400; // cover column on the right
+const AVATAR_SIZE = 260;
+
+// SVG text doesn't wrap, so lines are broken by an estimated glyph width
+function wrapLines(text: string, maxWidth: number, fontSize: number, maxLines: number, bold = false): string[] {
+  const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * (bold ? 0.64 : 0.55))));
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = "";
+  while (words.length > 0) {
+    const word = words[0];
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      words.shift();
+    } else if (!line) {
+      // A single word longer than the line
+      line = `${word.slice(0, maxChars - 1)}…`;
+      words.shift();
+    } else {
+      lines.push(line);
+      line = "";
+      if (lines.length === maxLines) break;
+    }
+  }
+  if (line) lines.push(line);
+  if (words.length > 0) {
+    lines[lines.length - 1] = truncate(`${lines[lines.length - 1]}…`, maxChars);
+  }
+  return lines;
+}
+
+async function readUpload(src: string | null): Promise<Buffer | null> {
+  if (!src?.startsWith("/uploads/")) return null;
+  try {
+    return await fs.readFile(path.join(UPLOADS_DIR, path.basename(src)));
+  } catch {
+    return null;
+  }
+}
+
+async function pictureLayer(card: ShareCard): Promise<sharp.OverlayOptions | null> {
+  const source = await readUpload(card.imageUrl);
+  if (!source) return null;
+
+  try {
+    if (card.kind === "profile") {
+      const mask = Buffer.from(`<svg width="${AVATAR_SIZE}" height="${AVATAR_SIZE}"><circle cx="${AVATAR_SIZE / 2}" cy="${AVATAR_SIZE / 2}" r="${AVATAR_SIZE / 2}"/></svg>`);
+      const avatar = await sharp(source)
+        .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+        .composite([{ input: mask, blend: "dest-in" }])
+        .png()
+        .toBuffer();
+      return {
+        input: avatar,
+        left: CARD_WIDTH - PADDING - AVATAR_SIZE,
+        top: Math.round((CARD_HEIGHT - AVATAR_SIZE) / 2),
+      };
+    }
+
+    const cover = await sharp(source).resize(PICTURE_WIDTH, CARD_HEIGHT, { fit: "cover" }).png().toBuffer();
+    return { input: cover, left: CARD_WIDTH - PICTURE_WIDTH, top: 0 };
+  } catch (error) {
+    console.error(`Failed to draw share card picture ${card.imageUrl}:`, error);
+    return null;
+  }
+}
+
+function cardSvg(card: ShareCard, hasPicture: boolean): string {
+  const pictureWidth = !hasPicture ? 0 : card.kind === "profile" ? AVATAR_SIZE + PADDING : PICTURE_WIDTH;
+  const textWidth = CARD_WIDTH - PADDING * 2 - pictureWidth;
+  const titleLines = wrapLines(card.title, textWidth, 60, 3, true);
+  const descriptionLines = wrapLines(card.description, textWidth, 28, titleLines.length > 2 ? 2 : 3);
+
+  let y = PADDING + 40;
+  const text: string[] = [
+    `<text x="${PADDING}" y="${y}" font-size="24" font-weight="bold" fill="${ACCENT}" letter-spacing="2">${escapeHtml(card.label)}</text>`,
+  ];
+  y += 36;
+  for (const line of titleLines) {
+    y += 68;
+    text.push(`<text x="${PADDING}" y="${y}" font-size="60" font-weight="bold" fill="#f8fafc">${escapeHtml(line)}</text>`);
+  }
+  y += 24;
+  for (const line of descriptionLines) {
+    y += 40;
+    text.push(`<text x="${PADDING}" y="${y}" font-size="28" fill="#cbd5e1">${escapeHtml(line)}</text>`);
+  }
+
+  const byline = card.author && card.kind !== "profile"
+    ? `by ${card.author.displayName} (@${card.author.username})`
+    : card.kind === "profile" ? `@${card.id}` : "";
+  const footerY = CARD_HEIGHT - PADDING;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" font-family="${FONT_FAMILY}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="#0a0a0b"/>
+      <stop offset="100%" stop-color="#1e1b2e"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#background)"/>
+  <rect width="12" height="${CARD_HEIGHT}" fill="${ACCENT}"/>
+  ${text.join("\n  ")}
+  <text x="${PADDING}" y="${footerY}" font-size="28" fill="#e2e8f0">${escapeHtml(truncate(byline, 50))}</text>
+  <text x="${CARD_WIDTH - pictureWidth - PADDING}" y="${footerY}" font-size="28" font-weight="bold" fill="${ACCENT}" text-anchor="end">${SITE_NAME}</text>
+</svg>`;
+}
+
+// Rendered cards are kept until the content changes; the oldest entry goes
+// first once the cache is full
+const CARD_CACHE_SIZE = 200;
+const cardCache = new Map<string, Buffer>();
+
+export async function renderShareImage(card: ShareCard): Promise<Buffer> {
+  const key = `${card.kind}:${card.id}:${card.updatedAt?.getTime() ?? 0}:${card.imageUrl}`;
+  const cached = cardCache.get(key);
+  if (cached) return cached;
+
+  const picture = await pictureLayer(card);
+  const image = await sharp(Buffer.from(cardSvg(card, !!picture)))
+    .composite(picture ? [picture] : [])
+    .png()
+    .toBuffer();
+
+  if (cardCache.size >= CARD_CACHE_SIZE) {
+    cardCache.delete(cardCache.keys().next().value!);
+  }
+  cardCache.set(key, image);
+  return image;
+}
@@ -5,20 +5,42 @@ import {
   comments,
   commentLikes,
   follows,
+  userBlocks,
+  userMutes,
   reposts,
   bookmarks,
   notifications,
+  conversations,
+  conversationParticipants,
+  messages,
   writingGoals,
   series,
   chapters,
   seriesFollowers,
   seriesLikes,
+  seriesComments,
+  seriesCommentLikes,
+  chapterComments,
+  chapterCommentLikes,
+  seriesBookmarks,
+  seriesReactions,
+  SERIES_REACTIONS,
   readingProgress,
   postCollaborators,
   userDeactivations,
+  userSettings,
+  userTwoFactor,
+  sessions,
+  leaderboards,
+  searchDocuments,
+  hashtags,
+  postHashtags,
+  postRevisions,
+  chapterRevisions,
   type User,
   type UpsertUser,
   type InsertPost,
+  type PostStatus,
   type Post,
   type InsertComment,
   type Comment,
@@ -26,16 +48,101 @@ import {
   type InsertCommentLike,
   type Like,
   type Follow,
+  type RestrictedUser,
   type Repost,
   type Bookmark,
   type Notification,
+  type Conversation,
+  type ConversationSummary,
+  type Message,
+  type MessagePage,
   type WritingGoal,
   type UserDeactivation,
+  type UserSettings,
+  type UserTwoFactor,
+  type UpdateUserSettings,
+  type SeriesComment,
+  type InsertSeriesComment,
+  type Chapter,
+  type ChapterComment,
+  type InsertChapterComment,
+  type SeriesBookmark,
+  type LibraryEntry,
+  type SeriesReaction,
+  type SeriesReactionType,
+  type ReactionCounts,
+  type ReadingProgress,
+  type ReadingProgressUpdate,
+  type LeaderboardCategory,
+  type LeaderboardPeriod,
+  type LeaderboardSnapshot,
+  type SearchOptions,
+  type SearchPage,
+  type SearchResult,
+  type SearchResultType,
+  type TrendingHashtag,
+  type FeedAuthor,
+  type FeedItem,
+  type FeedItemReason,
+  type FeedPage,
+  type FeedPost,
+  type PostRevision,
+  type PostRevisionWithEditor,
+  type ChapterRevision,
+  type ChapterRevisionSummary,
 } from "@shared/schema";
+import { extractHashtags, normalizeHashtag } from "@shared/hashtags";
 import { db } from "./db";
-import { eq, desc, and, or, sql, count, exists, notExists, asc, ne, isNotNull, gte, ilike } from "drizzle-orm";
+import { encodeFeedCursor, type FeedCursor } from "./feed";
+import type { RankingCandidate, ViewerSignals } from "./recommendations";
+import type { TwoFactorCheck } from "./two-factor";
+import { eq, desc, and, or, sql, count, exists, notExists, asc, ne, isNotNull, isNull, gte, lt, lte, ilike, inArray, notInArray, type SQL } from "drizzle-orm";
 import crypto from 'crypto'; // Import crypto for UUID generation
 
+// Raw timestamp values come back from the driver as zone-less strings, so
+// feed cursors read them as UTC ISO strings instead
+const isoTimestamp = (value: SQL) => sql<string>`to_char(${value}, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+
+type NewPost = typeof posts.$inferInsert;
+type PostRow = typeof posts.$inferSelect;
+type NewChapterRevision = typeof chapterRevisions.$inferInsert;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Autosaves kept per chapter; older ones are pruned as new ones come in
+const CHAPTER_AUTOSAVE_LIMIT = 20;
+
+// Filters for posts anyone may see. Drafts and scheduled posts are left out
+// of every listing until they're published, even for their author.
+const isPublishedPost = () => eq(posts.status, "published");
+const isPublicPost = () => and(eq(posts.isPrivate, false), isPublishedPost());
+
+// Users whose posts, reposts and profiles are kept out of a viewer's feeds,
+// search results and suggestions: the ones they muted or blocked, and the
+// ones who blocked them
+const hiddenUserIds = (viewerId: string) => sql`(
+  SELECT ${userMutes.mutedId} FROM ${userMutes} WHERE ${userMutes.muterId} = ${viewerId}
+  UNION SELECT ${userBlocks.blockedId} FROM ${userBlocks} WHERE ${userBlocks.blockerId} = ${viewerId}
+  UNION SELECT ${userBlocks.blockerId} FROM ${userBlocks} WHERE ${userBlocks.blockedId} = ${viewerId}
+)`;
+const notHiddenFrom = (viewerId: string | undefined, column: any) =>
+  viewerId ? sql`${column} NOT IN ${hiddenUserIds(viewerId)}` : undefined;
+
+// Users whose profiles, and so whose posts and stories, the viewer can't see:
+// private ones, and followers-only ones they don't follow. The listing
+// counterpart of canViewProfile; users without a settings row are public.
+const restrictedProfileIds = (viewerId: string | undefined) => viewerId
+  ? sql`(
+      SELECT ${userSettings.userId} FROM ${userSettings}
+      WHERE ${userSettings.userId} <> ${viewerId}
+      AND (${userSettings.profileVisibility} = 'private' OR (
+        ${userSettings.profileVisibility} = 'followers'
+        AND ${userSettings.userId} NOT IN (SELECT ${follows.followingId} FROM ${follows} WHERE ${follows.followerId} = ${viewerId})
+      ))
+    )`
+  : sql`(SELECT ${userSettings.userId} FROM ${userSettings} WHERE ${userSettings.profileVisibility} <> 'public')`;
+const profileVisibleTo = (viewerId: string | undefined, column: any) =>
+  sql`${column} NOT IN ${restrictedProfileIds(viewerId)}`;
+
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
@@ -45,13 +152,41 @@ export interface IStorage {
   updateUserProfile(id: string, data: Partial<User>): Promise<User>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  markEmailVerified(userId: string): Promise<User>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<User>;
+
+  // Session operations
+  getUserSessions(userId: string): Promise<{ sid: string; sess: unknown }[]>;
+  deleteUserSessions(userId: string, sids?: string[]): Promise<string[]>;
+
+  // Two-factor operations
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  enableTwoFactor(userId: string, secret: string, recoveryCodes: string[], lastUsedStep: number): Promise<UserTwoFactor>;
+  updateUserTwoFactor(userId: string, data: Partial<Pick<UserTwoFactor, "recoveryCodes" | "lastUsedStep">>): Promise<void>;
+  useTwoFactorCode(userId: string, check: TwoFactorCheck): Promise<UserTwoFactor | undefined>;
+  disableTwoFactor(userId: string): Promise<void>;
+
+  // Settings operations
+  getUserSettings(userId: string): Promise<UserSettings>;
+  updateUserSettings(userId: string, data: UpdateUserSettings): Promise<UserSettings>;
+  canViewProfile(ownerId: string, viewerId?: string): Promise<boolean>;
 
   // Post operations
-  createPost(post: InsertPost): Promise<Post>;
+  createPost(post: NewPost): Promise<Post>;
+  getUserDrafts(userId: string): Promise<PostRow[]>;
+  getDueScheduledPostIds(now: Date): Promise<string[]>;
+  publishPost(postId: string, now?: Date): Promise<PostRow | undefined>;
+  getPendingCollaborations(postId: string): Promise<{ id: string; collaboratorId: string; invitedById: string }[]>;
   getPost(id: string): Promise<Post | undefined>;
   getPosts(limit?: number, offset?: number, userId?: string): Promise<Post[]>;
   getPostsByUser(userId: string, limit?: number, offset?: number): Promise<Post[]>;
+  getPublicFeed(limit: number, cursor?: FeedCursor, viewerId?: string): Promise<FeedPage>;
+  getFollowingFeed(userId: string, limit: number, cursor?: FeedCursor): Promise<FeedPage>;
+  getFeedPosts(postIds: string[], viewerId?: string): Promise<Map<string, FeedPost>>;
   updatePost(id: string, data: Partial<Post>): Promise<Post>;
+  editPost(id: string, editorId: string, data: Partial<Post>): Promise<Post>;
+  getPostRevisions(postId: string): Promise<PostRevisionWithEditor[]>;
+  getPostRevision(revisionId: string): Promise<PostRevision | undefined>;
   deletePost(id: string): Promise<void>;
 
   // Engagement operations
@@ -61,14 +196,15 @@ export interface IStorage {
 
   // Comment operations
   createComment(comment: InsertComment): Promise<Comment>;
+  getComment(commentId: string): Promise<Comment | undefined>;
   getCommentsByPost(postId: string, userId?: string): Promise<Comment[]>;
 
   // Follow operations
   followUser(followerId: string, followingId: string): Promise<Follow>;
   unfollowUser(followerId: string, followingId: string): Promise<void>;
   isFollowing(followerId: string, followingId: string): Promise<boolean>;
-  getFollowers(userId: string): Promise<User[]>;
-  getFollowing(userId: string): Promise<User[]>;
+  getFollowers(userId: string, viewerId?: string): Promise<User[]>;
+  getFollowing(userId: string, viewerId?: string): Promise<User[]>;
 
   // Repost operations
   repostPost(userId: string, postId: string, comment?: string): Promise<Repost>;
@@ -81,40 +217,100 @@ export interface IStorage {
   getUserBookmarks(userId: string): Promise<Post[]>;
 
   // Notification operations
-  createNotification(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification>;
+  createNotification(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification | undefined>;
   getUserNotifications(userId: string): Promise<Notification[]>;
   markNotificationAsRead(id: string): Promise<void>;
 
+  // Direct messages
+  getConversations(userId: string): Promise<ConversationSummary[]>;
+  getConversation(conversationId: string, userId: string): Promise<ConversationSummary | undefined>;
+  findDirectConversation(userId: string, otherUserId: string): Promise<string | undefined>;
+  createConversation(creatorId: string, participantIds: string[], title?: string): Promise<Conversation>;
+  getConversationParticipantIds(conversationId: string): Promise<string[]>;
+  getMessages(conversationId: string, limit: number, cursor?: FeedCursor): Promise<MessagePage>;
+  createMessage(conversationId: string, senderId: string, content: string): Promise<Message>;
+  markConversationRead(conversationId: string, userId: string): Promise<Date | null>;
+  getUnreadMessageCount(userId: string): Promise<number>;
+
   // Writing goals
   updateWritingGoal(userId: string, date: Date, wordCount: number, postsCount: number): Promise<WritingGoal>;
   getUserWritingGoals(userId: string, startDate: Date, endDate: Date): Promise<WritingGoal[]>;
   updateDailyWordCount(userId: string, wordCount: number): Promise<void>;
 
   // Search and discovery
-  searchUsers(query: string, limit?: number): Promise<User[]>;
-  searchUsers(query: string, currentUserId: string, limit?: number): Promise<User[]>;
-  searchPosts(query: string, limit?: number): Promise<Post[]>;
+  search(query: string, options: SearchOptions): Promise<SearchPage>;
   getTrendingPosts(limit?: number): Promise<Post[]>;
+  getTrendingTopics(limit?: number): Promise<TrendingHashtag[]>;
+  getPostsByHashtag(tag: string, limit?: number, offset?: number, userId?: string): Promise<any[]>;
+  getHashtagUsageCount(tag: string): Promise<number>;
   getSuggestedUsers(userId: string, limit?: number): Promise<User[]>;
   getSuggestedUsers(currentUserId: string, limit?: number): Promise<User[]>;
+  getUserSuggestions(userIds: string[]): Promise<any[]>;
+
+  // Recommendation inputs
+  getPostCandidates(before: Date, limit: number, viewerId?: string): Promise<RankingCandidate[]>;
+  getSeriesCandidates(limit: number, viewerId?: string): Promise<RankingCandidate[]>;
+  getViewerSignals(userId: string): Promise<ViewerSignals>;
 
   // Series management methods
   createSeries(seriesData: any): Promise<any>;
-  getPublicSeries(limit?: number, offset?: number, genre?: string): Promise<any[]>;
+  getPublicSeries(limit?: number, offset?: number, genre?: string, viewerId?: string): Promise<any[]>;
   getSeriesById(seriesId: string, userId?: string): Promise<any>;
   createChapter(chapterData: any): Promise<any>;
-  getSeriesChapters(seriesId: string): Promise<any[]>;
+  getSeriesChapters(seriesId: string, includeUnpublished?: boolean): Promise<any[]>;
+  getDueScheduledChapterIds(now: Date): Promise<string[]>;
+  publishChapter(chapterId: string, now?: Date): Promise<Chapter | undefined>;
+  getSeriesFollowerIds(seriesId: string): Promise<string[]>;
+  editChapter(chapterId: string, editorId: string, chapterData: any): Promise<any>;
+  createChapterRevision(revision: NewChapterRevision): Promise<ChapterRevision | undefined>;
+  getChapterRevisions(chapterId: string): Promise<ChapterRevisionSummary[]>;
+  getChapterRevision(revisionId: string): Promise<ChapterRevision | undefined>;
+  reorderChapters(seriesId: string, chapterIds: string[]): Promise<Chapter[] | undefined>;
   followSeries(userId: string, seriesId: string): Promise<any>;
   unfollowSeries(userId: string, seriesId: string): Promise<void>;
   isFollowingSeries(userId: string, seriesId: string): Promise<boolean>;
   getUserStories(userId: string): Promise<any[]>;
   deleteSeries(seriesId: string): Promise<void>;
-  updateReadingProgress(userId: string, seriesId: string, chapterIndex: number): Promise<void>;
+  updateReadingProgress(userId: string, seriesId: string, update: ReadingProgressUpdate): Promise<ReadingProgress>;
+  getReadingProgress(userId: string, seriesId: string): Promise<ReadingProgress | undefined>;
+
+  // Series comment methods
+  getSeriesComments(seriesId: string, userId?: string): Promise<SeriesComment[]>;
+  getSeriesComment(commentId: string): Promise<SeriesComment | undefined>;
+  createSeriesComment(comment: InsertSeriesComment): Promise<SeriesComment>;
+  likeSeriesComment(userId: string, commentId: string): Promise<void>;
+  unlikeSeriesComment(userId: string, commentId: string): Promise<void>;
+  hasUserLikedSeriesComment(userId: string, commentId: string): Promise<boolean>;
+
+  // Series bookmarks and reading library
+  isSeriesBookmarked(userId: string, seriesId: string): Promise<boolean>;
+  bookmarkSeries(userId: string, seriesId: string): Promise<SeriesBookmark>;
+  removeSeriesBookmark(userId: string, seriesId: string): Promise<void>;
+  getReadingLibrary(userId: string): Promise<LibraryEntry[]>;
+
+  // Series reactions
+  getSeriesReaction(userId: string, seriesId: string, chapterId?: string): Promise<SeriesReaction | undefined>;
+  reactToSeries(userId: string, seriesId: string, reaction: SeriesReactionType, chapterId?: string): Promise<SeriesReaction>;
+  removeSeriesReaction(userId: string, seriesId: string, chapterId?: string): Promise<void>;
+  getSeriesReactionCounts(seriesId: string, chapterId?: string): Promise<ReactionCounts>;
+
+  // Chapter comment methods
+  getChapterComments(chapterId: string, userId?: string, paragraphIndex?: number): Promise<ChapterComment[]>;
+  getChapterComment(commentId: string): Promise<ChapterComment | undefined>;
+  getChapterParagraphCommentCounts(chapterId: string): Promise<Record<number, number>>;
+  createChapterComment(comment: InsertChapterComment): Promise<ChapterComment>;
+  updateChapterComment(commentId: string, content: string): Promise<ChapterComment>;
+  deleteChapterComment(commentId: string): Promise<void>;
+  likeChapterComment(userId: string, commentId: string): Promise<void>;
+  unlikeChapterComment(userId: string, commentId: string): Promise<void>;
+  hasUserLikedChapterComment(userId: string, commentId: string): Promise<boolean>;
 
   // Leaderboard methods
-  getTopPostsByLikes(limit?: number): Promise<any[]>;
-  getTopStoriesByLikes(limit?: number): Promise<any[]>;
+  getTopPostsByLikes(limit?: number, viewerId?: string): Promise<any[]>;
+  getTopStoriesByLikes(limit?: number, viewerId?: string): Promise<any[]>;
   getTopAuthorsByStoryLikes(limit?: number): Promise<any[]>;
+  snapshotLeaderboard(category: LeaderboardCategory, period: LeaderboardPeriod, periodStart: Date, periodEnd: Date): Promise<number>;
+  getLeaderboard(category: LeaderboardCategory, period: LeaderboardPeriod, limit?: number): Promise<LeaderboardSnapshot>;
 
   // Series likes methods
   hasUserLikedSeries(userId: string, seriesId: string): Promise<boolean>;
@@ -127,6 +323,17 @@ export interface IStorage {
 
   // Collaborator methods
   getPostCollaborators(postId: string): Promise<User[]>;
+
+  // Blocking and muting
+  blockUser(blockerId: string, blockedId: string): Promise<void>;
+  unblockUser(blockerId: string, blockedId: string): Promise<void>;
+  isBlockedEitherWay(userId: string, otherUserId: string): Promise<boolean>;
+  getBlockedEitherWayIds(userId: string, otherUserIds: string[]): Promise<Set<string>>;
+  getBlockedUsers(userId: string): Promise<RestrictedUser[]>;
+  muteUser(muterId: string, mutedId: string): Promise<void>;
+  unmuteUser(muterId: string, mutedId: string): Promise<void>;
+  isMuted(muterId: string, mutedId: string): Promise<boolean>;
+  getMutedUsers(userId: string): Promise<RestrictedUser[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -271,6 +478,38 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Accounts that already reached the auto-verification thresholds get the
+  // badge as soon as their email is confirmed
+  async markEmailVerified(userId: string): Promise<User> {
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, userId));
+    await this.checkAutoVerification(userId);
+    return (await this.getUser(userId))!;
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ password: passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // The verified badge is granted by admins, or automatically to active
+  // writers, but only to accounts whose email has been confirmed
+  private async assertCanBeVerified(targetUserId: string): Promise<void> {
+    const [target] = await db
+      .select({ emailVerifiedAt: users.emailVerifiedAt })
+      .from(users)
+      .where(eq(users.id, targetUserId));
+    if (target && !target.emailVerifiedAt) {
+      throw Object.assign(new Error("This user needs to confirm their email before they can be verified"), { status: 400 });
+    }
+  }
+
   async deactivateUser(userId: string, deactivatedBy: string, reason?: string): Promise<UserDeactivation> {
     const [deactivation] = await db
       .insert(userDeactivations)
@@ -301,15 +540,229 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Two-factor operations
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return record;
+  }
+
+  async enableTwoFactor(userId: string, secret: string, recoveryCodes: string[], lastUsedStep: number): Promise<UserTwoFactor> {
+    const values = { secret, recoveryCodes, lastUsedStep, enabledAt: new Date() };
+    const [record] = await db
+      .insert(userTwoFactor)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: values })
+      .returning();
+    return record;
+  }
+
+  async updateUserTwoFactor(userId: string, data: Partial<Pick<UserTwoFactor, "recoveryCodes" | "lastUsedStep">>): Promise<void> {
+    await db.update(userTwoFactor).set(data).where(eq(userTwoFactor.userId, userId));
+  }
+
+  // Marks a matched code as used in one conditional update, so two requests
+  // racing with the same code can't both succeed: an authenticator step only
+  // moves forward, and a recovery code is removed only if it's still there.
+  // Returns undefined when the code was already used.
+  async useTwoFactorCode(userId: string, check: TwoFactorCheck): Promise<UserTwoFactor | undefined> {
+    const [record] = check.method === "totp"
+      ? await db.update(userTwoFactor)
+          .set({ lastUsedStep: check.step })
+          .where(and(
+            eq(userTwoFactor.userId, userId),
+            or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, check.step))
+          ))
+          .returning()
+      : await db.update(userTwoFactor)
+          .set({ recoveryCodes: sql`array_remove(${userTwoFactor.recoveryCodes}, ${check.codeHash})` })
+          .where(and(
+            eq(userTwoFactor.userId, userId),
+            sql`${check.codeHash} = ANY(${userTwoFactor.recoveryCodes})`
+          ))
+          .returning();
+    return record;
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  // Session operations. Sessions are stored by connect-pg-simple with the
+  // signed-in user's id inside the sess JSON.
+  async getUserSessions(userId: string): Promise<{ sid: string; sess: unknown }[]> {
+    return db
+      .select({ sid: sessions.sid, sess: sessions.sess })
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gte(sessions.expire, new Date())));
+  }
+
+  // Ends the given sessions, or every session of the user when none are
+  // given, and returns the ids of the ones that were deleted
+  async deleteUserSessions(userId: string, sids?: string[]): Promise<string[]> {
+    if (sids?.length === 0) return [];
+    const deleted = await db
+      .delete(sessions)
+      .where(and(
+        sql`${sessions.sess}->>'userId' = ${userId}`,
+        sids ? inArray(sessions.sid, sids) : undefined,
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.map((row) => row.sid);
+  }
+
+  // Settings operations
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    const [existing] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    if (existing) return existing;
+
+    // First access - create a row with the column defaults
+    await db.insert(userSettings).values({ userId }).onConflictDoNothing();
+    const [created] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return created;
+  }
+
+  async updateUserSettings(userId: string, data: UpdateUserSettings): Promise<UserSettings> {
+    const [settings] = await db
+      .insert(userSettings)
+      .values({ ...data, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  // Whether viewerId may see ownerId's profile details and posts
+  async canViewProfile(ownerId: string, viewerId?: string): Promise<boolean> {
+    if (viewerId === ownerId) return true;
+
+    const settings = await this.getUserSettings(ownerId);
+    switch (settings.profileVisibility) {
+      case 'private':
+        return false;
+      case 'followers':
+        return !!viewerId && await this.isFollowing(viewerId, ownerId);
+      default:
+        return true;
+    }
+  }
+
+  // Notification types that users can switch off in their settings
+  private notificationSettingFor(type: string): keyof UserSettings | undefined {
+    switch (type) {
+      case 'comment':
+      case 'comment_reply':
+      case 'series_comment':
+      case 'chapter_comment':
+        return 'commentNotifications';
+      case 'follow':
+        return 'followNotifications';
+      case 'collaboration_invite':
+      case 'collaboration_accepted':
+        return 'collaborationNotifications';
+      default:
+        return undefined;
+    }
+  }
+
+  async isNotificationEnabled(userId: string, type: string): Promise<boolean> {
+    const setting = this.notificationSettingFor(type);
+    if (!setting) return true;
+
+    const settings = await this.getUserSettings(userId);
+    return settings[setting] !== false;
+  }
+
   // Post operations
-  async createPost(post: InsertPost): Promise<Post> {
+  async createPost(post: NewPost): Promise<Post> {
     const [newPost] = await db.insert(posts).values(post).returning();
+    await this.syncPostHashtags(newPost.id, newPost.content);
+    if (newPost.status === "published") {
+      await this.countPublishedPost(newPost.authorId);
+    }
+    return newPost;
+  }
+
+  private async countPublishedPost(authorId: string): Promise<void> {
     await db
       .update(users)
       .set({ postsCount: sql`${users.postsCount} + 1` })
-      .where(eq(users.id, post.authorId));
-    await this.checkAutoVerification(post.authorId);
-    return newPost;
+      .where(eq(users.id, authorId));
+    await this.checkAutoVerification(authorId);
+  }
+
+  // The author's drafts and scheduled posts, next to go out first
+  async getUserDrafts(userId: string): Promise<PostRow[]> {
+    return db
+      .select()
+      .from(posts)
+      .where(and(eq(posts.authorId, userId), ne(posts.status, "published")))
+      .orderBy(sql`${posts.scheduledFor} ASC NULLS LAST`, desc(posts.updatedAt));
+  }
+
+  async getDueScheduledPostIds(now: Date): Promise<string[]> {
+    const rows = await db
+      .select({ id: posts.id })
+      .from(posts)
+      .where(and(eq(posts.status, "scheduled"), lte(posts.scheduledFor, now)));
+    return rows.map(row => row.id);
+  }
+
+  // Publishes a draft or scheduled post. It enters feeds, which order by
+  // createdAt, as if it had just been posted. Returns undefined if the post
+  // was already published, so concurrent callers announce it only once.
+  async publishPost(postId: string, now: Date = new Date()): Promise<PostRow | undefined> {
+    const [post] = await db
+      .update(posts)
+      .set({ status: "published", scheduledFor: null, publishedAt: now, createdAt: now, updatedAt: now })
+      .where(and(eq(posts.id, postId), ne(posts.status, "published")))
+      .returning();
+    if (!post) return undefined;
+
+    // Trending counts hashtag uses from this moment too
+    await db.update(postHashtags).set({ createdAt: now }).where(eq(postHashtags.postId, postId));
+    await this.countPublishedPost(post.authorId);
+    return post;
+  }
+
+  // Invitations saved with a draft, still waiting to be sent
+  async getPendingCollaborations(postId: string): Promise<{ id: string; collaboratorId: string; invitedById: string }[]> {
+    return db
+      .select({
+        id: postCollaborators.id,
+        collaboratorId: postCollaborators.collaboratorId,
+        invitedById: postCollaborators.invitedById,
+      })
+      .from(postCollaborators)
+      .where(and(eq(postCollaborators.postId, postId), eq(postCollaborators.status, "pending")));
+  }
+
+  // Makes the post's hashtag links match the hashtags in its content. Tags
+  // the post already had keep their original timestamp, so editing a post
+  // doesn't bump them in trending.
+  private async syncPostHashtags(postId: string, content: string): Promise<void> {
+    const tags = extractHashtags(content);
+
+    if (tags.length > 0) {
+      await db.insert(hashtags)
+        .values(tags.map(tag => ({ tag })))
+        .onConflictDoNothing();
+    }
+    const tagRows = tags.length > 0
+      ? await db.select({ id: hashtags.id }).from(hashtags).where(inArray(hashtags.tag, tags))
+      : [];
+    const hashtagIds = tagRows.map(row => row.id);
+
+    await db.delete(postHashtags).where(and(
+      eq(postHashtags.postId, postId),
+      hashtagIds.length > 0 ? notInArray(postHashtags.hashtagId, hashtagIds) : undefined
+    ));
+    if (hashtagIds.length > 0) {
+      await db.insert(postHashtags)
+        .values(hashtagIds.map(hashtagId => ({ postId, hashtagId })))
+        .onConflictDoNothing();
+    }
   }
 
   async getPost(id: string): Promise<Post | undefined> {
@@ -330,6 +783,8 @@ export class DatabaseStorage implements IStorage {
         category: posts.category,
         readTimeMinutes: posts.readTimeMinutes,
         publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
         spotifyTrackId: posts.spotifyTrackId,
         spotifyTrackData: posts.spotifyTrackData,
         imageUrls: posts.imageUrls,
@@ -346,6 +801,7 @@ export class DatabaseStorage implements IStorage {
           displayName: users.displayName,
           email: users.email,
           password: users.password,
+          emailVerifiedAt: users.emailVerifiedAt,
           bio: users.bio,
           location: users.location,
           website: users.website,
@@ -360,6 +816,7 @@ export class DatabaseStorage implements IStorage {
           isVerified: users.isVerified,
           isAdmin: users.isAdmin,
           isSuperAdmin: users.isSuperAdmin,
+          twoFactorRequired: users.twoFactorRequired,
           postsCount: users.postsCount,
           commentsCount: users.commentsCount,
           createdAt: users.createdAt,
@@ -383,7 +840,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(posts)
       .leftJoin(users, eq(posts.authorId, users.id))
-      .where(eq(posts.isPrivate, false))
+      .where(isPublicPost())
       .orderBy(desc(posts.createdAt))
       .limit(limit)
       .offset(offset);
@@ -400,6 +857,8 @@ export class DatabaseStorage implements IStorage {
       category: row.category,
       readTimeMinutes: row.readTimeMinutes,
       publishedAt: row.publishedAt,
+      status: row.status,
+      scheduledFor: row.scheduledFor,
       spotifyTrackId: row.spotifyTrackId,
       spotifyTrackData: row.spotifyTrackData,
       imageUrls: row.imageUrls,
@@ -417,6 +876,234 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Feeds
+  //
+  // Both feeds order entries by (createdAt, id) truncated to milliseconds so
+  // the cursor handed to the client compares exactly like the ORDER BY.
+  async getPublicFeed(limit: number, cursor?: FeedCursor, viewerId?: string): Promise<FeedPage> {
+    const feedAt = sql`date_trunc('milliseconds', ${posts.createdAt})`;
+    const rows = await db
+      .select({ id: posts.id, createdAt: isoTimestamp(feedAt) })
+      .from(posts)
+      .where(and(
+        isPublicPost(),
+        notHiddenFrom(viewerId, posts.authorId),
+        profileVisibleTo(viewerId, posts.authorId),
+        cursor ? sql`(${feedAt}, ${posts.id}) < (${cursor.createdAt}, ${cursor.id})` : undefined
+      ))
+      .orderBy(sql`${feedAt} DESC`, desc(posts.id))
+      .limit(limit + 1);
+
+    return this.buildFeedPage(
+      rows.map(row => ({ reason: "post", id: row.id, createdAt: new Date(row.createdAt), postId: row.id, actorId: null, comment: null })),
+      limit,
+      viewerId
+    );
+  }
+
+  // Posts by followed authors, their reposts (quote comments included) and
+  // posts they co-wrote as an accepted collaborator, merged into one timeline
+  async getFollowingFeed(userId: string, limit: number, cursor?: FeedCursor): Promise<FeedPage> {
+    const followed = db
+      .select({ id: follows.followingId })
+      .from(follows)
+      .where(eq(follows.followerId, userId));
+    const feedAt = (column: any) => sql<Date>`date_trunc('milliseconds', ${column})`.as("feed_at");
+
+    const authored = db.select({
+        reason: sql<string>`'post'`.as("reason"),
+        id: sql<string>`${posts.id}::text`.as("feed_id"),
+        createdAt: feedAt(posts.createdAt),
+        postId: sql<string>`${posts.id}`.as("post_id"),
+        actorId: sql<string | null>`NULL::uuid`.as("actor_id"),
+        comment: sql<string | null>`NULL::text`.as("comment"),
+      })
+      .from(posts)
+      .where(and(
+        isPublicPost(),
+        inArray(posts.authorId, followed),
+        notHiddenFrom(userId, posts.authorId),
+        profileVisibleTo(userId, posts.authorId)
+      ));
+
+    const reposted = db.select({
+        reason: sql<string>`'repost'`.as("reason"),
+        id: sql<string>`${reposts.id}::text`.as("feed_id"),
+        createdAt: feedAt(reposts.createdAt),
+        postId: sql<string>`${reposts.postId}`.as("post_id"),
+        actorId: sql<string | null>`${reposts.userId}`.as("actor_id"),
+        comment: sql<string | null>`${reposts.comment}`.as("comment"),
+      })
+      .from(reposts)
+      .innerJoin(posts, eq(reposts.postId, posts.id))
+      .where(and(
+        isPublicPost(),
+        inArray(reposts.userId, followed),
+        notHiddenFrom(userId, reposts.userId),
+        notHiddenFrom(userId, posts.authorId),
+        profileVisibleTo(userId, reposts.userId),
+        profileVisibleTo(userId, posts.authorId)
+      ));
+
+    // One entry per post however many followed collaborators it has, and none
+    // when the author is followed too since the post is already in the feed
+    const collaborated = db.select({
+        reason: sql<string>`'collaboration'`.as("reason"),
+        id: sql<string>`MIN(${postCollaborators.id}::text)`.as("feed_id"),
+        createdAt: feedAt(posts.createdAt),
+        postId: sql<string>`${posts.id}`.as("post_id"),
+        actorId: sql<string | null>`(ARRAY_AGG(${postCollaborators.collaboratorId} ORDER BY ${postCollaborators.acceptedAt} NULLS LAST))[1]`.as("actor_id"),
+        comment: sql<string | null>`NULL::text`.as("comment"),
+      })
+      .from(postCollaborators)
+      .innerJoin(posts, eq(postCollaborators.postId, posts.id))
+      .where(and(
+        eq(postCollaborators.status, "accepted"),
+        isPublicPost(),
+        ne(posts.authorId, userId),
+        inArray(postCollaborators.collaboratorId, followed),
+        notInArray(posts.authorId, followed),
+        notHiddenFrom(userId, posts.authorId),
+        profileVisibleTo(userId, posts.authorId)
+      ))
+      .groupBy(posts.id);
+
+    const rows = await db.execute<{
+      reason: FeedItemReason;
+      feed_id: string;
+      feed_at: string;
+      post_id: string;
+      actor_id: string | null;
+      comment: string | null;
+    }>(sql`
+      SELECT reason, feed_id, ${isoTimestamp(sql`feed_at`)} AS feed_at, post_id, actor_id, comment
+      FROM ((${authored}) UNION ALL (${reposted}) UNION ALL (${collaborated})) AS feed
+      ${cursor ? sql`WHERE (feed_at, feed_id) < (${cursor.createdAt}, ${cursor.id})` : sql``}
+      ORDER BY feed.feed_at DESC, feed_id DESC
+      LIMIT ${limit + 1}
+    `);
+
+    return this.buildFeedPage(
+      Array.from(rows).map(row => ({
+        reason: row.reason,
+        id: row.feed_id,
+        createdAt: new Date(row.feed_at),
+        postId: row.post_id,
+        actorId: row.actor_id,
+        comment: row.comment,
+      })),
+      limit,
+      userId
+    );
+  }
+
+  // Takes up to limit + 1 feed rows; the extra one only signals another page
+  private async buildFeedPage(
+    rows: { reason: FeedItemReason; id: string; createdAt: Date; postId: string; actorId: string | null; comment: string | null }[],
+    limit: number,
+    viewerId?: string
+  ): Promise<FeedPage> {
+    const page = rows.slice(0, limit);
+    const postIds = Array.from(new Set(page.map(row => row.postId)));
+    const actorIds = Array.from(new Set(page.map(row => row.actorId).filter((id): id is string => !!id)));
+
+    const [feedPosts, actors] = await Promise.all([
+      this.getFeedPosts(postIds, viewerId),
+      actorIds.length > 0
+        ? db.select({
+            id: users.id,
+            username: users.username,
+            displayName: users.displayName,
+            profileImageUrl: users.profileImageUrl,
+            isVerified: users.isVerified,
+          }).from(users).where(inArray(users.id, actorIds))
+        : Promise.resolve([] as FeedAuthor[]),
+    ]);
+    const actorsById = new Map(actors.map(actor => [actor.id, actor]));
+
+    const items: FeedItem[] = [];
+    for (const row of page) {
+      const post = feedPosts.get(row.postId);
+      if (!post) continue; // deleted between the two queries
+      items.push({
+        id: row.id,
+        reason: row.reason,
+        actor: row.actorId ? actorsById.get(row.actorId) ?? null : null,
+        comment: row.comment,
+        createdAt: row.createdAt,
+        post,
+      });
+    }
+
+    const last = page[page.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeFeedCursor({ createdAt: last.createdAt, id: last.id }) : null,
+    };
+  }
+
+  // Posts with their author, accepted collaborators and the viewer's engagement
+  async getFeedPosts(postIds: string[], viewerId?: string): Promise<Map<string, FeedPost>> {
+    if (postIds.length === 0) return new Map();
+
+    const [rows, collaborators, liked, bookmarked, reposted] = await Promise.all([
+      db.select({ post: posts, author: users })
+        .from(posts)
+        .innerJoin(users, eq(posts.authorId, users.id))
+        .where(inArray(posts.id, postIds)),
+      db.select({
+          postId: postCollaborators.postId,
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          profileImageUrl: users.profileImageUrl,
+        })
+        .from(postCollaborators)
+        .innerJoin(users, eq(postCollaborators.collaboratorId, users.id))
+        .where(and(inArray(postCollaborators.postId, postIds), eq(postCollaborators.status, "accepted"))),
+      viewerId
+        ? db.select({ postId: likes.postId }).from(likes)
+            .where(and(eq(likes.userId, viewerId), inArray(likes.postId, postIds)))
+        : Promise.resolve([]),
+      viewerId
+        ? db.select({ postId: bookmarks.postId }).from(bookmarks)
+            .where(and(eq(bookmarks.userId, viewerId), inArray(bookmarks.postId, postIds)))
+        : Promise.resolve([]),
+      viewerId
+        ? db.select({ postId: reposts.postId }).from(reposts)
+            .where(and(eq(reposts.userId, viewerId), inArray(reposts.postId, postIds)))
+        : Promise.resolve([]),
+    ]);
+
+    const likedIds = new Set(liked.map(row => row.postId));
+    const bookmarkedIds = new Set(bookmarked.map(row => row.postId));
+    const repostedIds = new Set(reposted.map(row => row.postId));
+    const collaboratorsByPost = new Map<string, FeedPost["collaborators"]>();
+    for (const { postId, ...collaborator } of collaborators) {
+      const list = collaboratorsByPost.get(postId) ?? [];
+      list.push(collaborator);
+      collaboratorsByPost.set(postId, list);
+    }
+
+    return new Map(rows.map(({ post, author }) => [post.id, {
+      ...post,
+      author: {
+        id: author.id,
+        username: author.username,
+        displayName: author.displayName,
+        profileImageUrl: author.profileImageUrl,
+        isVerified: author.isVerified,
+        isAdmin: author.isAdmin,
+        isSuperAdmin: author.isSuperAdmin,
+        userRole: author.userRole,
+      },
+      collaborators: collaboratorsByPost.get(post.id) ?? [],
+      isLiked: likedIds.has(post.id),
+      isBookmarked: bookmarkedIds.has(post.id),
+      isReposted: repostedIds.has(post.id),
+    }]));
+  }
+
   async getPostsByUser(userId: string, limit = 20, offset = 0): Promise<(Post & { author?: User; isLiked?: boolean; isBookmarked?: boolean; isReposted?: boolean })[]> {
     const postsQuery = db
       .select({
@@ -430,6 +1117,8 @@ export class DatabaseStorage implements IStorage {
         category: posts.category,
         readTimeMinutes: posts.readTimeMinutes,
         publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
         spotifyTrackId: posts.spotifyTrackId,
         spotifyTrackData: posts.spotifyTrackData,
         imageUrls: posts.imageUrls,
@@ -446,6 +1135,7 @@ export class DatabaseStorage implements IStorage {
           displayName: users.displayName,
           email: users.email,
           password: users.password,
+          emailVerifiedAt: users.emailVerifiedAt,
           bio: users.bio,
           location: users.location,
           website: users.website,
@@ -460,6 +1150,7 @@ export class DatabaseStorage implements IStorage {
           isVerified: users.isVerified,
           isAdmin: users.isAdmin,
           isSuperAdmin: users.isSuperAdmin,
+          twoFactorRequired: users.twoFactorRequired,
           postsCount: users.postsCount,
           commentsCount: users.commentsCount,
           createdAt: users.createdAt,
@@ -468,7 +1159,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(posts)
       .leftJoin(users, eq(posts.authorId, users.id))
-      .where(eq(posts.authorId, userId))
+      .where(and(eq(posts.authorId, userId), isPublishedPost()))
       .orderBy(desc(posts.createdAt))
       .limit(limit)
       .offset(offset);
@@ -485,6 +1176,8 @@ export class DatabaseStorage implements IStorage {
       category: row.category,
       readTimeMinutes: row.readTimeMinutes,
       publishedAt: row.publishedAt,
+      status: row.status,
+      scheduledFor: row.scheduledFor,
       spotifyTrackId: row.spotifyTrackId,
       spotifyTrackData: row.spotifyTrackData,
       imageUrls: row.imageUrls,
@@ -508,9 +1201,54 @@ export class DatabaseStorage implements IStorage {
       .set({ ...data, updatedAt: new Date() })
       .where(eq(posts.id, id))
       .returning();
+    if (data.content !== undefined) {
+      await this.syncPostHashtags(post.id, post.content);
+    }
     return post;
   }
 
+  // An edit by a user: saves the title and content being replaced as a
+  // revision first. Edits that change neither leave no revision.
+  async editPost(id: string, editorId: string, data: Partial<Post>): Promise<Post> {
+    const [current] = await db
+      .select({ title: posts.title, content: posts.content })
+      .from(posts)
+      .where(eq(posts.id, id));
+    const isChanged = current && (
+      (data.title !== undefined && data.title !== current.title) ||
+      (data.content !== undefined && data.content !== current.content)
+    );
+    if (isChanged) {
+      await db.insert(postRevisions).values({ postId: id, editorId, title: current.title, content: current.content });
+    }
+    return this.updatePost(id, data);
+  }
+
+  // Newest first, i.e. the version each edit replaced, most recent edit first
+  async getPostRevisions(postId: string): Promise<PostRevisionWithEditor[]> {
+    const rows = await db
+      .select({
+        revision: postRevisions,
+        editor: {
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          profileImageUrl: users.profileImageUrl,
+          isVerified: users.isVerified,
+        },
+      })
+      .from(postRevisions)
+      .leftJoin(users, eq(users.id, postRevisions.editorId))
+      .where(eq(postRevisions.postId, postId))
+      .orderBy(desc(postRevisions.createdAt), desc(postRevisions.id));
+    return rows.map(({ revision, editor }) => ({ ...revision, editor: editor?.id ? editor : null }));
+  }
+
+  async getPostRevision(revisionId: string): Promise<PostRevision | undefined> {
+    const [revision] = await db.select().from(postRevisions).where(eq(postRevisions.id, revisionId));
+    return revision;
+  }
+
   async deletePost(postId: string): Promise<void> {
     await db.delete(posts).where(eq(posts.id, postId));
   }
@@ -608,6 +1346,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(comments.createdAt));
   }
 
+  async getComment(commentId: string): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, commentId));
+    return comment;
+  }
+
   async createReply(reply: InsertComment & { parentId: string }): Promise<Comment> {
     const parentComment = await db.select()
       .from(comments)
@@ -682,11 +1425,19 @@ export class DatabaseStorage implements IStorage {
     return !!follow;
   }
 
-  async getFollowers(userId: string): Promise<User[]> {
+  async getFollowers(userId: string, viewerId?: string): Promise<User[]> {
+    if (viewerId !== userId) {
+      const settings = await this.getUserSettings(userId);
+      if (!settings.showFollowers) {
+        return [];
+      }
+    }
+
     const result = await db.select({
       id: users.id,
       email: users.email,
       password: users.password,
+      emailVerifiedAt: users.emailVerifiedAt,
       displayName: users.displayName,
       username: users.username,
       bio: users.bio,
@@ -703,7 +1454,7 @@ export class DatabaseStorage implements IStorage {
       isVerified: users.isVerified,
       isAdmin: users.isAdmin,
       isSuperAdmin: users.isSuperAdmin,
-      isDeactivated: users.isDeactivated,
+      twoFactorRequired: users.twoFactorRequired,
       postsCount: users.postsCount,
       commentsCount: users.commentsCount,
       createdAt: users.createdAt,
@@ -715,11 +1466,19 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getFollowing(userId: string): Promise<User[]> {
+  async getFollowing(userId: string, viewerId?: string): Promise<User[]> {
+    if (viewerId !== userId) {
+      const settings = await this.getUserSettings(userId);
+      if (!settings.showFollowing) {
+        return [];
+      }
+    }
+
     const result = await db.select({
       id: users.id,
       email: users.email,
       password: users.password,
+      emailVerifiedAt: users.emailVerifiedAt,
       displayName: users.displayName,
       username: users.username,
       bio: users.bio,
@@ -736,7 +1495,7 @@ export class DatabaseStorage implements IStorage {
       isVerified: users.isVerified,
       isAdmin: users.isAdmin,
       isSuperAdmin: users.isSuperAdmin,
-      isDeactivated: users.isDeactivated,
+      twoFactorRequired: users.twoFactorRequired,
       postsCount: users.postsCount,
       commentsCount: users.commentsCount,
       createdAt: users.createdAt,
@@ -748,6 +1507,103 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Block and mute operations
+  //
+  // Blocking also ends any follow between the two users in either direction
+  // and withdraws collaboration invites still pending between them
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.insert(userBlocks).values({ blockerId, blockedId }).onConflictDoNothing();
+      await tx.delete(follows).where(or(
+        and(eq(follows.followerId, blockerId), eq(follows.followingId, blockedId)),
+        and(eq(follows.followerId, blockedId), eq(follows.followingId, blockerId))
+      ));
+      await tx.delete(postCollaborators).where(and(
+        eq(postCollaborators.status, "pending"),
+        or(
+          and(eq(postCollaborators.invitedById, blockerId), eq(postCollaborators.collaboratorId, blockedId)),
+          and(eq(postCollaborators.invitedById, blockedId), eq(postCollaborators.collaboratorId, blockerId))
+        )
+      ));
+    });
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await db.delete(userBlocks).where(
+      and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId))
+    );
+  }
+
+  async isBlockedEitherWay(userId: string, otherUserId: string): Promise<boolean> {
+    const blocked = await this.getBlockedEitherWayIds(userId, [otherUserId]);
+    return blocked.size > 0;
+  }
+
+  // Which of otherUserIds have blocked userId or been blocked by them
+  async getBlockedEitherWayIds(userId: string, otherUserIds: string[]): Promise<Set<string>> {
+    if (otherUserIds.length === 0) return new Set();
+    const rows = await db
+      .select({ blockerId: userBlocks.blockerId, blockedId: userBlocks.blockedId })
+      .from(userBlocks)
+      .where(or(
+        and(eq(userBlocks.blockerId, userId), inArray(userBlocks.blockedId, otherUserIds)),
+        and(eq(userBlocks.blockedId, userId), inArray(userBlocks.blockerId, otherUserIds))
+      ));
+    return new Set(rows.map(row => row.blockerId === userId ? row.blockedId : row.blockerId));
+  }
+
+  async getBlockedUsers(userId: string): Promise<RestrictedUser[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        profileImageUrl: users.profileImageUrl,
+        isVerified: users.isVerified,
+        since: userBlocks.createdAt,
+      })
+      .from(userBlocks)
+      .innerJoin(users, eq(users.id, userBlocks.blockedId))
+      .where(eq(userBlocks.blockerId, userId))
+      .orderBy(desc(userBlocks.createdAt));
+    return rows.map(row => ({ ...row, since: row.since?.toISOString() ?? null }));
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    await db.insert(userMutes).values({ muterId, mutedId }).onConflictDoNothing();
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    await db.delete(userMutes).where(
+      and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId))
+    );
+  }
+
+  async isMuted(muterId: string, mutedId: string): Promise<boolean> {
+    const [mute] = await db
+      .select({ id: userMutes.id })
+      .from(userMutes)
+      .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+    return !!mute;
+  }
+
+  async getMutedUsers(userId: string): Promise<RestrictedUser[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        profileImageUrl: users.profileImageUrl,
+        isVerified: users.isVerified,
+        since: userMutes.createdAt,
+      })
+      .from(userMutes)
+      .innerJoin(users, eq(users.id, userMutes.mutedId))
+      .where(eq(userMutes.muterId, userId))
+      .orderBy(desc(userMutes.createdAt));
+    return rows.map(row => ({ ...row, since: row.since?.toISOString() ?? null }));
+  }
+
   // Repost operations
   async repostPost(userId: string, postId: string, comment?: string): Promise<Repost> {
     const [repost] = await db.insert(reposts).values({ userId, postId, comment }).returning();
@@ -778,6 +1634,8 @@ export class DatabaseStorage implements IStorage {
       category: posts.category,
       readTimeMinutes: posts.readTimeMinutes,
       publishedAt: posts.publishedAt,
+      status: posts.status,
+      scheduledFor: posts.scheduledFor,
       spotifyTrackId: posts.spotifyTrackId,
       spotifyTrackData: posts.spotifyTrackData,
       imageUrls: posts.imageUrls,
@@ -845,6 +1703,8 @@ export class DatabaseStorage implements IStorage {
       category: posts.category,
       readTimeMinutes: posts.readTimeMinutes,
       publishedAt: posts.publishedAt,
+      status: posts.status,
+      scheduledFor: posts.scheduledFor,
       spotifyTrackId: posts.spotifyTrackId,
       spotifyTrackData: posts.spotifyTrackData,
       imageUrls: posts.imageUrls,
@@ -863,13 +1723,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notification operations
-  async createNotification(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification> {
+  // Returns undefined when the recipient has switched this notification type
+  // off, or when either of them has blocked the other
+  async createNotification(notification: Omit<Notification, 'id' | 'createdAt'>): Promise<Notification | undefined> {
+    if (!(await this.isNotificationEnabled(notification.userId, notification.type))) {
+      return undefined;
+    }
+    if (notification.actorId && await this.isBlockedEitherWay(notification.userId, notification.actorId)) {
+      return undefined;
+    }
     const [newNotification] = await db.insert(notifications).values(notification).returning();
     return newNotification;
   }
 
-  async getUserNotifications(userId: string): Promise<any[]> {
-    const result = await db.select({
+  // Notifications joined with the acting user and the related post
+  private notificationsWithDetails() {
+    return db.select({
       id: notifications.id,
       userId: notifications.userId,
       type: notifications.type,
@@ -878,36 +1747,33 @@ export class DatabaseStorage implements IStorage {
       isRead: notifications.isRead,
       data: notifications.data,
       createdAt: notifications.createdAt,
-      actor: notifications.actorId ? {
+      actor: {
         id: users.id,
         username: users.username,
         displayName: users.displayName,
         profileImageUrl: users.profileImageUrl,
         isVerified: users.isVerified,
-      } : null,
-      post: notifications.postId ? {
+      },
+      post: {
         id: posts.id,
         content: posts.content,
-      } : null,
+      },
     })
       .from(notifications)
       .leftJoin(users, and(eq(notifications.actorId, users.id), isNotNull(notifications.actorId)))
-      .leftJoin(posts, and(eq(notifications.postId, posts.id), isNotNull(notifications.postId)))
+      .leftJoin(posts, and(eq(notifications.postId, posts.id), isNotNull(notifications.postId)));
+  }
+
+  async getUserNotifications(userId: string): Promise<any[]> {
+    return this.notificationsWithDetails()
       .where(eq(notifications.userId, userId))
       .orderBy(desc(notifications.createdAt));
+  }
 
-    return result.map(row => ({
-      id: row.id,
-      userId: row.userId,
-      type: row.type,
-      actorId: row.actorId,
-      postId: row.postId,
-      isRead: row.isRead,
-      data: row.data,
-      createdAt: row.createdAt,
-      actor: row.actor,
-      post: row.post,
-    }));
+  async getNotificationWithDetails(id: string): Promise<any | undefined> {
+    const [notification] = await this.notificationsWithDetails()
+      .where(eq(notifications.id, id));
+    return notification;
   }
 
   async markNotificationAsRead(id: string): Promise<void> {
@@ -923,65 +1789,471 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
-  // Writing goals
-  async updateWritingGoal(userId: string, date: Date, wordCount: number, postsCount: number): Promise<WritingGoal> {
-    const [goal] = await db
-      .insert(writingGoals)
-      .values({ userId, date, wordCount, postsCount })
-      .onConflictDoUpdate({
-        target: [writingGoals.userId, writingGoals.date],
-        set: { wordCount, postsCount, goalMet: sql`${wordCount} >= (SELECT word_count_goal FROM users WHERE id = ${userId})` },
-      })
-      .returning();
-    return goal;
+  // Direct message operations
+  //
+  // A message counts as unread for a participant when someone else sent it
+  // after their lastReadAt
+  async getConversations(userId: string): Promise<ConversationSummary[]> {
+    return this.getConversationSummaries(userId);
   }
 
-  async getUserWritingGoals(userId: string, startDate: Date, endDate: Date): Promise<WritingGoal[]> {
-    return db.select()
-      .from(writingGoals)
-      .where(
-        and(
-          eq(writingGoals.userId, userId),
-          sql`${writingGoals.date} >= ${startDate}`,
-          sql`${writingGoals.date} <= ${endDate}`
-        )
-      )
-      .orderBy(desc(writingGoals.date));
+  // Undefined unless userId takes part in the conversation
+  async getConversation(conversationId: string, userId: string): Promise<ConversationSummary | undefined> {
+    const [summary] = await this.getConversationSummaries(userId, conversationId);
+    return summary;
   }
 
-  // Search and discovery
-  async searchUsers(query: string, currentUserId?: string, limit: number = 10): Promise<User[]> {
-    const searchTerm = `%${query.toLowerCase()}%`;
-
-    const result = await db
-      .select()
-      .from(users)
-      .where(
-        and(
-          ne(users.id, currentUserId),
-          or(
-            sql`LOWER(${users.username}) LIKE ${searchTerm}`,
-            sql`LOWER(${users.displayName}) LIKE ${searchTerm}`
-          )
-        )
-      )
-      .orderBy(desc(users.followersCount))
-      .limit(limit);
+  private async getConversationSummaries(userId: string, conversationId?: string): Promise<ConversationSummary[]> {
+    const rows = await db
+      .select({
+        id: conversations.id,
+        title: conversations.title,
+        isGroup: conversations.isGroup,
+        lastMessageAt: conversations.lastMessageAt,
+        unreadCount: sql<number>`(
+          SELECT count(*)::int FROM ${messages}
+          WHERE ${messages.conversationId} = ${conversations.id}
+            AND ${messages.senderId} <> ${userId}
+            AND ${messages.createdAt} > COALESCE(${conversationParticipants.lastReadAt}, '-infinity')
+        )`,
+      })
+      .from(conversationParticipants)
+      .innerJoin(conversations, eq(conversations.id, conversationParticipants.conversationId))
+      .where(and(
+        eq(conversationParticipants.userId, userId),
+        conversationId ? eq(conversations.id, conversationId) : undefined
+      ))
+      .orderBy(desc(conversations.lastMessageAt));
 
-    return result;
-  }
+    if (rows.length === 0) return [];
+    const ids = rows.map(row => row.id);
 
-  async searchPosts(query: string, limit = 20): Promise<Post[]> {
-    return db.select()
-      .from(posts)
+    const [participants, lastMessages] = await Promise.all([
+      db.select({
+          conversationId: conversationParticipants.conversationId,
+          lastReadAt: conversationParticipants.lastReadAt,
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          profileImageUrl: users.profileImageUrl,
+          isVerified: users.isVerified,
+        })
+        .from(conversationParticipants)
+        .innerJoin(users, eq(users.id, conversationParticipants.userId))
+        .where(inArray(conversationParticipants.conversationId, ids))
+        .orderBy(asc(conversationParticipants.joinedAt)),
+      db.selectDistinctOn([messages.conversationId], {
+          conversationId: messages.conversationId,
+          id: messages.id,
+          senderId: messages.senderId,
+          content: messages.content,
+          createdAt: messages.createdAt,
+        })
+        .from(messages)
+        .where(inArray(messages.conversationId, ids))
+        .orderBy(messages.conversationId, desc(messages.createdAt), desc(messages.id)),
+    ]);
+
+    return rows.map(row => ({
+      ...row,
+      participants: participants
+        .filter(participant => participant.conversationId === row.id)
+        .map(({ conversationId: _, lastReadAt, ...participant }) => ({
+          ...participant,
+          lastReadAt: lastReadAt?.toISOString() ?? null,
+        })),
+      lastMessage: lastMessages
+        .filter(message => message.conversationId === row.id)
+        .map(({ conversationId: _, ...message }) => message)[0] ?? null,
+    }));
+  }
+
+  // The one-to-one conversation between two users, if they've had one
+  async findDirectConversation(userId: string, otherUserId: string): Promise<string | undefined> {
+    const [row] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(
+        eq(conversations.isGroup, false),
+        inArray(conversations.id, db
+          .select({ id: conversationParticipants.conversationId })
+          .from(conversationParticipants)
+          .where(eq(conversationParticipants.userId, userId))),
+        inArray(conversations.id, db
+          .select({ id: conversationParticipants.conversationId })
+          .from(conversationParticipants)
+          .where(eq(conversationParticipants.userId, otherUserId)))
+      ))
+      .limit(1);
+    return row?.id;
+  }
+
+  // participantIds are the other people; the creator is always added
+  async createConversation(creatorId: string, participantIds: string[], title?: string): Promise<Conversation> {
+    const memberIds = Array.from(new Set([creatorId, ...participantIds]));
+    return db.transaction(async (tx) => {
+      const [conversation] = await tx.insert(conversations).values({
+        title: memberIds.length > 2 ? title || null : null,
+        isGroup: memberIds.length > 2,
+        createdById: creatorId,
+      }).returning();
+      await tx.insert(conversationParticipants).values(
+        memberIds.map(userId => ({ conversationId: conversation.id, userId }))
+      );
+      return conversation;
+    });
+  }
+
+  async getConversationParticipantIds(conversationId: string): Promise<string[]> {
+    const rows = await db
+      .select({ userId: conversationParticipants.userId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId));
+    return rows.map(row => row.userId);
+  }
+
+  // Pages backwards from the newest message on the same (createdAt, id)
+  // cursor as the feeds
+  async getMessages(conversationId: string, limit: number, cursor?: FeedCursor): Promise<MessagePage> {
+    const sentAt = sql`date_trunc('milliseconds', ${messages.createdAt})`;
+    const rows = await db
+      .select({
+        id: messages.id,
+        conversationId: messages.conversationId,
+        senderId: messages.senderId,
+        content: messages.content,
+        createdAt: messages.createdAt,
+        cursorAt: isoTimestamp(sentAt),
+      })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        cursor ? sql`(${sentAt}, ${messages.id}) < (${cursor.createdAt}, ${cursor.id})` : undefined
+      ))
+      .orderBy(sql`${sentAt} DESC`, desc(messages.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      messages: page.map(({ cursorAt: _, ...message }) => message),
+      nextCursor: rows.length > limit && last
+        ? encodeFeedCursor({ createdAt: new Date(last.cursorAt), id: last.id })
+        : null,
+    };
+  }
+
+  // Sending a message also marks the conversation read up to it for the sender
+  async createMessage(conversationId: string, senderId: string, content: string): Promise<Message> {
+    return db.transaction(async (tx) => {
+      const [message] = await tx.insert(messages).values({ conversationId, senderId, content }).returning();
+      await tx.update(conversations)
+        .set({ lastMessageAt: message.createdAt })
+        .where(eq(conversations.id, conversationId));
+      await tx.update(conversationParticipants)
+        .set({ lastReadAt: message.createdAt })
+        .where(and(
+          eq(conversationParticipants.conversationId, conversationId),
+          eq(conversationParticipants.userId, senderId)
+        ));
+      return message;
+    });
+  }
+
+  // Moves the read receipt up to the newest message and returns it, or null
+  // while the conversation has no messages yet
+  async markConversationRead(conversationId: string, userId: string): Promise<Date | null> {
+    const [participant] = await db.update(conversationParticipants)
+      .set({
+        lastReadAt: sql`GREATEST(${conversationParticipants.lastReadAt}, (
+          SELECT MAX(${messages.createdAt}) FROM ${messages} WHERE ${messages.conversationId} = ${conversationId}
+        ))`,
+      })
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, userId)
+      ))
+      .returning({ lastReadAt: conversationParticipants.lastReadAt });
+    return participant?.lastReadAt ?? null;
+  }
+
+  async getUnreadMessageCount(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, userId)
+      ))
+      .where(and(
+        ne(messages.senderId, userId),
+        sql`${messages.createdAt} > COALESCE(${conversationParticipants.lastReadAt}, '-infinity')`
+      ));
+    return row?.count ?? 0;
+  }
+
+  // Writing goals
+  async updateWritingGoal(userId: string, date: Date, wordCount: number, postsCount: number): Promise<WritingGoal> {
+    const [goal] = await db
+      .insert(writingGoals)
+      .values({ userId, date, wordCount, postsCount })
+      .onConflictDoUpdate({
+        target: [writingGoals.userId, writingGoals.date],
+        set: { wordCount, postsCount, goalMet: sql`${wordCount} >= (SELECT word_count_goal FROM users WHERE id = ${userId})` },
+      })
+      .returning();
+    return goal;
+  }
+
+  async getUserWritingGoals(userId: string, startDate: Date, endDate: Date): Promise<WritingGoal[]> {
+    return db.select()
+      .from(writingGoals)
       .where(
         and(
-          eq(posts.isPrivate, false),
-          sql`${posts.content} ILIKE ${`%${query}%`}`
+          eq(writingGoals.userId, userId),
+          sql`${writingGoals.date} >= ${startDate}`,
+          sql`${writingGoals.date} <= ${endDate}`
         )
       )
-      .orderBy(desc(posts.createdAt))
-      .limit(limit);
+      .orderBy(desc(writingGoals.date));
+  }
+
+  // Search and discovery
+  //
+  // Ranking happens in one UNION ALL over the indexed search documents, which
+  // only returns ids, so snippets are highlighted for the current page alone.
+  async search(query: string, options: SearchOptions): Promise<SearchPage> {
+    const english = sql`websearch_to_tsquery('english', ${query})`;
+    const simple = sql`websearch_to_tsquery('simple', ${query})`;
+    const words = query.split(/\s+/).filter(Boolean);
+    const terms = Array.from(new Set([...words, ...words.map(word => word.toLowerCase())]));
+    const authorFilter = (authorId: any) => options.author
+      ? sql`${authorId} IN (SELECT ${users.id} FROM ${users} WHERE LOWER(${users.username}) = ${options.author.toLowerCase()})`
+      : undefined;
+    const dateFilter = (column: any) => and(
+      options.from ? gte(column, options.from) : undefined,
+      options.to ? lt(column, options.to) : undefined
+    );
+
+    const wants = (type: SearchResultType) => options.types.includes(type);
+    const parts: SQL[] = [];
+
+    if (wants("posts") && !options.genre) {
+      const doc = searchDocuments.posts(posts);
+      parts.push(sql`${db.select({
+          type: sql<string>`'posts'`.as("type"),
+          id: posts.id,
+          rank: sql<number>`ts_rank_cd(${doc}, ${english})`.as("rank"),
+          createdAt: sql<Date>`${posts.createdAt}`.as("created_at"),
+        })
+        .from(posts)
+        .where(and(
+          sql`${doc} @@ ${english}`,
+          isPublicPost(),
+          options.category ? eq(posts.category, options.category) : undefined,
+          authorFilter(posts.authorId),
+          notHiddenFrom(options.viewerId, posts.authorId),
+          profileVisibleTo(options.viewerId, posts.authorId),
+          dateFilter(posts.createdAt)
+        ))}`);
+    }
+
+    if (wants("series") && !options.category) {
+      const doc = searchDocuments.series(series);
+      // Tags can't be part of the generated document, so they're matched
+      // against their own GIN index and add a fixed boost
+      const tagMatch = sql`${series.tags} && ARRAY[${sql.join(terms.map(term => sql`${term}`), sql`, `)}]::text[]`;
+      parts.push(sql`${db.select({
+          type: sql<string>`'series'`.as("type"),
+          id: series.id,
+          rank: sql<number>`ts_rank_cd(${doc}, ${english}) + CASE WHEN ${tagMatch} THEN 0.5 ELSE 0 END`.as("rank"),
+          createdAt: sql<Date>`${series.createdAt}`.as("created_at"),
+        })
+        .from(series)
+        .where(and(
+          or(sql`${doc} @@ ${english}`, tagMatch),
+          eq(series.isPrivate, false),
+          options.genre ? eq(series.genre, options.genre) : undefined,
+          authorFilter(series.authorId),
+          notHiddenFrom(options.viewerId, series.authorId),
+          profileVisibleTo(options.viewerId, series.authorId),
+          dateFilter(series.createdAt)
+        ))}`);
+    }
+
+    if (wants("chapters") && !options.category) {
+      const doc = searchDocuments.chapters(chapters);
+      const publishedAt = sql`COALESCE(${chapters.publishedAt}, ${chapters.createdAt})`;
+      parts.push(sql`${db.select({
+          type: sql<string>`'chapters'`.as("type"),
+          id: chapters.id,
+          rank: sql<number>`ts_rank_cd(${doc}, ${english})`.as("rank"),
+          createdAt: sql<Date>`${publishedAt}`.as("created_at"),
+        })
+        .from(chapters)
+        .innerJoin(series, eq(series.id, chapters.seriesId))
+        .where(and(
+          sql`${doc} @@ ${english}`,
+          eq(chapters.isPublished, true),
+          eq(series.isPrivate, false),
+          options.genre ? eq(series.genre, options.genre) : undefined,
+          authorFilter(series.authorId),
+          notHiddenFrom(options.viewerId, series.authorId),
+          profileVisibleTo(options.viewerId, series.authorId),
+          dateFilter(publishedAt)
+        ))}`);
+    }
+
+    if (wants("users") && !options.category && !options.genre && !options.author) {
+      const doc = searchDocuments.users(users);
+      parts.push(sql`${db.select({
+          type: sql<string>`'users'`.as("type"),
+          id: users.id,
+          rank: sql<number>`ts_rank_cd(${doc}, ${simple})`.as("rank"),
+          createdAt: sql<Date>`${users.createdAt}`.as("created_at"),
+        })
+        .from(users)
+        .where(and(
+          sql`${doc} @@ ${simple}`,
+          notHiddenFrom(options.viewerId, users.id),
+          dateFilter(users.createdAt)
+        ))}`);
+    }
+
+    if (parts.length === 0) {
+      return { results: [], nextOffset: null };
+    }
+
+    const orderBy = options.sort === "recent"
+      ? sql`created_at DESC NULLS LAST, rank DESC`
+      : sql`rank DESC, created_at DESC NULLS LAST`;
+    // Fetch one extra row to know whether there's another page
+    const ranked = await db.execute<{ type: SearchResultType; id: string; rank: number }>(sql`
+      SELECT type, id, rank FROM (${sql.join(parts.map(part => sql`(${part})`), sql` UNION ALL `)}) AS results
+      ORDER BY ${orderBy}
+      LIMIT ${options.limit + 1} OFFSET ${options.offset}
+    `);
+
+    const page = Array.from(ranked).slice(0, options.limit);
+    const idsOf = (type: SearchResultType) => page.filter(row => row.type === type).map(row => row.id);
+    const headline = (config: "english" | "simple", text: any) =>
+      sql<string>`ts_headline(${sql.raw(`'${config}'`)}, COALESCE(${text}, ''), ${config === "english" ? english : simple}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')`;
+    const authorFields = {
+      id: users.id,
+      username: users.username,
+      displayName: users.displayName,
+      profileImageUrl: users.profileImageUrl,
+      isVerified: users.isVerified,
+    };
+
+    const details = new Map<string, Omit<SearchResult, "type" | "id" | "rank">>();
+    const key = (type: SearchResultType, id: string) => `${type}:${id}`;
+
+    const postIds = idsOf("posts");
+    if (postIds.length > 0) {
+      const rows = await db.select({
+          id: posts.id,
+          title: posts.title,
+          content: posts.content,
+          snippet: headline("english", posts.content),
+          createdAt: posts.createdAt,
+          category: posts.category,
+          author: authorFields,
+        })
+        .from(posts)
+        .innerJoin(users, eq(users.id, posts.authorId))
+        .where(inArray(posts.id, postIds));
+      rows.forEach(row => details.set(key("posts", row.id), {
+        title: row.title || row.content.slice(0, 80),
+        snippet: row.snippet,
+        createdAt: row.createdAt,
+        category: row.category,
+        genre: null,
+        series: null,
+        author: row.author,
+      }));
+    }
+
+    const seriesIds = idsOf("series");
+    if (seriesIds.length > 0) {
+      const rows = await db.select({
+          id: series.id,
+          title: series.title,
+          snippet: headline("english", series.description),
+          createdAt: series.createdAt,
+          genre: series.genre,
+          author: authorFields,
+        })
+        .from(series)
+        .innerJoin(users, eq(users.id, series.authorId))
+        .where(inArray(series.id, seriesIds));
+      rows.forEach(row => details.set(key("series", row.id), {
+        title: row.title,
+        snippet: row.snippet,
+        createdAt: row.createdAt,
+        category: null,
+        genre: row.genre,
+        series: null,
+        author: row.author,
+      }));
+    }
+
+    const chapterIds = idsOf("chapters");
+    if (chapterIds.length > 0) {
+      const rows = await db.select({
+          id: chapters.id,
+          title: chapters.title,
+          snippet: headline("english", chapters.content),
+          createdAt: sql<Date>`COALESCE(${chapters.publishedAt}, ${chapters.createdAt})`,
+          genre: series.genre,
+          seriesId: series.id,
+          seriesTitle: series.title,
+          author: authorFields,
+        })
+        .from(chapters)
+        .innerJoin(series, eq(series.id, chapters.seriesId))
+        .innerJoin(users, eq(users.id, series.authorId))
+        .where(inArray(chapters.id, chapterIds));
+      rows.forEach(row => details.set(key("chapters", row.id), {
+        title: row.title,
+        snippet: row.snippet,
+        createdAt: row.createdAt,
+        category: null,
+        genre: row.genre,
+        series: { id: row.seriesId, title: row.seriesTitle },
+        author: row.author,
+      }));
+    }
+
+    const userIds = idsOf("users");
+    if (userIds.length > 0) {
+      const rows = await db.select({
+          ...authorFields,
+          snippet: headline("simple", users.bio),
+          createdAt: users.createdAt,
+        })
+        .from(users)
+        .where(inArray(users.id, userIds));
+      rows.forEach(({ snippet, createdAt, ...author }) => details.set(key("users", author.id), {
+        title: author.displayName,
+        snippet,
+        createdAt,
+        category: null,
+        genre: null,
+        series: null,
+        author,
+      }));
+    }
+
+    const results = page.flatMap(row => {
+      const detail = details.get(key(row.type, row.id));
+      return detail ? [{ type: row.type, id: row.id, rank: Number(row.rank), ...detail }] : [];
+    });
+
+    return {
+      results,
+      nextOffset: ranked.length > options.limit ? options.offset + options.limit : null,
+    };
   }
 
   async getTrendingPosts(limit: number = 20, userId?: string): Promise<(Post & { author?: User; isLiked?: boolean; isBookmarked?: boolean; isReposted?: boolean })[]> {
@@ -999,6 +2271,8 @@ export class DatabaseStorage implements IStorage {
         category: posts.category,
         readTimeMinutes: posts.readTimeMinutes,
         publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
         spotifyTrackId: posts.spotifyTrackId,
         spotifyTrackData: posts.spotifyTrackData,
         imageUrls: posts.imageUrls,
@@ -1015,6 +2289,7 @@ export class DatabaseStorage implements IStorage {
           displayName: users.displayName,
           email: users.email,
           password: users.password,
+          emailVerifiedAt: users.emailVerifiedAt,
           bio: users.bio,
           location: users.location,
           website: users.website,
@@ -1029,6 +2304,7 @@ export class DatabaseStorage implements IStorage {
           isVerified: users.isVerified,
           isAdmin: users.isAdmin,
           isSuperAdmin: users.isSuperAdmin,
+          twoFactorRequired: users.twoFactorRequired,
           postsCount: users.postsCount,
           commentsCount: users.commentsCount,
           createdAt: users.createdAt,
@@ -1052,7 +2328,12 @@ export class DatabaseStorage implements IStorage {
       })
       .from(posts)
       .leftJoin(users, eq(posts.authorId, users.id))
-      .where(gte(posts.createdAt, oneDayAgo))
+      .where(and(
+        isPublicPost(),
+        gte(posts.createdAt, oneDayAgo),
+        notHiddenFrom(userId, posts.authorId),
+        profileVisibleTo(userId, posts.authorId)
+      ))
       .orderBy(
         desc(sql`${posts.likesCount} + ${posts.commentsCount} + ${posts.repostsCount}`)
       )
@@ -1069,6 +2350,8 @@ export class DatabaseStorage implements IStorage {
       category: row.category,
       readTimeMinutes: row.readTimeMinutes,
       publishedAt: row.publishedAt,
+      status: row.status,
+      scheduledFor: row.scheduledFor,
       spotifyTrackId: row.spotifyTrackId,
       spotifyTrackData: row.spotifyTrackData,
       imageUrls: row.imageUrls,
@@ -1106,7 +2389,8 @@ export class DatabaseStorage implements IStorage {
             ne(users.id, currentUserId),
             sql`${users.id} NOT IN (
               SELECT ${follows.followingId} FROM ${follows} WHERE ${follows.followerId} = ${currentUserId}
-            )`
+            )`,
+            notHiddenFrom(currentUserId, users.id)
           )
         )
         .orderBy(desc(sql<number>`(SELECT COUNT(*) FROM ${follows} WHERE ${follows.followingId} = ${users.id})`))
@@ -1119,30 +2403,266 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTrendingTopics(): Promise<{ rank: number; category: string; hashtag: string; posts: string }[]> {
-    const topicData = await db.select({
-      category: posts.category,
-      count: sql<number>`count(*)::int`,
-    })
+  // The same fields as getSuggestedUsers, for users ranked elsewhere, in the given order
+  async getUserSuggestions(userIds: string[]): Promise<any[]> {
+    if (userIds.length === 0) return [];
+
+    const rows = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        profileImageUrl: users.profileImageUrl,
+        bio: users.bio,
+        isVerified: users.isVerified,
+        followersCount: sql<number>`(
+          SELECT COUNT(*) FROM ${follows} WHERE ${follows.followingId} = ${users.id}
+        )`,
+      })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return userIds.flatMap(id => byId.get(id) ?? []);
+  }
+
+  // Recommendation inputs
+  //
+  // Raw material for server/recommendations.ts, which does the scoring
+  async getPostCandidates(before: Date, limit: number, viewerId?: string): Promise<RankingCandidate[]> {
+    const engagementCount = (table: any) =>
+      sql<number>`(SELECT count(*)::int FROM ${table} WHERE ${table.postId} = ${posts.id})`;
+
+    const rows = await db
+      .select({
+        id: posts.id,
+        authorId: posts.authorId,
+        category: posts.category,
+        hashtags: sql<string[]>`ARRAY(
+          SELECT ${hashtags.tag} FROM ${postHashtags}
+          INNER JOIN ${hashtags} ON ${hashtags.id} = ${postHashtags.hashtagId}
+          WHERE ${postHashtags.postId} = ${posts.id}
+        )`,
+        createdAt: posts.createdAt,
+        likes: engagementCount(likes),
+        comments: engagementCount(comments),
+        shares: engagementCount(reposts),
+        saves: engagementCount(bookmarks),
+      })
       .from(posts)
-      .where(
-        and(
-          eq(posts.isPrivate, false),
-          sql`${posts.createdAt} >= NOW() - INTERVAL '7 days'`
-        )
-      )
-      .groupBy(posts.category)
-      .orderBy(sql`count(*) DESC`)
-      .limit(10);
+      .where(and(isPublicPost(), lte(posts.createdAt, before), profileVisibleTo(viewerId, posts.authorId)))
+      .orderBy(desc(posts.createdAt))
+      .limit(limit);
+
+    return rows.map(({ category, hashtags: tags, createdAt, ...row }) => ({
+      ...row,
+      topics: [...(category ? [category] : []), ...tags],
+      createdAt: createdAt ?? before,
+    }));
+  }
+
+  // Stories decay from their last update, so one with a new chapter resurfaces
+  async getSeriesCandidates(limit: number, viewerId?: string): Promise<RankingCandidate[]> {
+    const engagementCount = (table: any) =>
+      sql<number>`(SELECT count(*)::int FROM ${table} WHERE ${table.seriesId} = ${series.id})`;
+    const activeAt = sql<Date>`COALESCE(${series.updatedAt}, ${series.createdAt})`;
+
+    const rows = await db
+      .select({
+        id: series.id,
+        authorId: series.authorId,
+        genre: series.genre,
+        tags: series.tags,
+        activeAt: isoTimestamp(activeAt),
+        likes: engagementCount(seriesLikes),
+        comments: engagementCount(seriesComments),
+        bookmarks: engagementCount(seriesBookmarks),
+        followers: engagementCount(seriesFollowers),
+      })
+      .from(series)
+      .where(and(eq(series.isPrivate, false), profileVisibleTo(viewerId, series.authorId)))
+      .orderBy(sql`${activeAt} DESC NULLS LAST`)
+      .limit(limit);
+
+    return rows.map(row => ({
+      id: row.id,
+      authorId: row.authorId,
+      topics: [...(row.genre ? [row.genre] : []), ...(row.tags ?? [])],
+      createdAt: new Date(row.activeAt),
+      likes: row.likes,
+      comments: row.comments,
+      shares: 0,
+      saves: row.bookmarks + row.followers,
+    }));
+  }
+
+  async getViewerSignals(userId: string): Promise<ViewerSignals> {
+    const ENGAGEMENT_WINDOW_DAYS = 90;
+    const since = new Date(Date.now() - ENGAGEMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const followed = db
+      .select({ id: follows.followingId })
+      .from(follows)
+      .where(eq(follows.followerId, userId));
+
+    // Categories of the posts the viewer liked, commented on, reposted or bookmarked
+    const postTopics = (table: any) => db
+      .select({ topic: sql<string>`${posts.category}`, uses: sql<number>`count(*)::int` })
+      .from(table)
+      .innerJoin(posts, eq(table.postId, posts.id))
+      .where(and(eq(table.userId, userId), gte(table.createdAt, since), isNotNull(posts.category)))
+      .groupBy(posts.category);
+    // Genres of the stories they liked, bookmarked or followed
+    const seriesTopics = (table: any) => db
+      .select({ topic: sql<string>`${series.genre}`, uses: sql<number>`count(*)::int` })
+      .from(table)
+      .innerJoin(series, eq(table.seriesId, series.id))
+      .where(and(eq(table.userId, userId), gte(table.createdAt, since), isNotNull(series.genre)))
+      .groupBy(series.genre);
+
+    const [[user], followedRows, hiddenRows, secondDegree, ...topicRows] = await Promise.all([
+      db.select({ genres: users.genres, preferredGenres: users.preferredGenres }).from(users).where(eq(users.id, userId)),
+      followed,
+      db.execute<{ id: string }>(sql`SELECT id FROM ${hiddenUserIds(userId)} AS hidden (id)`),
+      db.select({ authorId: follows.followingId, followers: sql<number>`count(*)::int` })
+        .from(follows)
+        .where(and(inArray(follows.followerId, followed), ne(follows.followingId, userId)))
+        .groupBy(follows.followingId),
+      postTopics(likes),
+      postTopics(comments),
+      postTopics(reposts),
+      postTopics(bookmarks),
+      seriesTopics(seriesLikes),
+      seriesTopics(seriesBookmarks),
+      seriesTopics(seriesFollowers),
+    ]);
+
+    const topicEngagement: Record<string, number> = {};
+    for (const { topic, uses } of topicRows.flat()) {
+      topicEngagement[topic] = (topicEngagement[topic] ?? 0) + uses;
+    }
+
+    return {
+      genres: [...(user?.preferredGenres ?? []), ...(user?.genres ?? [])],
+      followedAuthorIds: followedRows.map(row => row.id),
+      hiddenAuthorIds: Array.from(hiddenRows).map(row => row.id),
+      followedByFollowing: Object.fromEntries(secondDegree.map(row => [row.authorId, row.followers])),
+      topicEngagement,
+    };
+  }
+
+  // Trending hashtags over a sliding window. Each public use counts less the
+  // older it is (halving every TRENDING_HALF_LIFE_HOURS), so a tag used a lot
+  // today outranks one used a lot last week.
+  async getTrendingTopics(limit: number = 10): Promise<TrendingHashtag[]> {
+    const TRENDING_WINDOW_DAYS = 7;
+    const TRENDING_HALF_LIFE_HOURS = 24;
+    const windowStart = new Date(Date.now() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const score = sql<number>`SUM(POWER(0.5, EXTRACT(EPOCH FROM (NOW() - ${postHashtags.createdAt})) / ${TRENDING_HALF_LIFE_HOURS * 3600}))`;
+
+    const rows = await db.select({
+        tag: hashtags.tag,
+        uses: sql<number>`count(*)::int`,
+        category: sql<string | null>`MODE() WITHIN GROUP (ORDER BY ${posts.category})`,
+        score,
+      })
+      .from(postHashtags)
+      .innerJoin(hashtags, eq(hashtags.id, postHashtags.hashtagId))
+      .innerJoin(posts, eq(posts.id, postHashtags.postId))
+      .where(and(
+        isPublicPost(),
+        gte(postHashtags.createdAt, windowStart)
+      ))
+      .groupBy(hashtags.id)
+      .orderBy(desc(score))
+      .limit(limit);
 
-    return topicData.map((item, index) => ({
+    return rows.map((row, index) => ({
       rank: index + 1,
-      category: item.category || "General",
-      hashtag: `#${(item.category || "WritersCommunity").replace(/\s+/g, '')}`,
-      posts: item.count.toLocaleString(),
+      topic: row.tag,
+      hashtag: `#${row.tag}`,
+      category: row.category || "general",
+      posts: Number(row.uses),
+      score: Number(row.score),
     }));
   }
 
+  async getPostsByHashtag(tag: string, limit: number = 20, offset: number = 0, userId?: string): Promise<any[]> {
+    return db
+      .select({
+        id: posts.id,
+        authorId: posts.authorId,
+        title: posts.title,
+        content: posts.content,
+        formattedContent: posts.formattedContent,
+        excerpt: posts.excerpt,
+        coverImageUrl: posts.coverImageUrl,
+        category: posts.category,
+        readTimeMinutes: posts.readTimeMinutes,
+        publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
+        spotifyTrackId: posts.spotifyTrackId,
+        spotifyTrackData: posts.spotifyTrackData,
+        imageUrls: posts.imageUrls,
+        isPrivate: posts.isPrivate,
+        likesCount: posts.likesCount,
+        commentsCount: posts.commentsCount,
+        repostsCount: posts.repostsCount,
+        viewsCount: posts.viewsCount,
+        createdAt: posts.createdAt,
+        updatedAt: posts.updatedAt,
+        author: {
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          profileImageUrl: users.profileImageUrl,
+          isVerified: users.isVerified,
+          isAdmin: users.isAdmin,
+          isSuperAdmin: users.isSuperAdmin,
+        },
+        isLiked: userId ? sql<boolean>`EXISTS (
+          SELECT 1 FROM ${likes}
+          WHERE ${likes.userId} = ${userId}
+          AND ${likes.postId} = ${posts.id}
+        )` : sql<boolean>`false`,
+        isBookmarked: userId ? sql<boolean>`EXISTS (
+          SELECT 1 FROM ${bookmarks}
+          WHERE ${bookmarks.userId} = ${userId}
+          AND ${bookmarks.postId} = ${posts.id}
+        )` : sql<boolean>`false`,
+        isReposted: userId ? sql<boolean>`EXISTS (
+          SELECT 1 FROM ${reposts}
+          WHERE ${reposts.userId} = ${userId}
+          AND ${reposts.postId} = ${posts.id}
+        )` : sql<boolean>`false`,
+      })
+      .from(postHashtags)
+      .innerJoin(hashtags, eq(hashtags.id, postHashtags.hashtagId))
+      .innerJoin(posts, eq(posts.id, postHashtags.postId))
+      .innerJoin(users, eq(users.id, posts.authorId))
+      .where(and(
+        eq(hashtags.tag, normalizeHashtag(tag)),
+        isPublicPost(),
+        notHiddenFrom(userId, posts.authorId),
+        profileVisibleTo(userId, posts.authorId)
+      ))
+      .orderBy(desc(posts.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getHashtagUsageCount(tag: string): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(postHashtags)
+      .innerJoin(hashtags, eq(hashtags.id, postHashtags.hashtagId))
+      .innerJoin(posts, eq(posts.id, postHashtags.postId))
+      .where(and(
+        eq(hashtags.tag, normalizeHashtag(tag)),
+        isPublicPost()
+      ));
+    return Number(result?.count || 0);
+  }
+
   async getUserStats(userId: string): Promise<{
     followersCount: number;
     followingCount: number;
@@ -1165,7 +2685,7 @@ export class DatabaseStorage implements IStorage {
       count: sql<number>`count(*)::int`
     })
       .from(posts)
-      .where(eq(posts.authorId, userId));
+      .where(and(eq(posts.authorId, userId), isPublishedPost()));
 
     const [likesResult] = await db.select({
       count: sql<number>`count(*)::int`
@@ -1258,6 +2778,9 @@ export class DatabaseStorage implements IStorage {
     if (!adminUser?.isAdmin && !adminUser?.isSuperAdmin) {
       throw new Error("Only admins can set verification status");
     }
+    if (isVerified) {
+      await this.assertCanBeVerified(targetUserId);
+    }
 
     const [user] = await db
       .update(users)
@@ -1285,10 +2808,11 @@ export class DatabaseStorage implements IStorage {
     await db.delete(posts).where(eq(posts.id, postId));
   }
 
-  // Check if user should be auto-verified (100 posts + 100 comments)
+  // Check if user should be auto-verified (100 posts + 100 comments and a
+  // confirmed email, as for badges granted by admins)
   async checkAutoVerification(userId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user || user.isVerified) return;
+    if (!user || user.isVerified || !user.emailVerifiedAt) return;
 
     if ((user.postsCount || 0) >= 100 && (user.commentsCount || 0) >= 100) {
       await db
@@ -1379,7 +2903,7 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getPopularPosts(): Promise<any[]> {
+  async getPopularPosts(viewerId?: string): Promise<any[]> {
     const result = await db
       .select({
         id: posts.id,
@@ -1389,6 +2913,8 @@ export class DatabaseStorage implements IStorage {
         category: posts.category,
         readTimeMinutes: posts.readTimeMinutes,
         publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
         likesCount: posts.likesCount,
         commentsCount: posts.commentsCount,
         repostsCount: posts.repostsCount,
@@ -1405,8 +2931,10 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(users, eq(posts.authorId, users.id))
       .where(
         and(
-          eq(posts.isPrivate, false),
-          gte(posts.createdAt, sql`NOW() - INTERVAL '7 days'`)
+          isPublicPost(),
+          gte(posts.createdAt, sql`NOW() - INTERVAL '7 days'`),
+          notHiddenFrom(viewerId, posts.authorId),
+          profileVisibleTo(viewerId, posts.authorId)
         )
       )
       .orderBy(
@@ -1417,7 +2945,7 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getPopularMusicPosts(limit: number = 20, userId?: string): Promise<(Post & { author?: User; isLiked?: boolean; isBookmarked?: boolean; isReposted?: boolean })[]> {
+  async getPopularMusicPosts(limit: number = 20, userId?: string): Promise<(Omit<Post, "author"> & { author?: FeedAuthor; isLiked?: boolean; isBookmarked?: boolean; isReposted?: boolean })[]> {
     const result = await db
       .select({
         id: posts.id,
@@ -1430,6 +2958,8 @@ export class DatabaseStorage implements IStorage {
         category: posts.category,
         readTimeMinutes: posts.readTimeMinutes,
         publishedAt: posts.publishedAt,
+        status: posts.status,
+        scheduledFor: posts.scheduledFor,
         spotifyTrackId: posts.spotifyTrackId,
         spotifyTrackData: posts.spotifyTrackData,
         imageUrls: posts.imageUrls,
@@ -1467,7 +2997,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(users, eq(posts.authorId, users.id))
       .where(
         and(
-          eq(posts.isPrivate, false),
+          isPublicPost(),
           isNotNull(posts.spotifyTrackData),
           gte(posts.createdAt, sql`NOW() - INTERVAL '7 days'`)
         )
@@ -1488,6 +3018,8 @@ export class DatabaseStorage implements IStorage {
       category: row.category,
       readTimeMinutes: row.readTimeMinutes,
       publishedAt: row.publishedAt,
+      status: row.status,
+      scheduledFor: row.scheduledFor,
       spotifyTrackId: row.spotifyTrackId,
       spotifyTrackData: row.spotifyTrackData,
       imageUrls: row.imageUrls,
@@ -1505,86 +3037,18 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async searchContent(query: string): Promise<{ users: any[]; posts: any[] }> {
-    const searchTerm = `%${query.toLowerCase()}%`;
-
-    const searchUsers = await db
-      .select({
-        id: users.id,
-        username: users.username,
-        displayName: users.displayName,
-        bio: users.bio,
-        location: users.location,
-        profileImageUrl: users.profileImageUrl,
-        genres: users.genres,
-        postsCount: users.postsCount,
-        createdAt: users.createdAt,
-        followersCount: sql<number>`(
-          SELECT COUNT(*) FROM ${follows}
-          WHERE ${follows.followingId} = ${users.id}
-        )`.as('followersCount'),
-      })
-      .from(users)
-      .where(
-        or(
-          ilike(users.displayName, searchTerm),
-          ilike(users.username, searchTerm),
-          ilike(users.bio, searchTerm),
-        )
-      )
-      .orderBy(desc(users.postsCount))
-      .limit(20);
-
-    const searchPosts = await db
-      .select({
-        id: posts.id,
-        content: posts.content,
-        excerpt: posts.excerpt,
-        coverImageUrl: posts.coverImageUrl,
-        category: posts.category,
-        readTimeMinutes: posts.readTimeMinutes,
-        publishedAt: posts.publishedAt,
-        likesCount: posts.likesCount,
-        commentsCount: posts.commentsCount,
-        repostsCount: posts.repostsCount,
-        viewsCount: posts.viewsCount,
-        createdAt: posts.createdAt,
-        author: {
-          id: users.id,
-          username: users.username,
-          displayName: users.displayName,
-          profileImageUrl: users.profileImageUrl,
-        },
-      })
-      .from(posts)
-      .innerJoin(users, eq(posts.authorId, users.id))
-      .where(
-        and(
-          eq(posts.isPrivate, false),
-          or(
-            ilike(posts.content, searchTerm),
-            ilike(posts.category, searchTerm),
-          )
-        )
-      )
-      .orderBy(desc(posts.createdAt))
-      .limit(30);
-
-    return { users: searchUsers, posts: searchPosts };
-  }
-
-  // Series management methods
-  async createSeries(seriesData: any): Promise<any> {
-    try {
-      const [newSeries] = await db.insert(series).values({
-        ...seriesData,
-        authorId: seriesData.authorId,
-        isPrivate: seriesData.isPrivate || false,
-        chaptersCount: 0,
-        followersCount: 0,
-        likesCount: 0,
-        viewsCount: 0
-      }).returning();
+  // Series management methods
+  async createSeries(seriesData: any): Promise<any> {
+    try {
+      const [newSeries] = await db.insert(series).values({
+        ...seriesData,
+        authorId: seriesData.authorId,
+        isPrivate: seriesData.isPrivate || false,
+        chaptersCount: 0,
+        followersCount: 0,
+        likesCount: 0,
+        viewsCount: 0
+      }).returning();
 
       return newSeries;
     } catch (error) {
@@ -1593,7 +3057,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getPublicSeries(limit = 20, offset = 0, genre?: string): Promise<any[]> {
+  async getPublicSeries(limit = 20, offset = 0, genre?: string, viewerId?: string): Promise<any[]> {
     try {
       let query = db.select({
         id: series.id,
@@ -1619,10 +3083,19 @@ export class DatabaseStorage implements IStorage {
       })
         .from(series)
         .leftJoin(users, eq(series.authorId, users.id))
-        .where(eq(series.isPrivate, false));
+        .where(and(
+          eq(series.isPrivate, false),
+          notHiddenFrom(viewerId, series.authorId),
+          profileVisibleTo(viewerId, series.authorId)
+        ));
 
       if (genre) {
-        query = query.where(and(eq(series.isPrivate, false), eq(series.genre, genre)));
+        query = query.where(and(
+          eq(series.isPrivate, false),
+          eq(series.genre, genre),
+          notHiddenFrom(viewerId, series.authorId),
+          profileVisibleTo(viewerId, series.authorId)
+        ));
       }
 
       const result = await query
@@ -1672,7 +3145,11 @@ export class DatabaseStorage implements IStorage {
           WHERE ${seriesFollowers.userId} = ${userId}
           AND ${seriesFollowers.seriesId} = ${series.id}
         )` : sql<boolean>`false`,
-        isBookmarked: userId ? sql<boolean>`false` : sql<boolean>`false` // TODO: Implement series bookmarks
+        isBookmarked: userId ? sql<boolean>`EXISTS (
+          SELECT 1 FROM ${seriesBookmarks}
+          WHERE ${seriesBookmarks.userId} = ${userId}
+          AND ${seriesBookmarks.seriesId} = ${series.id}
+        )` : sql<boolean>`false`
       })
       .from(series)
       .leftJoin(users, eq(series.authorId, users.id))
@@ -1689,16 +3166,38 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // series.chaptersCount only counts chapters readers can see
+  // New chapters go at the end. The series row is locked while the next
+  // number is picked, so two chapters added at once can't share one.
   async createChapter(chapterData: any): Promise<any> {
-    const [newChapter] = await db.insert(chapters).values(chapterData).returning();
-    await db
-      .update(series)
-      .set({ chaptersCount: sql`${series.chaptersCount} + 1` })
-      .where(eq(series.id, chapterData.seriesId));
+    const newChapter = await db.transaction(async (tx) => {
+      await tx.select({ id: series.id })
+        .from(series)
+        .where(eq(series.id, chapterData.seriesId))
+        .for("update");
+      const [{ last }] = await tx.select({ last: sql<number>`COALESCE(MAX(${chapters.chapterNumber}), 0)::int` })
+        .from(chapters)
+        .where(eq(chapters.seriesId, chapterData.seriesId));
+
+      const [created] = await tx.insert(chapters)
+        .values({ ...chapterData, chapterNumber: last + 1 })
+        .returning();
+      return created;
+    });
+    if (newChapter.isPublished) {
+      await this.adjustChaptersCount(newChapter.seriesId, 1);
+    }
 
     return newChapter;
   }
 
+  private async adjustChaptersCount(seriesId: string, delta: number): Promise<void> {
+    await db
+      .update(series)
+      .set({ chaptersCount: sql`${series.chaptersCount} + ${delta}` })
+      .where(eq(series.id, seriesId));
+  }
+
   async getChapterById(chapterId: string): Promise<any> {
     try {
       const [chapter] = await db.select()
@@ -1722,11 +3221,93 @@ export class DatabaseStorage implements IStorage {
     return updatedChapter;
   }
 
-  async getSeriesChapters(seriesId: string): Promise<any[]> {
+  // An explicit save by the author: keeps the title and content being
+  // replaced as a "save" revision when either changes
+  async editChapter(chapterId: string, editorId: string, chapterData: any): Promise<any> {
+    const current = await this.getChapterById(chapterId);
+    const isChanged = current && (
+      (chapterData.title !== undefined && chapterData.title !== current.title) ||
+      (chapterData.content !== undefined && chapterData.content !== current.content)
+    );
+    if (isChanged) {
+      await this.createChapterRevision({
+        chapterId,
+        editorId,
+        kind: "save",
+        title: current.title,
+        content: current.content,
+        wordCount: current.wordCount,
+      });
+    }
+    return this.updateChapter(chapterId, chapterData);
+  }
+
+  // Autosaves that repeat the latest revision are skipped (returning
+  // undefined), and each new one prunes the chapter's oldest
+  async createChapterRevision(revision: NewChapterRevision): Promise<ChapterRevision | undefined> {
+    const isAutosave = revision.kind === "autosave";
+    if (isAutosave) {
+      const [latest] = await db
+        .select({ title: chapterRevisions.title, content: chapterRevisions.content })
+        .from(chapterRevisions)
+        .where(eq(chapterRevisions.chapterId, revision.chapterId))
+        .orderBy(desc(chapterRevisions.createdAt))
+        .limit(1);
+      if (latest && latest.title === revision.title && latest.content === revision.content) {
+        return undefined;
+      }
+    }
+
+    const [created] = await db.insert(chapterRevisions).values(revision).returning();
+
+    if (isAutosave) {
+      const kept = db
+        .select({ id: chapterRevisions.id })
+        .from(chapterRevisions)
+        .where(and(eq(chapterRevisions.chapterId, revision.chapterId), eq(chapterRevisions.kind, "autosave")))
+        .orderBy(desc(chapterRevisions.createdAt))
+        .limit(CHAPTER_AUTOSAVE_LIMIT);
+      await db.delete(chapterRevisions).where(and(
+        eq(chapterRevisions.chapterId, revision.chapterId),
+        eq(chapterRevisions.kind, "autosave"),
+        notInArray(chapterRevisions.id, kept)
+      ));
+    }
+    return created;
+  }
+
+  async getChapterRevisions(chapterId: string): Promise<ChapterRevisionSummary[]> {
+    return db
+      .select({
+        id: chapterRevisions.id,
+        chapterId: chapterRevisions.chapterId,
+        editorId: chapterRevisions.editorId,
+        kind: chapterRevisions.kind,
+        name: chapterRevisions.name,
+        title: chapterRevisions.title,
+        wordCount: chapterRevisions.wordCount,
+        createdAt: chapterRevisions.createdAt,
+      })
+      .from(chapterRevisions)
+      .where(eq(chapterRevisions.chapterId, chapterId))
+      .orderBy(desc(chapterRevisions.createdAt));
+  }
+
+  async getChapterRevision(revisionId: string): Promise<ChapterRevision | undefined> {
+    const [revision] = await db.select().from(chapterRevisions).where(eq(chapterRevisions.id, revisionId));
+    return revision;
+  }
+
+  // Readers get published chapters only; the author also sees drafts and
+  // scheduled ones
+  async getSeriesChapters(seriesId: string, includeUnpublished = false): Promise<any[]> {
     try {
       const result = await db.select()
         .from(chapters)
-        .where(eq(chapters.seriesId, seriesId))
+        .where(and(
+          eq(chapters.seriesId, seriesId),
+          includeUnpublished ? undefined : eq(chapters.isPublished, true)
+        ))
         .orderBy(asc(chapters.chapterNumber));
 
       return result;
@@ -1736,6 +3317,36 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDueScheduledChapterIds(now: Date): Promise<string[]> {
+    const rows = await db
+      .select({ id: chapters.id })
+      .from(chapters)
+      .where(and(eq(chapters.isPublished, false), lte(chapters.scheduledFor, now)));
+    return rows.map(row => row.id);
+  }
+
+  // Releases a draft or scheduled chapter. Returns undefined if it was
+  // already published, so concurrent callers announce it only once.
+  async publishChapter(chapterId: string, now: Date = new Date()): Promise<Chapter | undefined> {
+    const [chapter] = await db
+      .update(chapters)
+      .set({ isPublished: true, publishedAt: now, scheduledFor: null, updatedAt: now })
+      .where(and(eq(chapters.id, chapterId), eq(chapters.isPublished, false)))
+      .returning();
+    if (!chapter) return undefined;
+
+    await this.adjustChaptersCount(chapter.seriesId, 1);
+    return chapter;
+  }
+
+  async getSeriesFollowerIds(seriesId: string): Promise<string[]> {
+    const rows = await db
+      .select({ userId: seriesFollowers.userId })
+      .from(seriesFollowers)
+      .where(eq(seriesFollowers.seriesId, seriesId));
+    return rows.map(row => row.userId);
+  }
+
   async followSeries(userId: string, seriesId: string): Promise<any> {
     const [follow] = await db.insert(seriesFollowers).values({ userId, seriesId }).returning();
     await db
@@ -1795,36 +3406,40 @@ export class DatabaseStorage implements IStorage {
     await db.delete(series).where(eq(series.id, seriesId));
   }
 
-  async updateReadingProgress(userId: string, seriesId: string, chapterIndex: number): Promise<void> {
-    const totalChapters = await db.select({ count: sql<number>`count(*)` })
+  // Series progress counts finished chapters plus the fraction scrolled through
+  // the current one, so reaching the end of the last chapter is exactly 100%.
+  async updateReadingProgress(userId: string, seriesId: string, update: ReadingProgressUpdate): Promise<ReadingProgress> {
+    const seriesChapters = await db.select({ id: chapters.id })
       .from(chapters)
-      .where(eq(chapters.seriesId, seriesId));
+      .where(and(eq(chapters.seriesId, seriesId), eq(chapters.isPublished, true)))
+      .orderBy(asc(chapters.chapterNumber));
 
-    const progressPercentage = totalChapters[0]?.count > 0
-      ? Math.round(((chapterIndex + 1) / totalChapters[0].count) * 100)
+    const chapterIndex = seriesChapters.findIndex(chapter => chapter.id === update.chapterId);
+    const scrollPercentage = Math.max(0, Math.min(100, Math.round(update.scrollPercentage)));
+    const progressPercentage = seriesChapters.length > 0 && chapterIndex >= 0
+      ? Math.round(((chapterIndex + scrollPercentage / 100) / seriesChapters.length) * 100)
       : 0;
 
-    await db
+    const values = {
+      lastChapterId: update.chapterId,
+      scrollPercentage,
+      paragraphIndex: Math.max(0, update.paragraphIndex),
+      progressPercentage,
+      lastReadAt: new Date(),
+    };
+
+    const [progress] = await db
       .insert(readingProgress)
-      .values({
-        userId,
-        seriesId,
-        lastChapterIndex: chapterIndex,
-        progressPercentage,
-        lastReadAt: new Date(),
-      })
+      .values({ userId, seriesId, ...values })
       .onConflictDoUpdate({
         target: [readingProgress.userId, readingProgress.seriesId],
-        set: {
-          lastChapterIndex: chapterIndex,
-          progressPercentage,
-          lastReadAt: new Date(),
-          updatedAt: new Date()
-        }
-      });
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return progress;
   }
 
-  async getReadingProgress(userId: string, seriesId: string): Promise<any> {
+  async getReadingProgress(userId: string, seriesId: string): Promise<ReadingProgress | undefined> {
     const [progress] = await db.select()
       .from(readingProgress)
       .where(and(
@@ -1835,35 +3450,373 @@ export class DatabaseStorage implements IStorage {
     return progress;
   }
 
-  async getSeriesComments(seriesId: string): Promise<any[]> {
-    return [];
+  async getSeriesComments(seriesId: string, userId?: string): Promise<SeriesComment[]> {
+    const baseComments = await db.select({
+      id: seriesComments.id,
+      userId: seriesComments.userId,
+      seriesId: seriesComments.seriesId,
+      content: seriesComments.content,
+      parentId: seriesComments.parentId,
+      level: seriesComments.level,
+      likesCount: seriesComments.likesCount,
+      createdAt: seriesComments.createdAt,
+      updatedAt: seriesComments.updatedAt,
+      author: {
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        profileImageUrl: users.profileImageUrl,
+        isVerified: users.isVerified,
+      }
+    })
+      .from(seriesComments)
+      .leftJoin(users, eq(seriesComments.userId, users.id))
+      .where(eq(seriesComments.seriesId, seriesId))
+      .orderBy(asc(seriesComments.createdAt));
+
+    if (!userId || baseComments.length === 0) {
+      return baseComments;
+    }
+
+    const userLikes = await db.select({ commentId: seriesCommentLikes.commentId })
+      .from(seriesCommentLikes)
+      .where(
+        and(
+          eq(seriesCommentLikes.userId, userId),
+          inArray(seriesCommentLikes.commentId, baseComments.map(c => c.id))
+        )
+      );
+
+    const likedCommentIds = new Set(userLikes.map(like => like.commentId));
+    return baseComments.map(comment => ({
+      ...comment,
+      isLiked: likedCommentIds.has(comment.id)
+    }));
+  }
+
+  async getSeriesComment(commentId: string): Promise<SeriesComment | undefined> {
+    const [comment] = await db.select().from(seriesComments).where(eq(seriesComments.id, commentId));
+    return comment;
   }
 
-  async createSeriesComment(userId: string, seriesId: string, content: string): Promise<any> {
-    return {
-      id: crypto.randomUUID(),
-      userId,
-      seriesId,
-      content,
-      createdAt: new Date()
-    };
+  async createSeriesComment(comment: InsertSeriesComment): Promise<SeriesComment> {
+    // Replies sit one level below their parent, capped like post comment threads
+    let level = 0;
+    if (comment.parentId) {
+      const parent = await this.getSeriesComment(comment.parentId);
+      level = parent ? Math.min((parent.level || 0) + 1, 5) : 0;
+    }
+
+    const [newComment] = await db.insert(seriesComments).values({ ...comment, level }).returning();
+    await db
+      .update(users)
+      .set({ commentsCount: sql`${users.commentsCount} + 1` })
+      .where(eq(users.id, comment.userId));
+    await this.checkAutoVerification(comment.userId);
+    return newComment;
+  }
+
+  async likeSeriesComment(userId: string, commentId: string): Promise<void> {
+    await db
+      .insert(seriesCommentLikes)
+      .values({ userId, commentId })
+      .onConflictDoNothing();
+    await db
+      .update(seriesComments)
+      .set({ likesCount: sql`${seriesComments.likesCount} + 1` })
+      .where(eq(seriesComments.id, commentId));
+  }
+
+  async unlikeSeriesComment(userId: string, commentId: string): Promise<void> {
+    await db
+      .delete(seriesCommentLikes)
+      .where(and(eq(seriesCommentLikes.userId, userId), eq(seriesCommentLikes.commentId, commentId)));
+    await db
+      .update(seriesComments)
+      .set({ likesCount: sql`GREATEST(${seriesComments.likesCount} - 1, 0)` })
+      .where(eq(seriesComments.id, commentId));
+  }
+
+  async hasUserLikedSeriesComment(userId: string, commentId: string): Promise<boolean> {
+    const [like] = await db
+      .select()
+      .from(seriesCommentLikes)
+      .where(and(eq(seriesCommentLikes.userId, userId), eq(seriesCommentLikes.commentId, commentId)));
+    return !!like;
+  }
+
+  // Chapter comments. Without a paragraphIndex only chapter-level (unanchored)
+  // comments are returned; with one, the annotations on that paragraph.
+  async getChapterComments(chapterId: string, userId?: string, paragraphIndex?: number): Promise<ChapterComment[]> {
+    const baseComments = await db.select({
+      id: chapterComments.id,
+      userId: chapterComments.userId,
+      chapterId: chapterComments.chapterId,
+      content: chapterComments.content,
+      parentId: chapterComments.parentId,
+      level: chapterComments.level,
+      likesCount: chapterComments.likesCount,
+      paragraphIndex: chapterComments.paragraphIndex,
+      anchorStart: chapterComments.anchorStart,
+      anchorEnd: chapterComments.anchorEnd,
+      anchorText: chapterComments.anchorText,
+      createdAt: chapterComments.createdAt,
+      updatedAt: chapterComments.updatedAt,
+      author: {
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        profileImageUrl: users.profileImageUrl,
+        isVerified: users.isVerified,
+      }
+    })
+      .from(chapterComments)
+      .leftJoin(users, eq(chapterComments.userId, users.id))
+      .where(and(
+        eq(chapterComments.chapterId, chapterId),
+        paragraphIndex === undefined
+          ? isNull(chapterComments.paragraphIndex)
+          : eq(chapterComments.paragraphIndex, paragraphIndex)
+      ))
+      .orderBy(asc(chapterComments.createdAt));
+
+    if (!userId || baseComments.length === 0) {
+      return baseComments;
+    }
+
+    const userLikes = await db.select({ commentId: chapterCommentLikes.commentId })
+      .from(chapterCommentLikes)
+      .where(
+        and(
+          eq(chapterCommentLikes.userId, userId),
+          inArray(chapterCommentLikes.commentId, baseComments.map(c => c.id))
+        )
+      );
+
+    const likedCommentIds = new Set(userLikes.map(like => like.commentId));
+    return baseComments.map(comment => ({
+      ...comment,
+      isLiked: likedCommentIds.has(comment.id)
+    }));
+  }
+
+  async getChapterComment(commentId: string): Promise<ChapterComment | undefined> {
+    const [comment] = await db.select().from(chapterComments).where(eq(chapterComments.id, commentId));
+    return comment;
+  }
+
+  // Comment counts per paragraph, for the margin markers in the reader
+  async getChapterParagraphCommentCounts(chapterId: string): Promise<Record<number, number>> {
+    const rows = await db.select({
+      paragraphIndex: chapterComments.paragraphIndex,
+      count: count(),
+    })
+      .from(chapterComments)
+      .where(and(eq(chapterComments.chapterId, chapterId), isNotNull(chapterComments.paragraphIndex)))
+      .groupBy(chapterComments.paragraphIndex);
+
+    const counts: Record<number, number> = {};
+    rows.forEach(row => {
+      counts[row.paragraphIndex!] = Number(row.count);
+    });
+    return counts;
+  }
+
+  async createChapterComment(comment: InsertChapterComment): Promise<ChapterComment> {
+    let values = { ...comment, level: 0 };
+    if (comment.parentId) {
+      const parent = await this.getChapterComment(comment.parentId);
+      if (parent) {
+        // Replies stay on the same passage as the comment they answer
+        values = {
+          ...values,
+          level: Math.min((parent.level || 0) + 1, 5),
+          paragraphIndex: parent.paragraphIndex,
+          anchorStart: parent.anchorStart,
+          anchorEnd: parent.anchorEnd,
+          anchorText: parent.anchorText,
+        };
+      }
+    }
+
+    const [newComment] = await db.insert(chapterComments).values(values).returning();
+    await db
+      .update(chapters)
+      .set({ commentsCount: sql`${chapters.commentsCount} + 1` })
+      .where(eq(chapters.id, comment.chapterId));
+    await db
+      .update(users)
+      .set({ commentsCount: sql`${users.commentsCount} + 1` })
+      .where(eq(users.id, comment.userId));
+    await this.checkAutoVerification(comment.userId);
+    return newComment;
+  }
+
+  async updateChapterComment(commentId: string, content: string): Promise<ChapterComment> {
+    const [updated] = await db
+      .update(chapterComments)
+      .set({ content, updatedAt: new Date() })
+      .where(eq(chapterComments.id, commentId))
+      .returning();
+    return updated;
+  }
+
+  async deleteChapterComment(commentId: string): Promise<void> {
+    const comment = await this.getChapterComment(commentId);
+    if (!comment) return;
+
+    // parentId has no foreign key, so collect the whole reply subtree first
+    const ids = [commentId];
+    let frontier = [commentId];
+    while (frontier.length > 0) {
+      const replies = await db.select({ id: chapterComments.id })
+        .from(chapterComments)
+        .where(inArray(chapterComments.parentId, frontier));
+      frontier = replies.map(r => r.id);
+      ids.push(...frontier);
+    }
+
+    await db.delete(chapterComments).where(inArray(chapterComments.id, ids));
+    await db
+      .update(chapters)
+      .set({ commentsCount: sql`GREATEST(${chapters.commentsCount} - ${ids.length}, 0)` })
+      .where(eq(chapters.id, comment.chapterId));
+  }
+
+  async likeChapterComment(userId: string, commentId: string): Promise<void> {
+    await db
+      .insert(chapterCommentLikes)
+      .values({ userId, commentId })
+      .onConflictDoNothing();
+    await db
+      .update(chapterComments)
+      .set({ likesCount: sql`${chapterComments.likesCount} + 1` })
+      .where(eq(chapterComments.id, commentId));
+  }
+
+  async unlikeChapterComment(userId: string, commentId: string): Promise<void> {
+    await db
+      .delete(chapterCommentLikes)
+      .where(and(eq(chapterCommentLikes.userId, userId), eq(chapterCommentLikes.commentId, commentId)));
+    await db
+      .update(chapterComments)
+      .set({ likesCount: sql`GREATEST(${chapterComments.likesCount} - 1, 0)` })
+      .where(eq(chapterComments.id, commentId));
+  }
+
+  async hasUserLikedChapterComment(userId: string, commentId: string): Promise<boolean> {
+    const [like] = await db
+      .select()
+      .from(chapterCommentLikes)
+      .where(and(eq(chapterCommentLikes.userId, userId), eq(chapterCommentLikes.commentId, commentId)));
+    return !!like;
   }
 
   async isSeriesBookmarked(userId: string, seriesId: string): Promise<boolean> {
-    return false;
+    const [bookmark] = await db
+      .select()
+      .from(seriesBookmarks)
+      .where(and(eq(seriesBookmarks.userId, userId), eq(seriesBookmarks.seriesId, seriesId)));
+    return !!bookmark;
   }
 
-  async bookmarkSeries(userId: string, seriesId: string): Promise<any> {
-    return {
-      id: crypto.randomUUID(),
-      userId,
-      seriesId,
-      createdAt: new Date()
-    };
+  async bookmarkSeries(userId: string, seriesId: string): Promise<SeriesBookmark> {
+    const [bookmark] = await db
+      .insert(seriesBookmarks)
+      .values({ userId, seriesId })
+      .onConflictDoUpdate({
+        target: [seriesBookmarks.userId, seriesBookmarks.seriesId],
+        set: { createdAt: new Date() },
+      })
+      .returning();
+    return bookmark;
   }
 
   async removeSeriesBookmark(userId: string, seriesId: string): Promise<void> {
-    // Do nothing
+    await db
+      .delete(seriesBookmarks)
+      .where(and(eq(seriesBookmarks.userId, userId), eq(seriesBookmarks.seriesId, seriesId)));
+  }
+
+  // Reading library: every story the user has bookmarked or started. Stories
+  // with progress are "reading" until the last chapter of a completed story is
+  // reached; bookmarked stories without progress are "want to read".
+  async getReadingLibrary(userId: string): Promise<LibraryEntry[]> {
+    const seriesFields = {
+      id: series.id,
+      authorId: series.authorId,
+      title: series.title,
+      description: series.description,
+      coverImageUrl: series.coverImageUrl,
+      genre: series.genre,
+      tags: series.tags,
+      isCompleted: series.isCompleted,
+      isPrivate: series.isPrivate,
+      viewsCount: series.viewsCount,
+      likesCount: series.likesCount,
+      chaptersCount: series.chaptersCount,
+      followersCount: series.followersCount,
+      createdAt: series.createdAt,
+      updatedAt: series.updatedAt,
+    };
+    const authorFields = {
+      id: users.id,
+      username: users.username,
+      displayName: users.displayName,
+      profileImageUrl: users.profileImageUrl,
+    };
+
+    const [bookmarked, inProgress] = await Promise.all([
+      db.select({ series: seriesFields, author: authorFields, bookmarkedAt: seriesBookmarks.createdAt })
+        .from(seriesBookmarks)
+        .innerJoin(series, eq(seriesBookmarks.seriesId, series.id))
+        .leftJoin(users, eq(series.authorId, users.id))
+        .where(eq(seriesBookmarks.userId, userId)),
+      db.select({
+        series: seriesFields,
+        author: authorFields,
+        progressPercentage: readingProgress.progressPercentage,
+        lastChapterId: readingProgress.lastChapterId,
+        paragraphIndex: readingProgress.paragraphIndex,
+        lastReadAt: readingProgress.lastReadAt,
+      })
+        .from(readingProgress)
+        .innerJoin(series, eq(readingProgress.seriesId, series.id))
+        .leftJoin(users, eq(series.authorId, users.id))
+        .where(eq(readingProgress.userId, userId)),
+    ]);
+
+    const entries = new Map<string, LibraryEntry>();
+
+    bookmarked.forEach(row => {
+      entries.set(row.series.id, {
+        shelf: "want_to_read",
+        series: { ...row.series, author: row.author },
+        isBookmarked: true,
+        bookmarkedAt: row.bookmarkedAt,
+        progressPercentage: 0,
+        lastChapterId: null,
+        paragraphIndex: 0,
+        lastReadAt: null,
+      });
+    });
+
+    inProgress.forEach(row => {
+      const progressPercentage = row.progressPercentage || 0;
+      const existing = entries.get(row.series.id);
+      entries.set(row.series.id, {
+        shelf: progressPercentage >= 100 && row.series.isCompleted ? "finished" : "reading",
+        series: { ...row.series, author: row.author },
+        isBookmarked: !!existing,
+        bookmarkedAt: existing?.bookmarkedAt ?? null,
+        progressPercentage,
+        lastChapterId: row.lastChapterId,
+        paragraphIndex: row.paragraphIndex || 0,
+        lastReadAt: row.lastReadAt,
+      });
+    });
+
+    return Array.from(entries.values());
   }
 
   async updateSeries(seriesId: string, updateData: any): Promise<any> {
@@ -1890,16 +3843,24 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Later chapters move up to close the gap
   async deleteChapter(chapterId: string): Promise<void> {
     try {
       const chapter = await this.getChapterById(chapterId);
-      await db.delete(chapters)
-        .where(eq(chapters.id, chapterId));
-      if (chapter) {
-        await db
-          .update(series)
-          .set({ chaptersCount: sql`${series.chaptersCount} - 1` })
-          .where(eq(series.id, chapter.seriesId));
+      if (!chapter) return;
+
+      await db.transaction(async (tx) => {
+        await tx.delete(chapters)
+          .where(eq(chapters.id, chapterId));
+        const remaining = await tx.select({ id: chapters.id })
+          .from(chapters)
+          .where(eq(chapters.seriesId, chapter.seriesId))
+          .orderBy(asc(chapters.chapterNumber), asc(chapters.createdAt))
+          .for("update");
+        await this.renumberChapters(tx, chapter.seriesId, remaining.map(row => row.id));
+      });
+      if (chapter.isPublished) {
+        await this.adjustChaptersCount(chapter.seriesId, -1);
       }
     } catch (error) {
       console.error("Error deleting chapter:", error);
@@ -1907,18 +3868,105 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async reactToSeries(userId: string, seriesId: string, reaction: string): Promise<any> {
-    return {
-      id: crypto.randomUUID(),
-      userId,
-      seriesId,
-      reaction,
-      createdAt: new Date()
-    };
+  // Numbers a story's chapters 1..n in the given order, which must list each
+  // of its chapters exactly once. Returns undefined when it doesn't.
+  async reorderChapters(seriesId: string, chapterIds: string[]): Promise<Chapter[] | undefined> {
+    return db.transaction(async (tx) => {
+      const existing = await tx.select({ id: chapters.id })
+        .from(chapters)
+        .where(eq(chapters.seriesId, seriesId))
+        .for("update");
+      const existingIds = new Set(existing.map(row => row.id));
+      const isSameSet = chapterIds.length === existingIds.size &&
+        new Set(chapterIds).size === chapterIds.length &&
+        chapterIds.every(id => existingIds.has(id));
+      if (!isSameSet) return undefined;
+
+      await this.renumberChapters(tx, seriesId, chapterIds);
+      return tx.select()
+        .from(chapters)
+        .where(eq(chapters.seriesId, seriesId))
+        .orderBy(asc(chapters.chapterNumber));
+    });
+  }
+
+  // Reading progress keeps pointing at the same chapter by id; only the
+  // series-wide percentages, which depend on chapter positions, are redone
+  private async renumberChapters(tx: Transaction, seriesId: string, orderedIds: string[]): Promise<void> {
+    if (orderedIds.length === 0) return;
+
+    const numbers = sql.join(orderedIds.map((id, index) => sql`(${id}::uuid, ${index + 1}::int)`), sql`, `);
+    await tx.execute(sql`
+      UPDATE ${chapters} SET chapter_number = numbered.chapter_number
+      FROM (VALUES ${numbers}) AS numbered(id, chapter_number)
+      WHERE ${chapters.id} = numbered.id AND ${chapters.seriesId} = ${seriesId}
+    `);
+
+    await tx.execute(sql`
+      UPDATE ${readingProgress} SET progress_percentage = ROUND(
+        ((positions.position - 1) + COALESCE(${readingProgress.scrollPercentage}, 0) / 100.0) / positions.total * 100
+      )
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (ORDER BY chapter_number) AS position, COUNT(*) OVER () AS total
+        FROM ${chapters}
+        WHERE ${chapters.seriesId} = ${seriesId} AND ${chapters.isPublished}
+      ) AS positions
+      WHERE ${readingProgress.seriesId} = ${seriesId} AND ${readingProgress.lastChapterId} = positions.id
+    `);
+  }
+
+  // Series reactions. chapterId undefined means the story-level reaction.
+  private reactionScope(seriesId: string, chapterId?: string) {
+    return and(
+      eq(seriesReactions.seriesId, seriesId),
+      chapterId ? eq(seriesReactions.chapterId, chapterId) : isNull(seriesReactions.chapterId)
+    );
+  }
+
+  async getSeriesReaction(userId: string, seriesId: string, chapterId?: string): Promise<SeriesReaction | undefined> {
+    const [reaction] = await db
+      .select()
+      .from(seriesReactions)
+      .where(and(eq(seriesReactions.userId, userId), this.reactionScope(seriesId, chapterId)));
+    return reaction;
+  }
+
+  async reactToSeries(userId: string, seriesId: string, reaction: SeriesReactionType, chapterId?: string): Promise<SeriesReaction> {
+    const [saved] = await db
+      .insert(seriesReactions)
+      .values({ userId, seriesId, chapterId: chapterId ?? null, reaction })
+      .onConflictDoUpdate({
+        target: [seriesReactions.userId, seriesReactions.seriesId, seriesReactions.chapterId],
+        set: { reaction, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeSeriesReaction(userId: string, seriesId: string, chapterId?: string): Promise<void> {
+    await db
+      .delete(seriesReactions)
+      .where(and(eq(seriesReactions.userId, userId), this.reactionScope(seriesId, chapterId)));
+  }
+
+  async getSeriesReactionCounts(seriesId: string, chapterId?: string): Promise<ReactionCounts> {
+    const rows = await db
+      .select({ reaction: seriesReactions.reaction, count: count() })
+      .from(seriesReactions)
+      .where(this.reactionScope(seriesId, chapterId))
+      .groupBy(seriesReactions.reaction);
+
+    const counts = Object.fromEntries(SERIES_REACTIONS.map(r => [r, 0])) as ReactionCounts;
+    rows.forEach(row => {
+      if (row.reaction in counts) {
+        counts[row.reaction as SeriesReactionType] = Number(row.count);
+      }
+    });
+    return counts;
   }
 
   // Leaderboard methods
-  async getTopPostsByLikes(limit: number = 20): Promise<any[]> {
+  async getTopPostsByLikes(limit: number = 20, viewerId?: string): Promise<any[]> {
     const topPosts = await db
       .select({
         id: posts.id,
@@ -1951,6 +3999,11 @@ export class DatabaseStorage implements IStorage {
       .from(posts)
       .leftJoin(likes, eq(likes.postId, posts.id))
       .leftJoin(users, eq(users.id, posts.authorId))
+      .where(and(
+        isPublicPost(),
+        notHiddenFrom(viewerId, posts.authorId),
+        profileVisibleTo(viewerId, posts.authorId)
+      ))
       .groupBy(posts.id, users.id)
       .having(sql`COUNT(${likes.id}) > 0`)
       .orderBy(desc(sql`COUNT(${likes.id})`))
@@ -1959,7 +4012,7 @@ export class DatabaseStorage implements IStorage {
     return topPosts;
   }
 
-  async getTopStoriesByLikes(limit: number = 20): Promise<any[]> {
+  async getTopStoriesByLikes(limit: number = 20, viewerId?: string): Promise<any[]> {
     const topStories = await db
       .select({
         id: series.id,
@@ -1972,7 +4025,7 @@ export class DatabaseStorage implements IStorage {
         createdAt: series.createdAt,
         likesCount: sql<number>`COUNT(${seriesLikes.id})`,
         chaptersCount: sql<number>`(
-          SELECT COUNT(*) FROM ${chapters} WHERE ${chapters.seriesId} = ${series.id}
+          SELECT COUNT(*) FROM ${chapters} WHERE ${chapters.seriesId} = ${series.id} AND ${chapters.isPublished}
         )`,
         followersCount: sql<number>`(
           SELECT COUNT(*) FROM ${seriesFollowers} WHERE ${seriesFollowers.seriesId} = ${series.id}
@@ -1989,6 +4042,11 @@ export class DatabaseStorage implements IStorage {
       .from(series)
       .leftJoin(seriesLikes, eq(seriesLikes.seriesId, series.id))
       .leftJoin(users, eq(users.id, series.authorId))
+      .where(and(
+        eq(series.isPrivate, false),
+        notHiddenFrom(viewerId, series.authorId),
+        profileVisibleTo(viewerId, series.authorId)
+      ))
       .groupBy(series.id, users.id)
       .having(sql`COUNT(${seriesLikes.id}) > 0`)
       .orderBy(desc(sql`COUNT(${seriesLikes.id})`))
@@ -2024,6 +4082,166 @@ export class DatabaseStorage implements IStorage {
     return topAuthors;
   }
 
+  // Per-user scores for a leaderboard category over [periodStart, periodEnd).
+  // Writing streaks are a point-in-time value, so every period ranks the
+  // current streak.
+  private async getLeaderboardScores(category: LeaderboardCategory, periodStart: Date, periodEnd: Date): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    const add = (rows: { userId: string | null; score: number | null }[]) => {
+      rows.forEach(row => {
+        if (row.userId && Number(row.score) > 0) {
+          scores.set(row.userId, (scores.get(row.userId) || 0) + Number(row.score));
+        }
+      });
+    };
+    const inWindow = (column: any) => and(gte(column, periodStart), lt(column, periodEnd));
+
+    switch (category) {
+      case "words_written": {
+        add(await db.select({
+            userId: series.authorId,
+            score: sql<number>`COALESCE(SUM(${chapters.wordCount}), 0)`,
+          })
+          .from(chapters)
+          .innerJoin(series, eq(series.id, chapters.seriesId))
+          .where(and(eq(chapters.isPublished, true), inWindow(chapters.createdAt)))
+          .groupBy(series.authorId));
+        add(await db.select({
+            userId: posts.authorId,
+            score: sql<number>`COALESCE(SUM(array_length(regexp_split_to_array(trim(${posts.content}), '[[:space:]]+'), 1)), 0)`,
+          })
+          .from(posts)
+          .where(and(isPublicPost(), inWindow(posts.createdAt)))
+          .groupBy(posts.authorId));
+        break;
+      }
+      case "likes_received": {
+        add(await db.select({ userId: posts.authorId, score: count(likes.id) })
+          .from(likes)
+          .innerJoin(posts, eq(posts.id, likes.postId))
+          .where(inWindow(likes.createdAt))
+          .groupBy(posts.authorId));
+        add(await db.select({ userId: series.authorId, score: count(seriesLikes.id) })
+          .from(seriesLikes)
+          .innerJoin(series, eq(series.id, seriesLikes.seriesId))
+          .where(inWindow(seriesLikes.createdAt))
+          .groupBy(series.authorId));
+        break;
+      }
+      case "series_followers": {
+        add(await db.select({ userId: series.authorId, score: count(seriesFollowers.id) })
+          .from(seriesFollowers)
+          .innerJoin(series, eq(series.id, seriesFollowers.seriesId))
+          .where(inWindow(seriesFollowers.createdAt))
+          .groupBy(series.authorId));
+        break;
+      }
+      case "writing_streak": {
+        add(await db.select({ userId: users.id, score: users.writingStreak })
+          .from(users)
+          .where(sql`${users.writingStreak} > 0`));
+        break;
+      }
+    }
+
+    return scores;
+  }
+
+  // Recomputes one snapshot (category, period, periodEnd) from scratch and
+  // returns the number of ranked users. Ties share a rank.
+  async snapshotLeaderboard(category: LeaderboardCategory, period: LeaderboardPeriod, periodStart: Date, periodEnd: Date): Promise<number> {
+    const scores = await this.getLeaderboardScores(category, periodStart, periodEnd);
+    const sorted = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+
+    const now = new Date();
+    let rank = 0;
+    const rows = sorted.map(([userId, score], index) => {
+      if (index === 0 || score < sorted[index - 1][1]) rank = index + 1;
+      return { userId, category, period, score, rank, periodStart, periodEnd, updatedAt: now };
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.delete(leaderboards).where(and(
+        eq(leaderboards.category, category),
+        eq(leaderboards.period, period),
+        eq(leaderboards.periodEnd, periodEnd)
+      ));
+      // Stay well under postgres' bind parameter limit
+      for (let i = 0; i < rows.length; i += 500) {
+        await tx.insert(leaderboards).values(rows.slice(i, i + 500));
+      }
+    });
+
+    return rows.length;
+  }
+
+  // Latest snapshot for a category and period, with each user's rank in the
+  // snapshot before it
+  async getLeaderboard(category: LeaderboardCategory, period: LeaderboardPeriod, limit: number = 20): Promise<LeaderboardSnapshot> {
+    const snapshots = await db.selectDistinct({
+        periodStart: leaderboards.periodStart,
+        periodEnd: leaderboards.periodEnd,
+      })
+      .from(leaderboards)
+      .where(and(eq(leaderboards.category, category), eq(leaderboards.period, period)))
+      .orderBy(desc(leaderboards.periodEnd))
+      .limit(2);
+
+    const [current, previous] = snapshots;
+    if (!current) {
+      return { category, period, periodStart: null, periodEnd: null, entries: [] };
+    }
+
+    const rows = await db.select({
+        rank: leaderboards.rank,
+        score: leaderboards.score,
+        user: {
+          id: users.id,
+          username: users.username,
+          displayName: users.displayName,
+          profileImageUrl: users.profileImageUrl,
+          isVerified: users.isVerified,
+        },
+      })
+      .from(leaderboards)
+      .innerJoin(users, eq(users.id, leaderboards.userId))
+      .where(and(
+        eq(leaderboards.category, category),
+        eq(leaderboards.period, period),
+        eq(leaderboards.periodEnd, current.periodEnd)
+      ))
+      .orderBy(asc(leaderboards.rank), asc(users.username))
+      .limit(limit);
+
+    const previousRanks = new Map<string, number>();
+    if (previous && rows.length > 0) {
+      const previousRows = await db.select({ userId: leaderboards.userId, rank: leaderboards.rank })
+        .from(leaderboards)
+        .where(and(
+          eq(leaderboards.category, category),
+          eq(leaderboards.period, period),
+          eq(leaderboards.periodEnd, previous.periodEnd),
+          inArray(leaderboards.userId, rows.map(row => row.user.id))
+        ));
+      previousRows.forEach(row => {
+        if (row.rank !== null) previousRanks.set(row.userId, row.rank);
+      });
+    }
+
+    return {
+      category,
+      period,
+      periodStart: current.periodStart,
+      periodEnd: current.periodEnd,
+      entries: rows.map(row => ({
+        rank: row.rank || 0,
+        score: row.score || 0,
+        previousRank: previousRanks.get(row.user.id) ?? null,
+        user: row.user,
+      })),
+    };
+  }
+
   // Delete post method (duplicate removed)
 
   // Update daily writing goals
@@ -2242,6 +4460,15 @@ export class DatabaseStorage implements IStorage {
     return updated[0];
   }
 
+  async updateUserTwoFactorRequirement(userId: string, twoFactorRequired: boolean): Promise<User> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorRequired })
+      .where(eq(users.id, userId))
+      .returning();
+    return updated[0];
+  }
+
   async updateUserSuperAdminStatus(userId: string, isSuperAdmin: boolean): Promise<User> {
     const updated = await db
       .update(users)
@@ -2252,6 +4479,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserVerificationStatus(userId: string, isVerified: boolean): Promise<User> {
+    if (isVerified) {
+      await this.assertCanBeVerified(userId);
+    }
     const updated = await db
       .update(users)
       .set({ isVerified })
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import type { TwoFactorSetup, UserTwoFactor } from "@shared/schema";
+
+const ISSUER = "Writers Guild";
+const RECOVERY_CODE_COUNT = 10;
+const STEP_SECONDS = 30;
+
+// Accept the previous and next code as well, for clocks that drift
+const totp = authenticator.clone({ step: STEP_SECONDS, window: 1 });
+
+export async function createTwoFactorSetup(accountName: string): Promise<TwoFactorSetup> {
+  const secret = totp.generateSecret(20); // 160 bits, as RFC 4226 recommends
+  const otpauthUrl = totp.keyuri(accountName, ISSUER, secret);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 });
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+// Codes are shown once as e.g. "3f9a-c21b-77d0" and only their hashes are kept
+export function createRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    crypto.randomBytes(6).toString("hex").match(/.{4}/g)!.join("-"),
+  );
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(code.toLowerCase().replace(/[^0-9a-f]/g, "")).digest("hex");
+}
+
+// The time step a code from the authenticator app belongs to, or null if it
+// isn't valid right now
+export function checkTotpCode(secret: string, code: string): number | null {
+  const token = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(token)) return null;
+  const delta = totp.checkDelta(token, secret);
+  if (delta === null) return null;
+  return Math.floor(Date.now() / 1000 / STEP_SECONDS) + delta;
+}
+
+export type TwoFactorCheck =
+  | { method: "totp"; step: number }
+  | { method: "recovery"; codeHash: string };
+
+// Accepts either a current authenticator code that hasn't been used yet, or
+// one of the unused recovery codes. This only reads the record; the code
+// counts as used once storage.useTwoFactorCode has claimed it.
+export function checkTwoFactorCode(record: UserTwoFactor, code: string): TwoFactorCheck | null {
+  const step = checkTotpCode(record.secret, code);
+  if (step !== null) {
+    return record.lastUsedStep !== null && step <= record.lastUsedStep ? null : { method: "totp", step };
+  }
+
+  const hash = hashRecoveryCode(code);
+  return record.recoveryCodes.includes(hash) ? { method: "recovery", codeHash: hash } : null;
+}
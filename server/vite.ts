@@ -5,6 +5,8 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { storage } from "./storage";
+import { withShareMetadata } from "./share-cards";
 
 const viteLogger = createLogger();
 
@@ -59,7 +61,7 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
       const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      res.status(200).set({ "Content-Type": "text/html" }).end(await withShareMetadata(storage, req, page));
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -79,7 +81,8 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  const indexHtml = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+  app.use("*", async (req, res) => {
+    res.set({ "Content-Type": "text/html" }).send(await withShareMetadata(storage, req, indexHtml));
   });
 }
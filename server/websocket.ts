@@ -0,0 +1,138 @@
+import { WebSocketServer, WebSocket } from "ws";
+import type { Server, IncomingMessage } from "http";
+import type { RequestHandler } from "express";
+import type { Notification } from "@shared/schema";
+import type { DatabaseStorage } from "./storage";
+
+export interface RealtimeEvent {
+  type: string;
+  payload: unknown;
+}
+
+export interface RealtimeServer {
+  sendToUser(userId: string, event: RealtimeEvent): void;
+  broadcastNotification(userId: string, notification: Notification | undefined): Promise<void>;
+  isUserOnline(userId: string): boolean;
+  disconnectSessions(sessionIds: string[]): void;
+}
+
+const HEARTBEAT_INTERVAL = 30 * 1000; // 30 seconds
+// Close code telling the client its session is gone and reconnecting won't help
+export const SESSION_ENDED_CLOSE_CODE = 4001;
+
+// Attach a WebSocket server to the HTTP server. Connections are authenticated
+// with the same express-session middleware used by the REST API, so only
+// logged-in users can open a socket and each socket is bound to its user and
+// session. Sockets are closed when their session is destroyed (logout,
+// revoking it, a password reset or turning on two-factor).
+export function setupWebSocket(
+  httpServer: Server,
+  sessionMiddleware: RequestHandler,
+  storage: DatabaseStorage,
+): RealtimeServer {
+  // Open sockets grouped by user ID (a user may have several tabs/devices)
+  const clients = new Map<string, Set<WebSocket>>();
+  const alive = new WeakMap<WebSocket, boolean>();
+  const sessionIds = new WeakMap<WebSocket, string>();
+
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: "/ws",
+    verifyClient: (info, done) => {
+      sessionMiddleware(info.req as any, {} as any, () => {
+        const userId = (info.req as any).session?.userId;
+        if (!userId) {
+          return done(false, 401, "Unauthorized");
+        }
+        done(true);
+      });
+    },
+  });
+
+  wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+    const userId: string = (req as any).session.userId;
+
+    if (!clients.has(userId)) {
+      clients.set(userId, new Set());
+    }
+    clients.get(userId)!.add(ws);
+    alive.set(ws, true);
+    sessionIds.set(ws, (req as any).sessionID);
+
+    ws.on("pong", () => alive.set(ws, true));
+
+    ws.on("close", () => {
+      const sockets = clients.get(userId);
+      if (sockets) {
+        sockets.delete(ws);
+        if (sockets.size === 0) {
+          clients.delete(userId);
+        }
+      }
+    });
+
+    ws.on("error", (error) => {
+      console.error(`WebSocket error for user ${userId}:`, error);
+    });
+
+    ws.send(JSON.stringify({ type: "connected", payload: { userId } }));
+  });
+
+  // Drop sockets that stopped answering pings (closed laptops, dead proxies)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (alive.get(ws) === false) {
+        return ws.terminate();
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  const sendToUser = (userId: string, event: RealtimeEvent) => {
+    const sockets = clients.get(userId);
+    if (!sockets) return;
+
+    const message = JSON.stringify(event);
+    sockets.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    });
+  };
+
+  const broadcastNotification = async (userId: string, notification: Notification | undefined) => {
+    // createNotification returns undefined when the recipient muted that type
+    // or the two users have blocked each other
+    if (!notification || !clients.has(userId)) return;
+
+    try {
+      const settings = await storage.getUserSettings(userId);
+      if (!settings.pushNotifications) return;
+
+      // Send the same shape GET /api/notifications returns (with actor and post)
+      const detailed = await storage.getNotificationWithDetails(notification.id);
+      sendToUser(userId, { type: "notification", payload: detailed || notification });
+    } catch (error) {
+      console.error("Error broadcasting notification:", error);
+    }
+  };
+
+  const isUserOnline = (userId: string) => clients.has(userId);
+
+  // The close handler above takes the sockets out of clients
+  const disconnectSessions = (ended: string[]) => {
+    if (ended.length === 0) return;
+    const endedIds = new Set(ended);
+    wss.clients.forEach((ws) => {
+      const sessionId = sessionIds.get(ws);
+      if (sessionId && endedIds.has(sessionId)) {
+        ws.close(SESSION_ENDED_CLOSE_CODE, "Session ended");
+      }
+    });
+  };
+
+  return { sendToUser, broadcastNotification, isUserOnline, disconnectSessions };
+}
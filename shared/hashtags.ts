@@ -0,0 +1,51 @@
+// Hashtag parsing shared by the server, which stores a post's hashtags, and
+// the client, which links them, so both agree on what counts as a hashtag.
+// This module must stay free of database imports so the client can use it.
+
+// A '#' not glued to a preceding word, URL fragment or HTML entity (&#39;),
+// followed by letters, digits and underscores with at least one letter
+const HASHTAG_PATTERN = new RegExp("(^|[^\\p{L}\\p{N}_&#/])#([\\p{L}\\p{N}_]*\\p{L}[\\p{L}\\p{N}_]*)", "gu");
+
+export const MAX_HASHTAG_LENGTH = 50;
+export const MAX_HASHTAGS_PER_POST = 30;
+
+export function normalizeHashtag(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+// Unique, lowercased hashtags in order of first appearance. HTML tags are
+// stripped first so markup from the rich text editor isn't matched.
+export function extractHashtags(content: string): string[] {
+  const text = content.replace(/<[^>]*>/g, " ");
+  const tags = new Set<string>();
+
+  for (const match of Array.from(text.matchAll(HASHTAG_PATTERN))) {
+    const tag = normalizeHashtag(match[2]);
+    if (tag.length <= MAX_HASHTAG_LENGTH) tags.add(tag);
+    if (tags.size >= MAX_HASHTAGS_PER_POST) break;
+  }
+
+  return Array.from(tags);
+}
+
+export type TextSegment = { type: "text"; text: string } | { type: "hashtag"; text: string; tag: string };
+
+// Splits plain text into text and hashtag segments for rendering
+export function splitHashtags(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(HASHTAG_PATTERN))) {
+    const start = match.index! + match[1].length;
+    if (start > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, start) });
+    }
+    segments.push({ type: "hashtag", text: `#${match[2]}`, tag: normalizeHashtag(match[2]) });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return segments;
+}
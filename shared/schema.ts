@@ -12,6 +12,7 @@ import {
   unique,
   real, // Make sure 'real' is imported if used, though original uses integer for likesCount.
   uniqueIndex, // Import uniqueIndex
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -25,14 +26,32 @@ export const sessions = pgTable(
     sess: jsonb("sess").notNull(),
     expire: timestamp("expire").notNull(),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)],
+  (table) => [
+    index("IDX_session_expire").on(table.expire),
+    index("IDX_session_user").on(sql`(${table.sess}->>'userId')`),
+  ],
 );
 
 // Users table  
+// Full-text search documents. Each table has a GIN index on its expression,
+// and search queries must build the same expression to use that index.
+// Usernames and bios use the 'simple' config so names aren't stemmed.
+export const searchDocuments = {
+  posts: (t: { title: AnyPgColumn; content: AnyPgColumn }) =>
+    sql`(setweight(to_tsvector('english', coalesce(${t.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${t.content}, '')), 'B'))`,
+  series: (t: { title: AnyPgColumn; description: AnyPgColumn; genre: AnyPgColumn }) =>
+    sql`(setweight(to_tsvector('english', coalesce(${t.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${t.description}, '')), 'B') || setweight(to_tsvector('english', coalesce(${t.genre}, '')), 'C'))`,
+  chapters: (t: { title: AnyPgColumn; content: AnyPgColumn }) =>
+    sql`(setweight(to_tsvector('english', coalesce(${t.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${t.content}, '')), 'B'))`,
+  users: (t: { username: AnyPgColumn; displayName: AnyPgColumn; bio: AnyPgColumn }) =>
+    sql`(setweight(to_tsvector('simple', coalesce(${t.username}, '') || ' ' || coalesce(${t.displayName}, '')), 'A') || setweight(to_tsvector('simple', coalesce(${t.bio}, '')), 'B'))`,
+};
+
 export const users = pgTable("users", {
   id: uuid("id").defaultRandom().primaryKey(),
   email: varchar("email").unique(),
   password: varchar("password"),
+  emailVerifiedAt: timestamp("email_verified_at"), // set once the owner follows a link sent to email
   displayName: varchar("display_name", { length: 255 }).notNull(),
   username: varchar("username", { length: 255 }).notNull().unique(),
   bio: text("bio"),
@@ -49,13 +68,55 @@ export const users = pgTable("users", {
   isVerified: boolean("is_verified").default(false),
   isAdmin: boolean("is_admin").default(false),
   isSuperAdmin: boolean("is_super_admin").default(false),
+  twoFactorRequired: boolean("two_factor_required").default(false), // set by super admins for admin accounts
   postsCount: integer("posts_count").default(0),
   commentsCount: integer("comments_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  searchIdx: index("users_search_idx").using("gin", searchDocuments.users(table)),
+}));
+
+// User settings table - privacy, notification and appearance preferences
+export const userSettings = pgTable("user_settings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  // Privacy
+  profileVisibility: varchar("profile_visibility").notNull().default("public"), // public, followers, private
+  showEmail: boolean("show_email").notNull().default(false),
+  showFollowers: boolean("show_followers").notNull().default(true),
+  showFollowing: boolean("show_following").notNull().default(true),
+  allowMessages: boolean("allow_messages").notNull().default(true),
+  allowCollaborations: boolean("allow_collaborations").notNull().default(true),
+  // Notifications
+  emailNotifications: boolean("email_notifications").notNull().default(true),
+  pushNotifications: boolean("push_notifications").notNull().default(true),
+  commentNotifications: boolean("comment_notifications").notNull().default(true),
+  followNotifications: boolean("follow_notifications").notNull().default(true),
+  collaborationNotifications: boolean("collaboration_notifications").notNull().default(true),
+  weeklyDigest: boolean("weekly_digest").notNull().default(true),
+  // Appearance
+  colorScheme: varchar("color_scheme").notNull().default("dark"), // light, dark, auto
+  fontSize: varchar("font_size").notNull().default("medium"), // small, medium, large
+  compactMode: boolean("compact_mode").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// TOTP two-factor authentication. Kept out of the users table so the secret
+// never ends up in the user objects the API returns.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: uuid("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret", { length: 64 }).notNull(),
+  recoveryCodes: text("recovery_codes").array().notNull(), // SHA-256 hashes of the unused codes
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code, so it can't be replayed
+  enabledAt: timestamp("enabled_at").defaultNow(),
 });
 
 // Posts table - Article/Column format
+// Drafts and scheduled posts are only visible to their author until published
+export const POST_STATUSES = ["draft", "scheduled", "published"] as const;
+
 export const posts = pgTable("posts", {
   id: uuid("id").defaultRandom().primaryKey(),
   authorId: uuid("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -67,6 +128,8 @@ export const posts = pgTable("posts", {
   coverImageUrl: text("cover_image_url"), // Article cover image
   readTimeMinutes: integer("read_time_minutes"), // Calculated read time
   publishedAt: timestamp("published_at"), // When article was published
+  status: varchar("status").notNull().default("published"), // draft, scheduled or published
+  scheduledFor: timestamp("scheduled_for"), // When a scheduled post goes live
   spotifyTrackId: varchar("spotify_track_id"), // Optional mood music
   spotifyTrackData: jsonb("spotify_track_data"),
   imageUrls: text("image_urls").array(), // Additional images in content
@@ -77,7 +140,10 @@ export const posts = pgTable("posts", {
   viewsCount: integer("views_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  searchIdx: index("posts_search_idx").using("gin", searchDocuments.posts(table)),
+  scheduledIdx: index("posts_status_scheduled_for_idx").on(table.status, table.scheduledFor),
+}));
 
 // Likes table
 export const likes = pgTable("likes", {
@@ -118,6 +184,28 @@ export const follows = pgTable("follows", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Blocks cut off follows, comments, mentions, collaborator invites and
+// notifications between two users in both directions
+export const userBlocks = pgTable("user_blocks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  blockerId: uuid("blocker_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  blockedId: uuid("blocked_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueBlock: unique().on(table.blockerId, table.blockedId),
+  blockedIdx: index("user_blocks_blocked_id_idx").on(table.blockedId),
+}));
+
+// Mutes only hide the muted user's posts and reposts from the muter
+export const userMutes = pgTable("user_mutes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  muterId: uuid("muter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  mutedId: uuid("muted_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueMute: unique().on(table.muterId, table.mutedId),
+}));
+
 // User Deactivations table - tracks account deactivations separately
 export const userDeactivations = pgTable("user_deactivations", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -157,11 +245,23 @@ export const postCollaborators = pgTable("post_collaborators", {
   uniquePostCollaborator: unique().on(table.postId, table.collaboratorId),
 }));
 
+// Post revisions: what a post said before each edit
+export const postRevisions = pgTable("post_revisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  postId: uuid("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  editorId: uuid("editor_id").references(() => users.id, { onDelete: "set null" }), // who made the edit
+  title: varchar("title", { length: 255 }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(), // when the edit replaced it
+}, (table) => ({
+  postCreatedIdx: index("post_revisions_post_created_idx").on(table.postId, table.createdAt),
+}));
+
 // Notifications table
 export const notifications = pgTable("notifications", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  type: varchar("type").notNull(), // like, comment, follow, repost, mention
+  type: varchar("type").notNull(), // like, comment, follow, repost, mention, new_chapter
   actorId: uuid("actor_id").references(() => users.id, { onDelete: "cascade" }),
   postId: uuid("post_id").references(() => posts.id, { onDelete: "cascade" }),
   isRead: boolean("is_read").default(false),
@@ -169,6 +269,40 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Direct message conversations, one-to-one or a small group. lastMessageAt
+// orders the inbox.
+export const conversations = pgTable("conversations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  title: varchar("title", { length: 100 }), // group conversations only
+  isGroup: boolean("is_group").notNull().default(false),
+  createdById: uuid("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastMessageAt: timestamp("last_message_at").defaultNow(),
+});
+
+// Who is in a conversation. lastReadAt is the read receipt: every message up
+// to it has been seen by that participant.
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  joinedAt: timestamp("joined_at").defaultNow(),
+  lastReadAt: timestamp("last_read_at"),
+}, (table) => ({
+  uniqueParticipant: unique().on(table.conversationId, table.userId),
+  userIdx: index("conversation_participants_user_id_idx").on(table.userId),
+}));
+
+export const messages = pgTable("messages", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  senderId: uuid("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  conversationIdx: index("messages_conversation_id_created_at_idx").on(table.conversationId, table.createdAt),
+}));
+
 // Writing goals table
 export const writingGoals = pgTable("writing_goals", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -220,7 +354,10 @@ export const series = pgTable("series", {
   followersCount: integer("followers_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  searchIdx: index("series_search_idx").using("gin", searchDocuments.series(table)),
+  tagsIdx: index("series_tags_idx").using("gin", table.tags),
+}));
 
 // Series chapters table
 export const chapters = pgTable("chapters", {
@@ -236,9 +373,13 @@ export const chapters = pgTable("chapters", {
   commentsCount: integer("comments_count").default(0),
   isPublished: boolean("is_published").default(false),
   publishedAt: timestamp("published_at"),
+  scheduledFor: timestamp("scheduled_for"), // release time of an unpublished chapter, if any
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  searchIdx: index("chapters_search_idx").using("gin", searchDocuments.chapters(table)),
+  scheduledIdx: index("chapters_published_scheduled_for_idx").on(table.isPublished, table.scheduledFor),
+}));
 
 // Series followers table
 export const seriesFollowers = pgTable("series_followers", {
@@ -256,6 +397,50 @@ export const seriesLikes = pgTable("series_likes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Series bookmarks table ("Want to read" shelf in the reading library)
+export const seriesBookmarks = pgTable("series_bookmarks", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  seriesId: uuid("series_id").notNull().references(() => series.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSeriesBookmark: unique().on(table.userId, table.seriesId),
+}));
+
+// Series reactions - one per user per story (or per chapter when chapterId is set)
+export const SERIES_REACTIONS = ["love", "laugh", "cry", "shock", "angry"] as const;
+
+export const seriesReactions = pgTable("series_reactions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  seriesId: uuid("series_id").notNull().references(() => series.id, { onDelete: "cascade" }),
+  chapterId: uuid("chapter_id").references(() => chapters.id, { onDelete: "cascade" }),
+  reaction: varchar("reaction", { length: 20 }).notNull(), // one of SERIES_REACTIONS
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSeriesChapterReaction: unique().on(table.userId, table.seriesId, table.chapterId).nullsNotDistinct(),
+}));
+
+// Chapter revisions: earlier versions of a chapter. Autosaves are the
+// editor's unsaved text, kept periodically and pruned; snapshots are named by
+// the author; saves are what an explicit save replaced.
+export const CHAPTER_REVISION_KINDS = ["autosave", "snapshot", "save"] as const;
+
+export const chapterRevisions = pgTable("chapter_revisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  chapterId: uuid("chapter_id").notNull().references(() => chapters.id, { onDelete: "cascade" }),
+  editorId: uuid("editor_id").references(() => users.id, { onDelete: "set null" }),
+  kind: varchar("kind").notNull(), // autosave, snapshot, save
+  name: varchar("name", { length: 100 }), // snapshots only
+  title: varchar("title", { length: 255 }).notNull(),
+  content: text("content").notNull(),
+  wordCount: integer("word_count").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  chapterCreatedIdx: index("chapter_revisions_chapter_created_idx").on(table.chapterId, table.createdAt),
+}));
+
 // Chapter likes table
 export const chapterLikes = pgTable("chapter_likes", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -273,35 +458,103 @@ export const chapterComments = pgTable("chapter_comments", {
   parentId: uuid("parent_id"),
   level: integer("level").default(0),
   likesCount: integer("likes_count").default(0),
+  // Optional inline anchor: paragraph index, plus a character range within it
+  paragraphIndex: integer("paragraph_index"),
+  anchorStart: integer("anchor_start"),
+  anchorEnd: integer("anchor_end"),
+  anchorText: text("anchor_text"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  chapterParagraphIdx: index("chapter_comments_chapter_paragraph_idx").on(table.chapterId, table.paragraphIndex),
+}));
+
+export const chapterCommentLikes = pgTable("chapter_comment_likes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  commentId: uuid("comment_id").notNull().references(() => chapterComments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserChapterComment: unique().on(table.userId, table.commentId),
+}));
+
+// Series comments table (story-level discussion, threaded like post comments)
+export const seriesComments = pgTable("series_comments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  seriesId: uuid("series_id").notNull().references(() => series.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  parentId: uuid("parent_id"),
+  level: integer("level").default(0),
+  likesCount: integer("likes_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const seriesCommentLikes = pgTable("series_comment_likes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  commentId: uuid("comment_id").notNull().references(() => seriesComments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSeriesComment: unique().on(table.userId, table.commentId),
+}));
+
 // Reading progress table
 export const readingProgress = pgTable("reading_progress", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   seriesId: uuid("series_id").notNull().references(() => series.id, { onDelete: "cascade" }),
   lastChapterId: uuid("last_chapter_id").references(() => chapters.id, { onDelete: "set null" }),
-  progressPercentage: integer("progress_percentage").default(0),
+  progressPercentage: integer("progress_percentage").default(0), // across the whole series
+  scrollPercentage: integer("scroll_percentage").default(0), // within lastChapterId
+  paragraphIndex: integer("paragraph_index").default(0), // first visible paragraph, for resuming
   lastReadAt: timestamp("last_read_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueUserSeriesProgress: unique().on(table.userId, table.seriesId),
+}));
+
+// Hashtags parsed from post content (see shared/hashtags.ts)
+export const hashtags = pgTable("hashtags", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  tag: varchar("tag", { length: 50 }).notNull().unique(), // lowercased, without the '#'
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const postHashtags = pgTable("post_hashtags", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  postId: uuid("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  hashtagId: uuid("hashtag_id").notNull().references(() => hashtags.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniquePostHashtag: unique().on(table.postId, table.hashtagId),
+  hashtagRecentIdx: index("post_hashtags_hashtag_created_idx").on(table.hashtagId, table.createdAt),
+}));
+
 // Leaderboards table
+export const LEADERBOARD_CATEGORIES = ["words_written", "likes_received", "series_followers", "writing_streak"] as const;
+export const LEADERBOARD_PERIODS = ["daily", "weekly", "monthly", "all_time"] as const;
+
+// One row per user per ranking snapshot. The snapshot job rewrites the current
+// period's rows on every run; rows for earlier periods are kept so ranks can
+// be compared against the previous period.
 export const leaderboards = pgTable("leaderboards", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  category: varchar("category").notNull(), // 'weekly_posts', 'monthly_words', 'likes_received', 'series_followers', etc.
-  period: varchar("period").notNull(), // 'daily', 'weekly', 'monthly', 'yearly', 'all_time'
+  category: varchar("category").notNull(), // one of LEADERBOARD_CATEGORIES
+  period: varchar("period").notNull(), // one of LEADERBOARD_PERIODS
   score: integer("score").default(0),
   rank: integer("rank"),
   periodStart: timestamp("period_start").notNull(),
   periodEnd: timestamp("period_end").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  uniqueLeaderboardEntry: unique().on(table.category, table.period, table.periodEnd, table.userId),
+  snapshotIdx: index("leaderboards_snapshot_idx").on(table.category, table.period, table.periodEnd, table.rank),
+}));
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
@@ -335,6 +588,19 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
   reposts: many(reposts),
   bookmarks: many(bookmarks),
   collaborators: many(postCollaborators),
+  hashtags: many(postHashtags),
+  revisions: many(postRevisions),
+}));
+
+export const postRevisionsRelations = relations(postRevisions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postRevisions.postId],
+    references: [posts.id],
+  }),
+  editor: one(users, {
+    fields: [postRevisions.editorId],
+    references: [users.id],
+  }),
 }));
 
 export const likesRelations = relations(likes, ({ one }) => ({
@@ -387,6 +653,9 @@ export const seriesRelations = relations(series, ({ one, many }) => ({
   chapters: many(chapters),
   followers: many(seriesFollowers),
   likes: many(seriesLikes),
+  comments: many(seriesComments),
+  bookmarks: many(seriesBookmarks),
+  reactions: many(seriesReactions),
   readingProgress: many(readingProgress),
 }));
 
@@ -397,6 +666,7 @@ export const chaptersRelations = relations(chapters, ({ one, many }) => ({
   }),
   likes: many(chapterLikes),
   comments: many(chapterComments),
+  revisions: many(chapterRevisions),
 }));
 
 export const seriesFollowersRelations = relations(seriesFollowers, ({ one }) => ({
@@ -421,6 +691,43 @@ export const seriesLikesRelations = relations(seriesLikes, ({ one }) => ({
   }),
 }));
 
+export const seriesBookmarksRelations = relations(seriesBookmarks, ({ one }) => ({
+  user: one(users, {
+    fields: [seriesBookmarks.userId],
+    references: [users.id],
+  }),
+  series: one(series, {
+    fields: [seriesBookmarks.seriesId],
+    references: [series.id],
+  }),
+}));
+
+export const seriesReactionsRelations = relations(seriesReactions, ({ one }) => ({
+  user: one(users, {
+    fields: [seriesReactions.userId],
+    references: [users.id],
+  }),
+  series: one(series, {
+    fields: [seriesReactions.seriesId],
+    references: [series.id],
+  }),
+  chapter: one(chapters, {
+    fields: [seriesReactions.chapterId],
+    references: [chapters.id],
+  }),
+}));
+
+export const chapterRevisionsRelations = relations(chapterRevisions, ({ one }) => ({
+  chapter: one(chapters, {
+    fields: [chapterRevisions.chapterId],
+    references: [chapters.id],
+  }),
+  editor: one(users, {
+    fields: [chapterRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
 export const chapterLikesRelations = relations(chapterLikes, ({ one }) => ({
   user: one(users, {
     fields: [chapterLikes.userId],
@@ -447,6 +754,47 @@ export const chapterCommentsRelations = relations(chapterComments, ({ one, many
     relationName: "parent",
   }),
   replies: many(chapterComments, { relationName: "parent" }),
+  likes: many(chapterCommentLikes),
+}));
+
+export const chapterCommentLikesRelations = relations(chapterCommentLikes, ({ one }) => ({
+  user: one(users, {
+    fields: [chapterCommentLikes.userId],
+    references: [users.id],
+  }),
+  comment: one(chapterComments, {
+    fields: [chapterCommentLikes.commentId],
+    references: [chapterComments.id],
+  }),
+}));
+
+export const seriesCommentsRelations = relations(seriesComments, ({ one, many }) => ({
+  user: one(users, {
+    fields: [seriesComments.userId],
+    references: [users.id],
+  }),
+  series: one(series, {
+    fields: [seriesComments.seriesId],
+    references: [series.id],
+  }),
+  parent: one(seriesComments, {
+    fields: [seriesComments.parentId],
+    references: [seriesComments.id],
+    relationName: "parent",
+  }),
+  replies: many(seriesComments, { relationName: "parent" }),
+  likes: many(seriesCommentLikes),
+}));
+
+export const seriesCommentLikesRelations = relations(seriesCommentLikes, ({ one }) => ({
+  user: one(users, {
+    fields: [seriesCommentLikes.userId],
+    references: [users.id],
+  }),
+  comment: one(seriesComments, {
+    fields: [seriesCommentLikes.commentId],
+    references: [seriesComments.id],
+  }),
 }));
 
 export const readingProgressRelations = relations(readingProgress, ({ one }) => ({
@@ -492,6 +840,28 @@ export const userDeactivationsRelations = relations(userDeactivations, ({ one })
   }),
 }));
 
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [userSettings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const hashtagsRelations = relations(hashtags, ({ many }) => ({
+  posts: many(postHashtags),
+}));
+
+export const postHashtagsRelations = relations(postHashtags, ({ one }) => ({
+  post: one(posts, {
+    fields: [postHashtags.postId],
+    references: [posts.id],
+  }),
+  hashtag: one(hashtags, {
+    fields: [postHashtags.hashtagId],
+    references: [hashtags.id],
+  }),
+}));
+
 export const leaderboardsRelations = relations(leaderboards, ({ one }) => ({
   user: one(users, {
     fields: [leaderboards.userId],
@@ -527,6 +897,8 @@ export const insertPostSchema = createInsertSchema(posts, {
   viewsCount: true,
   readTimeMinutes: true,
   publishedAt: true,
+  status: true,
+  scheduledFor: true,
 }).extend({
   spotifyTrackData: z.object({
     id: z.string(),
@@ -569,13 +941,95 @@ export const insertChapterSchema = createInsertSchema(chapters).omit({
   wordCount: true,
 });
 
-export const insertChapterCommentSchema = createInsertSchema(chapterComments).omit({
+export const insertChapterCommentSchema = createInsertSchema(chapterComments, {
+  content: z.string().trim().min(1).max(1000),
+  paragraphIndex: z.number().int().min(0).nullish(),
+  anchorStart: z.number().int().min(0).nullish(),
+  anchorEnd: z.number().int().min(0).nullish(),
+  anchorText: z.string().max(500).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  likesCount: true,
+  level: true,
+});
+
+export const insertSeriesCommentSchema = createInsertSchema(seriesComments, {
+  content: z.string().trim().min(1).max(1000),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   likesCount: true,
+  level: true,
+});
+
+// Manuscript import splits a file into chapters on its headings or on a
+// separator line such as "***"
+export const IMPORT_SPLIT_MODES = ["headings", "separator"] as const;
+export const MAX_IMPORTED_CHAPTERS = 200;
+
+export const importChaptersSchema = z.object({
+  chapters: z.array(z.object({
+    title: z.string().trim().min(1, "Every chapter needs a title").max(255),
+    content: z.string().trim().min(1),
+  })).min(1).max(MAX_IMPORTED_CHAPTERS),
+  publish: z.boolean().default(false),
+});
+
+// Two-factor codes: six digits from an authenticator app, or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(20),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+// Messaging limits. A group conversation holds the creator plus up to
+// MAX_CONVERSATION_PARTICIPANTS - 1 others.
+export const MAX_CONVERSATION_PARTICIPANTS = 8;
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export const createConversationSchema = z.object({
+  participantIds: z.array(z.string().uuid())
+    .min(1, "Choose someone to message")
+    .max(MAX_CONVERSATION_PARTICIPANTS - 1, `Conversations can have at most ${MAX_CONVERSATION_PARTICIPANTS} people`),
+  title: z.string().trim().max(100).optional(),
+});
+
+export const sendMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message can't be empty").max(MAX_MESSAGE_LENGTH),
+});
+
+// Email verification and password reset links
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(200),
 });
 
+export const updateUserSettingsSchema = createInsertSchema(userSettings, {
+  profileVisibility: z.enum(["public", "followers", "private"]),
+  colorScheme: z.enum(["light", "dark", "auto"]),
+  fontSize: z.enum(["small", "medium", "large"]),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial();
+
 export const insertPostCollaboratorSchema = createInsertSchema(postCollaborators).omit({
   id: true,
   createdAt: true,
@@ -587,15 +1041,19 @@ export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UserDeactivation = typeof userDeactivations.$inferSelect;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
 export type InsertPost = z.infer<typeof insertPostSchema>;
+export type PostStatus = typeof POST_STATUSES[number];
 export type Post = typeof posts.$inferSelect & {
   excerpt?: string | null;
   category?: string | null;
   author?: User;
-  likesCount?: number;
-  commentsCount?: number;
-  repostsCount?: number;
-  viewsCount?: number;
+  likesCount?: number | null;
+  commentsCount?: number | null;
+  repostsCount?: number | null;
+  viewsCount?: number | null;
   isLiked?: boolean;
   isBookmarked?: boolean;
   isReposted?: boolean;
@@ -608,9 +1066,14 @@ export type CommentLike = typeof commentLikes.$inferSelect;
 export type InsertCommentLike = typeof commentLikes.$inferInsert;
 export type Like = typeof likes.$inferSelect;
 export type Follow = typeof follows.$inferSelect;
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type UserMute = typeof userMutes.$inferSelect;
 export type Repost = typeof reposts.$inferSelect;
 export type Bookmark = typeof bookmarks.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+export type Message = typeof messages.$inferSelect;
 export type WritingGoal = typeof writingGoals.$inferSelect;
 
 // New types for series functionality
@@ -620,11 +1083,167 @@ export type Chapter = typeof chapters.$inferSelect;
 export type InsertChapter = z.infer<typeof insertChapterSchema>;
 export type ChapterComment = typeof chapterComments.$inferSelect;
 export type InsertChapterComment = z.infer<typeof insertChapterCommentSchema>;
+export type ChapterCommentLike = typeof chapterCommentLikes.$inferSelect;
+export type SeriesComment = typeof seriesComments.$inferSelect;
+export type InsertSeriesComment = z.infer<typeof insertSeriesCommentSchema>;
+export type SeriesCommentLike = typeof seriesCommentLikes.$inferSelect;
 export type SeriesFollower = typeof seriesFollowers.$inferSelect;
 export type SeriesLike = typeof seriesLikes.$inferSelect;
 export type ChapterLike = typeof chapterLikes.$inferSelect;
+export type SeriesBookmark = typeof seriesBookmarks.$inferSelect;
+export type SeriesReaction = typeof seriesReactions.$inferSelect;
+export type SeriesReactionType = typeof SERIES_REACTIONS[number];
+export type ReactionCounts = Record<SeriesReactionType, number>;
 export type ReadingProgress = typeof readingProgress.$inferSelect;
+export type ReadingShelf = "reading" | "want_to_read" | "finished";
+export type LibraryEntry = {
+  shelf: ReadingShelf;
+  series: Series & { author: Pick<User, "id" | "username" | "displayName" | "profileImageUrl"> | null };
+  isBookmarked: boolean;
+  bookmarkedAt: Date | null;
+  progressPercentage: number;
+  lastChapterId: string | null;
+  paragraphIndex: number;
+  lastReadAt: Date | null;
+};
+export type ReadingProgressUpdate = {
+  chapterId: string;
+  scrollPercentage: number;
+  paragraphIndex: number;
+};
+export type Hashtag = typeof hashtags.$inferSelect;
+export type FeedAuthor = Pick<User, "id" | "username" | "displayName" | "profileImageUrl" | "isVerified">;
+export type FeedPost = typeof posts.$inferSelect & {
+  author: FeedAuthor & Pick<User, "isAdmin" | "isSuperAdmin" | "userRole">;
+  collaborators: Pick<User, "id" | "username" | "displayName" | "profileImageUrl">[];
+  isLiked: boolean;
+  isBookmarked: boolean;
+  isReposted: boolean;
+};
+// Why a post is in the viewer's feed: written by a followed author, reposted
+// by a followed user (with their optional quote comment), or co-written by one
+export type FeedItemReason = "post" | "repost" | "collaboration";
+export type FeedItem = {
+  id: string; // unique per feed entry, since the same post can be reposted by several people
+  reason: FeedItemReason;
+  actor: FeedAuthor | null; // the followed reposter or collaborator
+  comment: string | null;
+  createdAt: Date;
+  post: FeedPost;
+};
+export type FeedPage = {
+  items: FeedItem[];
+  nextCursor: string | null;
+};
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type PostRevisionWithEditor = PostRevision & { editor: FeedAuthor | null };
+export type ChapterRevisionKind = typeof CHAPTER_REVISION_KINDS[number];
+export type ChapterRevision = typeof chapterRevisions.$inferSelect;
+// Revision lists leave out the content, which is fetched per revision
+export type ChapterRevisionSummary = Omit<ChapterRevision, "content">;
+export type ImportSplitMode = typeof IMPORT_SPLIT_MODES[number];
+export type ImportedChapter = {
+  title: string;
+  content: string; // HTML in the rich text editor's format
+  wordCount: number;
+};
+export type ManuscriptPreview = {
+  chapters: ImportedChapter[];
+  warnings: string[]; // conversion problems, e.g. unsupported Word features
+};
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean; // an admin made it mandatory for this account
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+// A signed-in session as listed on the settings page. The id is derived from
+// the session id so the real one never leaves the server.
+export type ActiveSession = {
+  id: string;
+  device: string; // e.g. "Firefox on Windows"
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+};
+// A conversation as the inbox and thread header show it. participants are
+// everyone in it, the viewer included, with their read receipts.
+export type ConversationSummary = Pick<Conversation, "id" | "title" | "isGroup" | "lastMessageAt"> & {
+  participants: (FeedAuthor & { lastReadAt: string | null })[];
+  lastMessage: Pick<Message, "id" | "senderId" | "content" | "createdAt"> | null;
+  unreadCount: number;
+};
+// Newest first; nextCursor fetches older messages
+export type MessagePage = {
+  messages: Message[];
+  nextCursor: string | null;
+};
+// An entry in the settings page's blocked or muted accounts list
+export type RestrictedUser = FeedAuthor & { since: string | null };
+export type TrendingHashtag = {
+  rank: number;
+  topic: string;
+  hashtag: string; // with the leading '#'
+  category: string; // most common post category among recent uses
+  posts: number; // uses inside the trending window
+  score: number;
+};
 export type Leaderboard = typeof leaderboards.$inferSelect;
+export type LeaderboardCategory = typeof LEADERBOARD_CATEGORIES[number];
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+export type LeaderboardEntry = {
+  rank: number;
+  score: number;
+  // Rank in the previous period's snapshot, null if the user wasn't ranked
+  previousRank: number | null;
+  user: Pick<User, "id" | "username" | "displayName" | "profileImageUrl" | "isVerified">;
+};
+export const SEARCH_TYPES = ["posts", "series", "chapters", "users"] as const;
+export type SearchResultType = typeof SEARCH_TYPES[number];
+export type SearchOptions = {
+  types: SearchResultType[];
+  category?: string; // posts only
+  genre?: string; // series and their chapters only
+  author?: string; // username; excludes user results
+  from?: Date;
+  to?: Date;
+  sort: "relevance" | "recent";
+  limit: number;
+  offset: number;
+  viewerId?: string; // leaves out users the viewer muted or blocked, and who blocked them
+};
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  // Matching excerpt with hits wrapped in <mark></mark>; the rest is raw user text
+  snippet: string;
+  rank: number;
+  createdAt: Date | null;
+  category: string | null;
+  genre: string | null;
+  series: { id: string; title: string } | null; // for chapters
+  author: Pick<User, "id" | "username" | "displayName" | "profileImageUrl" | "isVerified"> | null;
+};
+export type SearchPage = {
+  results: SearchResult[];
+  nextOffset: number | null;
+};
+export type LeaderboardSnapshot = {
+  category: LeaderboardCategory;
+  period: LeaderboardPeriod;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  entries: LeaderboardEntry[];
+};
 export type PostCollaborator = typeof postCollaborators.$inferSelect;
 export type InsertPostCollaborator = z.infer<typeof insertPostCollaboratorSchema>;
 export type Feedback = typeof feedback.$inferSelect;